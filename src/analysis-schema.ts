@@ -0,0 +1,132 @@
+/**
+ * JSON Schemas for the analyzer's LLM responses. An analysis reply, derived from
+ * `AnalysisResult`, is either `{"relevant": false}` or a relevant finding with the fields
+ * below; ranges and stage names are normalized by the analyzer afterwards, so only structure
+ * is enforced. A chunk extraction reply lists what one section of a long document says.
+ */
+
+import Ajv, { type ErrorObject } from "ajv";
+import { obligationTypes } from "./obligations";
+
+const nullableString = { type: ["string", "null"] };
+const stringList = { type: "array", items: { type: "string" } };
+const score = { type: "number" };
+
+export const analysisResponseSchema = {
+  $id: "analysis-response",
+  type: "object",
+  required: ["relevant"],
+  properties: {
+    relevant: { type: "boolean" },
+  },
+  if: { properties: { relevant: { const: true } } },
+  then: {
+    required: ["title", "jurisdiction", "stage", "ageBracket", "summary", "impactScore", "likelihoodScore", "confidenceScore", "chiliScore"],
+    properties: {
+      title: { type: "string", minLength: 1 },
+      jurisdiction: { type: "string", minLength: 1 },
+      jurisdictionState: nullableString,
+      stage: { type: "string", minLength: 1 },
+      ageBracket: { enum: ["13-15", "16-18", "both"] },
+      affectedProducts: stringList,
+      summary: { type: "string", minLength: 1 },
+      businessImpact: { type: "string" },
+      requiredSolutions: stringList,
+      competitorResponses: stringList,
+      impactScore: score,
+      likelihoodScore: score,
+      confidenceScore: score,
+      chiliScore: score,
+      // Dates are normalized and checked against the text afterwards (see dates.ts)
+      effectiveDate: nullableString,
+      publishedDate: nullableString,
+      citations: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["claim", "quote"],
+          properties: {
+            claim: { enum: ["effective_date", "age_threshold", "penalty", "stage"] },
+            quote: { type: "string", minLength: 1 },
+          },
+        },
+      },
+      ageThresholds: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["minAge", "maxAge", "rule", "text"],
+          properties: {
+            minAge: { type: ["integer", "null"] },
+            maxAge: { type: ["integer", "null"] },
+            rule: { enum: ["ban", "parental_consent", "age_verification", "restriction", "other"] },
+            text: { type: "string" },
+          },
+        },
+      },
+      obligations: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["type", "text"],
+          properties: {
+            type: { enum: obligationTypes },
+            provision: nullableString,
+            text: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+const quotedClaim = (valueField: string | null) => ({
+  type: "object",
+  required: ["text", "quote", ...(valueField ? [valueField] : [])],
+  properties: {
+    text: { type: "string", minLength: 1 },
+    quote: { type: "string", minLength: 1 },
+    ...(valueField ? { [valueField]: nullableString } : {}),
+  },
+});
+
+export const chunkExtractionSchema = {
+  $id: "chunk-extraction",
+  type: "object",
+  required: ["provisions", "dates", "ageThresholds"],
+  properties: {
+    provisions: { type: "array", items: quotedClaim(null) },
+    dates: { type: "array", items: quotedClaim("date") },
+    ageThresholds: { type: "array", items: quotedClaim("age") },
+  },
+} as const;
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validate = ajv.compile(analysisResponseSchema);
+const validateChunk = ajv.compile(chunkExtractionSchema);
+
+function describeError(error: ErrorObject): string {
+  const location = error.instancePath ? error.instancePath.slice(1).replace(/\//g, ".") : "response";
+  if (error.keyword === "enum") {
+    return `${location} must be one of: ${(error.params as { allowedValues: unknown[] }).allowedValues.join(", ")}`;
+  }
+  return `${location} ${error.message ?? "is invalid"}`;
+}
+
+function describeErrors(errors: ErrorObject[] | null | undefined): string[] {
+  const messages = (errors ?? [])
+    // The `if` keyword only reports that `then` failed; the specific errors are listed too
+    .filter((error) => error.keyword !== "if")
+    .map(describeError);
+  return [...new Set(messages)];
+}
+
+/** Validation errors for a parsed response, worded for the model; empty when it is valid */
+export function validateAnalysisResponse(value: unknown): string[] {
+  return validate(value) ? [] : describeErrors(validate.errors);
+}
+
+/** Validation errors for a parsed chunk extraction reply; empty when it is valid */
+export function validateChunkExtraction(value: unknown): string[] {
+  return validateChunk(value) ? [] : describeErrors(validateChunk.errors);
+}
@@ -1,13 +1,20 @@
 /**
- * LLM Analysis Pipeline using MiniMax M2.5 API (Anthropic-compatible endpoint).
+ * LLM Analysis Pipeline using the configured LLM provider (see `llm-provider.ts`).
  * Sends crawled text to determine relevance and extract structured regulation data.
  */
 
+import crypto from "node:crypto";
+import { validateAnalysisResponse, validateChunkExtraction } from "./analysis-schema";
+import { chunkText, locateQuote, type TextChunk } from "./chunking";
 import { type CrawledItem } from "./crawler";
+import { extractDates, reconcileDate, type DatePrecision } from "./dates";
+import { type AnalysisCache } from "./db";
+import { detectLanguage, languageName, UNDETERMINED_LANGUAGE } from "./language";
+import { resolveLlmProvider, type LlmProvider } from "./llm-provider";
+import { obligationsFromText, type Obligation } from "./obligations";
 
-const MINIMAX_API_URL = "https://api.minimax.io/anthropic/v1/messages";
-const MINIMAX_MODEL = "MiniMax-M2.5";
-let minimaxAuthFailed = false;
+/** Providers that rejected their credentials; analysis falls back to keyword heuristics */
+const authFailedProviders = new Set<string>();
 
 export type AnalysisResult = {
   relevant: boolean;
@@ -27,8 +34,110 @@ export type AnalysisResult = {
   chiliScore: number;
   effectiveDate: string | null;
   publishedDate: string | null;
+  /** How much of each date is known; a partial date is the first day of its month, quarter or year */
+  effectiveDatePrecision?: DatePrecision | null;
+  publishedDatePrecision?: DatePrecision | null;
+  /** Set for long documents analyzed in chunks: what each chunk says, with where it says it */
+  claims?: AnalysisClaim[];
+  /** Verbatim quotes the model gave for its key claims; checked against the text before storing */
+  citations?: AnalysisCitation[];
+  /** The exact ages the provisions apply to; `ageBracket` only says roughly which teens */
+  ageThresholds?: AgeThreshold[];
+  /** What the regulation requires, in the obligation taxonomy (see `obligations.ts`) */
+  obligations?: Obligation[];
 };
 
+export const ageRules = ["ban", "parental_consent", "age_verification", "restriction", "other"] as const;
+
+/** Ages a provision applies to, both inclusive; null leaves that end open ("under 16" is null to 15) */
+export type AgeThreshold = {
+  minAge: number | null;
+  maxAge: number | null;
+  rule: (typeof ageRules)[number];
+  /** What applies at these ages */
+  text: string;
+};
+
+/** Oldest age an extracted threshold may name */
+const MAX_THRESHOLD_AGE = 21;
+
+export const citedClaims = ["effective_date", "age_threshold", "penalty", "stage"] as const;
+
+/** A key claim of the analysis and the excerpt of the crawled text that supports it */
+export type AnalysisCitation = {
+  claim: (typeof citedClaims)[number];
+  quote: string;
+};
+
+export const analysisClaimKinds = ["provision", "date", "age_threshold"] as const;
+
+/** A provision, date or age threshold extracted from one chunk of a long document */
+export type AnalysisClaim = {
+  kind: (typeof analysisClaimKinds)[number];
+  /** What the document says, in the model's words */
+  text: string;
+  /** The date (YYYY-MM-DD when known) or age threshold of date and age claims */
+  value: string | null;
+  /** Verbatim excerpt the claim rests on */
+  quote: string;
+  chunkIndex: number;
+  /** Offsets of the quote in the item text; null when it is not there verbatim */
+  start: number | null;
+  end: number | null;
+};
+
+/** An item whose analysis was lost: the reply never validated, or the request failed */
+export type AnalysisFailure = {
+  item: CrawledItem;
+  kind: "invalid_response" | "request_failed";
+  /** Validation errors of the last reply, or the request error */
+  errors: string[];
+  /** The last reply received, if any */
+  rawResponse: string | null;
+  /** Requests made, including repair attempts */
+  attempts: number;
+  model: string;
+};
+
+export type AnalyzeOptions = {
+  /** Analyses of identical input from earlier runs; a hit skips the LLM call */
+  cache?: AnalysisCache;
+  onFailure?: (failure: AnalysisFailure) => void;
+};
+
+/**
+ * Version of ANALYSIS_PROMPT and of the way replies are normalized into an AnalysisResult.
+ * Bump it whenever either changes: cached analyses made under another version are not used.
+ */
+export const ANALYSIS_PROMPT_VERSION = 7;
+
+/** Inputs longer than this are analyzed in chunks; the single-pass prompt reads this much */
+const SINGLE_PASS_LIMIT = 8000;
+/** Opening text shown to the reduce step next to the extracted claims */
+const REDUCE_OPENING_LENGTH = 3000;
+/** Extracted claims shown to the reduce step */
+const REDUCE_CLAIMS_LENGTH = 8000;
+
+function envInteger(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value >= min ? value : fallback;
+}
+
+/** Repair requests after an invalid reply (default ANALYSIS_REPAIR_ATTEMPTS or 2) */
+function maxRepairAttempts(): number {
+  return envInteger("ANALYSIS_REPAIR_ATTEMPTS", 2, 0);
+}
+
+/** Characters per chunk of a long document (default ANALYSIS_CHUNK_SIZE or 6000) */
+function chunkSize(): number {
+  return envInteger("ANALYSIS_CHUNK_SIZE", 6000, 1000);
+}
+
+/** Chunks analyzed per document; text beyond them is not read (default ANALYSIS_MAX_CHUNKS or 20) */
+function maxChunks(): number {
+  return envInteger("ANALYSIS_MAX_CHUNKS", 20, 1);
+}
+
 const ANALYSIS_PROMPT = `You are a regulatory intelligence analyst specializing in teen online safety laws affecting Meta (Facebook, Instagram, WhatsApp, Threads, Messenger).
 
 Analyze the following crawled text and determine:
@@ -45,9 +154,11 @@ IMPORTANT: Mark as RELEVANT if the content relates to ANY of these topics (be IN
 - Online safety acts, digital services acts, or content moderation rules
 - Advertising/profiling restrictions for children or teens
 - Government consultations or proposals about children's online safety
-- Even if the text is noisy, partial HTML, or a general overview page — if the SOURCE URL or title suggests it is about child/teen regulation, mark it RELEVANT
+- Even if the text is short, partial, or a general overview page — if the SOURCE URL or title suggests it is about child/teen regulation, mark it RELEVANT
+
+NOTE: The crawled text is the page's main content converted to markdown (headings as #, list items as - or 1.). Extraction is heuristic, so some page chrome may remain or content may be partial — use the source context (title, URL, source name) as well to determine relevance.
 
-NOTE: The crawled text may be noisy HTML with navigation elements, cookie notices, etc. Focus on the core content and the source context (title, URL, source name) to determine relevance.
+LANGUAGE: The crawled text may be in any language; its detected language is given in the header. Write every field of your response in English, whatever the language of the text.
 
 Respond with ONLY a JSON object (no markdown, no code fences):
 
@@ -67,10 +178,19 @@ Respond with ONLY a JSON object (no markdown, no code fences):
   "likelihoodScore": 1-5,
   "confidenceScore": 1-5,
   "chiliScore": 1-5,
-  "effectiveDate": "YYYY-MM-DD or null",
-  "publishedDate": "YYYY-MM-DD or null"
+  "effectiveDate": "YYYY-MM-DD, YYYY-MM or YYYY (as much as the text states), or null",
+  "publishedDate": "YYYY-MM-DD, YYYY-MM or YYYY (as much as the text states), or null",
+  "citations": [{"claim": "one of: effective_date, age_threshold, penalty, stage", "quote": "verbatim excerpt"}],
+  "ageThresholds": [{"minAge": number or null, "maxAge": number or null, "rule": "one of: ban, parental_consent, age_verification, restriction, other", "text": "What applies at these ages"}],
+  "obligations": [{"type": "one of: age_assurance, parental_consent, default_privacy_settings, algorithmic_feed_restrictions, ad_profiling_ban, time_limits, risk_assessment, transparency_reporting, minimum_age, harmful_content_duties", "provision": "Section/article reference, e.g. \"s. 12\" or \"Article 28(2)\", or null", "text": "What the obligation requires"}]
 }
 
+OBLIGATIONS: Map each duty the regulation imposes on online services onto the obligation types: age_assurance (verify or estimate ages), parental_consent, default_privacy_settings, algorithmic_feed_restrictions (limits on recommender or personalised feeds), ad_profiling_ban (no profiling-based ads to minors), time_limits (curfews, usage caps, addictive design), risk_assessment, transparency_reporting, minimum_age (no accounts below an age) and harmful_content_duties. Give each the provision that imposes it as the text cites it, or null when the text does not say. Leave out duties that fit none of the types; they belong in requiredSolutions.
+
+AGE THRESHOLDS: List every age range a provision applies to, with both ages inclusive and null for an open end: "under 16" is {"minAge": null, "maxAge": 15}, "13 to 17" is {"minAge": 13, "maxAge": 17}, "16 and over" is {"minAge": 16, "maxAge": null}. Use "ban" when the service or feature is prohibited at those ages, "parental_consent" when a parent must consent, "age_verification" for age checks, "restriction" for other limits or duties, and "other" otherwise.
+
+CITATIONS: For each of the effective date, the age threshold, any penalty and the stage that the text states, add a citation whose "quote" is a short excerpt (at most 200 characters) copied verbatim from the crawled text, in its original language, that supports your answer. Leave out claims the text does not state; never paraphrase or invent a quote.
+
 Scoring guide:
 - impactScore: 1=negligible, 2=minor process change, 3=moderate product changes, 4=major feature redesign, 5=existential/platform-wide
 - likelihoodScore: 1=unlikely, 2=possible, 3=probable, 4=very likely, 5=certain/already enacted
@@ -79,6 +199,21 @@ Scoring guide:
 
 If the content is NOT relevant, return: {"relevant": false}`;
 
+const CHUNK_EXTRACTION_PROMPT = `You are reading one section of a long document about online regulation. Extract from THIS SECTION ONLY:
+- provisions: obligations, prohibitions or rights that apply to online services, platforms or their users
+- dates: commencement, effective, compliance deadline, consultation closing or publication dates
+- ageThresholds: ages or age ranges the text sets or relies on (e.g. "under 16", "13 to 17")
+
+Every entry needs "quote": a short excerpt (at most 200 characters) copied verbatim from the section that supports it. Write "text" in English.
+
+Respond with ONLY a JSON object (no markdown, no code fences), using empty arrays when the section has none:
+
+{
+  "provisions": [{"text": "What the provision requires", "quote": "verbatim excerpt"}],
+  "dates": [{"date": "YYYY-MM-DD or null", "text": "What happens on this date", "quote": "verbatim excerpt"}],
+  "ageThresholds": [{"age": "e.g. under 16", "text": "What applies at this age", "quote": "verbatim excerpt"}]
+}`;
+
 /** Clamp a score to valid 1-5 integer range */
 function clampScore(value: unknown): number {
   const num = typeof value === "number" ? value : Number(value);
@@ -104,6 +239,25 @@ function inferStageFromText(text: string): string {
   return "proposed";
 }
 
+/**
+ * The reply's effective and published dates, normalized and checked against the dates written
+ * in the item text (see `reconcileDate`); invalid or vague answers fall back to the text.
+ */
+function reconciledDates(
+  item: CrawledItem,
+  parsed: Record<string, unknown>,
+): Pick<AnalysisResult, "effectiveDate" | "effectiveDatePrecision" | "publishedDate" | "publishedDatePrecision"> {
+  const candidates = extractDates(item.text);
+  const effective = reconcileDate(parsed.effectiveDate, candidates, "effective");
+  const published = reconcileDate(parsed.publishedDate, candidates, "published");
+  return {
+    effectiveDate: effective?.date ?? null,
+    effectiveDatePrecision: effective?.precision ?? null,
+    publishedDate: published?.date ?? null,
+    publishedDatePrecision: published?.precision ?? null,
+  };
+}
+
 function buildFallbackAnalysis(item: CrawledItem): AnalysisResult {
   const fullText = `${item.title}\n${item.text}`.toLowerCase();
   const hasChildSignal = /(child|children|teen|minor|under\s*1[368]|youth|coppa)/.test(fullText);
@@ -131,52 +285,164 @@ function buildFallbackAnalysis(item: CrawledItem): AnalysisResult {
     likelihoodScore: 3,
     confidenceScore: 2,
     chiliScore: 3,
-    effectiveDate: null,
-    publishedDate: null,
+    ...reconciledDates(item, {}),
   };
 }
 
-/** Call MiniMax M2.5 API */
-async function callMiniMax(text: string, apiKey: string): Promise<string> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), 60_000);
+/** Ask the model to correct a reply that failed validation */
+function buildRepairPrompt(prompt: string, raw: string, errors: string[]): string {
+  return `${prompt}
 
-  try {
-    const response = await fetch(MINIMAX_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "x-api-key": apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: MINIMAX_MODEL,
-        max_tokens: 2048,
-        messages: [
-          {
-            role: "user",
-            content: `${ANALYSIS_PROMPT}\n\n--- CRAWLED TEXT ---\n${text.slice(0, 8000)}`,
-          },
-        ],
-      }),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text().catch(() => "");
-      throw new Error(`MiniMax API error ${response.status}: ${errorBody.slice(0, 200)}`);
-    }
+--- YOUR PREVIOUS RESPONSE ---
+${raw.slice(0, 4000)}
 
-    const data = (await response.json()) as {
-      content?: Array<{ type: string; text: string }>;
-    };
+--- VALIDATION ERRORS ---
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Your previous response did not match the required format. Respond again with ONLY the corrected JSON object.`;
+}
+
+/** Parse and validate a reply; errors are empty when it is valid */
+function checkLlmResponse(
+  raw: string,
+  validate: (value: unknown) => string[],
+): { parsed: Record<string, unknown> | null; errors: string[] } {
+  const parsed = parseLlmResponse(raw);
+  if (!parsed) return { parsed: null, errors: ["response is not a JSON object"] };
+  return { parsed, errors: validate(parsed) };
+}
 
-    const textContent = data.content?.find((c) => c.type === "text");
-    return textContent?.text ?? "";
-  } finally {
-    clearTimeout(timer);
+/** Requests made for one item so far, kept current so a failure can report them */
+type AttemptLog = { attempts: number; raw: string | null };
+
+/**
+ * Send a prompt and parse the reply. A reply that fails `validate` is sent back with its
+ * errors for up to `ANALYSIS_REPAIR_ATTEMPTS` repairs; request errors are thrown.
+ */
+async function completeValidated(
+  provider: LlmProvider,
+  prompt: string,
+  validate: (value: unknown) => string[],
+  log: AttemptLog,
+): Promise<{ parsed: Record<string, unknown> | null; errors: string[] }> {
+  log.attempts++;
+  log.raw = await provider.complete(prompt);
+  let { parsed, errors } = checkLlmResponse(log.raw, validate);
+
+  const repairs = maxRepairAttempts();
+  for (let repair = 0; errors.length > 0 && repair < repairs; repair++) {
+    log.attempts++;
+    log.raw = await provider.complete(buildRepairPrompt(prompt, log.raw, errors));
+    ({ parsed, errors } = checkLlmResponse(log.raw, validate));
+  }
+  return { parsed, errors };
+}
+
+function claimsFromChunk(parsed: Record<string, unknown>, chunk: TextChunk): AnalysisClaim[] {
+  const lists: Array<[AnalysisClaim["kind"], unknown, string | null]> = [
+    ["provision", parsed.provisions, null],
+    ["date", parsed.dates, "date"],
+    ["age_threshold", parsed.ageThresholds, "age"],
+  ];
+  const claims: AnalysisClaim[] = [];
+  for (const [kind, entries, valueField] of lists) {
+    for (const entry of entries as Array<Record<string, unknown>>) {
+      const quote = String(entry.quote);
+      const location = locateQuote(chunk.text, quote);
+      claims.push({
+        kind,
+        text: String(entry.text).slice(0, 1000),
+        value: valueField && typeof entry[valueField] === "string" ? String(entry[valueField]) : null,
+        quote: quote.slice(0, 1000),
+        chunkIndex: chunk.index,
+        start: location ? chunk.start + location.start : null,
+        end: location ? chunk.start + location.end : null,
+      });
+    }
+  }
+  return claims;
+}
+
+/** Map step: the claims of each chunk. A chunk whose reply never validates is skipped. */
+async function extractChunkClaims(
+  provider: LlmProvider,
+  item: CrawledItem,
+  header: string,
+  chunks: TextChunk[],
+  log: AttemptLog,
+): Promise<AnalysisClaim[]> {
+  const claims: AnalysisClaim[] = [];
+  for (const chunk of chunks) {
+    const section = `SECTION ${chunk.index + 1} OF ${chunks.length}${chunk.heading ? `: ${chunk.heading}` : ""}`;
+    const prompt = `${CHUNK_EXTRACTION_PROMPT}\n\n--- DOCUMENT ---\n${header}\n\n--- ${section} ---\n${chunk.text}`;
+    const { parsed, errors } = await completeValidated(provider, prompt, validateChunkExtraction, log);
+    if (!parsed || errors.length > 0) {
+      console.warn(`[analyzer] Skipping section ${chunk.index + 1} of "${item.title}": ${errors.join("; ")}`);
+      continue;
+    }
+    claims.push(...claimsFromChunk(parsed, chunk));
   }
+  return claims;
+}
+
+const claimLabels: Record<AnalysisClaim["kind"], string> = {
+  provision: "Provision",
+  date: "Date",
+  age_threshold: "Age threshold",
+};
+
+/** Reduce step: the analysis prompt over the document's opening and every chunk's claims */
+function buildReducePrompt(header: string, chunks: TextChunk[], claims: AnalysisClaim[]): string {
+  const claimLines = claims
+    .map((claim) => `- [section ${claim.chunkIndex + 1}] ${claimLabels[claim.kind]}${claim.value ? ` (${claim.value})` : ""}: ${claim.text} — "${claim.quote}"`)
+    .join("\n")
+    .slice(0, REDUCE_CLAIMS_LENGTH);
+  return `${ANALYSIS_PROMPT}
+
+NOTE: This is a long document, read in ${chunks.length} sections. Below are its opening and the provisions, dates and age thresholds extracted from every section, each with its verbatim quote; base your answer on all of them, not just the opening, and take citation quotes from them.
+
+--- CRAWLED TEXT ---
+${header}
+
+${chunks[0].text.slice(0, REDUCE_OPENING_LENGTH)}
+
+--- EXTRACTED FROM ALL SECTIONS ---
+${claimLines || "(nothing extracted)"}`;
+}
+
+/** Whole ages within range; entries without any age or with the ages reversed are dropped */
+function ageThresholdsFrom(entries: unknown[]): AgeThreshold[] {
+  const age = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_THRESHOLD_AGE ? value : null;
+  return (entries as Array<Record<string, unknown>>)
+    .map((entry) => ({
+      minAge: age(entry.minAge),
+      maxAge: age(entry.maxAge),
+      rule: entry.rule as AgeThreshold["rule"],
+      text: String(entry.text).slice(0, 1000),
+    }))
+    .filter(
+      (threshold) =>
+        (threshold.minAge !== null || threshold.maxAge !== null) &&
+        (threshold.minAge === null || threshold.maxAge === null || threshold.minAge <= threshold.maxAge),
+    );
+}
+
+/** The reply's obligations of known types; without any, those named by its free-text solutions */
+function obligationsFrom(parsed: Record<string, unknown>, requiredSolutions: string[]): Obligation[] {
+  if (!Array.isArray(parsed.obligations)) return obligationsFromText(requiredSolutions);
+  return (parsed.obligations as Array<Record<string, unknown>>).map((entry) => ({
+    type: entry.type as Obligation["type"],
+    provision: typeof entry.provision === "string" && entry.provision.trim() ? entry.provision.trim().slice(0, 200) : null,
+    text: String(entry.text).slice(0, 1000),
+  }));
+}
+
+function citationsFrom(entries: unknown[]): AnalysisCitation[] {
+  return (entries as Array<Record<string, unknown>>).map((entry) => ({
+    claim: entry.claim as AnalysisCitation["claim"],
+    quote: String(entry.quote).slice(0, 1000),
+  }));
 }
 
 /** Parse the LLM response JSON, handling common issues */
@@ -204,32 +470,63 @@ function parseLlmResponse(raw: string): Record<string, unknown> | null {
 }
 
 /**
- * Analyze a single crawled item using MiniMax M2.5.
- * Returns null if the API key is missing or the call fails.
+ * Analyze a single crawled item with an LLM provider, or with the configured provider
+ * when given an API key. A reply that fails schema validation is sent back with its errors
+ * for up to `ANALYSIS_REPAIR_ATTEMPTS` repairs. Returns null if the call fails or the reply
+ * never validates; the loss is reported through `onFailure`.
+ *
+ * Text too long for one prompt is map-reduced: each section-aware chunk has its provisions,
+ * dates and age thresholds extracted, and the analysis is made from those claims, which
+ * are returned with the chunk and offsets they came from.
  */
 export async function analyzeItem(
   item: CrawledItem,
-  apiKey: string,
+  llm: LlmProvider | string,
+  options: AnalyzeOptions = {},
 ): Promise<AnalysisResult | null> {
-  if (minimaxAuthFailed) {
+  const provider = resolveLlmProvider(llm);
+  if (authFailedProviders.has(provider.name)) {
     return buildFallbackAnalysis(item);
   }
 
+  const linkedFrom = item.parentUrl ? `\nLinked from: ${item.parentUrl}` : "";
+  const language = item.language ?? detectLanguage(`${item.title}\n${item.text}`);
+  const languageLine = language === UNDETERMINED_LANGUAGE ? "" : `\nLanguage: ${languageName(language)}`;
+  const header = `Source: ${item.source.name}\nURL: ${item.url}${linkedFrom}${languageLine}\nTitle: ${item.title}`;
+  const inputText = `${header}\n\n${item.text}`;
+  // Whitespace-only differences (re-wrapped feed text, reformatted pages) still hit the cache
+  const cacheKey = {
+    textHash: crypto.createHash("sha256").update(inputText.replace(/\s+/g, " ").trim()).digest("hex"),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    model: provider.model,
+  };
+  const cached = options.cache?.get(cacheKey);
+  if (cached) return cached;
+
+  const log: AttemptLog = { attempts: 0, raw: null };
   try {
-    const inputText = `Source: ${item.source.name}\nURL: ${item.url}\nTitle: ${item.title}\n\n${item.text}`;
-    const raw = await callMiniMax(inputText, apiKey);
-    const parsed = parseLlmResponse(raw);
+    let claims: AnalysisClaim[] | undefined;
+    let prompt = `${ANALYSIS_PROMPT}\n\n--- CRAWLED TEXT ---\n${inputText}`;
+    if (inputText.length > SINGLE_PASS_LIMIT) {
+      const chunks = chunkText(item.text, chunkSize()).slice(0, maxChunks());
+      claims = await extractChunkClaims(provider, item, header, chunks, log);
+      prompt = buildReducePrompt(header, chunks, claims);
+    }
+    const { parsed, errors } = await completeValidated(provider, prompt, validateAnalysisResponse, log);
 
-    if (!parsed) {
-      console.warn(`[analyzer] Failed to parse LLM response for "${item.title}"`);
+    if (!parsed || errors.length > 0) {
+      console.warn(`[analyzer] Invalid LLM response for "${item.title}" after ${log.attempts} attempts: ${errors.join("; ")}`);
+      options.onFailure?.({ item, kind: "invalid_response", errors, rawResponse: log.raw, attempts: log.attempts, model: provider.model });
       return null;
     }
 
     if (parsed.relevant === false) {
-      return { relevant: false } as AnalysisResult;
+      const irrelevant = { relevant: false } as AnalysisResult;
+      options.cache?.set(cacheKey, irrelevant);
+      return irrelevant;
     }
 
-    return {
+    const result: AnalysisResult = {
       relevant: true,
       title: String(parsed.title || item.title).slice(0, 500),
       jurisdiction: String(parsed.jurisdiction || item.source.jurisdictionCountry),
@@ -251,38 +548,46 @@ export async function analyzeItem(
       likelihoodScore: clampScore(parsed.likelihoodScore),
       confidenceScore: clampScore(parsed.confidenceScore),
       chiliScore: clampScore(parsed.chiliScore),
-      effectiveDate: typeof parsed.effectiveDate === "string" ? parsed.effectiveDate : null,
-      publishedDate: typeof parsed.publishedDate === "string" ? parsed.publishedDate : null,
+      ...reconciledDates(item, parsed),
+      ...(claims ? { claims } : {}),
+      ...(Array.isArray(parsed.citations) ? { citations: citationsFrom(parsed.citations) } : {}),
+      ...(Array.isArray(parsed.ageThresholds) ? { ageThresholds: ageThresholdsFrom(parsed.ageThresholds) } : {}),
     };
+    result.obligations = obligationsFrom(parsed, result.requiredSolutions);
+    options.cache?.set(cacheKey, result);
+    return result;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     if (/\b401\b|authentication_error|login fail/i.test(message)) {
-      minimaxAuthFailed = true;
+      authFailedProviders.add(provider.name);
       console.warn(`[analyzer] Authentication failed for "${item.title}", using fallback analysis`);
       return buildFallbackAnalysis(item);
     }
     console.warn(`[analyzer] Analysis failed for "${item.title}": ${message}`);
+    options.onFailure?.({ item, kind: "request_failed", errors: [message], rawResponse: log.raw, attempts: log.attempts, model: provider.model });
     return null;
   }
 }
 
 /**
  * Analyze multiple crawled items with concurrency control.
- * Skips items that fail or are not relevant.
+ * Skips items that fail or are not relevant; failures are reported through `onFailure`.
  */
 export async function analyzeItems(
   items: CrawledItem[],
-  apiKey: string,
+  llm: LlmProvider | string,
   concurrency = 3,
   onProgress?: (completed: number, total: number, title: string) => void,
+  options: AnalyzeOptions = {},
 ): Promise<Array<{ item: CrawledItem; analysis: AnalysisResult }>> {
   const results: Array<{ item: CrawledItem; analysis: AnalysisResult }> = [];
   let completed = 0;
+  const provider = resolveLlmProvider(llm);
 
   for (let i = 0; i < items.length; i += concurrency) {
     const batch = items.slice(i, i + concurrency);
     const analyses = await Promise.allSettled(
-      batch.map((item) => analyzeItem(item, apiKey)),
+      batch.map((item) => analyzeItem(item, provider, options)),
     );
 
     for (let j = 0; j < analyses.length; j++) {
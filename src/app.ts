@@ -3,7 +3,36 @@ import path from "node:path";
 import DatabaseConstructor from "better-sqlite3";
 import PDFDocument from "pdfkit";
 import { runPipeline } from "./pipeline";
-import { backfillLawsFromEvents, getLatestCrawlRun } from "./db";
+import { legislatureConnectorForUrl } from "./legislature-connectors";
+import { runLinkCheck } from "./link-checker";
+import { llmConfigError, llmConfigFromEnv } from "./llm-provider";
+import { openRawArchive } from "./raw-archive";
+import {
+  backfillLawsFromEvents,
+  createSource,
+  DEFAULT_QUARANTINE_THRESHOLD,
+  deleteSource,
+  getAnalysisFailures,
+  getCrawlSchedules,
+  getEventAgeThresholds,
+  getEventCitations,
+  getEventObligations,
+  getEventClaims,
+  getEventEvidence,
+  getLatestCrawlRun,
+  getSourceById,
+  getSourceHealth,
+  getLegislativeBillsForLaw,
+  getLinkCheckReport,
+  getSourcePageChanges,
+  listLinkCheckRuns,
+  listSources,
+  releaseSourceQuarantine,
+  updateSource,
+} from "./db";
+import { obligationDefinitions, obligationTypes, type ObligationType } from "./obligations";
+import { sourceTypes, type RegistrySource, type SourceType } from "./sources";
+import { validateSourceInput } from "./validation";
 
 type Stage =
   | "proposed"
@@ -42,8 +71,11 @@ type DbEventRow = {
   required_solutions: string | null;
   competitor_responses: string | null;
   source_url_link: string | null;
+  language: string | null;
   effective_date: string | null;
   published_date: string | null;
+  effective_date_precision: string | null;
+  published_date_precision: string | null;
   source_name: string;
   source_url: string;
   source_reliability_tier: number;
@@ -61,6 +93,7 @@ type DbLawRow = {
   law_type: string | null;
   stage: Stage | null;
   status: string | null;
+  stage_source: "legislature" | "inferred" | null;
   first_seen_at: string | null;
   last_seen_at: string | null;
   latest_effective_date: string | null;
@@ -213,6 +246,31 @@ const worldCoordinates: Record<string, { lat: number; lon: number }> = {
 const defaultBriefLimit = 5;
 const allowedRatings = new Set(["good", "bad"]);
 const allowedAgeBrackets = new Set(["13-15", "16-18", "both"]);
+const MAX_FILTER_AGE = 21;
+
+/** A law imposing an obligation, with the provisions that impose it */
+type ObligationLaw = {
+  lawKey: string;
+  lawName: string;
+  jurisdiction: { country: string; state: string | null; flag: string };
+  stage: string | null;
+  provisions: string[];
+};
+
+/**
+ * Condition for events (alias `e`) that apply to the age bound to its three placeholders: the
+ * event's exact age thresholds when its analysis found any, otherwise its age bracket.
+ */
+const eventAppliesToAge = `(
+  EXISTS (
+    SELECT 1 FROM event_age_thresholds t
+    WHERE t.event_id = e.id AND COALESCE(t.min_age, 0) <= ? AND COALESCE(t.max_age, ${MAX_FILTER_AGE}) >= ?
+  )
+  OR (
+    NOT EXISTS (SELECT 1 FROM event_age_thresholds t WHERE t.event_id = e.id)
+    AND ? BETWEEN (CASE e.age_bracket WHEN '16-18' THEN 16 ELSE 13 END) AND (CASE e.age_bracket WHEN '13-15' THEN 15 ELSE 17 END)
+  )
+)`;
 
 function parsePaging(value: unknown, defaultValue: number, maxValue?: number): number {
   if (value === undefined) return defaultValue;
@@ -305,8 +363,12 @@ function mapEvent(row: DbEventRow) {
     requiredSolutions: safeJsonParse(row.required_solutions),
     competitorResponses: safeJsonParse(row.competitor_responses),
     sourceUrlLink: row.source_url_link ?? null,
+    language: row.language ?? null,
     effectiveDate: row.effective_date,
     publishedDate: row.published_date,
+    // "day", "month", "quarter" or "year": partial dates are the first day of their period
+    effectiveDatePrecision: row.effective_date_precision ?? null,
+    publishedDatePrecision: row.published_date_precision ?? null,
     source: {
       name: row.source_name,
       url: row.source_url,
@@ -335,8 +397,11 @@ const eventSelectColumns = `
   e.required_solutions,
   e.competitor_responses,
   e.source_url_link,
+  e.language,
   e.effective_date,
   e.published_date,
+  e.effective_date_precision,
+  e.published_date_precision,
   e.updated_at,
   e.created_at,
   s.name AS source_name,
@@ -355,6 +420,7 @@ function createLawPrioritySelect(sqlLimit: number): string {
       l.law_type,
       l.stage,
       l.status,
+      l.stage_source,
       l.first_seen_at,
       l.last_seen_at,
       l.latest_effective_date,
@@ -430,6 +496,8 @@ function mapLawRow(row: DbLawRow) {
     },
     stage,
     status: row.status ?? stage,
+    /** "legislature" when the stage comes from a bill's recorded actions rather than event analysis */
+    stageSource: row.stage_source ?? "inferred",
     stageColor: stageColors[stage],
     updateCount: row.update_count,
     summary: cleanText(row.latest_update_summary),
@@ -664,6 +732,7 @@ export function createApp(db: DatabaseConstructor.Database) {
     ])];
 
     const minRisk = parseSingleInt(req.query.minRisk, 1, 5);
+    const age = parseSingleInt(req.query.age, 0, MAX_FILTER_AGE);
     const stage = typeof req.query.stage === "string" ? req.query.stage.trim() : "";
     const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
 
@@ -671,6 +740,10 @@ export function createApp(db: DatabaseConstructor.Database) {
       return res.status(400).json({ error: "minRisk must be an integer between 1 and 5" });
     }
 
+    if (req.query.age !== undefined && age === undefined) {
+      return res.status(400).json({ error: `age must be an integer between 0 and ${MAX_FILTER_AGE}` });
+    }
+
     if (stage && !allowedStages.includes(stage as Stage)) {
       return res.status(400).json({ error: "stage must use valid lifecycle values" });
     }
@@ -698,6 +771,14 @@ export function createApp(db: DatabaseConstructor.Database) {
       params.push(stage);
     }
 
+    // A law affects an age when any of its updates' events applies to it
+    if (age !== undefined) {
+      whereClauses.push(
+        `EXISTS (SELECT 1 FROM law_updates lu JOIN regulation_events e ON e.id = lu.event_id WHERE lu.law_id = l.id AND ${eventAppliesToAge})`,
+      );
+      params.push(age, age, age);
+    }
+
     if (q) {
       whereClauses.push("(l.law_name LIKE ? OR latest.update_title LIKE ? OR latest.update_summary LIKE ?)");
       const like = `%${q}%`;
@@ -737,6 +818,7 @@ export function createApp(db: DatabaseConstructor.Database) {
           l.law_type,
           l.stage,
           l.status,
+          l.stage_source,
           l.first_seen_at,
           l.last_seen_at,
           l.latest_effective_date,
@@ -811,6 +893,7 @@ export function createApp(db: DatabaseConstructor.Database) {
           l.law_type,
           l.stage,
           l.status,
+          l.stage_source,
           l.first_seen_at,
           l.last_seen_at,
           l.latest_effective_date,
@@ -893,6 +976,7 @@ export function createApp(db: DatabaseConstructor.Database) {
 
     res.json({
       ...mappedLaw,
+      bills: getLegislativeBillsForLaw(db, row.law_key),
       updates: mappedUpdates,
       timeline: mappedUpdates.map((update) => ({
         id: update.id,
@@ -955,6 +1039,84 @@ export function createApp(db: DatabaseConstructor.Database) {
     res.json({ status: "ok", ...stats, rebuiltAt: new Date().toISOString() });
   });
 
+  // Which laws impose each obligation in the taxonomy, and where; types no law imposes yet are listed empty
+  app.get("/api/obligations", (req: Request, res: Response) => {
+    const type = typeof req.query.type === "string" ? req.query.type.trim() : "";
+    const jurisdiction = typeof req.query.jurisdiction === "string" ? req.query.jurisdiction.trim() : "";
+
+    if (type && !obligationTypes.includes(type as ObligationType)) {
+      return res.status(400).json({ error: `type must be one of: ${obligationTypes.join(", ")}` });
+    }
+
+    const whereClauses: string[] = [];
+    const params: string[] = [];
+    if (type) {
+      whereClauses.push("o.obligation_type = ?");
+      params.push(type);
+    }
+    if (jurisdiction) {
+      whereClauses.push("(l.jurisdiction_country = ? OR l.jurisdiction_state = ?)");
+      params.push(jurisdiction, jurisdiction);
+    }
+    const where = whereClauses.length ? `WHERE ${whereClauses.join(" AND ")}` : "";
+
+    const rows = db
+      .prepare(
+        `
+        SELECT DISTINCT
+          o.obligation_type,
+          o.provision,
+          l.law_key,
+          l.law_name,
+          l.jurisdiction_country,
+          l.jurisdiction_state,
+          l.stage
+        FROM event_obligations o
+        JOIN law_updates lu ON lu.event_id = o.event_id
+        JOIN laws l ON l.id = lu.law_id
+        ${where}
+        ORDER BY l.jurisdiction_country, COALESCE(l.jurisdiction_state, ''), l.law_name, o.provision
+        `,
+      )
+      .all(...params) as Array<{
+      obligation_type: ObligationType;
+      provision: string | null;
+      law_key: string;
+      law_name: string;
+      jurisdiction_country: string;
+      jurisdiction_state: string | null;
+      stage: string | null;
+    }>;
+
+    const items = (type ? [type as ObligationType] : [...obligationTypes]).map((obligationType) => {
+      const laws = new Map<string, ObligationLaw>();
+      for (const row of rows.filter((candidate) => candidate.obligation_type === obligationType)) {
+        const law: ObligationLaw = laws.get(row.law_key) ?? {
+          lawKey: row.law_key,
+          lawName: decodeEntities(row.law_name) ?? row.law_name,
+          jurisdiction: {
+            country: row.jurisdiction_country,
+            state: row.jurisdiction_state || null,
+            flag: countryFlags[row.jurisdiction_state || row.jurisdiction_country] ?? countryFlags[row.jurisdiction_country] ?? "🌐",
+          },
+          stage: row.stage,
+          provisions: [],
+        };
+        if (row.provision && !law.provisions.includes(row.provision)) law.provisions.push(row.provision);
+        laws.set(row.law_key, law);
+      }
+      return {
+        type: obligationType,
+        ...obligationDefinitions[obligationType],
+        lawCount: laws.size,
+        jurisdictions: [...new Set([...laws.values()].map((law) => law.jurisdiction.state || law.jurisdiction.country))],
+        laws: [...laws.values()],
+      };
+    });
+
+    res.json({ items });
+  });
+
   app.get("/api/events", (req: Request, res: Response) => {
     const singleJurisdiction = typeof req.query.jurisdiction === "string" ? req.query.jurisdiction.trim() : "";
     const jurisdictionsRaw = typeof req.query.jurisdictions === "string" ? req.query.jurisdictions : "";
@@ -968,6 +1130,7 @@ export function createApp(db: DatabaseConstructor.Database) {
     const minRisk = parseSingleInt(req.query.minRisk, 1, 5);
     const maxRisk = parseSingleInt(req.query.maxRisk, 1, 5);
     const ageBracket = typeof req.query.ageBracket === "string" ? req.query.ageBracket.trim() : undefined;
+    const age = parseSingleInt(req.query.age, 0, MAX_FILTER_AGE);
     const dateFrom =
       typeof req.query.dateFrom === "string"
         ? req.query.dateFrom.trim()
@@ -1004,6 +1167,10 @@ export function createApp(db: DatabaseConstructor.Database) {
       return res.status(400).json({ error: "ageBracket must be one of: 13-15, 16-18, both" });
     }
 
+    if (req.query.age !== undefined && age === undefined) {
+      return res.status(400).json({ error: `age must be an integer between 0 and ${MAX_FILTER_AGE}` });
+    }
+
     const page = parsePaging(req.query.page, 1);
     const limit = parsePaging(req.query.limit, 10, 100);
     const offset = (page - 1) * limit;
@@ -1043,6 +1210,11 @@ export function createApp(db: DatabaseConstructor.Database) {
       params.push(ageBracket);
     }
 
+    if (age !== undefined) {
+      whereClauses.push(eventAppliesToAge);
+      params.push(age, age, age);
+    }
+
     if (dateFrom) {
       whereClauses.push("date(COALESCE(e.published_date, e.effective_date, substr(e.updated_at, 1, 10))) >= date(?)");
       params.push(dateFrom);
@@ -1126,13 +1298,15 @@ export function createApp(db: DatabaseConstructor.Database) {
       .prepare(
         `
       SELECT
-        ${eventSelectColumns}
+        ${eventSelectColumns},
+        e.raw_text,
+        e.translated_text
       FROM regulation_events e
       JOIN sources s ON s.id = e.source_id
       WHERE e.id = ?
     `,
       )
-      .get(id) as DbEventRow | undefined;
+      .get(id) as (DbEventRow & { raw_text: string | null; translated_text: string | null }) | undefined;
 
     if (!row) {
       return res.status(404).json({ error: "event not found" });
@@ -1184,6 +1358,17 @@ export function createApp(db: DatabaseConstructor.Database) {
 
     res.json({
       ...mapEvent(row),
+      // The crawled excerpt in its original language, with its English translation if it needed one
+      originalText: row.raw_text,
+      translatedText: row.translated_text,
+      // For long documents analyzed in chunks: each claim with its chunk and offsets in the crawled text
+      claims: getEventClaims(db, row.id),
+      // Quotes supporting the key claims; verified ones carry their offsets in the crawled text for highlighting
+      citations: getEventCitations(db, row.id),
+      // The exact ages the provisions apply to, with whether a ban, consent or other rule applies
+      ageThresholds: getEventAgeThresholds(db, row.id),
+      // Obligations in the taxonomy, each with the provision imposing it
+      obligations: getEventObligations(db, row.id),
       feedback: feedbackRows.map((feedback) => ({
         id: feedback.id,
         eventId: feedback.event_id,
@@ -1250,6 +1435,45 @@ export function createApp(db: DatabaseConstructor.Database) {
     });
   });
 
+  app.get("/api/events/:id/evidence", (req: Request, res: Response) => {
+    const id = String(req.params.id);
+    const exists = db.prepare("SELECT 1 FROM regulation_events WHERE id = ?").get(id);
+    if (!exists) {
+      res.status(404).json({ error: "event not found" });
+      return;
+    }
+
+    const evidence = getEventEvidence(db, id);
+    if (!evidence) {
+      res.status(404).json({ error: "no archived snapshot for this event" });
+      return;
+    }
+
+    const archive = openRawArchive(db);
+    const snapshots = evidence.artifacts.map((artifact) => {
+      let body: Buffer | null = null;
+      try {
+        body = archive?.read(artifact.sha256) ?? null;
+      } catch (error) {
+        console.warn(`[evidence] ${error instanceof Error ? error.message : String(error)}`);
+      }
+      // Text bodies are returned as is; PDFs and other binary documents as base64
+      const isText = !artifact.contentType || /^text\/|json|xml|html/i.test(artifact.contentType);
+      return {
+        ...artifact,
+        encoding: body ? (isText ? "utf8" : "base64") : null,
+        content: body ? body.toString(isText ? "utf8" : "base64") : null,
+      };
+    });
+
+    res.json({
+      eventId: id,
+      linkedAt: evidence.linkedAt,
+      snapshots,
+      earlierSnapshots: evidence.earlierArtifacts,
+    });
+  });
+
   app.patch("/api/events/:id", (req: Request, res: Response) => {
     const { id } = req.params;
     const body = req.body as Record<string, unknown>;
@@ -2194,6 +2418,230 @@ export function createApp(db: DatabaseConstructor.Database) {
     res.json({ items });
   });
 
+  // GET /api/sources — the source registry, optionally filtered by enabled flag and type
+  app.get("/api/sources", (req: Request, res: Response) => {
+    const enabled = req.query.enabled === "true" ? true : req.query.enabled === "false" ? false : undefined;
+    if (req.query.enabled !== undefined && enabled === undefined) {
+      return res.status(400).json({ error: "enabled must be true or false" });
+    }
+
+    const type = typeof req.query.type === "string" ? req.query.type : undefined;
+    if (type !== undefined && !(sourceTypes as readonly string[]).includes(type)) {
+      return res.status(400).json({ error: `type must be one of ${sourceTypes.join(", ")}` });
+    }
+
+    const items = listSources(db, { enabled, type: type as SourceType | undefined });
+    res.json({ total: items.length, items });
+  });
+
+  // POST /api/sources — add a source to the registry; it is crawled from the next run
+  app.post("/api/sources", (req: Request, res: Response) => {
+    const validation = validateSourceInput(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.errors.join("; ") });
+    }
+
+    const source = validation.value as RegistrySource & { enabled?: boolean };
+    if (db.prepare("SELECT 1 FROM sources WHERE name = ? OR url = ?").get(source.name, source.url)) {
+      return res.status(409).json({ error: "a source with this name or url already exists" });
+    }
+
+    const id = createSource(db, source, source.enabled ?? true);
+    res.status(201).json(getSourceById(db, id));
+  });
+
+  // GET /api/sources/link-check — latest (or ?runId=) link-check report: redirects, soft-404s, broken URLs
+  app.get("/api/sources/link-check", (req: Request, res: Response) => {
+    const runId = parseSingleInt(req.query.runId, 1);
+    if (req.query.runId !== undefined && runId === undefined) {
+      return res.status(400).json({ error: "runId must be a positive integer" });
+    }
+
+    const allowedStatuses = new Set(["ok", "redirected", "soft_404", "broken", "error"]);
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    if (status !== undefined && !allowedStatuses.has(status)) {
+      return res.status(400).json({ error: "status must be one of ok, redirected, soft_404, broken, error" });
+    }
+
+    const report = getLinkCheckReport(db, runId);
+    if (!report) {
+      return res.status(404).json({ error: runId === undefined ? "no link check has run yet" : "link check run not found" });
+    }
+
+    res.json(status ? { ...report, items: report.items.filter((item) => item.status === status) } : report);
+  });
+
+  // GET /api/sources/link-check/runs — recent link-check runs with per-status counts
+  app.get("/api/sources/link-check/runs", (req: Request, res: Response) => {
+    const limit = parsePaging(req.query.limit, 20, 100);
+    res.json({ items: listLinkCheckRuns(db, limit) });
+  });
+
+  // POST /api/sources/link-check — check every source URL in the background
+  app.post("/api/sources/link-check", (_req: Request, res: Response) => {
+    const [latest] = listLinkCheckRuns(db, 1);
+    if (latest?.status === "running") {
+      return res.status(409).json({ error: "A link check is already running", runId: latest.id, startedAt: latest.startedAt });
+    }
+
+    res.json({
+      status: "started",
+      message: "Link check started. Check /api/sources/link-check for the report.",
+    });
+
+    runLinkCheck(db)
+      .then((report) => {
+        console.log(
+          `[link-check] Completed: ${report.counts.broken + report.counts.soft_404} broken, ${report.sourcesUpdated} URLs updated`,
+        );
+      })
+      .catch((err) => {
+        console.error("[link-check] Failed:", err);
+      });
+  });
+
+  // GET /api/sources/health — latest crawl outcome, failure streak and quarantine per source
+  app.get("/api/sources/health", (req: Request, res: Response) => {
+    const allowedHealth = new Set(["healthy", "failing", "quarantined", "unknown"]);
+    const health = typeof req.query.health === "string" ? req.query.health : undefined;
+    if (health !== undefined && !allowedHealth.has(health)) {
+      return res.status(400).json({ error: "health must be one of healthy, failing, quarantined, unknown" });
+    }
+
+    const items = getSourceHealth(db);
+    const filtered = health ? items.filter((item) => item.health === health) : items;
+    const count = (value: string) => items.filter((item) => item.health === value).length;
+
+    res.json({
+      quarantineThreshold: Number(process.env.CRAWL_QUARANTINE_THRESHOLD) || DEFAULT_QUARANTINE_THRESHOLD,
+      summary: {
+        total: items.length,
+        healthy: count("healthy"),
+        failing: count("failing"),
+        quarantined: count("quarantined"),
+        unknown: count("unknown"),
+      },
+      items: filtered.sort((a, b) => b.failureStreak - a.failureStreak || a.name.localeCompare(b.name)),
+    });
+  });
+
+  // DELETE /api/sources/:id/quarantine — put a quarantined source back into crawls
+  app.delete("/api/sources/:id/quarantine", (req: Request, res: Response) => {
+    const sourceId = parseSingleInt(req.params.id, 1);
+    if (sourceId === undefined) {
+      return res.status(400).json({ error: "source id must be a positive integer" });
+    }
+
+    if (!releaseSourceQuarantine(db, sourceId)) {
+      return res.status(404).json({ error: "source not found" });
+    }
+
+    res.json({ sourceId, quarantined: false });
+  });
+
+  // GET /api/sources/:id
+  app.get("/api/sources/:id", (req: Request, res: Response) => {
+    const sourceId = parseSingleInt(req.params.id, 1);
+    if (sourceId === undefined) {
+      return res.status(400).json({ error: "source id must be a positive integer" });
+    }
+
+    const source = getSourceById(db, sourceId);
+    if (!source) {
+      return res.status(404).json({ error: "source not found" });
+    }
+
+    res.json(source);
+  });
+
+  // PATCH /api/sources/:id — edit registry fields; null clears an optional field
+  app.patch("/api/sources/:id", (req: Request, res: Response) => {
+    const sourceId = parseSingleInt(req.params.id, 1);
+    if (sourceId === undefined) {
+      return res.status(400).json({ error: "source id must be a positive integer" });
+    }
+
+    const validation = validateSourceInput(req.body, { partial: true });
+    if (!validation.valid) {
+      return res.status(400).json({ error: validation.errors.join("; ") });
+    }
+    const patch = validation.value;
+    if (Object.keys(patch).length === 0) {
+      return res.status(400).json({ error: "No valid fields to update" });
+    }
+
+    const existing = getSourceById(db, sourceId);
+    if (!existing) {
+      return res.status(404).json({ error: "source not found" });
+    }
+
+    const type = patch.type ?? existing.type;
+    const twitterQuery = patch.twitterQuery === undefined ? existing.twitterQuery : patch.twitterQuery;
+    if (type === "twitter_search" && !twitterQuery) {
+      return res.status(400).json({ error: "twitterQuery is required for twitter_search sources" });
+    }
+    if (type === "legislature_api" && !legislatureConnectorForUrl(patch.url ?? existing.url)) {
+      return res.status(400).json({
+        error: "url must be a Congress.gov, Open States or UK Parliament bills API URL for legislature_api sources",
+      });
+    }
+
+    const conflict = db
+      .prepare("SELECT 1 FROM sources WHERE (name = ? OR url = ?) AND id != ?")
+      .get(patch.name ?? existing.name, patch.url ?? existing.url, sourceId);
+    if (conflict) {
+      return res.status(409).json({ error: "a source with this name or url already exists" });
+    }
+
+    res.json(updateSource(db, sourceId, patch));
+  });
+
+  // DELETE /api/sources/:id — sources with recorded events must be disabled instead
+  app.delete("/api/sources/:id", (req: Request, res: Response) => {
+    const sourceId = parseSingleInt(req.params.id, 1);
+    if (sourceId === undefined) {
+      return res.status(400).json({ error: "source id must be a positive integer" });
+    }
+
+    const outcome = deleteSource(db, sourceId);
+    if (outcome === "not_found") {
+      return res.status(404).json({ error: "source not found" });
+    }
+    if (outcome === "in_use") {
+      return res.status(409).json({ error: "source has recorded events; disable it with enabled=false instead" });
+    }
+
+    return res.status(204).send();
+  });
+
+  // GET /api/sources/:id/changes — paragraphs added/removed between page snapshots
+  app.get("/api/sources/:id/changes", (req: Request, res: Response) => {
+    const sourceId = parseSingleInt(req.params.id, 1);
+    if (sourceId === undefined) {
+      return res.status(400).json({ error: "source id must be a positive integer" });
+    }
+
+    const source = db.prepare("SELECT id, name, url FROM sources WHERE id = ?").get(sourceId) as
+      | { id: number; name: string; url: string }
+      | undefined;
+    if (!source) {
+      return res.status(404).json({ error: "source not found" });
+    }
+
+    const limit = parsePaging(req.query.limit, 20, 100);
+    const snapshotCount = (db.prepare("SELECT COUNT(*) AS c FROM page_snapshots WHERE source_id = ?").get(sourceId) as { c: number }).c;
+    const items = getSourcePageChanges(db, sourceId, limit);
+
+    res.json({
+      sourceId: source.id,
+      sourceName: source.name,
+      sourceUrl: source.url,
+      snapshotCount,
+      total: items.length,
+      items,
+    });
+  });
+
   app.get("/api/jurisdictions", (_req: Request, res: Response) => {
     const rows = db
       .prepare("SELECT DISTINCT jurisdiction_country AS country FROM regulation_events ORDER BY jurisdiction_country ASC")
@@ -2204,11 +2652,10 @@ export function createApp(db: DatabaseConstructor.Database) {
 
   // POST /api/crawl — trigger a full crawl + analysis run
   app.post("/api/crawl", async (_req: Request, res: Response) => {
-    const apiKey = process.env.MINIMAX_API_KEY;
-    if (!apiKey) {
-      return res.status(500).json({
-        error: "MINIMAX_API_KEY not configured. Set it as an environment variable.",
-      });
+    const llm = llmConfigFromEnv();
+    const configError = llmConfigError(llm);
+    if (configError) {
+      return res.status(500).json({ error: configError });
     }
 
     // Check if a crawl is already running
@@ -2228,7 +2675,7 @@ export function createApp(db: DatabaseConstructor.Database) {
     });
 
     // Run in background
-    runPipeline(db, apiKey, {
+    runPipeline(db, llm.apiKey ?? "", {
       onProgress: (_stage, message) => {
         console.log(`[crawl] ${message}`);
       },
@@ -2265,6 +2712,18 @@ export function createApp(db: DatabaseConstructor.Database) {
       });
   });
 
+  // GET /api/crawl/schedule — per-source cadence, next runs and skipped runs
+  app.get("/api/crawl/schedule", (_req: Request, res: Response) => {
+    const schedules = getCrawlSchedules(db);
+
+    res.json({
+      enabled: process.env.CRAWL_SCHEDULER_ENABLED === "true",
+      nextRunAt: schedules[0]?.nextRunAt ?? null,
+      totalSkippedRuns: schedules.reduce((sum, schedule) => sum + schedule.skippedRuns, 0),
+      items: schedules,
+    });
+  });
+
   // GET /api/crawl/status — check crawl status
   app.get("/api/crawl/status", (_req: Request, res: Response) => {
     const lastRun = getLatestCrawlRun(db);
@@ -2281,8 +2740,26 @@ export function createApp(db: DatabaseConstructor.Database) {
       itemsNew: lastRun.itemsNew,
       itemsUpdated: lastRun.itemsUpdated,
       errorMessage: lastRun.errorMessage,
+      robotsBlockedSources: lastRun.robotsBlockedSources,
+      analysisCacheHits: lastRun.analysisCacheHits,
+      analysisCacheMisses: lastRun.analysisCacheMisses,
+      analysisFailures: getAnalysisFailures(db, lastRun.id).length,
     });
   });
 
+  // GET /api/crawl/runs/:id/analysis-failures — items whose analysis was lost in a run
+  app.get("/api/crawl/runs/:id/analysis-failures", (req: Request, res: Response) => {
+    const runId = parseSingleInt(req.params.id, 1);
+    if (runId === undefined) {
+      return res.status(400).json({ error: "run id must be a positive integer" });
+    }
+    if (!db.prepare("SELECT 1 FROM crawl_runs WHERE id = ?").get(runId)) {
+      return res.status(404).json({ error: "crawl run not found" });
+    }
+
+    const items = getAnalysisFailures(db, runId);
+    res.json({ runId, total: items.length, items });
+  });
+
   return app;
 }
@@ -0,0 +1,99 @@
+/**
+ * Section-aware splitting of long documents for chunked analysis. Chunks break at section
+ * headings (markdown headings, Part/Chapter/Section/Article/Schedule lines and their
+ * non-English equivalents) where possible, then at paragraphs, sentences or spaces.
+ */
+
+export type TextChunk = {
+  index: number;
+  /** Character offsets of the chunk in the original text */
+  start: number;
+  end: number;
+  text: string;
+  /** The section heading the chunk starts in, if any */
+  heading: string | null;
+};
+
+const headingLine =
+  /^(?:#{1,6}\s+\S.*|(?:part|chapter|section|article|schedule|annex|appendix|title|clause|art(?:igo|ículo|icolo|ikel)?\.?)\s+[0-9ivxlc]+[a-z]?\b.*|§+\s*\d+.*|第[0-9一二三四五六七八九十百]+[条章節编]\S*.*|제\s*\d+\s*[조장].*)$/gim;
+
+/** Offsets where sections start; 0 is always one */
+function sectionStarts(text: string): Array<{ start: number; heading: string | null }> {
+  const starts: Array<{ start: number; heading: string | null }> = [{ start: 0, heading: null }];
+  for (const match of text.matchAll(headingLine)) {
+    const heading = match[0].trim().replace(/^#+\s*/, "").slice(0, 200);
+    if (match.index === 0) starts[0].heading = heading;
+    else starts.push({ start: match.index!, heading });
+  }
+  return starts;
+}
+
+/** End of the next piece of an oversized section: a paragraph, sentence or word break before the limit */
+function breakBefore(text: string, start: number, limit: number): number {
+  const window = text.slice(start, start + limit);
+  for (const separator of ["\n\n", "\n", ". ", " "]) {
+    const at = window.lastIndexOf(separator);
+    if (at >= limit / 2) return start + at + separator.length;
+  }
+  return start + limit;
+}
+
+/**
+ * Split `text` into chunks of at most `maxLength` characters. Whole sections are packed
+ * together while they fit; a section longer than a chunk is split on its own.
+ */
+export function chunkText(text: string, maxLength: number): TextChunk[] {
+  const sections = sectionStarts(text);
+  const pieces: Array<{ start: number; end: number; heading: string | null }> = [];
+  sections.forEach((section, i) => {
+    const sectionEnd = i + 1 < sections.length ? sections[i + 1].start : text.length;
+    let start = section.start;
+    while (sectionEnd - start > maxLength) {
+      const end = breakBefore(text, start, maxLength);
+      pieces.push({ start, end, heading: section.heading });
+      start = end;
+    }
+    if (sectionEnd > start) pieces.push({ start, end: sectionEnd, heading: section.heading });
+  });
+
+  const chunks: TextChunk[] = [];
+  let current: { start: number; end: number; heading: string | null } | null = null;
+  for (const piece of pieces) {
+    if (current && piece.end - current.start <= maxLength) {
+      current.end = piece.end;
+      continue;
+    }
+    if (current) chunks.push({ index: chunks.length, ...current, text: text.slice(current.start, current.end) });
+    current = { ...piece };
+  }
+  if (current) chunks.push({ index: chunks.length, ...current, text: text.slice(current.start, current.end) });
+  return chunks;
+}
+
+/**
+ * Offsets of `quote` in `text`, searching from `from`. Whitespace may differ (the model
+ * tends to re-wrap lines), and so may letter case with `ignoreCase`; null when the quote is
+ * not there.
+ */
+export function locateQuote(
+  text: string,
+  quote: string,
+  from = 0,
+  ignoreCase = false,
+): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const exact = ignoreCase ? -1 : text.indexOf(trimmed, from);
+  if (exact >= 0) return { start: exact, end: exact + trimmed.length };
+
+  const pattern = new RegExp(
+    trimmed
+      .split(/\s+/)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+"),
+    ignoreCase ? "gi" : "g",
+  );
+  pattern.lastIndex = from;
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Grounding of the analyzer's citations: every quote the model gives for a key claim is looked
+ * up in the crawled text, and an analysis whose quotes are not there loses confidence.
+ */
+
+import { type AnalysisCitation } from "./analyzer";
+import { locateQuote } from "./chunking";
+
+/** A citation checked against the crawled text */
+export type GroundedCitation = AnalysisCitation & {
+  verified: boolean;
+  /** Offsets of the quote in the stored excerpt; null when it was not found or lies past the excerpt */
+  start: number | null;
+  end: number | null;
+};
+
+/**
+ * Look each quote up in `text`: verbatim first, then allowing different whitespace and
+ * letter case (models re-wrap lines and capitalise the start of a quote). Only the first
+ * `excerptLength` characters are stored with an event, so a quote found further on is
+ * verified but gets no offsets.
+ */
+export function groundCitations(
+  citations: AnalysisCitation[] | undefined,
+  text: string,
+  excerptLength = text.length,
+): GroundedCitation[] {
+  return (citations ?? []).map((citation) => {
+    // The case-insensitive search runs on `text` itself, so offsets stay valid even where
+    // lowercasing would change the string's length
+    const location = locateQuote(text, citation.quote) ?? locateQuote(text, citation.quote, 0, true);
+    if (!location) return { ...citation, verified: false, start: null, end: null };
+    return location.end <= excerptLength
+      ? { ...citation, verified: true, start: location.start, end: location.end }
+      : { ...citation, verified: true, start: null, end: null };
+  });
+}
+
+/**
+ * Confidence after grounding: one point lower when some quotes did not verify, two when none
+ * did. Analyses without citations keep their score.
+ */
+export function groundedConfidence(confidenceScore: number, citations: GroundedCitation[]): number {
+  const unverified = citations.filter((citation) => !citation.verified).length;
+  if (unverified === 0) return confidenceScore;
+  const penalty = unverified === citations.length ? 2 : 1;
+  return Math.max(1, confidenceScore - penalty);
+}
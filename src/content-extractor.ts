@@ -0,0 +1,463 @@
+/**
+ * Main-content extraction for crawled HTML pages.
+ * Parses the page into a lightweight DOM (no external dependency), drops page chrome
+ * (nav, header, footer, aside, cookie banners, hidden elements), picks the main content
+ * block by Readability-style text/link density scoring and renders it as markdown, so
+ * headings and list structure survive into the analyzer prompt.
+ */
+
+export type ExtractedContent = {
+  /** Main content as markdown: `#` headings, `-`/`1.` list items, blank lines between blocks */
+  markdown: string;
+  /**
+   * How the content block was chosen: the page's own `<main>`/`<article>` landmark, the
+   * highest-scoring block, or the whole (cleaned) body when neither yielded enough text
+   */
+  strategy: "landmark" | "scored" | "body";
+};
+
+type HtmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+};
+
+type HtmlNode = HtmlElement | string;
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[\s\S]*?>|<(\/?)([A-Za-z][\w:-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+|<)/g;
+const ATTRIBUTE_PATTERN = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+/** Elements whose content is never page text; removed before tokenizing */
+const RAW_TEXT_PATTERN = /<(script|style|noscript|template|svg|math|textarea)\b[\s\S]*?<\/\1\s*>/gi;
+
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr"]);
+const BLOCK_ELEMENTS = new Set([
+  "address", "article", "aside", "blockquote", "body", "caption", "dd", "details", "dialog", "div", "dl", "dt",
+  "fieldset", "figcaption", "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr",
+  "li", "main", "nav", "ol", "p", "pre", "section", "summary", "table", "tbody", "td", "tfoot", "th", "thead",
+  "tr", "ul",
+]);
+/** Opening one of these closes an open `<p>`, as in the HTML parsing algorithm */
+const CLOSES_PARAGRAPH = new Set([
+  "address", "article", "aside", "blockquote", "details", "div", "dl", "fieldset", "figure", "footer", "form",
+  "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "main", "nav", "ol", "p", "pre", "section", "table", "ul",
+]);
+/** Elements that implicitly close an open sibling of the same kind, up to their container */
+const IMPLICIT_SIBLINGS: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ["li"], scope: ["ul", "ol", "menu"] },
+  dt: { closes: ["dt", "dd"], scope: ["dl"] },
+  dd: { closes: ["dt", "dd"], scope: ["dl"] },
+  tr: { closes: ["tr", "td", "th"], scope: ["table", "thead", "tbody", "tfoot"] },
+  td: { closes: ["td", "th"], scope: ["tr", "table"] },
+  th: { closes: ["td", "th"], scope: ["tr", "table"] },
+  option: { closes: ["option"], scope: ["select", "datalist"] },
+};
+
+/** Page chrome, form controls and embeds; never part of the main content */
+const REMOVED_ELEMENTS = new Set(["nav", "aside", "button", "select", "input", "iframe", "object", "embed", "canvas", "dialog", "menu", "img", "video", "audio", "picture", "map", "head", "title"]);
+/** Site-wide header/footer, kept only when nested in an article or main landmark */
+const LANDMARK_SCOPED_ELEMENTS = new Set(["header", "footer"]);
+const REMOVED_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "dialog", "alertdialog", "menu", "menubar", "tablist"]);
+const UNLIKELY_CANDIDATE_PATTERN =
+  /cookie|consent|gdpr|tarteaucitron|onetrust|didomi|banner|breadcrumb|combx|community|disqus|footer|header|masthead|menu|navbar|\bnav\b|pagination|pager|popup|modal|related|share|sharing|social-(?:links|icons|follow)|follow-us|sidebar|skip|sponsor|newsletter|subscribe|signup|toolbar|utility|feedback|survey|back-to-top|\bad\b|advert/i;
+/** Class/id hints that rescue an element matching the unlikely pattern */
+const MAYBE_CANDIDATE_PATTERN = /\band\b|article|body|column|content|main|shadow/i;
+const POSITIVE_PATTERN = /article|body|content|entry|hentry|main|page|post|text|blog|story|legislation|bill|press|release|news-detail/i;
+const NEGATIVE_PATTERN = /hidden|\bhid\b|banner|combx|comment|com-|contact|footer|masthead|meta|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+/** Unclosed inline tags can nest arbitrarily deep; beyond this, elements are kept flat */
+const MAX_DEPTH = 256;
+/** Blocks shorter than this do not contribute to their ancestors' scores */
+const MIN_SCORED_TEXT_LENGTH = 25;
+/** Below this the chosen block is treated as a miss and the cleaned body is used instead */
+const MIN_CONTENT_LENGTH = 140;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ", amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", ndash: "–", mdash: "—", hellip: "…",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»", sect: "§", para: "¶",
+  copy: "©", reg: "®", trade: "™", euro: "€", pound: "£", middot: "·", bull: "•", deg: "°",
+  aacute: "á", eacute: "é", iacute: "í", oacute: "ó", uacute: "ú", agrave: "à", egrave: "è",
+  ecirc: "ê", ccedil: "ç", ntilde: "ñ", auml: "ä", ouml: "ö", uuml: "ü", szlig: "ß",
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));/gi, (entity, hex?: string, dec?: string, name?: string) => {
+    if (hex || dec) {
+      const codePoint = Number.parseInt((hex ?? dec)!, hex ? 16 : 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : " ";
+    }
+    return NAMED_ENTITIES[name!.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Parse HTML into a lightweight element tree. Tolerates what real pages contain: unclosed
+ * `<p>`/`<li>`/`<td>`, stray and mismatched closing tags, and void elements without `/>`.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { name: "#document", attributes: {}, children: [], parent: null };
+  const stack: HtmlElement[] = [root];
+  const source = html.replace(RAW_TEXT_PATTERN, "");
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+
+  const closeTo = (index: number) => {
+    if (index > 0) stack.length = index;
+  };
+
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    const [, closing, tagName, rawAttributes, selfClosing, text] = match;
+
+    if (text !== undefined) {
+      stack[stack.length - 1].children.push(decodeHtmlEntities(text));
+      continue;
+    }
+    if (tagName === undefined) continue;
+
+    const name = tagName.toLowerCase();
+    const names = () => stack.map((element) => element.name);
+    if (closing) {
+      closeTo(names().lastIndexOf(name));
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(name) && stack[stack.length - 1].name === "p") stack.pop();
+    const implicit = IMPLICIT_SIBLINGS[name];
+    if (implicit) {
+      const open = names();
+      const scopeIndex = Math.max(...implicit.scope.map((scope) => open.lastIndexOf(scope)));
+      const siblingIndex = Math.max(...implicit.closes.map((sibling) => open.lastIndexOf(sibling)));
+      if (siblingIndex > scopeIndex) closeTo(siblingIndex);
+    }
+
+    const parent = stack[stack.length - 1];
+    const element: HtmlElement = { name, attributes: parseAttributes(rawAttributes ?? ""), children: [], parent };
+    parent.children.push(element);
+    if (!selfClosing && !VOID_ELEMENTS.has(name) && stack.length < MAX_DEPTH) stack.push(element);
+  }
+
+  return root;
+}
+
+function childElements(element: HtmlElement): HtmlElement[] {
+  return element.children.filter((child): child is HtmlElement => typeof child !== "string");
+}
+
+function findElement(element: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement | null {
+  for (const child of childElements(element)) {
+    if (predicate(child)) return child;
+    const nested = findElement(child, predicate);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function findElements(element: HtmlElement, predicate: (element: HtmlElement) => boolean, found: HtmlElement[] = []): HtmlElement[] {
+  for (const child of childElements(element)) {
+    if (predicate(child)) found.push(child);
+    findElements(child, predicate, found);
+  }
+  return found;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") return node;
+  const text = node.children.map(textContent).join("");
+  return BLOCK_ELEMENTS.has(node.name) || node.name === "br" ? ` ${text} ` : text;
+}
+
+function normalizedText(node: HtmlNode): string {
+  return textContent(node).replace(/\s+/g, " ").trim();
+}
+
+function classAndId(element: HtmlElement): string {
+  return `${element.attributes.class ?? ""} ${element.attributes.id ?? ""}`.trim();
+}
+
+function hasAncestor(element: HtmlElement, names: string[]): boolean {
+  for (let current = element.parent; current; current = current.parent) {
+    if (names.includes(current.name) || (current.attributes.role ?? "").toLowerCase() === "main") return true;
+  }
+  return false;
+}
+
+function isHidden(element: HtmlElement): boolean {
+  const { attributes } = element;
+  return (
+    ("hidden" in attributes && attributes.hidden !== "until-found") ||
+    attributes["aria-hidden"] === "true" ||
+    /(?:^|;)\s*(?:display\s*:\s*none|visibility\s*:\s*hidden)/i.test(attributes.style ?? "")
+  );
+}
+
+function isChrome(element: HtmlElement): boolean {
+  if (REMOVED_ELEMENTS.has(element.name) || isHidden(element)) return true;
+  if (LANDMARK_SCOPED_ELEMENTS.has(element.name) && !hasAncestor(element, ["article", "main"])) return true;
+  if (REMOVED_ROLES.has((element.attributes.role ?? "").toLowerCase())) return true;
+  if (element.name === "body" || element.name === "html" || element.name === "main" || element.name === "article") return false;
+  const hints = classAndId(element);
+  if (hints === "" || !UNLIKELY_CANDIDATE_PATTERN.test(hints) || MAYBE_CANDIDATE_PATTERN.test(hints)) return false;
+  // A "page-header" wrapper around the page's h1 is content, not chrome
+  return findElement(element, (child) => child.name === "h1") === null;
+}
+
+/** Drop page chrome and hidden elements from the tree in place */
+function removeChrome(element: HtmlElement): void {
+  element.children = element.children.filter((child) => typeof child === "string" || !isChrome(child));
+  for (const child of childElements(element)) removeChrome(child);
+}
+
+function linkDensity(element: HtmlElement, textLength = normalizedText(element).length): number {
+  if (textLength === 0) return 0;
+  const linkLength = findElements(element, (child) => child.name === "a").reduce((total, link) => total + normalizedText(link).length, 0);
+  return Math.min(1, linkLength / textLength);
+}
+
+function classWeight(element: HtmlElement): number {
+  const hints = classAndId(element);
+  if (!hints) return 0;
+  return (POSITIVE_PATTERN.test(hints) ? 25 : 0) - (NEGATIVE_PATTERN.test(hints) ? 25 : 0);
+}
+
+function initialScore(element: HtmlElement): number {
+  const base: Record<string, number> = {
+    article: 10, main: 10, div: 5, section: 3, pre: 3, td: 3, blockquote: 3,
+    form: -3, ol: -3, ul: -3, dl: -3, dd: -3, li: -3, th: -5, h1: -5, h2: -5, h3: -5, h4: -5, h5: -5, h6: -5,
+  };
+  return (base[element.name] ?? 0) + classWeight(element);
+}
+
+/** Whether a div/section holds only inline content, i.e. acts as a paragraph */
+function isParagraphLike(element: HtmlElement): boolean {
+  if (["p", "pre", "td", "blockquote", "dd", "li"].includes(element.name)) return true;
+  return (element.name === "div" || element.name === "section") && !childElements(element).some((child) => BLOCK_ELEMENTS.has(child.name));
+}
+
+/**
+ * Score block containers by the paragraphs they hold: each paragraph scores one point plus
+ * one per comma and one per 100 characters (max 3), credited in full to its parent, half to
+ * its grandparent and a sixth to the great-grandparent. Scores are then scaled down by the
+ * container's link density so link farms (menus, related-story lists) lose.
+ */
+function scoreCandidates(body: HtmlElement): Map<HtmlElement, number> {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const paragraph of findElements(body, isParagraphLike)) {
+    const text = normalizedText(paragraph);
+    if (text.length < MIN_SCORED_TEXT_LENGTH) continue;
+    const score = 1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor !== body.parent && level < 3; level++, ancestor = ancestor.parent) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      scores.set(ancestor, scores.get(ancestor)! + score / (level === 0 ? 1 : level === 1 ? 2 : 6));
+    }
+  }
+
+  for (const [candidate, score] of scores) scores.set(candidate, score * (1 - linkDensity(candidate)));
+  return scores;
+}
+
+/**
+ * The top-scoring candidate plus its siblings that look like part of the same content:
+ * scored close to it, or long low-link paragraphs, and the headings that introduce them.
+ */
+function selectScoredContent(body: HtmlElement): HtmlElement[] {
+  const scores = scoreCandidates(body);
+  let top: HtmlElement | null = null;
+  for (const [candidate, score] of scores) {
+    if (!top || score > scores.get(top)!) top = candidate;
+  }
+  if (!top) return [];
+  if (!top.parent || top === body) return [top];
+
+  const threshold = Math.max(10, scores.get(top)! * 0.2);
+  const siblings = childElements(top.parent);
+  const included = siblings.map((sibling) => {
+    if (sibling === top) return true;
+    const sameClass = Boolean(sibling.attributes.class) && sibling.attributes.class === top!.attributes.class;
+    if ((scores.get(sibling) ?? -Infinity) + (sameClass ? scores.get(top!)! * 0.2 : 0) >= threshold) return true;
+    if (sibling.name !== "p") return false;
+    const text = normalizedText(sibling);
+    const density = linkDensity(sibling, text.length);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+
+  // Keep a heading when the block it introduces is kept
+  siblings.forEach((sibling, index) => {
+    if (!/^h[1-6]$/.test(sibling.name) || included[index]) return;
+    const next = siblings.findIndex((candidate, candidateIndex) => candidateIndex > index && !/^h[1-6]$/.test(candidate.name));
+    if (next !== -1 && included[next]) included[index] = true;
+  });
+
+  return siblings.filter((_, index) => included[index]);
+}
+
+/** The page's own main-content landmark: `<main>`, `role="main"` or a lone `<article>` */
+function findLandmark(body: HtmlElement): HtmlElement | null {
+  const main = findElement(body, (element) => element.name === "main" || (element.attributes.role ?? "").toLowerCase() === "main");
+  if (main) return main;
+  const articles = findElements(body, (element) => element.name === "article");
+  return articles.length === 1 ? articles[0] : null;
+}
+
+const LINE_BREAK = "\u0000";
+
+/** Renders a DOM subtree as markdown blocks */
+function createMarkdownWriter() {
+  const blocks: string[] = [];
+  let inline: string[] = [];
+
+  const flush = (prefix = "") => {
+    const text = inline
+      .join("")
+      .replace(/\s+/g, " ")
+      .split(LINE_BREAK)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join("\n");
+    inline = [];
+    if (text) blocks.push(prefix + text);
+  };
+
+  const inlineText = (element: HtmlElement) => normalizedText(element);
+
+  const writeList = (list: HtmlElement, depth: number): string[] => {
+    const lines: string[] = [];
+    const ordered = list.name === "ol";
+    let number = Number.parseInt(list.attributes.start ?? "1", 10) || 1;
+
+    for (const item of childElements(list)) {
+      if (item.name !== "li") {
+        // Lists nested directly in a list (invalid but common) keep their depth
+        if (item.name === "ul" || item.name === "ol") lines.push(...writeList(item, depth + 1));
+        continue;
+      }
+      const nested = item.children.filter((child): child is HtmlElement => typeof child !== "string" && (child.name === "ul" || child.name === "ol"));
+      const text = item.children
+        .filter((child) => typeof child === "string" || !nested.includes(child))
+        .map(textContent)
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+      const marker = ordered ? `${number++}.` : "-";
+      if (text) lines.push(`${"  ".repeat(depth)}${marker} ${text}`);
+      for (const child of nested) lines.push(...writeList(child, depth + 1));
+    }
+
+    return lines;
+  };
+
+  const writeTable = (table: HtmlElement) => {
+    const rows = findElements(table, (element) => element.name === "tr").filter((row) => findParentTable(row) === table);
+    const lines = rows
+      .map((row) => childElements(row).filter((cell) => cell.name === "td" || cell.name === "th").map(inlineText))
+      .filter((cells) => cells.some(Boolean))
+      .map((cells) => cells.join(" | "));
+    const caption = childElements(table).find((child) => child.name === "caption");
+    if (caption && inlineText(caption)) blocks.push(inlineText(caption));
+    if (lines.length > 0) blocks.push(lines.join("\n"));
+  };
+
+  const write = (node: HtmlNode): void => {
+    if (typeof node === "string") {
+      inline.push(node);
+      return;
+    }
+
+    const { name } = node;
+    if (name === "br") {
+      inline.push(LINE_BREAK);
+      return;
+    }
+    if (!BLOCK_ELEMENTS.has(name)) {
+      node.children.forEach(write);
+      return;
+    }
+
+    flush();
+    if (/^h[1-6]$/.test(name)) {
+      const text = inlineText(node);
+      if (text) blocks.push(`${"#".repeat(Number(name[1]))} ${text}`);
+    } else if (name === "ul" || name === "ol") {
+      const lines = writeList(node, 0);
+      if (lines.length > 0) blocks.push(lines.join("\n"));
+    } else if (name === "table" && hasLayoutRows(node)) {
+      // Layout tables (whole page sections in cells) are written as ordinary blocks
+      node.children.forEach(write);
+    } else if (name === "table") {
+      writeTable(node);
+    } else if (name === "pre") {
+      const text = textContent(node).replace(/^\n+|\s+$/g, "");
+      if (text) blocks.push(text);
+    } else if (name === "blockquote") {
+      const quoted = createMarkdownWriter();
+      node.children.forEach(quoted.write);
+      const text = quoted.toString();
+      if (text) blocks.push(text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+    } else {
+      node.children.forEach(write);
+    }
+    flush();
+  };
+
+  return {
+    write,
+    toString() {
+      flush();
+      return blocks.join("\n\n");
+    },
+  };
+}
+
+function findParentTable(element: HtmlElement): HtmlElement | null {
+  for (let current = element.parent; current; current = current.parent) {
+    if (current.name === "table") return current;
+  }
+  return null;
+}
+
+/** A table used for page layout rather than data: its cells hold headings, lists or paragraphs */
+function hasLayoutRows(table: HtmlElement): boolean {
+  return findElements(table, (element) => element.name === "td" || element.name === "th").some(
+    (cell) => findParentTable(cell) === table && childElements(cell).some((child) => BLOCK_ELEMENTS.has(child.name) && child.name !== "br"),
+  );
+}
+
+function toMarkdown(elements: HtmlElement[]): string {
+  const writer = createMarkdownWriter();
+  elements.forEach(writer.write);
+  return writer.toString();
+}
+
+/**
+ * Extract the main content of an HTML page as markdown.
+ * Prefers the page's own `<main>`/`<article>` landmark, then the block that scores best on
+ * text and link density; falls back to the whole cleaned body when neither holds enough text.
+ */
+export function extractMainContent(html: string): ExtractedContent {
+  const document = parseHtml(html);
+  const body = findElement(document, (element) => element.name === "body") ?? document;
+  removeChrome(body);
+
+  const landmark = findLandmark(body);
+  if (landmark) {
+    const markdown = toMarkdown([landmark]);
+    if (markdown.length >= MIN_CONTENT_LENGTH) return { markdown, strategy: "landmark" };
+  }
+
+  const scored = toMarkdown(selectScoredContent(body));
+  if (scored.length >= MIN_CONTENT_LENGTH) return { markdown: scored, strategy: "scored" };
+
+  return { markdown: toMarkdown([body]), strategy: "body" };
+}
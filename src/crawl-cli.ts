@@ -4,16 +4,19 @@
  */
 
 import { openDatabase, initializeSchema, migrateSchema } from "./db";
-import { seedSampleData } from "./seed";
+import { seedSampleData, seedSourceRegistry } from "./seed";
+import { llmConfigError, llmConfigFromEnv } from "./llm-provider";
 import { runPipeline } from "./pipeline";
 
 async function main() {
-  const apiKey = process.env.MINIMAX_API_KEY;
-  if (!apiKey) {
-    console.error("Error: MINIMAX_API_KEY environment variable is required.");
-    console.error("Set it with: export MINIMAX_API_KEY=your-key-here");
+  const llm = llmConfigFromEnv();
+  const configError = llmConfigError(llm);
+  if (configError) {
+    console.error(`Error: ${configError}`);
+    console.error("Set it with: export LLM_API_KEY=your-key-here");
     process.exit(1);
   }
+  const apiKey = llm.apiKey ?? "";
 
   const databasePath = process.env.DATABASE_PATH ?? undefined;
   const db = openDatabase(databasePath);
@@ -21,6 +24,7 @@ async function main() {
   migrateSchema(db);
   // Skip seed data for clean crawl results
   // seedSampleData(db);
+  seedSourceRegistry(db);
 
   console.log("Starting crawl pipeline...\n");
 
@@ -34,13 +38,32 @@ async function main() {
   console.log("\n=== Pipeline Results ===");
   console.log(`  Run ID:        ${result.runId}`);
   console.log(`  Items crawled:  ${result.itemsCrawled}`);
+  console.log(`  Unchanged:      ${result.sourcesUnchanged}`);
+  console.log(`  Robots-blocked: ${result.sourcesBlockedByRobots.length}`);
+  console.log(`  Sources failed: ${result.sourcesFailed}`);
+  console.log(`  Bills synced:   ${result.legislativeBillsSynced}`);
+  console.log(`  Triaged out:    ${result.itemsRejectedByTriage} (threshold ${result.triageThreshold})`);
   console.log(`  Items analyzed: ${result.itemsAnalyzed}`);
   console.log(`  Relevant:       ${result.itemsRelevant}`);
+  console.log(`  Not analyzed:   ${result.analysisFailures}`);
+  console.log(`  Cache hits:     ${result.analysisCacheHits} (${result.analysisCacheMisses} misses)`);
   console.log(`  New:            ${result.itemsNew}`);
   console.log(`  Updated:        ${result.itemsUpdated}`);
   console.log(`  Duplicate:      ${result.itemsDuplicate}`);
   console.log(`  Duration:       ${(result.durationMs / 1000).toFixed(1)}s`);
 
+  if (result.sourcesBlockedByRobots.length > 0) {
+    console.log(`\n  Skipped by robots.txt: ${result.sourcesBlockedByRobots.join(", ")}`);
+  }
+
+  if (result.sourcesQuarantined.length > 0) {
+    console.log(`\n  Quarantined: ${result.sourcesQuarantined.join(", ")}`);
+  }
+
+  if (result.sourcesFlaggedForRendering.length > 0) {
+    console.log(`\n  Flagged for headless rendering: ${result.sourcesFlaggedForRendering.join(", ")}`);
+  }
+
   if (result.errors.length > 0) {
     console.log(`\n  Errors (${result.errors.length}):`);
     for (const err of result.errors.slice(0, 10)) {
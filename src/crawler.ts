@@ -1,10 +1,27 @@
 /**
- * Crawler: fetches pages, RSS feeds, search results, and X/Twitter API items from the source registry.
+ * Crawler: fetches pages, RSS feeds, search results, legislature API bills, and X/Twitter API items from the source registry.
  * Uses Node built-in fetch. Handles errors gracefully with per-source timeouts.
  */
 
 import crypto from "node:crypto";
 import { type RegistrySource } from "./sources";
+import { extractMainContent } from "./content-extractor";
+import { type FetchCache, type FetchCacheEntry, type PageSnapshotInput, type PageSnapshotStore, type SeenFeedItemStore, type SourceCrawlStatus } from "./db";
+import { detectDocumentType, documentTypeFromUrl, extractDocumentText, type DocumentType } from "./document-extractor";
+import { parseFeed, type FeedItem } from "./feed-parser";
+import { type HostLimiter } from "./host-limiter";
+import { detectLanguage } from "./language";
+import {
+  fetchLegislativeBills,
+  formatBillText,
+  legislatureApiKeyVariable,
+  legislatureConnectorForUrl,
+  type LegislativeBill,
+} from "./legislature-connectors";
+import { formatParagraphDiff } from "./page-diff";
+import { redactUrl } from "./raw-archive";
+import { type PageRenderer } from "./renderer";
+import { type RobotsChecker } from "./robots";
 import { crawlTwitterSources } from "./twitter-crawler";
 
 export type CrawledItem = {
@@ -13,25 +30,125 @@ export type CrawledItem = {
   title: string;
   text: string;
   fetchedAt: string;
+  /** Feed GUID (or link when the feed has none) */
+  guid?: string;
+  /** Publication date reported by the feed, ISO 8601 */
+  publishedAt?: string | null;
+  /** Set for PDF/DOCX items: the document format */
+  documentType?: DocumentType;
+  /** Set for documents and followed links: the page they were found on */
+  parentUrl?: string;
+  /** Set for legislature API items: the bill with its authoritative stage history */
+  bill?: LegislativeBill;
+  /** Archived responses the item was extracted from (see `archiveResponse`) */
+  artifactIds?: number[];
+  /** ISO 639-1 code of the item's text (see `detectLanguage`); set by `crawlAllSources` */
+  language?: string;
+  /** Crawl state to record once the item is analyzed and stored (see `commitCrawlCheckpoints`) */
+  checkpoints?: CrawlCheckpoint[];
 };
 
+/**
+ * Crawl state that makes later crawls skip an item, held back until the item has been
+ * processed so that an item whose analysis fails is crawled again. Items extracted from the
+ * same response share its checkpoint.
+ */
+export type CrawlCheckpoint =
+  | { kind: "fetch_cache"; entry: FetchCacheEntry }
+  | { kind: "page_snapshot"; snapshot: PageSnapshotInput }
+  | { kind: "seen_feed_item"; sourceName: string; guid: string; seenAt: string };
+
+/** A response body handed to the archive */
+export type ArchivableResponse = {
+  url: string;
+  /** Null for DOM captured from the headless renderer */
+  statusCode: number | null;
+  headers: Record<string, string>;
+  body: Buffer;
+  fetchedAt: string;
+  rendered: boolean;
+};
+
+export type CrawlOptions = {
+  /** When set, requests are conditional and unchanged responses produce no items */
+  fetchCache?: FetchCache;
+  /** When set, page text is diffed against its last snapshot and only changed paragraphs are emitted */
+  pageSnapshots?: PageSnapshotStore;
+  /** When set, feed items already seen by GUID are skipped; GUIDs are marked seen when items are committed */
+  seenFeedItems?: SeenFeedItemStore;
+  /** When set, URLs disallowed by the host's robots.txt are not fetched */
+  robots?: RobotsChecker;
+  /** When set, requests are subject to per-host concurrency and delay limits */
+  hostLimiter?: HostLimiter;
+  /** User-Agent sent with every request (default: DEFAULT_USER_AGENT) */
+  userAgent?: string;
+  /** Called when a source is skipped because robots.txt disallows its URL */
+  onRobotsBlocked?: (source: RegistrySource) => void;
+  /** Called for every HTTP response received, with its status code and body size in bytes */
+  onResponse?: (url: string, statusCode: number, bytes: number) => void;
+  /** Called once per crawled source with its outcome */
+  onSourceResult?: (result: SourceCrawlResult) => void;
+  /** Headless renderer used for sources with `render: true`; without it those pages are crawled statically */
+  renderer?: PageRenderer;
+  /** Called when a page that was not rendered yields too little text, i.e. it likely needs rendering */
+  onThinPage?: (source: RegistrySource, textLength: number) => void;
+  /**
+   * Called with every response body the crawler goes on to parse; returns the id of the
+   * archived copy, which the items extracted from it carry in `artifactIds`
+   */
+  archiveResponse?: (response: ArchivableResponse) => number | null;
+};
+
+export type SourceCrawlResult = {
+  source: RegistrySource;
+  status: SourceCrawlStatus;
+  /** Status code of the source URL's response; null when no response was received */
+  statusCode: number | null;
+  latencyMs: number;
+  /** Body bytes received across all requests made for the source */
+  bytes: number;
+  itemCount: number;
+  error: string | null;
+};
+
+export const DEFAULT_USER_AGENT = "Under16RegBot/0.1";
+
+/** Crawler User-Agent with an optional contact (email or URL) site operators can reach us at */
+export function buildUserAgent(contact?: string | null): string {
+  const trimmed = contact?.trim();
+  return trimmed ? `${DEFAULT_USER_AGENT} (+${trimmed})` : DEFAULT_USER_AGENT;
+}
+
 const FETCH_TIMEOUT_MS = 30_000;
 const MAX_TEXT_LENGTH = 10_000;
+/** Pages whose extracted text is shorter than this are treated as client-rendered shells */
+export const THIN_PAGE_TEXT_LENGTH = 200;
 const TWITTER_INTER_QUERY_DELAY_MS = 1_500;
+const DEFAULT_FEED_ITEM_LIMIT = 20;
+const MAX_FEED_PAGES = 5;
+const MAX_DOCUMENT_TEXT_LENGTH = 100_000;
+/** Largest PDF/DOCX body downloaded; documents are held in memory whole for extraction */
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+const DEFAULT_DOCUMENT_LINK_LIMIT = 3;
+const DEFAULT_MAX_FOLLOWED_LINKS = 10;
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/** Strip HTML tags and collapse whitespace */
-function stripHtml(html: string): string {
+/** Remove script/style blocks and page chrome before text extraction */
+function removeBoilerplateBlocks(html: string): string {
   return html
     .replace(/<script[\s\S]*?<\/script>/gi, "")
     .replace(/<style[\s\S]*?<\/style>/gi, "")
     .replace(/<nav[\s\S]*?<\/nav>/gi, "")
     .replace(/<footer[\s\S]*?<\/footer>/gi, "")
-    .replace(/<header[\s\S]*?<\/header>/gi, "")
-    .replace(/<[^>]+>/g, " ")
+    .replace(/<header[\s\S]*?<\/header>/gi, "");
+}
+
+/** Decode the common HTML entities; unknown numeric entities become spaces */
+function decodeEntities(text: string): string {
+  return text
     .replace(/&nbsp;/g, " ")
     .replace(/&amp;/g, "&")
     .replace(/&lt;/g, "<")
@@ -39,11 +156,24 @@ function stripHtml(html: string): string {
     .replace(/&quot;/g, '"')
     .replace(/&#39;/g, "'")
     .replace(/&#x27;/g, "'")
-    .replace(/&#\d+;/g, " ")
+    .replace(/&#\d+;/g, " ");
+}
+
+/** Strip HTML tags and collapse whitespace */
+function stripHtml(html: string): string {
+  return decodeEntities(removeBoilerplateBlocks(html).replace(/<[^>]+>/g, " "))
     .replace(/\s+/g, " ")
     .trim();
 }
 
+/** Split extracted markdown into paragraphs (one per line) for snapshot diffing */
+function splitParagraphs(markdown: string): string[] {
+  return markdown
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
 /** Extract <title> from HTML */
 function extractTitle(html: string): string {
   const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
@@ -71,40 +201,415 @@ function extractMetaContent(html: string): string {
   return parts.join(" | ");
 }
 
-/** Fetch a URL with timeout, return raw text */
-async function fetchWithTimeout(url: string, timeoutMs = FETCH_TIMEOUT_MS): Promise<string> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+type FetchedResource = {
+  /** Response body as text; empty for documents */
+  text: string;
+  /** Raw bytes when the response is a PDF/DOCX document */
+  document: { type: DocumentType; data: Buffer } | null;
+  /** Id of the archived copy of the body, when an archive is configured */
+  artifactId: number | null;
+  /** Validators and content hash for the fetch cache, committed with the items extracted from the body */
+  checkpoint: CrawlCheckpoint | null;
+};
 
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      redirect: "follow",
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36",
-        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
+/** Response headers worth keeping with an archived body; cookies are never stored */
+function archivedHeaders(headers: Headers | undefined): Record<string, string> {
+  const kept: Record<string, string> = {};
+  headers?.forEach?.((value, name) => {
+    if (name.toLowerCase() !== "set-cookie") kept[name.toLowerCase()] = value;
+  });
+  return kept;
+}
+
+/** The `checkpoints` field for an item extracted from responses with the given checkpoints */
+function checkpointRefs(...checkpoints: Array<CrawlCheckpoint | null>): Pick<CrawledItem, "checkpoints"> {
+  const kept = checkpoints.filter((checkpoint): checkpoint is CrawlCheckpoint => checkpoint !== null);
+  return kept.length > 0 ? { checkpoints: kept } : {};
+}
+
+function applyCheckpoint(checkpoint: CrawlCheckpoint, options: CrawlOptions): void {
+  switch (checkpoint.kind) {
+    case "fetch_cache":
+      options.fetchCache?.save(checkpoint.entry);
+      break;
+    case "page_snapshot":
+      options.pageSnapshots?.record(checkpoint.snapshot);
+      break;
+    case "seen_feed_item":
+      options.seenFeedItems?.add(checkpoint.sourceName, checkpoint.guid, checkpoint.seenAt);
+      break;
+  }
+}
+
+/**
+ * Record the crawl state of processed items so later crawls skip them. A checkpoint shared
+ * with an item in `unprocessed` (one whose analysis failed or that was not analyzed) is held
+ * back, so the response is fetched and its items emitted again next time.
+ */
+export function commitCrawlCheckpoints(
+  processed: CrawledItem[],
+  options: CrawlOptions,
+  unprocessed: CrawledItem[] = [],
+): void {
+  const held = new Set(unprocessed.flatMap((item) => item.checkpoints ?? []));
+  const committed = new Set<CrawlCheckpoint>();
+  for (const checkpoint of processed.flatMap((item) => item.checkpoints ?? [])) {
+    if (held.has(checkpoint) || committed.has(checkpoint)) continue;
+    committed.add(checkpoint);
+    applyCheckpoint(checkpoint, options);
+  }
+}
+
+/** The item with its GUID marked as seen once it is committed */
+function withSeenCheckpoint(item: CrawledItem, guid: string): CrawledItem {
+  const seen: CrawlCheckpoint = { kind: "seen_feed_item", sourceName: item.source.name, guid, seenAt: item.fetchedAt };
+  return { ...item, checkpoints: [...(item.checkpoints ?? []), seen] };
+}
+
+/** The `artifactIds` field for an item extracted from the given archived responses */
+function artifactRefs(...artifactIds: Array<number | null>): Pick<CrawledItem, "artifactIds"> {
+  const ids = artifactIds.filter((id): id is number => id !== null);
+  return ids.length > 0 ? { artifactIds: ids } : {};
+}
+
+/** Read a document body, failing once it grows past `MAX_DOCUMENT_BYTES` rather than buffering it all */
+async function readDocumentBody(response: Response): Promise<Buffer> {
+  const declared = Number(response.headers?.get("content-length") ?? NaN);
+  if (declared > MAX_DOCUMENT_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`Document is too large (${declared} bytes)`);
+  }
+  if (!response.body) {
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_DOCUMENT_BYTES) throw new Error(`Document is too large (${data.length} bytes)`);
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      throw new Error(`Document is too large (over ${MAX_DOCUMENT_BYTES} bytes)`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch a URL with timeout, returning the body as text, or as bytes when the Content-Type
+ * says it is a PDF/DOCX document.
+ * With a fetch cache, sends If-None-Match/If-Modified-Since and returns null when the
+ * server answers 304 or the body hashes the same as the cached copy; a changed body's new
+ * validators come back as the resource's checkpoint rather than being saved. Also returns null
+ * when robots.txt disallows the URL. Requests wait for the host limiter, if any.
+ */
+async function fetchWithTimeout(
+  url: string,
+  options: CrawlOptions = {},
+  timeoutMs = FETCH_TIMEOUT_MS,
+): Promise<FetchedResource | null> {
+  if (options.robots && !(await options.robots.isAllowed(url))) return null;
+
+  const request = async (): Promise<FetchedResource | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const cached = options.fetchCache?.get(url) ?? null;
+
+    const headers: Record<string, string> = {
+      "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,*/*;q=0.7",
+      "Accept-Language": "en-US,en;q=0.9",
+    };
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        redirect: "follow",
+        headers,
+      });
+
+      const checkedAt = new Date().toISOString();
+      if (response.status === 304 && cached) {
+        options.onResponse?.(url, response.status, 0);
+        options.fetchCache?.markUnchanged(url, checkedAt);
+        return null;
+      }
+
+      if (!response.ok) {
+        options.onResponse?.(url, response.status, 0);
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const documentType = detectDocumentType(response.headers?.get("content-type") ?? null, url);
+      const resource: FetchedResource = documentType
+        ? { text: "", document: { type: documentType, data: await readDocumentBody(response) }, artifactId: null, checkpoint: null }
+        : { text: await response.text(), document: null, artifactId: null, checkpoint: null };
+      options.onResponse?.(
+        url,
+        response.status ?? 200,
+        resource.document ? resource.document.data.length : Buffer.byteLength(resource.text),
+      );
+
+      if (options.fetchCache) {
+        const contentHash = resource.document ? hashBytes(resource.document.data) : hashText(resource.text);
+        const entry: FetchCacheEntry = {
+          url,
+          etag: response.headers?.get("etag") ?? null,
+          lastModified: response.headers?.get("last-modified") ?? null,
+          contentHash,
+          fetchedAt: checkedAt,
+        };
+        if (cached?.contentHash === contentHash) {
+          options.fetchCache.save(entry);
+          options.fetchCache.markUnchanged(url, checkedAt);
+          return null;
+        }
+        resource.checkpoint = { kind: "fetch_cache", entry };
+      }
+
+      // Text bodies are archived as the decoded text the crawler parses, re-encoded as UTF-8
+      resource.artifactId = options.archiveResponse?.({
+        url,
+        statusCode: response.status ?? 200,
+        headers: archivedHeaders(response.headers),
+        body: resource.document ? resource.document.data : Buffer.from(resource.text),
+        fetchedAt: checkedAt,
+        rendered: false,
+      }) ?? null;
+
+      return resource;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return options.hostLimiter ? options.hostLimiter.run(url, request) : request();
+}
+
+/** Turn a fetched PDF/DOCX into a crawled item; the source text is the extracted document text */
+function documentToCrawledItem(
+  source: RegistrySource,
+  url: string,
+  document: { type: DocumentType; data: Buffer },
+  parentUrl: string | null,
+  linkText = "",
+): CrawledItem {
+  const extracted = extractDocumentText(document.type, document.data);
+  const fileName = decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "");
+  const title = (extracted.title || linkText || fileName || source.name).slice(0, 200);
+
+  return {
+    source,
+    url,
+    title,
+    text: extracted.text.slice(0, MAX_DOCUMENT_TEXT_LENGTH),
+    fetchedAt: new Date().toISOString(),
+    documentType: document.type,
+    ...(parentUrl ? { parentUrl } : {}),
+  };
+}
+
+/** Find links on a page that point at PDF/DOCX files, resolved against the page URL */
+function extractDocumentLinks(html: string, pageUrl: string): Array<{ url: string; text: string }> {
+  const links = new Map<string, string>();
+  for (const match of html.matchAll(/<a\b[^>]*\bhref=["']([^"'#]+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    const url = resolveUrl(decodeEntities(match[1]).trim(), pageUrl);
+    if (!documentTypeFromUrl(url) || links.has(url)) continue;
+    links.set(url, stripHtml(match[2]).slice(0, 200));
+  }
+  return [...links.entries()].map(([url, text]) => ({ url, text }));
+}
+
+/**
+ * Fetch the PDF/DOCX documents a page links to (bill texts, official journal issues).
+ * A failing document is logged and skipped so it never loses the page itself.
+ */
+async function crawlLinkedDocuments(source: RegistrySource, html: string, options: CrawlOptions): Promise<CrawledItem[]> {
+  const limit = source.maxDocumentLinks ?? DEFAULT_DOCUMENT_LINK_LIMIT;
+  const items: CrawledItem[] = [];
+
+  for (const link of extractDocumentLinks(html, source.url).slice(0, limit)) {
+    try {
+      const resource = await fetchWithTimeout(link.url, options);
+      if (resource === null) continue;
+      if (!resource.document) {
+        if (resource.checkpoint) applyCheckpoint(resource.checkpoint, options);
+        continue;
+      }
+      items.push({
+        ...documentToCrawledItem(source, link.url, resource.document, source.url, link.text),
+        ...artifactRefs(resource.artifactId),
+        ...checkpointRefs(resource.checkpoint),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[crawler] Failed to fetch document ${link.url} for \"${source.name}\": ${message}`);
+    }
+  }
+
+  return items;
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+/**
+ * Collect the links on a page that follow-links mode may visit: outside nav/header/footer,
+ * not documents (those go through crawlLinkedDocuments), and matching the source's include
+ * pattern — or on the same host when no pattern is configured.
+ */
+function extractFollowableLinks(html: string, pageUrl: string, include: RegExp | null): Array<{ url: string; text: string }> {
+  const pageHost = new URL(pageUrl).host;
+  const links = new Map<string, string>();
+
+  for (const match of removeBoilerplateBlocks(html).matchAll(/<a\b[^>]*\bhref=["']([^"'#]+)(?:#[^"']*)?["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    const url = resolveUrl(decodeEntities(match[1]).trim(), pageUrl);
+    if (!/^https?:\/\//i.test(url) || documentTypeFromUrl(url) || links.has(url)) continue;
+    if (include ? !include.test(url) : new URL(url).host !== pageHost) continue;
+    links.set(url, stripHtml(match[2]).slice(0, 200));
+  }
+
+  return [...links.entries()].map(([url, text]) => ({ url, text }));
+}
+
+/**
+ * Follow-links mode: visit pages linked from an index page (press releases, consultations)
+ * breadth-first up to the source's depth and link limit, one item per linked page.
+ */
+async function crawlFollowedLinks(source: RegistrySource, html: string, options: CrawlOptions): Promise<CrawledItem[]> {
+  const depth = source.linkFollowDepth ?? 0;
+  const maxLinks = source.maxFollowedLinks ?? DEFAULT_MAX_FOLLOWED_LINKS;
+  const include = source.linkIncludePattern ? new RegExp(source.linkIncludePattern, "i") : null;
+  const items: CrawledItem[] = [];
+  const visited = new Set<string>([source.url]);
+  let frontier = [{ html, url: source.url }];
+
+  for (let level = 0; level < depth && frontier.length > 0 && visited.size - 1 < maxLinks; level++) {
+    const nextFrontier: Array<{ html: string; url: string }> = [];
+
+    for (const page of frontier) {
+      for (const link of extractFollowableLinks(page.html, page.url, include)) {
+        if (visited.has(link.url)) continue;
+        if (visited.size - 1 >= maxLinks) break;
+        visited.add(link.url);
+
+        try {
+          const resource = await fetchWithTimeout(link.url, options);
+          if (resource === null) continue;
+          if (resource.document) {
+            items.push({
+              ...documentToCrawledItem(source, link.url, resource.document, page.url, link.text),
+              ...artifactRefs(resource.artifactId),
+              ...checkpointRefs(resource.checkpoint),
+            });
+            continue;
+          }
+
+          items.push({
+            source,
+            url: link.url,
+            title: extractTitle(resource.text) || link.text || source.name,
+            text: extractMainContent(resource.text).markdown.slice(0, MAX_TEXT_LENGTH),
+            fetchedAt: new Date().toISOString(),
+            parentUrl: page.url,
+            ...artifactRefs(resource.artifactId),
+            ...checkpointRefs(resource.checkpoint),
+          });
+          nextFrontier.push({ html: resource.text, url: link.url });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`[crawler] Failed to follow ${link.url} for \"${source.name}\": ${message}`);
+        }
+      }
     }
 
-    return await response.text();
-  } finally {
-    clearTimeout(timer);
+    frontier = nextFrontier;
+  }
+
+  return items;
+}
+
+/**
+ * Render a page's scripts in the headless browser, falling back to the static HTML when
+ * rendering fails. Rendering goes through the host limiter like any other request.
+ */
+async function renderHtml(
+  source: RegistrySource,
+  renderer: PageRenderer,
+  staticHtml: string,
+  options: CrawlOptions,
+): Promise<string> {
+  try {
+    const render = () => renderer.render(source.url);
+    return await (options.hostLimiter ? options.hostLimiter.run(source.url, render) : render());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[crawler] Rendering "${source.name}" failed, using static HTML: ${message}`);
+    return staticHtml;
   }
 }
 
 /** Crawl a government page or legal database page */
-async function crawlPage(source: RegistrySource): Promise<CrawledItem[]> {
-  const html = await fetchWithTimeout(source.url);
+async function crawlPage(source: RegistrySource, options: CrawlOptions = {}): Promise<CrawledItem[]> {
+  const renderer = source.render === true ? options.renderer : undefined;
+  // A script-rendered page's HTML shell rarely changes, so rendered sources skip conditional fetching
+  const resource = await fetchWithTimeout(source.url, renderer ? { ...options, fetchCache: undefined } : options);
+  if (resource === null) return [];
+  if (resource.document) {
+    return [
+      {
+        ...documentToCrawledItem(source, source.url, resource.document, null),
+        ...artifactRefs(resource.artifactId),
+        ...checkpointRefs(resource.checkpoint),
+      },
+    ];
+  }
+
+  const html = renderer ? await renderHtml(source, renderer, resource.text, options) : resource.text;
   const title = extractTitle(html) || source.name;
-  let text = stripHtml(html).slice(0, MAX_TEXT_LENGTH);
+  const fetchedAt = new Date().toISOString();
+  // The rendered DOM is what the text was extracted from, so it is archived next to the static response
+  const renderedArtifactId = html !== resource.text
+    ? options.archiveResponse?.({
+      url: source.url,
+      statusCode: null,
+      headers: { "content-type": "text/html; charset=utf-8" },
+      body: Buffer.from(html),
+      fetchedAt,
+      rendered: true,
+    }) ?? null
+    : null;
+  // Main content only (no menus, banners or footers), so the length limit is spent on the page's substance
+  const content = extractMainContent(html).markdown;
+  let text = content.slice(0, MAX_TEXT_LENGTH);
+
+  if (!renderer && source.render !== false && content.length < THIN_PAGE_TEXT_LENGTH) {
+    options.onThinPage?.(source, content.length);
+  }
+
+  // The snapshot is recorded when the item is committed, so until then changes are diffed against the last processed text
+  let snapshotCheckpoint: CrawlCheckpoint | null = null;
+  if (options.pageSnapshots) {
+    const input: PageSnapshotInput = { source, url: source.url, paragraphs: splitParagraphs(content), fetchedAt };
+    const snapshot = options.pageSnapshots.compare(input);
+    snapshotCheckpoint = { kind: "page_snapshot", snapshot: input };
+    if (snapshot.diff && snapshot.previousFetchedAt) {
+      // Only changed paragraphs go to the analyzer; an identical page yields nothing
+      if (snapshot.diff.added.length === 0 && snapshot.diff.removed.length === 0) {
+        if (resource.checkpoint) applyCheckpoint(resource.checkpoint, options);
+        return [];
+      }
+      text = formatParagraphDiff(snapshot.diff, snapshot.previousFetchedAt).slice(0, MAX_TEXT_LENGTH);
+    }
+  }
 
   // If main text is too thin, enrich with meta tags and source metadata
-  if (text.length < 200) {
+  if (text.length < THIN_PAGE_TEXT_LENGTH) {
     const metaContent = extractMetaContent(html);
     const enrichment = [
       `Source: ${source.name}`,
@@ -115,91 +620,227 @@ async function crawlPage(source: RegistrySource): Promise<CrawledItem[]> {
     text = `${enrichment}\n\n${text}`;
   }
 
-  return [
+  const documents = await crawlLinkedDocuments(source, html, options);
+  const followed = await crawlFollowedLinks(source, html, options);
+
+  return dedupeItems([
     {
       source,
       url: source.url,
       title,
       text,
-      fetchedAt: new Date().toISOString(),
+      fetchedAt,
+      ...artifactRefs(resource.artifactId, renderedArtifactId),
+      ...checkpointRefs(resource.checkpoint, snapshotCheckpoint),
     },
-  ];
+    ...documents,
+    ...followed,
+  ]);
 }
 
-/** Parse RSS/Atom XML feed items */
-function parseRssItems(xml: string, source: RegistrySource): CrawledItem[] {
+/** Map parsed feed items to crawled items */
+function feedItemsToCrawledItems(
+  items: FeedItem[],
+  source: RegistrySource,
+  pageUrl: string,
+  artifactId: number | null = null,
+  checkpoint: CrawlCheckpoint | null = null,
+): CrawledItem[] {
+  const fetchedAt = new Date().toISOString();
+  return items.map((item) => {
+    const title = item.title ? stripHtml(item.title) : source.name;
+    const description = stripHtml(item.description).slice(0, MAX_TEXT_LENGTH);
+    const url = item.link ? resolveUrl(stripHtml(item.link), pageUrl) : source.url;
+
+    return {
+      source,
+      url,
+      title,
+      text: `${title}\n\n${description}`,
+      fetchedAt,
+      guid: item.guid ?? url,
+      publishedAt: item.publishedAt,
+      ...artifactRefs(artifactId),
+      ...checkpointRefs(checkpoint),
+    };
+  });
+}
+
+function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Crawl an RSS/Atom feed, following `rel="next"` pages until the source's item limit is
+ * reached. Items whose GUID was already seen are skipped, and paging stops at the first
+ * page that contains a seen item since everything older has been crawled before. Emitted
+ * items carry a checkpoint that marks their GUID seen once they are processed.
+ */
+async function crawlRssFeed(source: RegistrySource, options: CrawlOptions = {}): Promise<CrawledItem[]> {
+  const limit = source.maxFeedItems ?? DEFAULT_FEED_ITEM_LIMIT;
   const items: CrawledItem[] = [];
+  const seenGuids = new Set<string>();
+  let pageUrl: string | null = source.url;
 
-  const itemRegex = /<(?:item|entry)[\s>]([\s\S]*?)<\/(?:item|entry)>/gi;
-  let match: RegExpExecArray | null;
+  for (let page = 0; pageUrl && page < MAX_FEED_PAGES && items.length < limit; page++) {
+    const resource = await fetchWithTimeout(pageUrl, options);
+    if (resource === null) break;
 
-  while ((match = itemRegex.exec(xml)) !== null) {
-    const block = match[1];
+    const feed = parseFeed(resource.text);
+    let reachedSeenItem = false;
+    const itemCount = items.length;
 
-    const titleMatch = block.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
-    const linkMatch =
-      block.match(/<link[^>]*href=["']([^"']+)["']/i) ||
-      block.match(/<link[^>]*>([\s\S]*?)<\/link>/i);
-    const descMatch =
-      block.match(/<description[^>]*>([\s\S]*?)<\/description>/i) ||
-      block.match(/<summary[^>]*>([\s\S]*?)<\/summary>/i) ||
-      block.match(/<content[^>]*>([\s\S]*?)<\/content>/i);
+    for (const item of feedItemsToCrawledItems(feed.items, source, pageUrl, resource.artifactId, resource.checkpoint)) {
+      const guid = item.guid ?? item.url;
+      if (seenGuids.has(guid)) continue;
+      seenGuids.add(guid);
 
-    const title = titleMatch ? stripHtml(titleMatch[1]) : source.name;
-    const link = linkMatch ? stripHtml(linkMatch[1]) : source.url;
-    const description = descMatch ? stripHtml(descMatch[1]).slice(0, MAX_TEXT_LENGTH) : "";
+      if (options.seenFeedItems?.has(source.name, guid)) {
+        reachedSeenItem = true;
+        continue;
+      }
 
-    items.push({
-      source,
-      url: link,
-      title,
-      text: `${title}\n\n${description}`,
-      fetchedAt: new Date().toISOString(),
-    });
+      items.push(options.seenFeedItems ? withSeenCheckpoint(item, guid) : item);
+      if (items.length >= limit) break;
+    }
+    // A page with nothing new is done with as soon as it is read
+    if (items.length === itemCount && resource.checkpoint) applyCheckpoint(resource.checkpoint, options);
 
-    if (items.length >= 5) break;
+    pageUrl = !reachedSeenItem && feed.nextPageUrl ? resolveUrl(feed.nextPageUrl, pageUrl) : null;
   }
 
   return items;
 }
 
-/** Crawl an RSS feed */
-async function crawlRssFeed(source: RegistrySource): Promise<CrawledItem[]> {
-  const xml = await fetchWithTimeout(source.url);
-  return parseRssItems(xml, source);
+/** Environment variable holding the API key a legislature API source needs, if any */
+function legislatureApiKeyVariableFor(source: RegistrySource): string | null {
+  const connector = legislatureConnectorForUrl(source.url);
+  return connector ? legislatureApiKeyVariable(connector) : null;
+}
+
+/**
+ * Crawl a legislature API source: one item per bill, carrying the bill and its stage history.
+ * Requests are never conditional; instead a bill is skipped while its latest action and stage
+ * are unchanged, the same way feed items are skipped by GUID (and marked seen when committed).
+ */
+async function crawlLegislatureApi(source: RegistrySource, options: CrawlOptions = {}): Promise<CrawledItem[]> {
+  const artifactIds = new Map<string, number | null>();
+  const fetchJson = async (url: string): Promise<unknown> => {
+    const resource = await fetchWithTimeout(url, { ...options, fetchCache: undefined });
+    if (resource === null) throw new Error(`${new URL(url).pathname} is disallowed by robots.txt`);
+    // Bills list their response URLs without the API key
+    artifactIds.set(redactUrl(url), resource.artifactId);
+    return JSON.parse(resource.text) as unknown;
+  };
+
+  const apiKeyVariable = legislatureApiKeyVariableFor(source);
+  const bills = await fetchLegislativeBills(source.url, fetchJson, {
+    apiKey: apiKeyVariable ? process.env[apiKeyVariable] : undefined,
+    limit: source.maxFeedItems,
+  });
+
+  const fetchedAt = new Date().toISOString();
+  const items: CrawledItem[] = [];
+  for (const bill of bills) {
+    const guid = `${bill.connector}:${bill.externalId}:${bill.latestActionDate ?? ""}:${bill.stage}`;
+    if (options.seenFeedItems?.has(source.name, guid)) continue;
+
+    const item: CrawledItem = {
+      source,
+      url: bill.url,
+      title: bill.title === bill.identifier ? bill.title : `${bill.identifier}: ${bill.title}`,
+      text: formatBillText(bill),
+      fetchedAt,
+      guid,
+      publishedAt: bill.latestActionDate,
+      bill,
+      ...artifactRefs(...(bill.responseUrls ?? []).map((url) => artifactIds.get(url) ?? null)),
+    };
+    items.push(options.seenFeedItems ? withSeenCheckpoint(item, guid) : item);
+  }
+  return items;
 }
 
 /** Crawl a news search source */
-async function crawlNewsSearch(source: RegistrySource): Promise<CrawledItem[]> {
-  return crawlPage(source);
+async function crawlNewsSearch(source: RegistrySource, options: CrawlOptions = {}): Promise<CrawledItem[]> {
+  return crawlPage(source, options);
+}
+
+function crawlSourceByType(source: RegistrySource, bearerToken: string, options: CrawlOptions): Promise<CrawledItem[]> {
+  switch (source.type) {
+    case "rss_feed":
+      return crawlRssFeed(source, options);
+    case "news_search":
+      return crawlNewsSearch(source, options);
+    case "twitter_search":
+      return crawlTwitterSources([source], bearerToken);
+    case "legislature_api":
+      return crawlLegislatureApi(source, options);
+    case "government_page":
+    case "legal_database":
+    default:
+      return crawlPage(source, options);
+  }
 }
 
 /**
  * Crawl a single source. Returns items found, or empty array on error.
+ * The outcome (status code, latency, bytes, items, error) is reported through `onSourceResult`.
  */
-export async function crawlSource(source: RegistrySource): Promise<CrawledItem[]> {
+export async function crawlSource(source: RegistrySource, options: CrawlOptions = {}): Promise<CrawledItem[]> {
+  const startedAt = Date.now();
+  let statusCode: number | null = null;
+  let bytes = 0;
+
+  const tracked: CrawlOptions = {
+    ...options,
+    onResponse: (url, code, size) => {
+      // The first response is for the source URL itself; later ones are feed pages and links
+      statusCode ??= code;
+      bytes += size;
+      options.onResponse?.(url, code, size);
+    },
+  };
+  const report = (status: SourceCrawlResult["status"], itemCount: number, error: string | null) => {
+    options.onSourceResult?.({ source, status, statusCode, latencyMs: Date.now() - startedAt, bytes, itemCount, error });
+  };
+
   try {
-    switch (source.type) {
-      case "rss_feed":
-        return await crawlRssFeed(source);
-      case "news_search":
-        return await crawlNewsSearch(source);
-      case "twitter_search": {
-        const bearerToken = process.env.X_BEARER_TOKEN;
-        if (!bearerToken) {
-          console.warn(`[crawler] Skipping X source \"${source.name}\": X_BEARER_TOKEN not set`);
-          return [];
-        }
-        return await crawlTwitterSources([source], bearerToken);
-      }
-      case "government_page":
-      case "legal_database":
-      default:
-        return await crawlPage(source);
+    const robots = source.type !== "twitter_search" && options.robots ? await options.robots.check(source.url) : null;
+    // An unreachable robots.txt says nothing about the site's wishes: it is a failed crawl, not a block
+    if (robots?.unreachable) throw new Error(`robots.txt unreachable: ${robots.unreachable}`);
+    if (robots && !robots.allowed) {
+      console.warn(`[crawler] Skipping \"${source.name}\": disallowed by robots.txt`);
+      options.onRobotsBlocked?.(source);
+      report("blocked", 0, "disallowed by robots.txt");
+      return [];
     }
+
+    const bearerToken = process.env.X_BEARER_TOKEN ?? "";
+    if (source.type === "twitter_search" && !bearerToken) {
+      console.warn(`[crawler] Skipping X source \"${source.name}\": X_BEARER_TOKEN not set`);
+      report("skipped", 0, "X_BEARER_TOKEN not set");
+      return [];
+    }
+
+    const apiKeyVariable = source.type === "legislature_api" ? legislatureApiKeyVariableFor(source) : null;
+    if (apiKeyVariable && !process.env[apiKeyVariable]) {
+      console.warn(`[crawler] Skipping legislature API source \"${source.name}\": ${apiKeyVariable} not set`);
+      report("skipped", 0, `${apiKeyVariable} not set`);
+      return [];
+    }
+
+    const items = await crawlSourceByType(source, bearerToken, tracked);
+    report("ok", items.length, null);
+    return items;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.warn(`[crawler] Failed to crawl \"${source.name}\": ${message}`);
+    report("failed", 0, message);
     return [];
   }
 }
@@ -212,6 +853,10 @@ function hashText(text: string): string {
   return crypto.createHash("sha1").update(normalizeTextForHash(text)).digest("hex");
 }
 
+function hashBytes(data: Buffer): string {
+  return crypto.createHash("sha1").update(data).digest("hex");
+}
+
 function dedupeItems(items: CrawledItem[]): CrawledItem[] {
   const deduped = new Map<string, CrawledItem>();
   for (const item of items) {
@@ -236,6 +881,7 @@ export async function crawlAllSources(
   sources: RegistrySource[],
   concurrency = 5,
   onProgress?: (completed: number, total: number, sourceName: string) => void,
+  options: CrawlOptions = {},
 ): Promise<CrawledItem[]> {
   const allItems: CrawledItem[] = [];
   const nonTwitterSources = sources.filter((s) => s.type !== "twitter_search");
@@ -244,7 +890,7 @@ export async function crawlAllSources(
 
   for (let i = 0; i < nonTwitterSources.length; i += concurrency) {
     const batch = nonTwitterSources.slice(i, i + concurrency);
-    const results = await Promise.allSettled(batch.map((s) => crawlSource(s)));
+    const results = await Promise.allSettled(batch.map((s) => crawlSource(s, options)));
 
     for (let j = 0; j < results.length; j++) {
       completed++;
@@ -258,7 +904,7 @@ export async function crawlAllSources(
 
   for (let i = 0; i < twitterSources.length; i++) {
     const source = twitterSources[i];
-    const result = await crawlSource(source);
+    const result = await crawlSource(source, options);
     allItems.push(...result);
     completed++;
     onProgress?.(completed, sources.length, source.name);
@@ -268,5 +914,5 @@ export async function crawlAllSources(
     }
   }
 
-  return dedupeItems(allItems);
+  return dedupeItems(allItems).map((item) => ({ ...item, language: detectLanguage(`${item.title}\n${item.text}`) }));
 }
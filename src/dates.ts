@@ -0,0 +1,247 @@
+/**
+ * Deterministic date extraction: dates written in crawled text are found with the words around
+ * them, normalized to ISO dates with a precision flag, and used to check and fill in the
+ * effective and published dates the analyzer reports. Only valid calendar dates come out of
+ * here, so date columns can be compared and parsed safely.
+ */
+
+export const datePrecisions = ["day", "month", "quarter", "year"] as const;
+
+export type DatePrecision = (typeof datePrecisions)[number];
+
+/** A valid calendar date; a partial date is stored as the first day of its month, quarter or year */
+export type NormalizedDate = {
+  date: string;
+  precision: DatePrecision;
+};
+
+/** What a date in the text is, judging by the words just before it */
+export type DateKind = "effective" | "published" | "other";
+
+export type DateCandidate = NormalizedDate & {
+  kind: DateKind;
+  /** The date as written */
+  text: string;
+  /** The text around the date */
+  context: string;
+  /** Offsets of the date in the text */
+  start: number;
+  end: number;
+};
+
+/** Reconciled date and where it came from: the analyzer's answer or the text itself */
+export type ReconciledDate = NormalizedDate & {
+  source: "analysis" | "text";
+};
+
+const MIN_YEAR = 1990;
+const MAX_YEAR = 2100;
+/** Characters before a date searched for words saying what it is */
+const CUE_WINDOW = 80;
+const CONTEXT_AFTER = 40;
+
+const monthNumbers: Record<string, number> = {
+  jan: 1, january: 1, janvier: 1, januar: 1, enero: 1, janeiro: 1,
+  feb: 2, february: 2, février: 2, fevrier: 2, februar: 2, febrero: 2, fevereiro: 2,
+  mar: 3, march: 3, mars: 3, märz: 3, marz: 3, marzo: 3, março: 3, marco: 3,
+  apr: 4, april: 4, avril: 4, abril: 4,
+  may: 5, mai: 5, mayo: 5, maio: 5,
+  jun: 6, june: 6, juin: 6, juni: 6, junio: 6, junho: 6,
+  jul: 7, july: 7, juillet: 7, juli: 7, julio: 7, julho: 7,
+  aug: 8, august: 8, août: 8, aout: 8, agosto: 8,
+  sep: 9, sept: 9, september: 9, septembre: 9, septiembre: 9, setembro: 9,
+  oct: 10, october: 10, octobre: 10, oktober: 10, octubre: 10, outubro: 10,
+  nov: 11, november: 11, novembre: 11, noviembre: 11, novembro: 11,
+  dec: 12, december: 12, décembre: 12, decembre: 12, dezember: 12, diciembre: 12, dezembro: 12,
+};
+
+const monthName = `(${Object.keys(monthNumbers).sort((a, b) => b.length - a.length).join("|")})\\.?`;
+const quarterWords: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4 };
+
+type DateParts = { year: number; month: number; day: number };
+
+type DatePattern = {
+  source: string;
+  precision: DatePrecision;
+  parts: (match: RegExpMatchArray) => DateParts;
+  /** Only recognised as a whole value, not inside running text */
+  wholeValueOnly?: boolean;
+};
+
+const month = (name: string) => monthNumbers[name.toLowerCase()];
+
+// Most specific first: where two patterns match at the same place the earlier one wins
+const datePatterns: DatePattern[] = [
+  {
+    source: "(\\d{4})-(\\d{2})-(\\d{2})(?:T[\\d:.]+(?:Z|[+-]\\d{2}:?\\d{2})?)?",
+    precision: "day",
+    parts: (m) => ({ year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) }),
+  },
+  {
+    source: "(\\d{4})[/.](\\d{1,2})[/.](\\d{1,2})",
+    precision: "day",
+    parts: (m) => ({ year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) }),
+  },
+  {
+    source: `(\\d{1,2})(?:st|nd|rd|th|er|º|\\.)?\\s+(?:de\\s+)?${monthName},?\\s+(?:de\\s+)?(\\d{4})`,
+    precision: "day",
+    parts: (m) => ({ year: Number(m[3]), month: month(m[2]), day: Number(m[1]) }),
+  },
+  {
+    source: `${monthName}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})`,
+    precision: "day",
+    parts: (m) => ({ year: Number(m[3]), month: month(m[1]), day: Number(m[2]) }),
+  },
+  {
+    source: "(\\d{4})-(\\d{2})(?![\\d-])",
+    precision: "month",
+    parts: (m) => ({ year: Number(m[1]), month: Number(m[2]), day: 1 }),
+  },
+  {
+    source: `${monthName},?\\s+(?:de\\s+)?(\\d{4})`,
+    precision: "month",
+    parts: (m) => ({ year: Number(m[2]), month: month(m[1]), day: 1 }),
+  },
+  {
+    source: "Q([1-4])\\s*(\\d{4})",
+    precision: "quarter",
+    parts: (m) => ({ year: Number(m[2]), month: (Number(m[1]) - 1) * 3 + 1, day: 1 }),
+  },
+  {
+    source: "(\\d{4})\\s*-?\\s*Q([1-4])",
+    precision: "quarter",
+    parts: (m) => ({ year: Number(m[1]), month: (Number(m[2]) - 1) * 3 + 1, day: 1 }),
+  },
+  {
+    source: "(first|second|third|fourth)\\s+quarter\\s+(?:of\\s+)?(\\d{4})",
+    precision: "quarter",
+    parts: (m) => ({ year: Number(m[2]), month: (quarterWords[m[1].toLowerCase()] - 1) * 3 + 1, day: 1 }),
+  },
+  {
+    // A bare year in running text is more often an Act's name than a date
+    source: "(\\d{4})",
+    precision: "year",
+    parts: (m) => ({ year: Number(m[1]), month: 1, day: 1 }),
+    wholeValueOnly: true,
+  },
+];
+
+const textPatterns = datePatterns
+  .filter((pattern) => !pattern.wholeValueOnly)
+  .map((pattern) => ({ pattern, regex: new RegExp(`(?<![\\p{L}\\d])${pattern.source}(?![\\p{L}\\d])`, "giu") }));
+const valuePatterns = datePatterns.map((pattern) => ({ pattern, regex: new RegExp(`^${pattern.source}$`, "iu") }));
+
+const effectiveCue =
+  /(effective|in(?:to)? force|take[sn]? effect|taking effect|commenc|appl(?:y|ies|ication)(?: date)? from|compliance deadline|comply by|deadline|en vigueur|in kraft|vigor|vigência|vigencia)/gi;
+const publishedCue = /(published|posted|issued|dated|released|announced|updated|last modified|publicado|publié|veröffentlicht)/gi;
+
+function toIso({ year, month, day }: DateParts): string | null {
+  if (!Number.isInteger(year) || year < MIN_YEAR || year > MAX_YEAR) return null;
+  if (!Number.isInteger(month) || month < 1 || month > 12) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Date.UTC rolls 31 April over to 1 May; a rolled-over date was not a real one
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A date value as an ISO date with its precision, or null when it is not a valid date:
+ * "2026-06-01", "2026-06-01T09:00:00Z", "June 2026", "Q3 2026", "2026" and "1 March 2027"
+ * are dates; "2026-13-01", "TBD" and "upon royal assent" are not.
+ */
+export function normalizeDate(value: unknown): NormalizedDate | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  for (const { pattern, regex } of valuePatterns) {
+    const match = trimmed.match(regex);
+    if (!match) continue;
+    const date = toIso(pattern.parts(match));
+    return date ? { date, precision: pattern.precision } : null;
+  }
+  return null;
+}
+
+/** The kind of the cue closest before `start` in the same sentence, if any */
+function kindBefore(text: string, start: number): DateKind {
+  const before = text.slice(Math.max(0, start - CUE_WINDOW), start);
+  const sentenceStart = Math.max(...[...before.matchAll(/[.!?;]\s|\n/g)].map((match) => match.index! + match[0].length), 0);
+  const window = before.slice(sentenceStart);
+  const last = (cue: RegExp) => Math.max(-1, ...[...window.matchAll(cue)].map((match) => match.index!));
+  const effective = last(effectiveCue);
+  const published = last(publishedCue);
+  if (effective < 0 && published < 0) return "other";
+  return effective > published ? "effective" : "published";
+}
+
+/** Dates written in `text`, in document order, each with its kind and surrounding words */
+export function extractDates(text: string): DateCandidate[] {
+  const found: Array<{ priority: number; start: number; end: number; date: NormalizedDate }> = [];
+  textPatterns.forEach(({ pattern, regex }, priority) => {
+    for (const match of text.matchAll(regex)) {
+      const date = toIso(pattern.parts(match));
+      if (date) found.push({ priority, start: match.index!, end: match.index! + match[0].length, date: { date, precision: pattern.precision } });
+    }
+  });
+
+  // Keep the most specific reading of each stretch of text
+  found.sort((a, b) => a.priority - b.priority || a.start - b.start);
+  const kept: typeof found = [];
+  for (const reading of found) {
+    if (!kept.some((other) => reading.start < other.end && other.start < reading.end)) kept.push(reading);
+  }
+  return kept
+    .sort((a, b) => a.start - b.start)
+    .map(({ start, end, date }) => ({
+      ...date,
+      kind: kindBefore(text, start),
+      text: text.slice(start, end),
+      context: text.slice(Math.max(0, start - CUE_WINDOW), end + CONTEXT_AFTER).replace(/\s+/g, " ").trim(),
+      start,
+      end,
+    }));
+}
+
+const precisionRank: Record<DatePrecision, number> = { day: 3, month: 2, quarter: 1, year: 0 };
+
+/** Exclusive end of the period a normalized date stands for */
+function periodEnd({ date, precision }: NormalizedDate): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const end =
+    precision === "day"
+      ? Date.UTC(year, month - 1, day + 1)
+      : precision === "month"
+        ? Date.UTC(year, month, 1)
+        : precision === "quarter"
+          ? Date.UTC(year, month + 2, 1)
+          : Date.UTC(year + 1, 0, 1);
+  return new Date(end).toISOString().slice(0, 10);
+}
+
+/** Whether two dates can be the same date: the more precise one falls in the other's period */
+function agree(a: NormalizedDate, b: NormalizedDate): boolean {
+  const [coarse, fine] = precisionRank[a.precision] <= precisionRank[b.precision] ? [a, b] : [b, a];
+  return fine.date >= coarse.date && fine.date < periodEnd(coarse);
+}
+
+/**
+ * Reconcile the analyzer's date with the dates in the text. A valid answer is kept, made more
+ * precise when a date in the text agrees with it ("2026" and "1 March 2026"); a date the text
+ * does not state is still kept, since the model may have worked it out ("six months after
+ * Royal Assent"). Without a valid answer, the first date in the text of the wanted kind is used.
+ */
+export function reconcileDate(
+  analysisValue: unknown,
+  candidates: DateCandidate[],
+  kind: Exclude<DateKind, "other">,
+): ReconciledDate | null {
+  const answer = normalizeDate(analysisValue);
+  if (answer) {
+    const sameKindFirst = [...candidates].sort((a, b) => Number(b.kind === kind) - Number(a.kind === kind));
+    const sharper = sameKindFirst.find(
+      (candidate) => precisionRank[candidate.precision] > precisionRank[answer.precision] && agree(answer, candidate),
+    );
+    return sharper ? { date: sharper.date, precision: sharper.precision, source: "text" } : { ...answer, source: "analysis" };
+  }
+  const fromText = candidates.find((candidate) => candidate.kind === kind);
+  return fromText ? { date: fromText.date, precision: fromText.precision, source: "text" } : null;
+}
@@ -2,11 +2,21 @@ import fs from "node:fs";
 import path from "node:path";
 import DatabaseConstructor from "better-sqlite3";
 import crypto from "node:crypto";
+import { type AgeThreshold, type AnalysisClaim, type AnalysisFailure, type AnalysisResult } from "./analyzer";
+import { type GroundedCitation } from "./citations";
+import { type CrawledItem } from "./crawler";
+import { normalizeDate, type DatePrecision } from "./dates";
 import { inferCanonicalLaw } from "./law-canonical";
+import { detectLanguage } from "./language";
+import { type LegislativeBill } from "./legislature-connectors";
+import { type LinkCheckResult, type LinkCheckStatus } from "./link-checker";
+import { obligationTypes, type Obligation } from "./obligations";
+import { diffParagraphs, type ParagraphChange, type ParagraphDiff } from "./page-diff";
+import { sourceTypes, type RegistrySource, type SourceType } from "./sources";
 
 export const databasePathDefault = path.join(process.cwd(), "data", "reg-regulation-dashboard.sqlite");
 
-const allowedStages = [
+export const allowedStages = [
   "proposed",
   "introduced",
   "committee_review",
@@ -16,7 +26,9 @@ const allowedStages = [
   "amended",
   "withdrawn",
   "rejected",
-];
+] as const;
+
+export type Stage = (typeof allowedStages)[number];
 
 const allowedAuthorities = ["national", "state", "local", "supranational"];
 
@@ -36,6 +48,8 @@ export function openDatabase(databasePath = databasePathDefault): DatabaseConstr
 export function initializeSchema(db: DatabaseConstructor.Database): void {
   const authorityList = allowedAuthorities.map((a) => `'${a}'`).join(",");
   const stageList = allowedStages.map((s) => `'${s}'`).join(",");
+  const sourceTypeList = sourceTypes.map((t) => `'${t}'`).join(",");
+  const obligationTypeList = obligationTypes.map((t) => `'${t}'`).join(",");
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS sources (
@@ -46,7 +60,19 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
       jurisdiction TEXT NOT NULL,
       reliability_tier INTEGER NOT NULL DEFAULT 3 CHECK (reliability_tier BETWEEN 1 AND 5),
       last_crawled_at TEXT,
-      created_at TEXT NOT NULL
+      created_at TEXT NOT NULL,
+      quarantined_at TEXT,
+      quarantine_reason TEXT,
+      type TEXT CHECK (type IN (${sourceTypeList})),
+      jurisdiction_country TEXT,
+      jurisdiction_state TEXT,
+      search_keywords TEXT,
+      description TEXT,
+      twitter_query TEXT,
+      crawl_settings TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0,1)),
+      updated_at TEXT,
+      render_flagged_at TEXT
     );
 
     CREATE TABLE IF NOT EXISTS regulation_events (
@@ -67,9 +93,13 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
       affected_products TEXT,
       competitor_responses TEXT,
       raw_text TEXT,
+      language TEXT,
+      translated_text TEXT,
       source_url_link TEXT,
       effective_date TEXT,
       published_date TEXT,
+      effective_date_precision TEXT,
+      published_date_precision TEXT,
       source_id INTEGER NOT NULL,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
@@ -93,7 +123,10 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
       items_found INTEGER DEFAULT 0,
       items_new INTEGER DEFAULT 0,
       items_updated INTEGER DEFAULT 0,
-      error_message TEXT
+      error_message TEXT,
+      robots_blocked_sources TEXT,
+      analysis_cache_hits INTEGER DEFAULT 0,
+      analysis_cache_misses INTEGER DEFAULT 0
     );
 
     CREATE TABLE IF NOT EXISTS event_history (
@@ -146,6 +179,7 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
       law_type TEXT,
       stage TEXT,
       status TEXT,
+      stage_source TEXT,
       first_seen_at TEXT,
       last_seen_at TEXT,
       latest_effective_date TEXT,
@@ -179,6 +213,271 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
       FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
     );
 
+    CREATE TABLE IF NOT EXISTS crawl_schedules (
+      source_name TEXT PRIMARY KEY,
+      cron_expression TEXT NOT NULL,
+      next_run_at TEXT NOT NULL,
+      last_run_at TEXT,
+      last_run_id INTEGER,
+      last_status TEXT,
+      skipped_runs INTEGER NOT NULL DEFAULT 0,
+      last_skipped_at TEXT,
+      last_skip_reason TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS source_fetch_cache (
+      url TEXT PRIMARY KEY,
+      etag TEXT,
+      last_modified TEXT,
+      content_hash TEXT NOT NULL,
+      fetched_at TEXT NOT NULL,
+      checked_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS page_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      stripped_text TEXT NOT NULL,
+      paragraph_count INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS page_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      snapshot_id INTEGER NOT NULL,
+      previous_snapshot_id INTEGER NOT NULL,
+      change_type TEXT NOT NULL CHECK (change_type IN ('added', 'removed')),
+      paragraph_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      detected_at TEXT NOT NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE,
+      FOREIGN KEY (snapshot_id) REFERENCES page_snapshots (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_page_snapshots_url ON page_snapshots(url, fetched_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_page_changes_source_id ON page_changes(source_id, detected_at DESC);
+
+    CREATE TABLE IF NOT EXISTS feed_seen_items (
+      source_name TEXT NOT NULL,
+      guid TEXT NOT NULL,
+      first_seen_at TEXT NOT NULL,
+      PRIMARY KEY (source_name, guid)
+    );
+
+    CREATE TABLE IF NOT EXISTS source_crawl_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      source_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('ok', 'failed', 'blocked', 'skipped')),
+      status_code INTEGER,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      item_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      crawled_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_source_crawl_results_source ON source_crawl_results(source_id, id DESC);
+
+    CREATE TABLE IF NOT EXISTS link_check_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      started_at TEXT NOT NULL,
+      completed_at TEXT,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+      sources_checked INTEGER NOT NULL DEFAULT 0,
+      sources_updated INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS link_check_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      source_id INTEGER,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('ok', 'redirected', 'soft_404', 'broken', 'error')),
+      status_code INTEGER,
+      final_url TEXT NOT NULL,
+      redirect_chain TEXT NOT NULL DEFAULT '[]',
+      permanent_redirect INTEGER NOT NULL DEFAULT 0,
+      canonical_url TEXT,
+      suggested_url TEXT,
+      title TEXT,
+      error TEXT,
+      url_updated INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      checked_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES link_check_runs (id) ON DELETE CASCADE,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_link_check_results_run ON link_check_results(run_id, status);
+
+    CREATE TABLE IF NOT EXISTS legislative_bills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER,
+      connector TEXT NOT NULL,
+      external_id TEXT NOT NULL,
+      identifier TEXT NOT NULL,
+      title TEXT NOT NULL,
+      jurisdiction_country TEXT NOT NULL,
+      jurisdiction_state TEXT,
+      session TEXT,
+      stage TEXT NOT NULL CHECK (stage IN (${stageList})),
+      status_text TEXT,
+      url TEXT NOT NULL,
+      introduced_date TEXT,
+      latest_action_date TEXT,
+      law_key TEXT NOT NULL,
+      law_name TEXT NOT NULL,
+      law_type TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE (connector, external_id),
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS legislative_bill_stages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bill_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      stage TEXT NOT NULL,
+      action_date TEXT,
+      action_text TEXT NOT NULL,
+      FOREIGN KEY (bill_id) REFERENCES legislative_bills (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_legislative_bills_law_key ON legislative_bills(law_key);
+    CREATE INDEX IF NOT EXISTS idx_legislative_bill_stages_bill ON legislative_bill_stages(bill_id, position);
+
+    CREATE TABLE IF NOT EXISTS crawl_artifacts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      url TEXT NOT NULL,
+      status_code INTEGER,
+      headers TEXT NOT NULL DEFAULT '{}',
+      content_type TEXT,
+      rendered INTEGER NOT NULL DEFAULT 0,
+      sha256 TEXT NOT NULL,
+      byte_size INTEGER NOT NULL,
+      compressed_size INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS event_artifacts (
+      event_id TEXT NOT NULL,
+      artifact_id INTEGER NOT NULL,
+      linked_at TEXT NOT NULL,
+      PRIMARY KEY (event_id, artifact_id),
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE,
+      FOREIGN KEY (artifact_id) REFERENCES crawl_artifacts (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_crawl_artifacts_url ON crawl_artifacts(url, fetched_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_crawl_artifacts_sha256 ON crawl_artifacts(sha256);
+    CREATE INDEX IF NOT EXISTS idx_event_artifacts_event ON event_artifacts(event_id, linked_at DESC);
+
+    CREATE TABLE IF NOT EXISTS event_claims (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('provision', 'date', 'age_threshold')),
+      text TEXT NOT NULL,
+      value TEXT,
+      quote TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      start_offset INTEGER,
+      end_offset INTEGER,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_claims_event ON event_claims(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_citations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      claim TEXT NOT NULL,
+      quote TEXT NOT NULL,
+      verified INTEGER NOT NULL,
+      start_offset INTEGER,
+      end_offset INTEGER,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_citations_event ON event_citations(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_age_thresholds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      min_age INTEGER,
+      max_age INTEGER,
+      rule TEXT NOT NULL CHECK (rule IN ('ban', 'parental_consent', 'age_verification', 'restriction', 'other')),
+      text TEXT NOT NULL,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_age_thresholds_event ON event_age_thresholds(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_obligations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      obligation_type TEXT NOT NULL CHECK (obligation_type IN (${obligationTypeList})),
+      provision TEXT,
+      text TEXT NOT NULL,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_obligations_event ON event_obligations(event_id, id);
+    CREATE INDEX IF NOT EXISTS idx_event_obligations_type ON event_obligations(obligation_type, event_id);
+
+    CREATE TABLE IF NOT EXISTS crawl_run_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      item TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_crawl_run_items_run ON crawl_run_items(run_id, position);
+
+    CREATE TABLE IF NOT EXISTS analysis_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      title TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('invalid_response', 'request_failed')),
+      errors TEXT NOT NULL,
+      raw_response TEXT,
+      attempts INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      failed_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_analysis_failures_run ON analysis_failures(run_id, id);
+
+    CREATE TABLE IF NOT EXISTS analysis_cache (
+      text_hash TEXT NOT NULL,
+      prompt_version INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      result TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_hit_at TEXT,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (text_hash, prompt_version, model)
+    );
+
     CREATE INDEX IF NOT EXISTS idx_regulation_events_stage
       ON regulation_events(stage);
     CREATE INDEX IF NOT EXISTS idx_regulation_events_jurisdiction_country
@@ -212,6 +511,54 @@ export function initializeSchema(db: DatabaseConstructor.Database): void {
   `);
 }
 
+/** Detect the language of events stored before languages were recorded */
+function backfillEventLanguages(db: DatabaseConstructor.Database): void {
+  const rows = db
+    .prepare("SELECT id, title, raw_text FROM regulation_events WHERE language IS NULL AND raw_text IS NOT NULL")
+    .all() as Array<{ id: string; title: string; raw_text: string }>;
+  const update = db.prepare("UPDATE regulation_events SET language = ? WHERE id = ?");
+  db.transaction(() => {
+    for (const row of rows) update.run(detectLanguage(`${row.title}\n${row.raw_text}`), row.id);
+  })();
+}
+
+/**
+ * Rewrite stored dates that predate normalization: partial dates such as "Q3 2026" become
+ * ISO dates with a precision, and values that are not dates at all are cleared.
+ */
+function normalizeEventDates(db: DatabaseConstructor.Database): void {
+  const rows = db
+    .prepare(
+      `SELECT id, effective_date, published_date, effective_date_precision, published_date_precision
+       FROM regulation_events
+       WHERE (effective_date IS NOT NULL AND effective_date_precision IS NULL)
+          OR (published_date IS NOT NULL AND published_date_precision IS NULL)`,
+    )
+    .all() as Array<{
+    id: string;
+    effective_date: string | null;
+    published_date: string | null;
+    effective_date_precision: string | null;
+    published_date_precision: string | null;
+  }>;
+  const update = db.prepare(
+    `UPDATE regulation_events
+     SET effective_date = ?, effective_date_precision = ?, published_date = ?, published_date_precision = ?
+     WHERE id = ?`,
+  );
+  db.transaction(() => {
+    for (const row of rows) {
+      const effective = row.effective_date_precision
+        ? { date: row.effective_date, precision: row.effective_date_precision }
+        : normalizeDate(row.effective_date);
+      const published = row.published_date_precision
+        ? { date: row.published_date, precision: row.published_date_precision }
+        : normalizeDate(row.published_date);
+      update.run(effective?.date ?? null, effective?.precision ?? null, published?.date ?? null, published?.precision ?? null, row.id);
+    }
+  })();
+}
+
 /** Safely add a column to a table if it doesn't already exist */
 function addColumnIfNotExists(
   db: DatabaseConstructor.Database,
@@ -225,10 +572,58 @@ function addColumnIfNotExists(
   }
 }
 
+/**
+ * Rebuild the sources table when its type CHECK constraint predates a source type.
+ * SQLite cannot alter a constraint in place, so the table is recreated from its own
+ * stored SQL with the current type list, copied, and swapped in.
+ */
+function migrateSourceTypeConstraint(db: DatabaseConstructor.Database): void {
+  const row = db.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'sources'").get() as
+    | { sql: string }
+    | undefined;
+  const constraint = row?.sql.match(/type TEXT CHECK \(type IN \(([^)]*)\)\)/);
+  const sourceTypeList = sourceTypes.map((t) => `'${t}'`).join(",");
+  if (!row || !constraint || constraint[1] === sourceTypeList) return;
+
+  const rebuildSql = row.sql
+    .replace(constraint[0], `type TEXT CHECK (type IN (${sourceTypeList}))`)
+    .replace(/^CREATE TABLE\s+(?:IF NOT EXISTS\s+)?"?sources"?/i, "CREATE TABLE sources_rebuild");
+
+  // Other tables reference sources by id (`source_id`); rows are copied with their ids, and
+  // foreign keys are off so the drop does not cascade into or null out those references
+  db.pragma("foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      db.exec(rebuildSql);
+      db.exec("INSERT INTO sources_rebuild SELECT * FROM sources");
+      db.exec("DROP TABLE sources");
+      db.exec("ALTER TABLE sources_rebuild RENAME TO sources");
+    })();
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+}
+
 /** Run migrations for existing databases */
 export function migrateSchema(db: DatabaseConstructor.Database): void {
+  const stageList = allowedStages.map((s) => `'${s}'`).join(",");
+  const obligationTypeList = obligationTypes.map((t) => `'${t}'`).join(",");
+
+  migrateSourceTypeConstraint(db);
   addColumnIfNotExists(db, "sources", "reliability_tier", "INTEGER NOT NULL DEFAULT 3");
   addColumnIfNotExists(db, "sources", "last_crawled_at", "TEXT");
+  addColumnIfNotExists(db, "sources", "quarantined_at", "TEXT");
+  addColumnIfNotExists(db, "sources", "quarantine_reason", "TEXT");
+  addColumnIfNotExists(db, "sources", "type", "TEXT");
+  addColumnIfNotExists(db, "sources", "jurisdiction_country", "TEXT");
+  addColumnIfNotExists(db, "sources", "jurisdiction_state", "TEXT");
+  addColumnIfNotExists(db, "sources", "search_keywords", "TEXT");
+  addColumnIfNotExists(db, "sources", "description", "TEXT");
+  addColumnIfNotExists(db, "sources", "twitter_query", "TEXT");
+  addColumnIfNotExists(db, "sources", "crawl_settings", "TEXT");
+  addColumnIfNotExists(db, "sources", "enabled", "INTEGER NOT NULL DEFAULT 1");
+  addColumnIfNotExists(db, "sources", "updated_at", "TEXT");
+  addColumnIfNotExists(db, "sources", "render_flagged_at", "TEXT");
   addColumnIfNotExists(db, "regulation_events", "age_bracket", "TEXT DEFAULT 'both'");
   addColumnIfNotExists(db, "regulation_events", "business_impact", "TEXT");
   addColumnIfNotExists(db, "regulation_events", "required_solutions", "TEXT");
@@ -236,6 +631,12 @@ export function migrateSchema(db: DatabaseConstructor.Database): void {
   addColumnIfNotExists(db, "regulation_events", "competitor_responses", "TEXT");
   addColumnIfNotExists(db, "regulation_events", "raw_text", "TEXT");
   addColumnIfNotExists(db, "regulation_events", "source_url_link", "TEXT");
+  addColumnIfNotExists(db, "regulation_events", "language", "TEXT");
+  addColumnIfNotExists(db, "regulation_events", "translated_text", "TEXT");
+  backfillEventLanguages(db);
+  addColumnIfNotExists(db, "regulation_events", "effective_date_precision", "TEXT");
+  addColumnIfNotExists(db, "regulation_events", "published_date_precision", "TEXT");
+  normalizeEventDates(db);
 
   db.exec(`
     CREATE TABLE IF NOT EXISTS crawl_runs (
@@ -246,7 +647,10 @@ export function migrateSchema(db: DatabaseConstructor.Database): void {
       items_found INTEGER DEFAULT 0,
       items_new INTEGER DEFAULT 0,
       items_updated INTEGER DEFAULT 0,
-      error_message TEXT
+      error_message TEXT,
+      robots_blocked_sources TEXT,
+      analysis_cache_hits INTEGER DEFAULT 0,
+      analysis_cache_misses INTEGER DEFAULT 0
     );
 
     CREATE TABLE IF NOT EXISTS event_history (
@@ -299,6 +703,7 @@ export function migrateSchema(db: DatabaseConstructor.Database): void {
       law_type TEXT,
       stage TEXT,
       status TEXT,
+      stage_source TEXT,
       first_seen_at TEXT,
       last_seen_at TEXT,
       latest_effective_date TEXT,
@@ -332,6 +737,271 @@ export function migrateSchema(db: DatabaseConstructor.Database): void {
       FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
     );
 
+    CREATE TABLE IF NOT EXISTS crawl_schedules (
+      source_name TEXT PRIMARY KEY,
+      cron_expression TEXT NOT NULL,
+      next_run_at TEXT NOT NULL,
+      last_run_at TEXT,
+      last_run_id INTEGER,
+      last_status TEXT,
+      skipped_runs INTEGER NOT NULL DEFAULT 0,
+      last_skipped_at TEXT,
+      last_skip_reason TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS source_fetch_cache (
+      url TEXT PRIMARY KEY,
+      etag TEXT,
+      last_modified TEXT,
+      content_hash TEXT NOT NULL,
+      fetched_at TEXT NOT NULL,
+      checked_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS page_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      stripped_text TEXT NOT NULL,
+      paragraph_count INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS page_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      snapshot_id INTEGER NOT NULL,
+      previous_snapshot_id INTEGER NOT NULL,
+      change_type TEXT NOT NULL CHECK (change_type IN ('added', 'removed')),
+      paragraph_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      detected_at TEXT NOT NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE,
+      FOREIGN KEY (snapshot_id) REFERENCES page_snapshots (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_page_snapshots_url ON page_snapshots(url, fetched_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_page_changes_source_id ON page_changes(source_id, detected_at DESC);
+
+    CREATE TABLE IF NOT EXISTS feed_seen_items (
+      source_name TEXT NOT NULL,
+      guid TEXT NOT NULL,
+      first_seen_at TEXT NOT NULL,
+      PRIMARY KEY (source_name, guid)
+    );
+
+    CREATE TABLE IF NOT EXISTS source_crawl_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      source_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('ok', 'failed', 'blocked', 'skipped')),
+      status_code INTEGER,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      item_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      crawled_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_source_crawl_results_source ON source_crawl_results(source_id, id DESC);
+
+    CREATE TABLE IF NOT EXISTS link_check_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      started_at TEXT NOT NULL,
+      completed_at TEXT,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+      sources_checked INTEGER NOT NULL DEFAULT 0,
+      sources_updated INTEGER NOT NULL DEFAULT 0,
+      error_message TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS link_check_results (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      source_id INTEGER,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('ok', 'redirected', 'soft_404', 'broken', 'error')),
+      status_code INTEGER,
+      final_url TEXT NOT NULL,
+      redirect_chain TEXT NOT NULL DEFAULT '[]',
+      permanent_redirect INTEGER NOT NULL DEFAULT 0,
+      canonical_url TEXT,
+      suggested_url TEXT,
+      title TEXT,
+      error TEXT,
+      url_updated INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      checked_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES link_check_runs (id) ON DELETE CASCADE,
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_link_check_results_run ON link_check_results(run_id, status);
+
+    CREATE TABLE IF NOT EXISTS legislative_bills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER,
+      connector TEXT NOT NULL,
+      external_id TEXT NOT NULL,
+      identifier TEXT NOT NULL,
+      title TEXT NOT NULL,
+      jurisdiction_country TEXT NOT NULL,
+      jurisdiction_state TEXT,
+      session TEXT,
+      stage TEXT NOT NULL CHECK (stage IN (${stageList})),
+      status_text TEXT,
+      url TEXT NOT NULL,
+      introduced_date TEXT,
+      latest_action_date TEXT,
+      law_key TEXT NOT NULL,
+      law_name TEXT NOT NULL,
+      law_type TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      UNIQUE (connector, external_id),
+      FOREIGN KEY (source_id) REFERENCES sources (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS legislative_bill_stages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      bill_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      stage TEXT NOT NULL,
+      action_date TEXT,
+      action_text TEXT NOT NULL,
+      FOREIGN KEY (bill_id) REFERENCES legislative_bills (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_legislative_bills_law_key ON legislative_bills(law_key);
+    CREATE INDEX IF NOT EXISTS idx_legislative_bill_stages_bill ON legislative_bill_stages(bill_id, position);
+
+    CREATE TABLE IF NOT EXISTS crawl_artifacts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      url TEXT NOT NULL,
+      status_code INTEGER,
+      headers TEXT NOT NULL DEFAULT '{}',
+      content_type TEXT,
+      rendered INTEGER NOT NULL DEFAULT 0,
+      sha256 TEXT NOT NULL,
+      byte_size INTEGER NOT NULL,
+      compressed_size INTEGER NOT NULL,
+      fetched_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS event_artifacts (
+      event_id TEXT NOT NULL,
+      artifact_id INTEGER NOT NULL,
+      linked_at TEXT NOT NULL,
+      PRIMARY KEY (event_id, artifact_id),
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE,
+      FOREIGN KEY (artifact_id) REFERENCES crawl_artifacts (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_crawl_artifacts_url ON crawl_artifacts(url, fetched_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_crawl_artifacts_sha256 ON crawl_artifacts(sha256);
+    CREATE INDEX IF NOT EXISTS idx_event_artifacts_event ON event_artifacts(event_id, linked_at DESC);
+
+    CREATE TABLE IF NOT EXISTS event_claims (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('provision', 'date', 'age_threshold')),
+      text TEXT NOT NULL,
+      value TEXT,
+      quote TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      start_offset INTEGER,
+      end_offset INTEGER,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_claims_event ON event_claims(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_citations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      claim TEXT NOT NULL,
+      quote TEXT NOT NULL,
+      verified INTEGER NOT NULL,
+      start_offset INTEGER,
+      end_offset INTEGER,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_citations_event ON event_citations(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_age_thresholds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      min_age INTEGER,
+      max_age INTEGER,
+      rule TEXT NOT NULL CHECK (rule IN ('ban', 'parental_consent', 'age_verification', 'restriction', 'other')),
+      text TEXT NOT NULL,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_age_thresholds_event ON event_age_thresholds(event_id, id);
+
+    CREATE TABLE IF NOT EXISTS event_obligations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      obligation_type TEXT NOT NULL CHECK (obligation_type IN (${obligationTypeList})),
+      provision TEXT,
+      text TEXT NOT NULL,
+      FOREIGN KEY (event_id) REFERENCES regulation_events (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_event_obligations_event ON event_obligations(event_id, id);
+    CREATE INDEX IF NOT EXISTS idx_event_obligations_type ON event_obligations(obligation_type, event_id);
+
+    CREATE TABLE IF NOT EXISTS crawl_run_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      item TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_crawl_run_items_run ON crawl_run_items(run_id, position);
+
+    CREATE TABLE IF NOT EXISTS analysis_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER,
+      source_name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      title TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('invalid_response', 'request_failed')),
+      errors TEXT NOT NULL,
+      raw_response TEXT,
+      attempts INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      failed_at TEXT NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES crawl_runs (id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_analysis_failures_run ON analysis_failures(run_id, id);
+
+    CREATE TABLE IF NOT EXISTS analysis_cache (
+      text_hash TEXT NOT NULL,
+      prompt_version INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      result TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_hit_at TEXT,
+      hit_count INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (text_hash, prompt_version, model)
+    );
+
     CREATE INDEX IF NOT EXISTS idx_regulation_events_age_bracket ON regulation_events(age_bracket);
     CREATE INDEX IF NOT EXISTS idx_regulation_events_published_date ON regulation_events(published_date);
     CREATE INDEX IF NOT EXISTS idx_regulation_events_updated_at ON regulation_events(updated_at);
@@ -344,8 +1014,12 @@ export function migrateSchema(db: DatabaseConstructor.Database): void {
     CREATE UNIQUE INDEX IF NOT EXISTS idx_law_updates_event_id ON law_updates(event_id);
   `);
 
+  addColumnIfNotExists(db, "crawl_runs", "robots_blocked_sources", "TEXT");
+  addColumnIfNotExists(db, "crawl_runs", "analysis_cache_hits", "INTEGER DEFAULT 0");
+  addColumnIfNotExists(db, "crawl_runs", "analysis_cache_misses", "INTEGER DEFAULT 0");
   addColumnIfNotExists(db, "laws", "stage", "TEXT");
   addColumnIfNotExists(db, "laws", "status", "TEXT");
+  addColumnIfNotExists(db, "laws", "stage_source", "TEXT");
   addColumnIfNotExists(db, "laws", "aggregate_risk_max", "REAL NOT NULL DEFAULT 0");
   addColumnIfNotExists(db, "laws", "aggregate_risk_recent_weighted", "REAL NOT NULL DEFAULT 0");
   addColumnIfNotExists(db, "laws", "aggregate_risk_overall", "REAL NOT NULL DEFAULT 0");
@@ -368,6 +1042,12 @@ export type CrawlRun = {
   itemsNew: number;
   itemsUpdated: number;
   errorMessage: string | null;
+  /** Sources skipped because robots.txt disallowed them */
+  robotsBlockedSources: string[];
+  /** Items whose analysis came from `analysis_cache` */
+  analysisCacheHits: number;
+  /** Items sent to the LLM because no cached analysis matched */
+  analysisCacheMisses: number;
 };
 
 export type EventHistoryEntry = {
@@ -439,12 +1119,29 @@ export function startCrawlRun(db: DatabaseConstructor.Database): number {
 export function completeCrawlRun(
   db: DatabaseConstructor.Database,
   runId: number,
-  stats: { itemsFound: number; itemsNew: number; itemsUpdated: number },
+  stats: {
+    itemsFound: number;
+    itemsNew: number;
+    itemsUpdated: number;
+    robotsBlockedSources?: string[];
+    analysisCacheHits?: number;
+    analysisCacheMisses?: number;
+  },
 ): void {
   db.prepare(
     `UPDATE crawl_runs SET completed_at = ?, status = 'completed',
-     items_found = ?, items_new = ?, items_updated = ? WHERE id = ?`,
-  ).run(new Date().toISOString(), stats.itemsFound, stats.itemsNew, stats.itemsUpdated, runId);
+     items_found = ?, items_new = ?, items_updated = ?, robots_blocked_sources = ?,
+     analysis_cache_hits = ?, analysis_cache_misses = ? WHERE id = ?`,
+  ).run(
+    new Date().toISOString(),
+    stats.itemsFound,
+    stats.itemsNew,
+    stats.itemsUpdated,
+    JSON.stringify(stats.robotsBlockedSources ?? []),
+    stats.analysisCacheHits ?? 0,
+    stats.analysisCacheMisses ?? 0,
+    runId,
+  );
 }
 
 export function failCrawlRun(db: DatabaseConstructor.Database, runId: number, error: string): void {
@@ -467,61 +1164,759 @@ export function getLatestCrawlRun(db: DatabaseConstructor.Database): CrawlRun |
     itemsNew: row.items_new as number,
     itemsUpdated: row.items_updated as number,
     errorMessage: row.error_message as string | null,
+    robotsBlockedSources: row.robots_blocked_sources ? (JSON.parse(row.robots_blocked_sources as string) as string[]) : [],
+    analysisCacheHits: (row.analysis_cache_hits as number | null) ?? 0,
+    analysisCacheMisses: (row.analysis_cache_misses as number | null) ?? 0,
   };
 }
 
-export type UpsertEventInput = {
-  title: string;
-  jurisdictionCountry: string;
-  jurisdictionState: string | null;
-  stage: string;
-  isUnder16Applicable: boolean;
-  ageBracket: "13-15" | "16-18" | "both";
-  impactScore: number;
-  likelihoodScore: number;
-  confidenceScore: number;
-  chiliScore: number;
-  summary: string;
-  businessImpact: string | null;
-  requiredSolutions: string[] | null;
-  affectedProducts: string[] | null;
-  competitorResponses: string[] | null;
-  rawText: string | null;
-  sourceUrlLink: string | null;
-  effectiveDate: string | null;
-  publishedDate: string | null;
-  sourceId: number;
+export type CrawlSchedule = {
+  sourceName: string;
+  cronExpression: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastRunId: number | null;
+  lastStatus: string | null;
+  skippedRuns: number;
+  lastSkippedAt: string | null;
+  lastSkipReason: string | null;
+  updatedAt: string;
 };
 
-function normalizeForHash(value: string): string {
-  return value.replace(/\s+/g, " ").trim().toLowerCase();
-}
-
-function hashText(value: string | null | undefined): string {
-  return crypto.createHash("sha1").update(normalizeForHash(value ?? "")).digest("hex");
+function mapCrawlScheduleRow(row: Record<string, unknown>): CrawlSchedule {
+  return {
+    sourceName: row.source_name as string,
+    cronExpression: row.cron_expression as string,
+    nextRunAt: row.next_run_at as string,
+    lastRunAt: (row.last_run_at as string | null) ?? null,
+    lastRunId: (row.last_run_id as number | null) ?? null,
+    lastStatus: (row.last_status as string | null) ?? null,
+    skippedRuns: Number(row.skipped_runs ?? 0),
+    lastSkippedAt: (row.last_skipped_at as string | null) ?? null,
+    lastSkipReason: (row.last_skip_reason as string | null) ?? null,
+    updatedAt: row.updated_at as string,
+  };
 }
 
-function buildRegulationKey(country: string, state: string | null | undefined, title: string): string {
-  return [normalizeForHash(country), normalizeForHash(state ?? ""), normalizeForHash(title)].join("|");
+export function getCrawlSchedules(db: DatabaseConstructor.Database): CrawlSchedule[] {
+  const rows = db
+    .prepare("SELECT * FROM crawl_schedules ORDER BY next_run_at ASC, source_name ASC")
+    .all() as Array<Record<string, unknown>>;
+  return rows.map(mapCrawlScheduleRow);
 }
 
 /**
- * Upsert a regulation event. Dedup by URL, text hash, and regulation key.
- * Returns 'new' if inserted, 'updated' if changed, 'duplicate' if unchanged.
+ * Insert or refresh a source's schedule. The next run time is only reset when the
+ * source is new or its cron expression changed, so restarts keep the persisted plan.
  */
-export function upsertEvent(
+export function upsertCrawlSchedule(
   db: DatabaseConstructor.Database,
-  input: UpsertEventInput,
-): "new" | "updated" | "duplicate" {
-  const regulationKey = buildRegulationKey(
-    input.jurisdictionCountry,
-    input.jurisdictionState,
-    input.title,
-  );
-  const normalizedSourceUrl = (input.sourceUrlLink ?? "").trim().toLowerCase();
-  const contentHash = hashText(input.rawText);
-
-  const candidates = db
+  schedule: { sourceName: string; cronExpression: string; nextRunAt: string },
+): void {
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO crawl_schedules (source_name, cron_expression, next_run_at, updated_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT (source_name) DO UPDATE SET
+       cron_expression = excluded.cron_expression,
+       next_run_at = excluded.next_run_at,
+       updated_at = excluded.updated_at
+     WHERE crawl_schedules.cron_expression != excluded.cron_expression`,
+  ).run(schedule.sourceName, schedule.cronExpression, schedule.nextRunAt, now);
+}
+
+export function recordScheduledRun(
+  db: DatabaseConstructor.Database,
+  sourceName: string,
+  run: { runId: number | null; status: string; ranAt: string; nextRunAt: string },
+): void {
+  db.prepare(
+    `UPDATE crawl_schedules SET last_run_at = ?, last_run_id = ?, last_status = ?, next_run_at = ?, updated_at = ?
+     WHERE source_name = ?`,
+  ).run(run.ranAt, run.runId, run.status, run.nextRunAt, new Date().toISOString(), sourceName);
+}
+
+export function recordSkippedRun(
+  db: DatabaseConstructor.Database,
+  sourceName: string,
+  skip: { reason: string; skippedAt: string; nextRunAt: string },
+): void {
+  db.prepare(
+    `UPDATE crawl_schedules SET skipped_runs = skipped_runs + 1, last_skipped_at = ?, last_skip_reason = ?,
+       next_run_at = ?, updated_at = ?
+     WHERE source_name = ?`,
+  ).run(skip.skippedAt, skip.reason, skip.nextRunAt, new Date().toISOString(), sourceName);
+}
+
+export type FetchCacheEntry = {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string;
+  fetchedAt: string;
+};
+
+/** Conditional-fetch validators the crawler reads before a request and writes after a 200 */
+export type FetchCache = {
+  get: (url: string) => FetchCacheEntry | null;
+  save: (entry: FetchCacheEntry) => void;
+  markUnchanged: (url: string, checkedAt: string) => void;
+};
+
+export function getFetchCacheEntry(db: DatabaseConstructor.Database, url: string): FetchCacheEntry | null {
+  const row = db
+    .prepare("SELECT url, etag, last_modified, content_hash, fetched_at FROM source_fetch_cache WHERE url = ?")
+    .get(url) as Record<string, unknown> | undefined;
+  if (!row) return null;
+  return {
+    url: row.url as string,
+    etag: (row.etag as string | null) ?? null,
+    lastModified: (row.last_modified as string | null) ?? null,
+    contentHash: row.content_hash as string,
+    fetchedAt: row.fetched_at as string,
+  };
+}
+
+export function createFetchCache(db: DatabaseConstructor.Database): FetchCache {
+  return {
+    get: (url) => getFetchCacheEntry(db, url),
+    save: (entry) => {
+      db.prepare(
+        `INSERT INTO source_fetch_cache (url, etag, last_modified, content_hash, fetched_at, checked_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (url) DO UPDATE SET
+           etag = excluded.etag,
+           last_modified = excluded.last_modified,
+           content_hash = excluded.content_hash,
+           fetched_at = excluded.fetched_at,
+           checked_at = excluded.checked_at`,
+      ).run(entry.url, entry.etag, entry.lastModified, entry.contentHash, entry.fetchedAt, entry.fetchedAt);
+    },
+    markUnchanged: (url, checkedAt) => {
+      db.prepare("UPDATE source_fetch_cache SET checked_at = ? WHERE url = ?").run(checkedAt, url);
+    },
+  };
+}
+
+/** Feed item GUIDs already emitted per source, so later crawls skip them */
+export type SeenFeedItemStore = {
+  has: (sourceName: string, guid: string) => boolean;
+  add: (sourceName: string, guid: string, seenAt: string) => void;
+};
+
+export function createSeenFeedItemStore(db: DatabaseConstructor.Database): SeenFeedItemStore {
+  return {
+    has: (sourceName, guid) =>
+      Boolean(db.prepare("SELECT 1 FROM feed_seen_items WHERE source_name = ? AND guid = ?").get(sourceName, guid)),
+    add: (sourceName, guid, seenAt) => {
+      db.prepare("INSERT OR IGNORE INTO feed_seen_items (source_name, guid, first_seen_at) VALUES (?, ?, ?)").run(
+        sourceName,
+        guid,
+        seenAt,
+      );
+    },
+  };
+}
+
+/** Analyses already made for an LLM input, keyed by input hash, prompt version and model */
+export type AnalysisCacheKey = {
+  textHash: string;
+  promptVersion: number;
+  model: string;
+};
+
+export type AnalysisCache = {
+  get: (key: AnalysisCacheKey) => AnalysisResult | null;
+  set: (key: AnalysisCacheKey, result: AnalysisResult) => void;
+};
+
+export function createAnalysisCache(db: DatabaseConstructor.Database): AnalysisCache {
+  return {
+    get: ({ textHash, promptVersion, model }) => {
+      const row = db
+        .prepare("SELECT result FROM analysis_cache WHERE text_hash = ? AND prompt_version = ? AND model = ?")
+        .get(textHash, promptVersion, model) as { result: string } | undefined;
+      if (!row) return null;
+      db.prepare(
+        `UPDATE analysis_cache SET hit_count = hit_count + 1, last_hit_at = ?
+         WHERE text_hash = ? AND prompt_version = ? AND model = ?`,
+      ).run(new Date().toISOString(), textHash, promptVersion, model);
+      return JSON.parse(row.result) as AnalysisResult;
+    },
+    set: ({ textHash, promptVersion, model }, result) => {
+      db.prepare(
+        `INSERT INTO analysis_cache (text_hash, prompt_version, model, result, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(text_hash, prompt_version, model) DO UPDATE SET result = excluded.result, created_at = excluded.created_at`,
+      ).run(textHash, promptVersion, model, JSON.stringify(result), new Date().toISOString());
+    },
+  };
+}
+
+export type PageSnapshotInput = {
+  source: {
+    name: string;
+    url: string;
+    authorityType: string;
+    jurisdiction: string;
+    reliabilityTier: number;
+  };
+  url: string;
+  paragraphs: string[];
+  fetchedAt: string;
+};
+
+export type PageSnapshotResult = {
+  snapshotId: number;
+  previousSnapshotId: number | null;
+  previousFetchedAt: string | null;
+  diff: ParagraphDiff | null;
+};
+
+/** Records stripped page text per crawl and diffs it against the previous snapshot of the same URL */
+export type PageSnapshotStore = {
+  /** Diff against the previous snapshot without recording a new one */
+  compare: (input: PageSnapshotInput) => Omit<PageSnapshotResult, "snapshotId">;
+  record: (input: PageSnapshotInput) => PageSnapshotResult;
+};
+
+export function createPageSnapshotStore(db: DatabaseConstructor.Database): PageSnapshotStore {
+  const latestSnapshot = (url: string) =>
+    db
+      .prepare(
+        `SELECT id, content_hash, stripped_text, fetched_at FROM page_snapshots
+         WHERE url = ? ORDER BY fetched_at DESC, id DESC LIMIT 1`,
+      )
+      .get(url) as { id: number; content_hash: string; stripped_text: string; fetched_at: string } | undefined;
+
+  return {
+    compare: (input) => {
+      const previous = latestSnapshot(input.url);
+      if (!previous) return { previousSnapshotId: null, previousFetchedAt: null, diff: null };
+      return {
+        previousSnapshotId: previous.id,
+        previousFetchedAt: previous.fetched_at,
+        diff: diffParagraphs(previous.stripped_text.split("\n"), input.paragraphs),
+      };
+    },
+    record: (input) => {
+      const strippedText = input.paragraphs.join("\n");
+      const contentHash = hashText(strippedText);
+      const previous = latestSnapshot(input.url);
+
+      if (previous && previous.content_hash === contentHash) {
+        return {
+          snapshotId: previous.id,
+          previousSnapshotId: previous.id,
+          previousFetchedAt: previous.fetched_at,
+          diff: { added: [], removed: [] },
+        };
+      }
+
+      const tx = db.transaction((): PageSnapshotResult => {
+        const sourceId = ensureSource(db, input.source);
+        const snapshotId = Number(
+          db
+            .prepare(
+              `INSERT INTO page_snapshots (source_id, url, content_hash, stripped_text, paragraph_count, fetched_at)
+               VALUES (?, ?, ?, ?, ?, ?)`,
+            )
+            .run(sourceId, input.url, contentHash, strippedText, input.paragraphs.length, input.fetchedAt)
+            .lastInsertRowid,
+        );
+
+        if (!previous) {
+          return { snapshotId, previousSnapshotId: null, previousFetchedAt: null, diff: null };
+        }
+
+        const diff = diffParagraphs(previous.stripped_text.split("\n"), input.paragraphs);
+        const insertChange = db.prepare(
+          `INSERT INTO page_changes (source_id, snapshot_id, previous_snapshot_id, change_type, paragraph_index, content, detected_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        );
+        for (const change of diff.added) {
+          insertChange.run(sourceId, snapshotId, previous.id, "added", change.index, change.text, input.fetchedAt);
+        }
+        for (const change of diff.removed) {
+          insertChange.run(sourceId, snapshotId, previous.id, "removed", change.index, change.text, input.fetchedAt);
+        }
+
+        return { snapshotId, previousSnapshotId: previous.id, previousFetchedAt: previous.fetched_at, diff };
+      });
+
+      return tx();
+    },
+  };
+}
+
+export type PageChangeSet = {
+  snapshotId: number;
+  previousSnapshotId: number;
+  url: string;
+  detectedAt: string;
+  added: ParagraphChange[];
+  removed: ParagraphChange[];
+};
+
+/** Paragraph changes for a source, newest snapshot first */
+export function getSourcePageChanges(
+  db: DatabaseConstructor.Database,
+  sourceId: number,
+  limit = 20,
+): PageChangeSet[] {
+  const rows = db
+    .prepare(
+      `SELECT c.snapshot_id, c.previous_snapshot_id, c.change_type, c.paragraph_index, c.content, c.detected_at, p.url
+       FROM page_changes c
+       JOIN page_snapshots p ON p.id = c.snapshot_id
+       WHERE c.snapshot_id IN (
+         SELECT DISTINCT snapshot_id FROM page_changes WHERE source_id = ?
+         ORDER BY snapshot_id DESC LIMIT ?
+       )
+       ORDER BY c.snapshot_id DESC, c.change_type ASC, c.paragraph_index ASC`,
+    )
+    .all(sourceId, limit) as Array<{
+    snapshot_id: number;
+    previous_snapshot_id: number;
+    change_type: "added" | "removed";
+    paragraph_index: number;
+    content: string;
+    detected_at: string;
+    url: string;
+  }>;
+
+  const sets = new Map<number, PageChangeSet>();
+  for (const row of rows) {
+    let set = sets.get(row.snapshot_id);
+    if (!set) {
+      set = {
+        snapshotId: row.snapshot_id,
+        previousSnapshotId: row.previous_snapshot_id,
+        url: row.url,
+        detectedAt: row.detected_at,
+        added: [],
+        removed: [],
+      };
+      sets.set(row.snapshot_id, set);
+    }
+    set[row.change_type].push({ index: row.paragraph_index, text: row.content });
+  }
+  return [...sets.values()];
+}
+
+export type SourceCrawlStatus = "ok" | "failed" | "blocked" | "skipped";
+
+export type SourceCrawlResultInput = {
+  source: { name: string; url: string; authorityType: string; jurisdiction: string; reliabilityTier: number };
+  status: SourceCrawlStatus;
+  statusCode: number | null;
+  latencyMs: number;
+  bytes: number;
+  itemCount: number;
+  error: string | null;
+  crawledAt?: string;
+};
+
+export const DEFAULT_QUARANTINE_THRESHOLD = 5;
+
+/** Consecutive failed crawls since the source last succeeded (blocked/skipped runs are ignored) */
+export function getSourceFailureStreak(db: DatabaseConstructor.Database, sourceId: number): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS streak FROM source_crawl_results
+       WHERE source_id = ? AND status = 'failed'
+         AND id > COALESCE((SELECT MAX(id) FROM source_crawl_results WHERE source_id = ? AND status = 'ok'), 0)`,
+    )
+    .get(sourceId, sourceId) as { streak: number };
+  return row.streak;
+}
+
+/**
+ * Record one source's outcome for a crawl run and quarantine the source once it has
+ * failed `quarantineThreshold` times in a row. Returns the streak and whether this
+ * result put the source into quarantine.
+ */
+export function recordSourceCrawlResult(
+  db: DatabaseConstructor.Database,
+  runId: number | null,
+  input: SourceCrawlResultInput,
+  quarantineThreshold = DEFAULT_QUARANTINE_THRESHOLD,
+): { sourceId: number; failureStreak: number; quarantined: boolean } {
+  const crawledAt = input.crawledAt ?? new Date().toISOString();
+  const sourceId = ensureSource(db, input.source);
+
+  db.prepare(
+    `INSERT INTO source_crawl_results
+       (run_id, source_id, url, status, status_code, latency_ms, bytes, item_count, error, crawled_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    runId,
+    sourceId,
+    input.source.url,
+    input.status,
+    input.statusCode,
+    Math.round(input.latencyMs),
+    input.bytes,
+    input.itemCount,
+    input.error,
+    crawledAt,
+  );
+
+  const failureStreak = getSourceFailureStreak(db, sourceId);
+  if (input.status !== "failed" || failureStreak < quarantineThreshold) {
+    return { sourceId, failureStreak, quarantined: false };
+  }
+
+  const reason = `${failureStreak} consecutive failed crawls; last error: ${input.error ?? "unknown"}`;
+  const result = db
+    .prepare("UPDATE sources SET quarantined_at = ?, quarantine_reason = ? WHERE id = ? AND quarantined_at IS NULL")
+    .run(crawledAt, reason, sourceId);
+  return { sourceId, failureStreak, quarantined: result.changes > 0 };
+}
+
+/** Names of sources currently in quarantine (excluded from crawls) */
+export function getQuarantinedSourceNames(db: DatabaseConstructor.Database): string[] {
+  const rows = db.prepare("SELECT name FROM sources WHERE quarantined_at IS NOT NULL ORDER BY name").all() as Array<{ name: string }>;
+  return rows.map((row) => row.name);
+}
+
+/** Take a source out of quarantine; returns false when the source does not exist */
+export function releaseSourceQuarantine(db: DatabaseConstructor.Database, sourceId: number): boolean {
+  const result = db.prepare("UPDATE sources SET quarantined_at = NULL, quarantine_reason = NULL WHERE id = ?").run(sourceId);
+  return result.changes > 0;
+}
+
+export type SourceHealth = {
+  sourceId: number;
+  name: string;
+  url: string;
+  health: "healthy" | "failing" | "quarantined" | "unknown";
+  failureStreak: number;
+  totalRuns: number;
+  failedRuns: number;
+  avgLatencyMs: number | null;
+  lastStatus: SourceCrawlStatus | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  lastItemCount: number | null;
+  lastBytes: number | null;
+  lastCrawledAt: string | null;
+  lastSuccessAt: string | null;
+  quarantinedAt: string | null;
+  quarantineReason: string | null;
+};
+
+/** Crawl health for every source: latest result, failure streak and quarantine state */
+export function getSourceHealth(db: DatabaseConstructor.Database): SourceHealth[] {
+  const rows = db
+    .prepare(
+      `SELECT s.id, s.name, s.url, s.quarantined_at, s.quarantine_reason,
+              COUNT(r.id) AS total_runs,
+              COALESCE(SUM(CASE WHEN r.status = 'failed' THEN 1 ELSE 0 END), 0) AS failed_runs,
+              AVG(CASE WHEN r.status IN ('ok', 'failed') THEN r.latency_ms END) AS avg_latency_ms,
+              MAX(CASE WHEN r.status = 'ok' THEN r.crawled_at END) AS last_success_at,
+              MAX(r.id) AS last_result_id
+       FROM sources s
+       LEFT JOIN source_crawl_results r ON r.source_id = s.id
+       GROUP BY s.id
+       ORDER BY s.name ASC`,
+    )
+    .all() as Array<{
+    id: number;
+    name: string;
+    url: string;
+    quarantined_at: string | null;
+    quarantine_reason: string | null;
+    total_runs: number;
+    failed_runs: number;
+    avg_latency_ms: number | null;
+    last_success_at: string | null;
+    last_result_id: number | null;
+  }>;
+
+  const latestResult = db.prepare(
+    "SELECT status, status_code, error, item_count, bytes, crawled_at FROM source_crawl_results WHERE id = ?",
+  );
+
+  return rows.map((row) => {
+    const latest = row.last_result_id
+      ? (latestResult.get(row.last_result_id) as {
+          status: SourceCrawlStatus;
+          status_code: number | null;
+          error: string | null;
+          item_count: number;
+          bytes: number;
+          crawled_at: string;
+        })
+      : undefined;
+    const failureStreak = row.total_runs > 0 ? getSourceFailureStreak(db, row.id) : 0;
+    const health: SourceHealth["health"] = row.quarantined_at
+      ? "quarantined"
+      : failureStreak > 0
+        ? "failing"
+        : row.total_runs > 0
+          ? "healthy"
+          : "unknown";
+
+    return {
+      sourceId: row.id,
+      name: row.name,
+      url: row.url,
+      health,
+      failureStreak,
+      totalRuns: row.total_runs,
+      failedRuns: row.failed_runs,
+      avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(row.avg_latency_ms),
+      lastStatus: latest?.status ?? null,
+      lastStatusCode: latest?.status_code ?? null,
+      lastError: latest?.error ?? null,
+      lastItemCount: latest?.item_count ?? null,
+      lastBytes: latest?.bytes ?? null,
+      lastCrawledAt: latest?.crawled_at ?? null,
+      lastSuccessAt: row.last_success_at,
+      quarantinedAt: row.quarantined_at,
+      quarantineReason: row.quarantine_reason,
+    };
+  });
+}
+
+export type LinkCheckReportItem = LinkCheckResult & {
+  sourceId: number | null;
+  sourceName: string;
+  /** Whether this check moved the source to its redirect target */
+  urlUpdated: boolean;
+  checkedAt: string;
+};
+
+export type LinkCheckRunSummary = {
+  id: number;
+  startedAt: string;
+  completedAt: string | null;
+  status: "running" | "completed" | "failed";
+  sourcesChecked: number;
+  sourcesUpdated: number;
+  errorMessage: string | null;
+  counts: Record<LinkCheckStatus, number>;
+};
+
+export type LinkCheckReport = LinkCheckRunSummary & { items: LinkCheckReportItem[] };
+
+export function startLinkCheckRun(db: DatabaseConstructor.Database): number {
+  const result = db
+    .prepare("INSERT INTO link_check_runs (started_at, status) VALUES (?, 'running')")
+    .run(new Date().toISOString());
+  return Number(result.lastInsertRowid);
+}
+
+export function recordLinkCheckResult(
+  db: DatabaseConstructor.Database,
+  runId: number,
+  input: { sourceId: number | null; sourceName: string; result: LinkCheckResult; urlUpdated: boolean },
+): void {
+  const { result } = input;
+  db.prepare(
+    `INSERT INTO link_check_results (
+       run_id, source_id, source_name, url, status, status_code, final_url, redirect_chain, permanent_redirect,
+       canonical_url, suggested_url, title, error, url_updated, latency_ms, checked_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    runId,
+    input.sourceId,
+    input.sourceName,
+    result.url,
+    result.status,
+    result.statusCode,
+    result.finalUrl,
+    JSON.stringify(result.redirects),
+    result.permanentRedirect ? 1 : 0,
+    result.canonicalUrl,
+    result.suggestedUrl,
+    result.title,
+    result.error,
+    input.urlUpdated ? 1 : 0,
+    Math.round(result.latencyMs),
+    new Date().toISOString(),
+  );
+}
+
+export function completeLinkCheckRun(
+  db: DatabaseConstructor.Database,
+  runId: number,
+  stats: { sourcesChecked: number; sourcesUpdated: number },
+): void {
+  db.prepare(
+    "UPDATE link_check_runs SET completed_at = ?, status = 'completed', sources_checked = ?, sources_updated = ? WHERE id = ?",
+  ).run(new Date().toISOString(), stats.sourcesChecked, stats.sourcesUpdated, runId);
+}
+
+export function failLinkCheckRun(db: DatabaseConstructor.Database, runId: number, error: string): void {
+  db.prepare("UPDATE link_check_runs SET completed_at = ?, status = 'failed', error_message = ? WHERE id = ?").run(
+    new Date().toISOString(),
+    error,
+    runId,
+  );
+}
+
+type DbLinkCheckRunRow = {
+  id: number;
+  started_at: string;
+  completed_at: string | null;
+  status: LinkCheckRunSummary["status"];
+  sources_checked: number;
+  sources_updated: number;
+  error_message: string | null;
+};
+
+function mapLinkCheckRun(db: DatabaseConstructor.Database, row: DbLinkCheckRunRow): LinkCheckRunSummary {
+  const counts: Record<LinkCheckStatus, number> = { ok: 0, redirected: 0, soft_404: 0, broken: 0, error: 0 };
+  const rows = db
+    .prepare("SELECT status, COUNT(*) AS count FROM link_check_results WHERE run_id = ? GROUP BY status")
+    .all(row.id) as Array<{ status: LinkCheckStatus; count: number }>;
+  for (const { status, count } of rows) counts[status] = count;
+
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    status: row.status,
+    sourcesChecked: row.sources_checked,
+    sourcesUpdated: row.sources_updated,
+    errorMessage: row.error_message,
+    counts,
+  };
+}
+
+/** Most recent link-check runs with per-status counts */
+export function listLinkCheckRuns(db: DatabaseConstructor.Database, limit = 20): LinkCheckRunSummary[] {
+  const rows = db.prepare("SELECT * FROM link_check_runs ORDER BY id DESC LIMIT ?").all(limit) as DbLinkCheckRunRow[];
+  return rows.map((row) => mapLinkCheckRun(db, row));
+}
+
+/** Full report for a link-check run (the latest when no id is given); problems are listed first */
+export function getLinkCheckReport(db: DatabaseConstructor.Database, runId?: number): LinkCheckReport | null {
+  const run = (
+    runId === undefined
+      ? db.prepare("SELECT * FROM link_check_runs ORDER BY id DESC LIMIT 1").get()
+      : db.prepare("SELECT * FROM link_check_runs WHERE id = ?").get(runId)
+  ) as DbLinkCheckRunRow | undefined;
+  if (!run) return null;
+
+  const rows = db
+    .prepare(
+      `SELECT * FROM link_check_results WHERE run_id = ?
+       ORDER BY CASE status WHEN 'broken' THEN 0 WHEN 'soft_404' THEN 1 WHEN 'error' THEN 2 WHEN 'redirected' THEN 3 ELSE 4 END,
+                source_name ASC`,
+    )
+    .all(run.id) as Array<{
+    source_id: number | null;
+    source_name: string;
+    url: string;
+    status: LinkCheckStatus;
+    status_code: number | null;
+    final_url: string;
+    redirect_chain: string;
+    permanent_redirect: number;
+    canonical_url: string | null;
+    suggested_url: string | null;
+    title: string | null;
+    error: string | null;
+    url_updated: number;
+    latency_ms: number;
+    checked_at: string;
+  }>;
+
+  return {
+    ...mapLinkCheckRun(db, run),
+    items: rows.map((row) => ({
+      sourceId: row.source_id,
+      sourceName: row.source_name,
+      url: row.url,
+      status: row.status,
+      statusCode: row.status_code,
+      finalUrl: row.final_url,
+      redirects: JSON.parse(row.redirect_chain) as LinkCheckResult["redirects"],
+      permanentRedirect: row.permanent_redirect === 1,
+      canonicalUrl: row.canonical_url,
+      suggestedUrl: row.suggested_url,
+      title: row.title,
+      error: row.error,
+      urlUpdated: row.url_updated === 1,
+      latencyMs: row.latency_ms,
+      checkedAt: row.checked_at,
+    })),
+  };
+}
+
+export type UpsertEventInput = {
+  title: string;
+  jurisdictionCountry: string;
+  jurisdictionState: string | null;
+  stage: string;
+  isUnder16Applicable: boolean;
+  ageBracket: "13-15" | "16-18" | "both";
+  impactScore: number;
+  likelihoodScore: number;
+  confidenceScore: number;
+  chiliScore: number;
+  summary: string;
+  businessImpact: string | null;
+  requiredSolutions: string[] | null;
+  affectedProducts: string[] | null;
+  competitorResponses: string[] | null;
+  rawText: string | null;
+  /** ISO 639-1 code of `rawText` (see `detectLanguage`) */
+  language?: string | null;
+  /** English translation of `rawText` when it is in another language */
+  translatedText?: string | null;
+  sourceUrlLink: string | null;
+  /** Invalid dates are stored as null; see `normalizeDate` */
+  effectiveDate: string | null;
+  publishedDate: string | null;
+  /** Precision of partial dates; taken from the date itself when not given */
+  effectiveDatePrecision?: DatePrecision | null;
+  publishedDatePrecision?: DatePrecision | null;
+  sourceId: number;
+  /** Archived responses the event was extracted from; linked when the event is created or updated */
+  artifactIds?: number[];
+  /** Claims of a chunked analysis; they replace the event's claims when it is created or updated */
+  claims?: AnalysisClaim[];
+  /** Grounded citations of the analysis; they replace the event's citations when it is created or updated */
+  citations?: GroundedCitation[];
+  /** Exact ages the analysis found; they replace the event's thresholds when it is created or updated */
+  ageThresholds?: AgeThreshold[];
+  /** Obligations in the taxonomy; they replace the event's obligations when it is created or updated */
+  obligations?: Obligation[];
+};
+
+function normalizeForHash(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function hashText(value: string | null | undefined): string {
+  return crypto.createHash("sha1").update(normalizeForHash(value ?? "")).digest("hex");
+}
+
+function buildRegulationKey(country: string, state: string | null | undefined, title: string): string {
+  return [normalizeForHash(country), normalizeForHash(state ?? ""), normalizeForHash(title)].join("|");
+}
+
+/**
+ * Upsert a regulation event. Dedup by URL, text hash, and regulation key.
+ * Returns 'new' if inserted, 'updated' if changed, 'duplicate' if unchanged.
+ */
+export function upsertEvent(
+  db: DatabaseConstructor.Database,
+  input: UpsertEventInput,
+): "new" | "updated" | "duplicate" {
+  const regulationKey = buildRegulationKey(
+    input.jurisdictionCountry,
+    input.jurisdictionState,
+    input.title,
+  );
+  const normalizedSourceUrl = (input.sourceUrlLink ?? "").trim().toLowerCase();
+  const contentHash = hashText(input.rawText);
+
+  const candidates = db
     .prepare(
       `SELECT id, stage, summary, business_impact, age_bracket,
               impact_score, likelihood_score, confidence_score, chili_score,
@@ -576,6 +1971,12 @@ export function upsertEvent(
       existing.confidence_score !== input.confidenceScore ||
       existing.chili_score !== input.chiliScore;
 
+    // Details extracted from the new analysis are kept even when the scored fields are unchanged
+    linkEventArtifacts(db, String(existing.id), input.artifactIds, now);
+    replaceEventClaims(db, String(existing.id), input.claims);
+    replaceEventCitations(db, String(existing.id), input.citations);
+    replaceEventAgeThresholds(db, String(existing.id), input.ageThresholds);
+    replaceEventObligations(db, String(existing.id), input.obligations);
     if (!changed) return "duplicate";
 
     db.prepare(
@@ -583,6 +1984,7 @@ export function upsertEvent(
         stage = ?, summary = ?, business_impact = ?, required_solutions = ?,
         affected_products = ?, competitor_responses = ?, age_bracket = ?,
         impact_score = ?, likelihood_score = ?, confidence_score = ?, chili_score = ?,
+        language = COALESCE(language, ?), translated_text = COALESCE(translated_text, ?),
         updated_at = ?
        WHERE id = ?`,
     ).run(
@@ -597,6 +1999,8 @@ export function upsertEvent(
       input.likelihoodScore,
       input.confidenceScore,
       input.chiliScore,
+      input.language ?? null,
+      input.translatedText ?? null,
       now,
       existing.id,
     );
@@ -627,21 +2031,25 @@ export function upsertEvent(
   }
 
   const id = crypto.randomUUID();
+  const effectiveDate = normalizeDate(input.effectiveDate);
+  const publishedDate = normalizeDate(input.publishedDate);
   db.prepare(
     `INSERT INTO regulation_events (
       id, title, jurisdiction_country, jurisdiction_state, stage,
       is_under16_applicable, age_bracket,
       impact_score, likelihood_score, confidence_score, chili_score,
       summary, business_impact, required_solutions, affected_products,
-      competitor_responses, raw_text, source_url_link,
-      effective_date, published_date, source_id, created_at, updated_at
+      competitor_responses, raw_text, language, translated_text, source_url_link,
+      effective_date, effective_date_precision, published_date, published_date_precision,
+      source_id, created_at, updated_at
     ) VALUES (
       ?, ?, ?, ?, ?,
       ?, ?,
       ?, ?, ?, ?,
       ?, ?, ?, ?,
-      ?, ?, ?,
-      ?, ?, ?, ?, ?
+      ?, ?, ?, ?, ?,
+      ?, ?, ?, ?,
+      ?, ?, ?
     )`,
   ).run(
     id,
@@ -661,14 +2069,24 @@ export function upsertEvent(
     input.affectedProducts ? JSON.stringify(input.affectedProducts) : null,
     input.competitorResponses ? JSON.stringify(input.competitorResponses) : null,
     input.rawText,
+    input.language ?? null,
+    input.translatedText ?? null,
     input.sourceUrlLink,
-    input.effectiveDate,
-    input.publishedDate,
+    effectiveDate?.date ?? null,
+    effectiveDate ? input.effectiveDatePrecision ?? effectiveDate.precision : null,
+    publishedDate?.date ?? null,
+    publishedDate ? input.publishedDatePrecision ?? publishedDate.precision : null,
     input.sourceId,
     now,
     now,
   );
 
+  linkEventArtifacts(db, id, input.artifactIds, now);
+  replaceEventClaims(db, id, input.claims);
+  replaceEventCitations(db, id, input.citations);
+  replaceEventAgeThresholds(db, id, input.ageThresholds);
+  replaceEventObligations(db, id, input.obligations);
+
   addEventHistory(db, {
     eventId: id,
     changeType: "created",
@@ -682,7 +2100,377 @@ export function upsertEvent(
   return "new";
 }
 
+function linkEventArtifacts(db: DatabaseConstructor.Database, eventId: string, artifactIds: number[] | undefined, linkedAt: string): void {
+  const link = db.prepare("INSERT OR IGNORE INTO event_artifacts (event_id, artifact_id, linked_at) VALUES (?, ?, ?)");
+  for (const artifactId of artifactIds ?? []) link.run(eventId, artifactId, linkedAt);
+}
+
+function replaceEventClaims(db: DatabaseConstructor.Database, eventId: string, claims: AnalysisClaim[] | undefined): void {
+  if (!claims) return;
+  db.prepare("DELETE FROM event_claims WHERE event_id = ?").run(eventId);
+  const insert = db.prepare(
+    `INSERT INTO event_claims (event_id, kind, text, value, quote, chunk_index, start_offset, end_offset)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  for (const claim of claims) {
+    insert.run(eventId, claim.kind, claim.text, claim.value, claim.quote, claim.chunkIndex, claim.start, claim.end);
+  }
+}
+
+function replaceEventCitations(db: DatabaseConstructor.Database, eventId: string, citations: GroundedCitation[] | undefined): void {
+  if (!citations) return;
+  db.prepare("DELETE FROM event_citations WHERE event_id = ?").run(eventId);
+  const insert = db.prepare(
+    `INSERT INTO event_citations (event_id, claim, quote, verified, start_offset, end_offset)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  );
+  for (const citation of citations) {
+    insert.run(eventId, citation.claim, citation.quote, citation.verified ? 1 : 0, citation.start, citation.end);
+  }
+}
+
+function replaceEventAgeThresholds(db: DatabaseConstructor.Database, eventId: string, thresholds: AgeThreshold[] | undefined): void {
+  if (!thresholds) return;
+  db.prepare("DELETE FROM event_age_thresholds WHERE event_id = ?").run(eventId);
+  const insert = db.prepare("INSERT INTO event_age_thresholds (event_id, min_age, max_age, rule, text) VALUES (?, ?, ?, ?, ?)");
+  for (const threshold of thresholds) {
+    insert.run(eventId, threshold.minAge, threshold.maxAge, threshold.rule, threshold.text);
+  }
+}
+
+function replaceEventObligations(db: DatabaseConstructor.Database, eventId: string, obligations: Obligation[] | undefined): void {
+  if (!obligations) return;
+  db.prepare("DELETE FROM event_obligations WHERE event_id = ?").run(eventId);
+  const insert = db.prepare("INSERT INTO event_obligations (event_id, obligation_type, provision, text) VALUES (?, ?, ?, ?)");
+  for (const obligation of obligations) insert.run(eventId, obligation.type, obligation.provision, obligation.text);
+}
+
+/** Obligations of an event, in taxonomy order */
+export function getEventObligations(db: DatabaseConstructor.Database, eventId: string): Obligation[] {
+  const rows = db
+    .prepare("SELECT obligation_type, provision, text FROM event_obligations WHERE event_id = ? ORDER BY id")
+    .all(eventId) as Array<{ obligation_type: Obligation["type"]; provision: string | null; text: string }>;
+  return rows
+    .map((row) => ({ type: row.obligation_type, provision: row.provision, text: row.text }))
+    .sort((a, b) => obligationTypes.indexOf(a.type) - obligationTypes.indexOf(b.type));
+}
+
+/** Age thresholds of an event, youngest first */
+export function getEventAgeThresholds(db: DatabaseConstructor.Database, eventId: string): AgeThreshold[] {
+  const rows = db
+    .prepare(
+      `SELECT min_age, max_age, rule, text
+       FROM event_age_thresholds
+       WHERE event_id = ?
+       ORDER BY COALESCE(min_age, 0), COALESCE(max_age, 99), id`,
+    )
+    .all(eventId) as Array<{ min_age: number | null; max_age: number | null; rule: AgeThreshold["rule"]; text: string }>;
+  return rows.map((row) => ({ minAge: row.min_age, maxAge: row.max_age, rule: row.rule, text: row.text }));
+}
+
+/** Citations of an event's analysis, in the order the model gave them */
+export function getEventCitations(db: DatabaseConstructor.Database, eventId: string): GroundedCitation[] {
+  const rows = db
+    .prepare(
+      `SELECT claim, quote, verified, start_offset, end_offset
+       FROM event_citations
+       WHERE event_id = ?
+       ORDER BY id`,
+    )
+    .all(eventId) as Array<{
+    claim: GroundedCitation["claim"];
+    quote: string;
+    verified: number;
+    start_offset: number | null;
+    end_offset: number | null;
+  }>;
+  return rows.map((row) => ({
+    claim: row.claim,
+    quote: row.quote,
+    verified: row.verified === 1,
+    start: row.start_offset,
+    end: row.end_offset,
+  }));
+}
+
+/** Claims extracted from the chunks of an event's source document, in document order */
+export function getEventClaims(db: DatabaseConstructor.Database, eventId: string): AnalysisClaim[] {
+  const rows = db
+    .prepare(
+      `SELECT kind, text, value, quote, chunk_index, start_offset, end_offset
+       FROM event_claims
+       WHERE event_id = ?
+       ORDER BY chunk_index, COALESCE(start_offset, 0), id`,
+    )
+    .all(eventId) as Array<{
+    kind: AnalysisClaim["kind"];
+    text: string;
+    value: string | null;
+    quote: string;
+    chunk_index: number;
+    start_offset: number | null;
+    end_offset: number | null;
+  }>;
+  return rows.map((row) => ({
+    kind: row.kind,
+    text: row.text,
+    value: row.value,
+    quote: row.quote,
+    chunkIndex: row.chunk_index,
+    start: row.start_offset,
+    end: row.end_offset,
+  }));
+}
+
+export type CrawlArtifactInput = {
+  runId: number | null;
+  url: string;
+  statusCode: number | null;
+  headers: Record<string, string>;
+  /** True for DOM captured from the headless renderer rather than an HTTP response */
+  rendered: boolean;
+  sha256: string;
+  size: number;
+  compressedSize: number;
+  fetchedAt: string;
+};
+
+export type CrawlArtifact = Omit<CrawlArtifactInput, "runId"> & {
+  id: number;
+  runId: number | null;
+  contentType: string | null;
+};
+
+/** Record an archived response body; returns the artifact id */
+export function recordCrawlArtifact(db: DatabaseConstructor.Database, artifact: CrawlArtifactInput): number {
+  const result = db
+    .prepare(
+      `INSERT INTO crawl_artifacts (
+         run_id, url, status_code, headers, content_type, rendered, sha256, byte_size, compressed_size, fetched_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      artifact.runId,
+      artifact.url,
+      artifact.statusCode,
+      JSON.stringify(artifact.headers),
+      artifact.headers["content-type"] ?? null,
+      artifact.rendered ? 1 : 0,
+      artifact.sha256,
+      artifact.size,
+      artifact.compressedSize,
+      artifact.fetchedAt,
+    );
+  return Number(result.lastInsertRowid);
+}
+
+type DbCrawlArtifactRow = {
+  id: number;
+  run_id: number | null;
+  url: string;
+  status_code: number | null;
+  headers: string;
+  content_type: string | null;
+  rendered: number;
+  sha256: string;
+  byte_size: number;
+  compressed_size: number;
+  fetched_at: string;
+  linked_at: string;
+};
+
+function mapCrawlArtifactRow(row: DbCrawlArtifactRow): CrawlArtifact {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    url: row.url,
+    statusCode: row.status_code,
+    headers: JSON.parse(row.headers) as Record<string, string>,
+    contentType: row.content_type,
+    rendered: row.rendered === 1,
+    sha256: row.sha256,
+    size: row.byte_size,
+    compressedSize: row.compressed_size,
+    fetchedAt: row.fetched_at,
+  };
+}
+
+export type EventEvidence = {
+  /** When the current analysis was linked to its snapshots */
+  linkedAt: string;
+  /** The snapshots behind the event's current analysis */
+  artifacts: CrawlArtifact[];
+  /** Snapshots behind earlier versions of the analysis, newest first */
+  earlierArtifacts: Array<CrawlArtifact & { linkedAt: string }>;
+};
+
+/** Archived snapshots linked to an event, or null when the event has none */
+export function getEventEvidence(db: DatabaseConstructor.Database, eventId: string): EventEvidence | null {
+  const rows = db
+    .prepare(
+      `SELECT a.*, ea.linked_at
+       FROM event_artifacts ea
+       JOIN crawl_artifacts a ON a.id = ea.artifact_id
+       WHERE ea.event_id = ?
+       ORDER BY ea.linked_at DESC, a.id ASC`,
+    )
+    .all(eventId) as DbCrawlArtifactRow[];
+  if (rows.length === 0) return null;
+
+  const linkedAt = rows[0].linked_at;
+  return {
+    linkedAt,
+    artifacts: rows.filter((row) => row.linked_at === linkedAt).map(mapCrawlArtifactRow),
+    earlierArtifacts: rows
+      .filter((row) => row.linked_at !== linkedAt)
+      .map((row) => ({ ...mapCrawlArtifactRow(row), linkedAt: row.linked_at })),
+  };
+}
+
+/** Keep the items a crawl run produced, as handed to the analyzer, so the run can be replayed */
+export function recordCrawlRunItems(db: DatabaseConstructor.Database, runId: number, items: CrawledItem[]): void {
+  const insert = db.prepare(
+    "INSERT INTO crawl_run_items (run_id, position, source_name, url, item) VALUES (?, ?, ?, ?, ?)",
+  );
+  db.transaction(() => {
+    // Checkpoints are crawl bookkeeping, not part of what a replay analyzes
+    items.forEach(({ checkpoints: _checkpoints, ...item }, position) =>
+      insert.run(runId, position, item.source.name, item.url, JSON.stringify(item)),
+    );
+  })();
+}
+
+/** The items recorded for a crawl run, in crawl order */
+export function getCrawlRunItems(db: DatabaseConstructor.Database, runId: number): CrawledItem[] {
+  const rows = db
+    .prepare("SELECT item FROM crawl_run_items WHERE run_id = ? ORDER BY position")
+    .all(runId) as Array<{ item: string }>;
+  return rows.map((row) => JSON.parse(row.item) as CrawledItem);
+}
+
+/** The most recent crawl run with recorded items, or null when no run has any */
+export function getLatestRecordedCrawlRunId(db: DatabaseConstructor.Database): number | null {
+  const row = db.prepare("SELECT MAX(run_id) AS run_id FROM crawl_run_items").get() as { run_id: number | null };
+  return row.run_id;
+}
+
+export type AnalysisFailureRecord = {
+  id: number;
+  runId: number | null;
+  sourceName: string;
+  url: string;
+  title: string;
+  kind: AnalysisFailure["kind"];
+  errors: string[];
+  rawResponse: string | null;
+  attempts: number;
+  model: string;
+  failedAt: string;
+};
+
+/** Record an item whose analysis was lost */
+export function recordAnalysisFailure(db: DatabaseConstructor.Database, runId: number | null, failure: AnalysisFailure): void {
+  db.prepare(
+    `INSERT INTO analysis_failures (run_id, source_name, url, title, kind, errors, raw_response, attempts, model, failed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    runId,
+    failure.item.source.name,
+    failure.item.url,
+    failure.item.title,
+    failure.kind,
+    JSON.stringify(failure.errors),
+    failure.rawResponse,
+    failure.attempts,
+    failure.model,
+    new Date().toISOString(),
+  );
+}
+
+/** Analysis failures of a crawl run, in the order they happened */
+export function getAnalysisFailures(db: DatabaseConstructor.Database, runId: number): AnalysisFailureRecord[] {
+  const rows = db.prepare("SELECT * FROM analysis_failures WHERE run_id = ? ORDER BY id").all(runId) as Array<{
+    id: number;
+    run_id: number | null;
+    source_name: string;
+    url: string;
+    title: string;
+    kind: AnalysisFailure["kind"];
+    errors: string;
+    raw_response: string | null;
+    attempts: number;
+    model: string;
+    failed_at: string;
+  }>;
+  return rows.map((row) => ({
+    id: row.id,
+    runId: row.run_id,
+    sourceName: row.source_name,
+    url: row.url,
+    title: row.title,
+    kind: row.kind,
+    errors: JSON.parse(row.errors) as string[],
+    rawResponse: row.raw_response,
+    attempts: row.attempts,
+    model: row.model,
+    failedAt: row.failed_at,
+  }));
+}
+
+export type FeedbackExample = {
+  rating: "good" | "bad";
+  /** Event title, summary and crawled text */
+  text: string;
+};
+
+/** Rated events as training examples; an event rated more than once counts with its latest rating */
+export function getFeedbackExamples(db: DatabaseConstructor.Database): FeedbackExample[] {
+  const rows = db
+    .prepare(
+      `SELECT f.rating, e.title, e.summary, e.raw_text
+       FROM feedback f
+       JOIN regulation_events e ON e.id = f.event_id
+       WHERE f.id = (SELECT MAX(latest.id) FROM feedback latest WHERE latest.event_id = f.event_id)
+       ORDER BY f.id`,
+    )
+    .all() as Array<{ rating: FeedbackExample["rating"]; title: string; summary: string | null; raw_text: string | null }>;
+  return rows.map((row) => ({
+    rating: row.rating,
+    text: [row.title, row.summary ?? "", row.raw_text ?? ""].join("\n"),
+  }));
+}
+
 /** Ensure a source exists in the database, return its ID */
+const sourceCrawlSettingKeys = [
+  "schedule",
+  "maxFeedItems",
+  "maxDocumentLinks",
+  "linkFollowDepth",
+  "linkIncludePattern",
+  "maxFollowedLinks",
+  "render",
+] as const;
+
+type SourceCrawlSettings = Pick<RegistrySource, (typeof sourceCrawlSettingKeys)[number]>;
+
+/** Registry column values for a source; per-source crawl settings are stored as one JSON object */
+function sourceRegistryValues(source: Partial<Omit<RegistrySource, "authorityType" | "reliabilityTier">>) {
+  const crawlSettings: Partial<Record<keyof SourceCrawlSettings, unknown>> = {};
+  for (const key of sourceCrawlSettingKeys) {
+    if (source[key] !== undefined) crawlSettings[key] = source[key];
+  }
+
+  return {
+    type: source.type ?? null,
+    jurisdictionCountry: source.jurisdictionCountry ?? null,
+    jurisdictionState: source.jurisdictionState ?? null,
+    searchKeywords: source.searchKeywords ? JSON.stringify(source.searchKeywords) : null,
+    description: source.description ?? null,
+    twitterQuery: source.twitterQuery ?? null,
+    crawlSettings: Object.keys(crawlSettings).length > 0 ? JSON.stringify(crawlSettings) : null,
+  };
+}
+
 export function ensureSource(
   db: DatabaseConstructor.Database,
   source: {
@@ -691,7 +2479,7 @@ export function ensureSource(
     authorityType: string;
     jurisdiction: string;
     reliabilityTier: number;
-  },
+  } & Partial<Omit<RegistrySource, "authorityType" | "reliabilityTier">>,
 ): number {
   const existing = db.prepare("SELECT id FROM sources WHERE name = ? OR url = ? LIMIT 1").get(source.name, source.url) as
     | { id: number }
@@ -711,14 +2499,325 @@ export function ensureSource(
     return existing.id;
   }
 
+  const now = new Date().toISOString();
+  const values = sourceRegistryValues(source);
   const result = db
     .prepare(
-      "INSERT INTO sources (name, url, authority_type, jurisdiction, reliability_tier, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+      `INSERT INTO sources (
+         name, url, authority_type, jurisdiction, reliability_tier, type, jurisdiction_country, jurisdiction_state,
+         search_keywords, description, twitter_query, crawl_settings, created_at, updated_at
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     )
-    .run(source.name, source.url, source.authorityType, source.jurisdiction, source.reliabilityTier, new Date().toISOString());
+    .run(
+      source.name,
+      source.url,
+      source.authorityType,
+      source.jurisdiction,
+      source.reliabilityTier,
+      values.type,
+      values.jurisdictionCountry,
+      values.jurisdictionState,
+      values.searchKeywords,
+      values.description,
+      values.twitterQuery,
+      values.crawlSettings,
+      now,
+      now,
+    );
   return Number(result.lastInsertRowid);
 }
 
+export type SourceRecord = Omit<RegistrySource, "type"> & {
+  id: number;
+  /** Null for rows written by crawls before the registry moved into the database */
+  type: SourceType | null;
+  enabled: boolean;
+  lastCrawledAt: string | null;
+  quarantinedAt: string | null;
+  /** When a thin crawl result switched this source to headless rendering */
+  renderFlaggedAt: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+};
+
+/** Fields accepted by `updateSource`; null clears an optional field */
+export type SourcePatch = { [K in keyof RegistrySource]?: RegistrySource[K] | null } & { enabled?: boolean };
+
+type DbSourceRow = {
+  id: number;
+  name: string;
+  url: string;
+  type: SourceType | null;
+  authority_type: RegistrySource["authorityType"];
+  jurisdiction: string;
+  jurisdiction_country: string | null;
+  jurisdiction_state: string | null;
+  reliability_tier: number;
+  search_keywords: string | null;
+  description: string | null;
+  twitter_query: string | null;
+  crawl_settings: string | null;
+  enabled: number;
+  last_crawled_at: string | null;
+  quarantined_at: string | null;
+  render_flagged_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+function mapSourceRow(row: DbSourceRow): SourceRecord {
+  const crawlSettings = row.crawl_settings ? (JSON.parse(row.crawl_settings) as SourceCrawlSettings) : {};
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    type: row.type,
+    authorityType: row.authority_type,
+    jurisdiction: row.jurisdiction,
+    jurisdictionCountry: row.jurisdiction_country ?? row.jurisdiction,
+    jurisdictionState: row.jurisdiction_state ?? undefined,
+    reliabilityTier: row.reliability_tier as RegistrySource["reliabilityTier"],
+    searchKeywords: row.search_keywords ? (JSON.parse(row.search_keywords) as string[]) : undefined,
+    description: row.description ?? "",
+    twitterQuery: row.twitter_query ?? undefined,
+    ...crawlSettings,
+    enabled: row.enabled === 1,
+    lastCrawledAt: row.last_crawled_at,
+    quarantinedAt: row.quarantined_at,
+    renderFlaggedAt: row.render_flagged_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listSources(
+  db: DatabaseConstructor.Database,
+  filters: { enabled?: boolean; type?: SourceType } = {},
+): SourceRecord[] {
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+  if (filters.enabled !== undefined) {
+    where.push("enabled = ?");
+    params.push(filters.enabled ? 1 : 0);
+  }
+  if (filters.type) {
+    where.push("type = ?");
+    params.push(filters.type);
+  }
+
+  const rows = db
+    .prepare(`SELECT * FROM sources ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY name ASC`)
+    .all(...params) as DbSourceRow[];
+  return rows.map(mapSourceRow);
+}
+
+export function getSourceById(db: DatabaseConstructor.Database, id: number): SourceRecord | null {
+  const row = db.prepare("SELECT * FROM sources WHERE id = ?").get(id) as DbSourceRow | undefined;
+  return row ? mapSourceRow(row) : null;
+}
+
+/** Enabled registry sources in crawler form (quarantine is applied separately by the pipeline) */
+export function getActiveSources(db: DatabaseConstructor.Database): RegistrySource[] {
+  return listSources(db, { enabled: true }).flatMap((record) => (record.type ? [{ ...record, type: record.type }] : []));
+}
+
+export function createSource(db: DatabaseConstructor.Database, source: RegistrySource, enabled = true): number {
+  const id = ensureSource(db, source);
+  if (!enabled) {
+    db.prepare("UPDATE sources SET enabled = 0 WHERE id = ?").run(id);
+  }
+  return id;
+}
+
+/** Apply a partial update to a source; returns the updated record or null when it does not exist */
+export function updateSource(db: DatabaseConstructor.Database, id: number, patch: SourcePatch): SourceRecord | null {
+  const existing = getSourceById(db, id);
+  if (!existing) return null;
+
+  const merged: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key];
+    else if (value !== undefined) merged[key] = value;
+  }
+  const source = merged as SourceRecord;
+  const values = sourceRegistryValues({ ...source, type: source.type ?? undefined });
+
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE sources SET
+         name = ?, url = ?, authority_type = ?, jurisdiction = ?, reliability_tier = ?, type = ?,
+         jurisdiction_country = ?, jurisdiction_state = ?, search_keywords = ?, description = ?,
+         twitter_query = ?, crawl_settings = ?, enabled = ?, updated_at = ?,
+         render_flagged_at = CASE WHEN ? THEN NULL ELSE render_flagged_at END
+       WHERE id = ?`,
+    ).run(
+      source.name,
+      source.url,
+      source.authorityType,
+      source.jurisdiction,
+      source.reliabilityTier,
+      values.type,
+      values.jurisdictionCountry,
+      values.jurisdictionState,
+      values.searchKeywords,
+      values.description,
+      values.twitterQuery,
+      values.crawlSettings,
+      source.enabled ? 1 : 0,
+      new Date().toISOString(),
+      // An explicit render setting replaces the automatic thin-page flag
+      patch.render !== undefined ? 1 : 0,
+      id,
+    );
+
+    // Schedules and seen feed items are keyed by source name, so they follow a rename
+    if (source.name !== existing.name) {
+      db.prepare("UPDATE OR REPLACE crawl_schedules SET source_name = ? WHERE source_name = ?").run(source.name, existing.name);
+      db.prepare("UPDATE OR REPLACE feed_seen_items SET source_name = ? WHERE source_name = ?").run(source.name, existing.name);
+    }
+  })();
+  return getSourceById(db, id);
+}
+
+/**
+ * Switch sources that produced thin pages to headless rendering from the next run.
+ * Sources with an explicit `render` setting (true or false) are left alone.
+ * Returns the names of the sources that were flagged.
+ */
+export function flagSourcesForRendering(db: DatabaseConstructor.Database, sourceNames: string[]): string[] {
+  const flag = db.prepare(
+    `UPDATE sources
+     SET crawl_settings = json_set(COALESCE(crawl_settings, '{}'), '$.render', json('true')), render_flagged_at = ?
+     WHERE name = ? AND json_extract(COALESCE(crawl_settings, '{}'), '$.render') IS NULL`,
+  );
+  const flaggedAt = new Date().toISOString();
+  return sourceNames.filter((name) => flag.run(flaggedAt, name).changes > 0);
+}
+
+/** Delete a source; sources referenced by events cannot be deleted and should be disabled instead */
+export function deleteSource(db: DatabaseConstructor.Database, id: number): "deleted" | "not_found" | "in_use" {
+  if (!db.prepare("SELECT 1 FROM sources WHERE id = ?").get(id)) return "not_found";
+  if (db.prepare("SELECT 1 FROM regulation_events WHERE source_id = ? LIMIT 1").get(id)) return "in_use";
+  db.prepare("DELETE FROM sources WHERE id = ?").run(id);
+  return "deleted";
+}
+
+export type LegislativeBillRecord = {
+  id: number;
+  connector: string;
+  externalId: string;
+  identifier: string;
+  title: string;
+  session: string | null;
+  url: string;
+  stage: Stage;
+  statusText: string | null;
+  introducedDate: string | null;
+  latestActionDate: string | null;
+  stageHistory: Array<{ stage: Stage; date: string | null; action: string }>;
+};
+
+/**
+ * Store a bill fetched from a legislature API and replace its stage history. The bill is
+ * keyed to a canonical law so backfillLawsFromEvents can give that law the bill's stage.
+ */
+export function upsertLegislativeBill(db: DatabaseConstructor.Database, sourceId: number | null, bill: LegislativeBill): number {
+  const canonical = inferCanonicalLaw({
+    title: bill.identifier === bill.title ? bill.title : `${bill.identifier} ${bill.title}`,
+    jurisdictionCountry: bill.jurisdictionCountry,
+    jurisdictionState: bill.jurisdictionState,
+  });
+  const now = new Date().toISOString();
+
+  db.prepare(
+    `INSERT INTO legislative_bills (
+       source_id, connector, external_id, identifier, title, jurisdiction_country, jurisdiction_state, session,
+       stage, status_text, url, introduced_date, latest_action_date, law_key, law_name, law_type, created_at, updated_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (connector, external_id) DO UPDATE SET
+       source_id = COALESCE(excluded.source_id, source_id),
+       identifier = excluded.identifier,
+       title = excluded.title,
+       jurisdiction_country = excluded.jurisdiction_country,
+       jurisdiction_state = excluded.jurisdiction_state,
+       session = excluded.session,
+       stage = excluded.stage,
+       status_text = excluded.status_text,
+       url = excluded.url,
+       introduced_date = excluded.introduced_date,
+       latest_action_date = excluded.latest_action_date,
+       law_key = excluded.law_key,
+       law_name = excluded.law_name,
+       law_type = excluded.law_type,
+       updated_at = excluded.updated_at`,
+  ).run(
+    sourceId,
+    bill.connector,
+    bill.externalId,
+    bill.identifier,
+    bill.title,
+    bill.jurisdictionCountry,
+    bill.jurisdictionState,
+    bill.session,
+    bill.stage,
+    bill.statusText,
+    bill.url,
+    bill.introducedDate,
+    bill.latestActionDate,
+    canonical.lawKey,
+    canonical.lawName,
+    canonical.lawType,
+    now,
+    now,
+  );
+
+  const { id } = db
+    .prepare("SELECT id FROM legislative_bills WHERE connector = ? AND external_id = ?")
+    .get(bill.connector, bill.externalId) as { id: number };
+  db.prepare("DELETE FROM legislative_bill_stages WHERE bill_id = ?").run(id);
+  const insertStage = db.prepare(
+    "INSERT INTO legislative_bill_stages (bill_id, position, stage, action_date, action_text) VALUES (?, ?, ?, ?, ?)",
+  );
+  bill.stageHistory.forEach((change, position) => {
+    insertStage.run(id, position, change.stage, change.date, change.action);
+  });
+  return id;
+}
+
+/** Bills backing a law, most recently active first, each with its recorded stage history */
+export function getLegislativeBillsForLaw(db: DatabaseConstructor.Database, lawKey: string): LegislativeBillRecord[] {
+  const bills = db
+    .prepare(
+      `SELECT id, connector, external_id, identifier, title, session, url, stage, status_text, introduced_date, latest_action_date
+       FROM legislative_bills
+       WHERE law_key = ?
+       ORDER BY COALESCE(latest_action_date, '') DESC, id DESC`,
+    )
+    .all(lawKey) as Array<Record<string, unknown>>;
+  const stages = db.prepare(
+    "SELECT stage, action_date, action_text FROM legislative_bill_stages WHERE bill_id = ? ORDER BY position",
+  );
+
+  return bills.map((row) => ({
+    id: row.id as number,
+    connector: row.connector as string,
+    externalId: row.external_id as string,
+    identifier: row.identifier as string,
+    title: row.title as string,
+    session: (row.session as string | null) ?? null,
+    url: row.url as string,
+    stage: row.stage as Stage,
+    statusText: (row.status_text as string | null) ?? null,
+    introducedDate: (row.introduced_date as string | null) ?? null,
+    latestActionDate: (row.latest_action_date as string | null) ?? null,
+    stageHistory: (stages.all(row.id) as Array<{ stage: Stage; action_date: string | null; action_text: string }>).map((change) => ({
+      stage: change.stage,
+      date: change.action_date,
+      action: change.action_text,
+    })),
+  }));
+}
+
 type EventForLawBackfill = {
   id: string;
   title: string;
@@ -740,6 +2839,24 @@ type EventForLawBackfill = {
   source_name: string;
   source_url: string;
   source_reliability_tier: number;
+  bill_law_key: string | null;
+  bill_law_name: string | null;
+  bill_law_type: string | null;
+};
+
+type BillForLawBackfill = {
+  law_key: string;
+  law_name: string;
+  law_type: string | null;
+  jurisdiction_country: string;
+  jurisdiction_state: string | null;
+  stage: string;
+  status_text: string | null;
+  introduced_date: string | null;
+  latest_action_date: string | null;
+  created_at: string;
+  updated_at: string;
+  source_reliability_tier: number;
 };
 
 export type LawBackfillStats = {
@@ -811,14 +2928,42 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         e.raw_text,
         s.name AS source_name,
         s.url AS source_url,
-        COALESCE(s.reliability_tier, 3) AS source_reliability_tier
+        COALESCE(s.reliability_tier, 3) AS source_reliability_tier,
+        b.law_key AS bill_law_key,
+        b.law_name AS bill_law_name,
+        b.law_type AS bill_law_type
       FROM regulation_events e
       JOIN sources s ON s.id = e.source_id
+      LEFT JOIN legislative_bills b ON b.url = e.source_url_link
       ORDER BY e.updated_at DESC, e.id ASC
       `,
     )
     .all() as EventForLawBackfill[];
 
+  // Most recently active bill first, so it sets the stage when several bills share a law
+  const billRows = db
+    .prepare(
+      `
+      SELECT
+        b.law_key,
+        b.law_name,
+        b.law_type,
+        b.jurisdiction_country,
+        b.jurisdiction_state,
+        b.stage,
+        b.status_text,
+        b.introduced_date,
+        b.latest_action_date,
+        b.created_at,
+        b.updated_at,
+        COALESCE(s.reliability_tier, 5) AS source_reliability_tier
+      FROM legislative_bills b
+      LEFT JOIN sources s ON s.id = b.source_id
+      ORDER BY COALESCE(b.latest_action_date, '') DESC, b.id DESC
+      `,
+    )
+    .all() as BillForLawBackfill[];
+
   const tx = db.transaction(() => {
     db.exec("DELETE FROM law_updates");
     db.exec("DELETE FROM laws");
@@ -833,16 +2978,20 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
       jurisdictionCountry: string;
       jurisdictionState: string | null;
       updates: EventForLawBackfill[];
+      bill: BillForLawBackfill | null;
     }>();
 
     for (const row of eventRows) {
-      const canonical = inferCanonicalLaw({
-        title: row.title,
-        summary: row.summary,
-        content: row.raw_text,
-        jurisdictionCountry: row.jurisdiction_country,
-        jurisdictionState: row.jurisdiction_state,
-      });
+      // Events crawled from a bill's own page belong to that bill's law
+      const canonical = row.bill_law_key
+        ? { lawKey: row.bill_law_key, lawName: row.bill_law_name ?? row.title, lawType: row.bill_law_type ?? "bill" }
+        : inferCanonicalLaw({
+          title: row.title,
+          summary: row.summary,
+          content: row.raw_text,
+          jurisdictionCountry: row.jurisdiction_country,
+          jurisdictionState: row.jurisdiction_state,
+        });
 
       const canonicalNameScore = scoreCanonicalLawName(canonical.lawName);
       const existing = groups.get(canonical.lawKey);
@@ -866,6 +3015,30 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
           jurisdictionCountry: row.jurisdiction_country,
           jurisdictionState: row.jurisdiction_state,
           updates: [row],
+          bill: null,
+        });
+      }
+    }
+
+    // Bills carry the legislature's own stage and title; bills nobody has written about yet still become laws
+    for (const bill of billRows) {
+      const existing = groups.get(bill.law_key);
+      if (existing) {
+        if (!existing.bill) {
+          existing.bill = bill;
+          existing.lawName = bill.law_name;
+          existing.lawNameScore = Number.POSITIVE_INFINITY;
+          existing.lawType = bill.law_type ?? existing.lawType;
+        }
+      } else {
+        groups.set(bill.law_key, {
+          lawName: bill.law_name,
+          lawType: bill.law_type ?? "bill",
+          lawNameScore: Number.POSITIVE_INFINITY,
+          jurisdictionCountry: bill.jurisdiction_country,
+          jurisdictionState: bill.jurisdiction_state,
+          updates: [],
+          bill,
         });
       }
     }
@@ -880,6 +3053,7 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         law_type,
         stage,
         status,
+        stage_source,
         first_seen_at,
         last_seen_at,
         latest_effective_date,
@@ -889,7 +3063,7 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         source_confidence,
         created_at,
         updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
     );
 
@@ -921,25 +3095,26 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         parseDateOr(pickEventReferenceDate(b), 0) - parseDateOr(pickEventReferenceDate(a), 0),
       );
 
-      const latest = updatesSorted[0];
+      const latest = updatesSorted[0] as EventForLawBackfill | undefined;
+      const { bill } = group;
       const firstSeen = group.updates.reduce((min, row) => {
         const candidate = pickEventReferenceDate(row);
         return parseDateOr(candidate, Number.MAX_SAFE_INTEGER) < parseDateOr(min, Number.MAX_SAFE_INTEGER)
           ? candidate
           : min;
-      }, pickEventReferenceDate(group.updates[0]));
+      }, bill ? bill.introduced_date ?? bill.created_at : pickEventReferenceDate(group.updates[0]));
 
       const lastSeen = group.updates.reduce((max, row) => {
         const candidate = row.updated_at ?? pickEventReferenceDate(row);
         return parseDateOr(candidate, 0) > parseDateOr(max, 0) ? candidate : max;
-      }, latest.updated_at ?? pickEventReferenceDate(latest));
+      }, bill ? bill.latest_action_date ?? bill.updated_at : latest!.updated_at ?? pickEventReferenceDate(latest!));
 
       const latestEffectiveDate = group.updates
         .map((row) => row.effective_date)
         .filter((value): value is string => Boolean(value))
         .sort((a, b) => parseDateOr(b, 0) - parseDateOr(a, 0))[0] ?? null;
 
-      const aggregateRiskMax = Math.max(...group.updates.map((row) => row.chili_score));
+      const aggregateRiskMax = Math.max(0, ...group.updates.map((row) => row.chili_score));
 
       let weightedRiskNumerator = 0;
       let weightedRiskDenominator = 0;
@@ -959,7 +3134,9 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         ? weightedRiskNumerator / weightedRiskDenominator
         : aggregateRiskMax;
       const aggregateRiskOverall = group.updates.length > 0 ? riskOverallSum / group.updates.length : aggregateRiskMax;
-      const sourceConfidence = group.updates.length > 0 ? sourceConfidenceSum / group.updates.length : 0;
+      const sourceConfidence = group.updates.length > 0
+        ? sourceConfidenceSum / group.updates.length
+        : bill?.source_reliability_tier ?? 0;
 
       const lawResult = insertLaw.run(
         lawKey,
@@ -967,8 +3144,9 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
         group.jurisdictionCountry,
         group.jurisdictionState,
         group.lawType,
-        latest.stage,
-        latest.stage,
+        bill ? bill.stage : latest!.stage,
+        bill ? bill.status_text ?? bill.stage : latest!.stage,
+        bill ? "legislature" : "inferred",
         firstSeen,
         lastSeen,
         latestEffectiveDate,
@@ -1013,7 +3191,7 @@ export function backfillLawsFromEvents(db: DatabaseConstructor.Database): LawBac
     return {
       laws: groups.size,
       lawUpdates: eventRows.length,
-      mergedDuplicates: Math.max(0, eventRows.length - groups.size),
+      mergedDuplicates: Math.max(0, eventRows.length - [...groups.values()].filter((group) => group.updates.length > 0).length),
     };
   });
 
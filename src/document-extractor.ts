@@ -0,0 +1,651 @@
+/**
+ * Text extraction for PDF and DOCX documents (bill texts, official journal issues).
+ * Both formats are read with Node's zlib only: PDF content streams are decoded and their
+ * text operators replayed; DOCX files are unzipped and word/document.xml is walked.
+ * Output keeps section headings (as "## " lines) and page numbers (as "[Page N]" markers).
+ */
+
+import zlib from "node:zlib";
+
+export type DocumentType = "pdf" | "docx";
+
+export type ExtractedDocument = {
+  type: DocumentType;
+  title: string | null;
+  pageCount: number;
+  headings: string[];
+  text: string;
+};
+
+const DOCX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const HEADING_SIZE_RATIO = 1.2;
+const MAX_HEADING_LENGTH = 120;
+const SECTION_HEADING_PATTERN = /^(?:SEC(?:TION)?\.?|Sec(?:tion)?\.?|§+|ARTICLE|Article|CHAPTER|Chapter|PART|Part|TITLE|Title|SCHEDULE|Schedule)\s*[\dIVXLC]+[A-Za-z]?(?:[.:)\-–—]|\s|$)/;
+
+/**
+ * Decide whether a response is a PDF/DOCX document. The Content-Type header wins; generic
+ * binary types (or a missing header) fall back to the URL's file extension.
+ */
+export function detectDocumentType(contentType: string | null, url: string): DocumentType | null {
+  const mime = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (mime === "application/pdf" || mime === "application/x-pdf") return "pdf";
+  if (mime === DOCX_CONTENT_TYPE) return "docx";
+  if (mime && mime !== "application/octet-stream" && mime !== "binary/octet-stream") return null;
+  return documentTypeFromUrl(url);
+}
+
+/** Guess the document type from a URL's path extension */
+export function documentTypeFromUrl(url: string): DocumentType | null {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+  const lower = pathname.toLowerCase();
+  if (lower.endsWith(".pdf")) return "pdf";
+  if (lower.endsWith(".docx")) return "docx";
+  return null;
+}
+
+/** Extract text from a document; throws when the bytes are not a readable document of that type */
+export function extractDocumentText(type: DocumentType, data: Buffer): ExtractedDocument {
+  return type === "pdf" ? extractPdfText(data) : extractDocxText(data);
+}
+
+type TextLine = { text: string; fontSize: number };
+
+function isSectionHeading(text: string): boolean {
+  return text.length <= MAX_HEADING_LENGTH && SECTION_HEADING_PATTERN.test(text);
+}
+
+/** Render pages of lines, marking as headings the lines set noticeably larger than the body text */
+function renderPages(pages: TextLine[][]): { text: string; headings: string[] } {
+  const sizeWeights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = Math.round(line.fontSize * 10) / 10;
+    sizeWeights.set(size, (sizeWeights.get(size) ?? 0) + line.text.length);
+  }
+  const bodySize = [...sizeWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const headings: string[] = [];
+  const blocks = pages.map((lines, index) => {
+    const rendered = lines.map((line) => {
+      const larger = bodySize > 0 && line.fontSize >= bodySize * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_LENGTH;
+      if (larger || isSectionHeading(line.text)) {
+        headings.push(line.text);
+        return `## ${line.text}`;
+      }
+      return line.text;
+    });
+    return [`[Page ${index + 1}]`, ...rendered].join("\n");
+  });
+
+  return { text: blocks.join("\n\n"), headings };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+type PdfObject = { dict: string; stream: Buffer | null };
+
+type FontDecoder = { codeLength: number; map: Map<number, string> | null };
+
+const OBJECT_PATTERN = /(\d+)\s+(\d+)\s+obj\b/g;
+const REFERENCE_PATTERN = /^(\d+)\s+\d+\s+R/;
+/** Largest PDF stream inflated, so a deflate bomb cannot exhaust memory; larger streams are skipped */
+const MAX_PDF_STREAM_BYTES = 50 * 1024 * 1024;
+
+/** Read the value following `/Key` in a dictionary string (nested dict, array, reference or token) */
+function dictValue(dict: string, key: string): string | null {
+  const match = new RegExp(`/${key}(?=[\\s/<\\[(])`).exec(dict);
+  if (!match) return null;
+  let index = match.index + match[0].length;
+  while (/\s/.test(dict[index] ?? "")) index++;
+
+  const rest = dict.slice(index);
+  if (rest.startsWith("<<") || rest.startsWith("[")) {
+    const [open, close] = rest.startsWith("<<") ? ["<<", ">>"] : ["[", "]"];
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest.startsWith(open, i)) {
+        depth++;
+        i += open.length - 1;
+      } else if (rest.startsWith(close, i)) {
+        depth--;
+        if (depth === 0) return rest.slice(0, i + close.length);
+        i += close.length - 1;
+      }
+    }
+    return rest;
+  }
+
+  const reference = REFERENCE_PATTERN.exec(rest);
+  if (reference) return reference[0];
+  if (rest.startsWith("(")) return rest.slice(0, findLiteralEnd(rest, 0) + 1);
+  return /^\/?[^\s/<>\[\]()]*/.exec(rest)?.[0] ?? null;
+}
+
+function findLiteralEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") i++;
+    else if (char === "(") depth++;
+    else if (char === ")" && --depth === 0) return i;
+  }
+  return text.length - 1;
+}
+
+function decodeStream(object: PdfObject): Buffer | null {
+  if (!object.stream) return null;
+  const filters = [...(dictValue(object.dict, "Filter") ?? "").matchAll(/\/(\w+)/g)].map((match) => match[1]);
+  if (filters.length === 0) return object.stream;
+  if (filters.some((filter) => filter !== "FlateDecode")) return null;
+  try {
+    return zlib.inflateSync(object.stream, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_PDF_STREAM_BYTES });
+  } catch {
+    // Corrupt streams and those inflating past the cap (ERR_BUFFER_TOO_LARGE) are skipped alike
+    return null;
+  }
+}
+
+function parsePdfObjects(data: Buffer, source: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const pattern = new RegExp(OBJECT_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const bodyStart = match.index + match[0].length;
+    const endObj = source.indexOf("endobj", bodyStart);
+    const streamKeyword = source.indexOf("stream", bodyStart);
+    let object: PdfObject;
+
+    if (streamKeyword !== -1 && (endObj === -1 || streamKeyword < endObj)) {
+      let dataStart = streamKeyword + "stream".length;
+      if (source[dataStart] === "\r") dataStart++;
+      if (source[dataStart] === "\n") dataStart++;
+      const endStream = source.indexOf("endstream", dataStart);
+      const dataEnd = endStream === -1 ? source.length : endStream;
+      object = { dict: source.slice(bodyStart, streamKeyword), stream: data.subarray(dataStart, dataEnd) };
+      pattern.lastIndex = dataEnd;
+    } else {
+      object = { dict: source.slice(bodyStart, endObj === -1 ? source.length : endObj), stream: null };
+      if (endObj !== -1) pattern.lastIndex = endObj;
+    }
+    objects.set(Number(match[1]), object);
+  }
+
+  // PDF 1.5+ files keep most dictionaries inside compressed object streams
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.dict)) continue;
+    const decoded = decodeStream(object)?.toString("latin1");
+    const count = Number(dictValue(object.dict, "N"));
+    const first = Number(dictValue(object.dict, "First"));
+    if (!decoded || !Number.isFinite(count) || !Number.isFinite(first)) continue;
+
+    const header = decoded.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count && i * 2 + 1 < header.length; i++) {
+      const objectNumber = header[i * 2];
+      const start = first + header[i * 2 + 1];
+      const end = i + 1 < count && i * 2 + 3 < header.length ? first + header[i * 2 + 3] : decoded.length;
+      if (!objects.has(objectNumber)) {
+        objects.set(objectNumber, { dict: decoded.slice(start, end), stream: null });
+      }
+    }
+  }
+
+  return objects;
+}
+
+function resolveObject(objects: Map<number, PdfObject>, value: string | null): PdfObject | null {
+  if (!value) return null;
+  const reference = REFERENCE_PATTERN.exec(value.trim());
+  if (reference) return objects.get(Number(reference[1])) ?? null;
+  return { dict: value, stream: null };
+}
+
+function referencesIn(value: string | null): number[] {
+  if (!value) return [];
+  return [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map((match) => Number(match[1]));
+}
+
+/** Page objects in document order, walking the page tree from its root */
+function collectPages(objects: Map<number, PdfObject>): PdfObject[] {
+  const isPages = (object: PdfObject) => /\/Type\s*\/Pages\b/.test(object.dict);
+  const isPage = (object: PdfObject) => /\/Type\s*\/Page(?![s\w])/.test(object.dict);
+  const root = [...objects.values()].find((object) => isPages(object) && !dictValue(object.dict, "Parent"));
+
+  if (!root) {
+    return [...objects.entries()].sort((a, b) => a[0] - b[0]).map(([, object]) => object).filter(isPage);
+  }
+
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+  const walk = (node: PdfObject) => {
+    for (const kid of referencesIn(dictValue(node.dict, "Kids"))) {
+      const child = objects.get(kid);
+      if (!child || visited.has(kid)) continue;
+      visited.add(kid);
+      if (isPages(child)) walk(child);
+      else pages.push(child);
+    }
+  };
+  walk(root);
+  return pages;
+}
+
+function decodeUtf16Hex(hex: string): string {
+  const bytes = Buffer.from(hex.length % 2 === 0 ? hex : `${hex}0`, "hex");
+  let result = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) result += String.fromCharCode(bytes.readUInt16BE(i));
+  return result;
+}
+
+/** Parse a ToUnicode CMap (bfchar/bfrange) into a code → text map */
+function parseToUnicode(cmap: string): FontDecoder {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-f]+)>/i.exec(cmap);
+  const codeLength = codespace ? Math.max(1, codespace[1].length / 2) : 1;
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      map.set(Number.parseInt(pair[1], 16), decodeUtf16Hex(pair[2]));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const low = Number.parseInt(range[1], 16);
+      const high = Number.parseInt(range[2], 16);
+      if (high - low > 0xffff) continue;
+      if (range[3].startsWith("[")) {
+        const targets = [...range[3].matchAll(/<([0-9a-f]*)>/gi)].map((target) => decodeUtf16Hex(target[1]));
+        targets.forEach((target, offset) => map.set(low + offset, target));
+      } else {
+        const base = range[3].slice(1, -1);
+        const prefix = decodeUtf16Hex(base.slice(0, -4));
+        const start = Number.parseInt(base.slice(-4) || "0", 16);
+        for (let code = low; code <= high; code++) {
+          map.set(code, prefix + String.fromCharCode(start + code - low));
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+function pageResources(objects: Map<number, PdfObject>, page: PdfObject): PdfObject | null {
+  let node: PdfObject | null = page;
+  for (let depth = 0; node && depth < 32; depth++) {
+    const resources = dictValue(node.dict, "Resources");
+    if (resources) return resolveObject(objects, resources);
+    node = resolveObject(objects, dictValue(node.dict, "Parent"));
+  }
+  return null;
+}
+
+function fontDecoders(objects: Map<number, PdfObject>, resources: PdfObject | null): Map<string, FontDecoder> {
+  const decoders = new Map<string, FontDecoder>();
+  const fonts = resolveObject(objects, resources ? dictValue(resources.dict, "Font") : null);
+  if (!fonts) return decoders;
+
+  for (const entry of fonts.dict.matchAll(/\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(entry[2]));
+    if (!font) continue;
+    const toUnicode = resolveObject(objects, dictValue(font.dict, "ToUnicode"));
+    const cmap = toUnicode ? decodeStream(toUnicode)?.toString("latin1") : undefined;
+    const composite = /\/Subtype\s*\/Type0\b/.test(font.dict);
+    decoders.set(entry[1], cmap ? parseToUnicode(cmap) : { codeLength: composite ? 2 : 1, map: null });
+  }
+  return decoders;
+}
+
+function decodeLiteralString(raw: string): string {
+  let result = "";
+  for (let i = 1; i < raw.length - 1; i++) {
+    const char = raw[i];
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+    const next = raw[++i];
+    const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+    if (next in escapes) result += escapes[next];
+    else if (/[0-7]/.test(next)) {
+      const octal = /^[0-7]{1,3}/.exec(raw.slice(i, i + 3))![0];
+      result += String.fromCharCode(Number.parseInt(octal, 8));
+      i += octal.length - 1;
+    } else if (next === "\r" || next === "\n") {
+      if (next === "\r" && raw[i + 1] === "\n") i++;
+    } else result += next;
+  }
+  return result;
+}
+
+function decodeShownString(bytes: string, font: FontDecoder | undefined): string {
+  if (!font?.map) {
+    if (font?.codeLength === 2 || bytes.startsWith("þÿ")) return decodeUtf16Hex(Buffer.from(bytes, "latin1").toString("hex"));
+    return bytes;
+  }
+  let result = "";
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) code = code * 256 + (bytes.charCodeAt(i + j) || 0);
+    result += font.map.get(code) ?? "";
+  }
+  return result;
+}
+
+type ContentToken = { kind: "operand"; value: string | number | Array<string | number> } | { kind: "operator"; value: string };
+
+const CONTENT_TOKEN_PATTERN = /\s+|%[^\r\n]*|(\()|<([0-9A-Fa-f\s]*)>|(<<|>>)|(\[)|(\])|(\/[^\s/<>\[\]()%]*)|([+-]?(?:\d+\.?\d*|\.\d+))|([A-Za-z'"*][A-Za-z0-9'"*]*)|(.)/gy;
+
+/** Tokenize a content stream into operands (strings as byte strings, numbers, arrays) and operators */
+function tokenizeContent(content: string): ContentToken[] {
+  const tokens: ContentToken[] = [];
+  let array: Array<string | number> | null = null;
+  const pattern = new RegExp(CONTENT_TOKEN_PATTERN.source, "gy");
+  let match: RegExpExecArray | null;
+
+  const pushOperand = (value: string | number) => {
+    if (array) array.push(value);
+    else tokens.push({ kind: "operand", value });
+  };
+
+  while (pattern.lastIndex < content.length && (match = pattern.exec(content)) !== null) {
+    const [, literal, hex, , arrayOpen, arrayClose, name, number, operator] = match;
+    if (literal) {
+      const end = findLiteralEnd(content, match.index);
+      pushOperand(decodeLiteralString(content.slice(match.index, end + 1)));
+      pattern.lastIndex = end + 1;
+    } else if (hex !== undefined) {
+      const digits = hex.replace(/\s+/g, "");
+      pushOperand(Buffer.from(digits.length % 2 === 0 ? digits : `${digits}0`, "hex").toString("latin1"));
+    } else if (arrayOpen) {
+      array = [];
+    } else if (arrayClose) {
+      if (array) tokens.push({ kind: "operand", value: array });
+      array = null;
+    } else if (name) {
+      pushOperand(name);
+    } else if (number) {
+      pushOperand(Number(number));
+    } else if (operator) {
+      if (operator === "BI") {
+        // Inline image data is binary; skip to the end-of-image marker
+        const end = content.indexOf("EI", pattern.lastIndex);
+        pattern.lastIndex = end === -1 ? content.length : end + 2;
+        continue;
+      }
+      tokens.push({ kind: "operator", value: operator });
+    }
+  }
+  return tokens;
+}
+
+/** Replay a page's text operators into lines, tracking font size and vertical position */
+function extractPageLines(content: string, fonts: Map<string, FontDecoder>): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine = { text: "", fontSize: 0 };
+  let font: FontDecoder | undefined;
+  let fontSize = 0;
+  let scale = 1;
+  let leading = 0;
+  let y: number | null = null;
+  let operands: Array<string | number | Array<string | number>> = [];
+
+  const newLine = () => {
+    const text = current.text.replace(/\s+/g, " ").trim();
+    if (text) lines.push({ text, fontSize: current.fontSize });
+    current = { text: "", fontSize: 0 };
+  };
+  const addSpace = () => {
+    if (current.text && !current.text.endsWith(" ")) current.text += " ";
+  };
+  const show = (bytes: string) => {
+    const text = decodeShownString(bytes, font);
+    if (!text) return;
+    current.text += text;
+    current.fontSize = Math.max(current.fontSize, Math.abs(fontSize * scale));
+  };
+  const moveTo = (nextY: number) => {
+    if (y !== null && Math.abs(nextY - y) > 0.5) newLine();
+    else addSpace();
+    y = nextY;
+  };
+
+  for (const token of tokenizeContent(content)) {
+    if (token.kind === "operand") {
+      operands.push(token.value);
+      continue;
+    }
+
+    const numbers = operands.filter((operand): operand is number => typeof operand === "number");
+    switch (token.value) {
+      case "Tf":
+        font = fonts.get(String(operands[0] ?? "").replace(/^\//, ""));
+        fontSize = numbers[0] ?? fontSize;
+        break;
+      case "TL":
+        leading = numbers[0] ?? leading;
+        break;
+      case "Tm":
+        if (numbers.length >= 6) {
+          scale = Math.abs(numbers[3]) || Math.abs(numbers[0]) || 1;
+          moveTo(numbers[5]);
+        }
+        break;
+      case "Td":
+      case "TD":
+        if (numbers.length >= 2) {
+          if (token.value === "TD") leading = -numbers[1];
+          moveTo((y ?? 0) + numbers[1] * scale);
+        }
+        break;
+      case "T*":
+        moveTo((y ?? 0) - (leading || 1) * scale);
+        break;
+      case "Tj":
+        if (typeof operands[0] === "string") show(operands[0]);
+        break;
+      case "'":
+      case '"': {
+        moveTo((y ?? 0) - (leading || 1) * scale);
+        const shown = operands[operands.length - 1];
+        if (typeof shown === "string") show(shown);
+        break;
+      }
+      case "TJ": {
+        const items = operands[0];
+        if (!Array.isArray(items)) break;
+        for (const item of items) {
+          if (typeof item === "string") show(item);
+          else if (item < -200) addSpace();
+        }
+        break;
+      }
+      default:
+        break;
+    }
+    operands = [];
+  }
+
+  newLine();
+  return lines;
+}
+
+function extractPdfTitle(objects: Map<number, PdfObject>, source: string): string | null {
+  const info = resolveObject(objects, /\/Info\s+(\d+\s+\d+\s+R)/.exec(source)?.[1] ?? null);
+  const title = info ? dictValue(info.dict, "Title") : null;
+  const value = title && REFERENCE_PATTERN.test(title) ? resolveObject(objects, title)?.dict.trim() : title;
+  if (!value) return null;
+
+  const raw = value.startsWith("(")
+    ? decodeLiteralString(value)
+    : Buffer.from(value.replace(/[<>\s]/g, ""), "hex").toString("latin1");
+  const text = raw.startsWith("þÿ") ? decodeUtf16Hex(Buffer.from(raw.slice(2), "latin1").toString("hex")) : raw;
+  return text.trim() || null;
+}
+
+function extractPdfText(data: Buffer): ExtractedDocument {
+  const source = data.toString("latin1");
+  if (!source.slice(0, 1024).includes("%PDF-")) {
+    throw new Error("Not a PDF document");
+  }
+
+  const objects = parsePdfObjects(data, source);
+  const pages = collectPages(objects).map((page) => {
+    const fonts = fontDecoders(objects, pageResources(objects, page));
+    const content = referencesIn(dictValue(page.dict, "Contents"))
+      .map((reference) => objects.get(reference))
+      .map((object) => (object ? decodeStream(object)?.toString("latin1") ?? "" : ""))
+      .join("\n");
+    return extractPageLines(content, fonts);
+  });
+
+  const { text, headings } = renderPages(pages);
+  return {
+    type: "pdf",
+    title: extractPdfTitle(objects, source) ?? headings[0] ?? null,
+    pageCount: pages.length,
+    headings,
+    text,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** Largest ZIP entry inflated, whatever size the archive declares, so a zip bomb cannot exhaust memory */
+const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024;
+
+/** Inflate a deflated ZIP entry, failing when it holds more than its declared size */
+function inflateZipEntry(compressed: Buffer, declaredSize: number, name: string): Buffer {
+  if (declaredSize > MAX_ZIP_ENTRY_BYTES) throw new Error(`ZIP entry ${name} is too large (${declaredSize} bytes)`);
+  try {
+    return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(1, declaredSize) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw new Error(`ZIP entry ${name} inflates past its declared size`);
+    throw error;
+  }
+}
+
+/** Read one file from a ZIP archive (stored or deflated entries) */
+function readZipEntry(data: Buffer, entryName: string): Buffer | null {
+  const searchStart = Math.max(0, data.length - 65_557);
+  let eocd = -1;
+  for (let i = data.length - 22; i >= searchStart; i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a ZIP archive");
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount && offset + 46 <= data.length; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name !== entryName) continue;
+    if (data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) return null;
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return compressed;
+    if (method === 8) return inflateZipEntry(compressed, uncompressedSize, name);
+    return null;
+  }
+  return null;
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function headingLevel(paragraphXml: string): number | null {
+  const style = /<w:pStyle\s+w:val="([^"]+)"/.exec(paragraphXml)?.[1];
+  if (style && /^title$/i.test(style)) return 1;
+  const styleLevel = style ? /^heading\s*(\d)$/i.exec(style)?.[1] : undefined;
+  if (styleLevel) return Number(styleLevel);
+  const outline = /<w:outlineLvl\s+w:val="(\d)"/.exec(paragraphXml)?.[1];
+  return outline !== undefined ? Number(outline) + 1 : null;
+}
+
+function extractDocxText(data: Buffer): ExtractedDocument {
+  const documentXml = readZipEntry(data, "word/document.xml")?.toString("utf8");
+  if (!documentXml) throw new Error("DOCX archive has no word/document.xml");
+
+  // Word records where pages actually broke when the file was last rendered; prefer those
+  // over explicit breaks so an explicit break is not counted twice.
+  const useRenderedBreaks = documentXml.includes("<w:lastRenderedPageBreak");
+  const pageBreakPattern = useRenderedBreaks ? /<w:lastRenderedPageBreak\s*\/>/ : /<w:br\b[^>]*w:type="page"[^>]*\/>|<w:pageBreakBefore\s*\/>/;
+  const tokenPattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\s*\/>|<w:br\b[^>]*\/>|<w:lastRenderedPageBreak\s*\/>|<w:pageBreakBefore\s*\/>/g;
+
+  const lines: string[] = ["[Page 1]"];
+  const headings: string[] = [];
+  let page = 1;
+
+  for (const paragraph of documentXml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+    const paragraphXml = paragraph[1] ?? "";
+    let text = "";
+    for (const token of paragraphXml.matchAll(tokenPattern)) {
+      if (pageBreakPattern.test(token[0])) {
+        if (text.trim()) lines.push(text.trim());
+        text = "";
+        page++;
+        lines.push("", `[Page ${page}]`);
+      } else if (token[1] !== undefined) {
+        text += decodeXmlText(token[1]);
+      } else if (token[0].startsWith("<w:tab")) {
+        text += "\t";
+      } else if (token[0].startsWith("<w:br")) {
+        text += " ";
+      }
+    }
+
+    const trimmed = text.replace(/[ \t]+/g, " ").trim();
+    if (!trimmed) continue;
+    const level = headingLevel(paragraphXml);
+    if (level !== null || isSectionHeading(trimmed)) {
+      headings.push(trimmed);
+      lines.push(`${"#".repeat(Math.min(level ?? 2, 6))} ${trimmed}`);
+    } else {
+      lines.push(trimmed);
+    }
+  }
+
+  const coreXml = readZipEntry(data, "docProps/core.xml")?.toString("utf8");
+  const coreTitle = coreXml ? decodeXmlText(/<dc:title>([^<]*)<\/dc:title>/.exec(coreXml)?.[1] ?? "").trim() : "";
+
+  return {
+    type: "docx",
+    title: coreTitle || headings[0] || null,
+    pageCount: page,
+    headings,
+    text: lines.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+  };
+}
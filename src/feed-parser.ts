@@ -0,0 +1,221 @@
+/**
+ * Feed parser for RSS 2.0, RSS 1.0 (RDF) and Atom.
+ * Uses a small tolerant XML tokenizer (no external dependency) that handles CDATA,
+ * comments, namespaced tags and unbalanced markup commonly found in news feeds.
+ */
+
+export type FeedFormat = "rss2" | "rss1" | "atom" | "unknown";
+
+export type FeedItem = {
+  guid: string | null;
+  title: string;
+  link: string | null;
+  description: string;
+  publishedAt: string | null;
+};
+
+export type ParsedFeed = {
+  format: FeedFormat;
+  title: string;
+  items: FeedItem[];
+  /** RFC 5005 paging link (`<link rel="next">` / `<atom:link rel="next">`), as written in the feed */
+  nextPageUrl: string | null;
+};
+
+type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+};
+
+type XmlNode = XmlElement | string;
+
+const TOKEN_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>|([^<]+|<)/g;
+const ATTRIBUTE_PATTERN = /([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/** Character for a numeric entity; code points outside Unicode become U+FFFD rather than throwing */
+function codePointText(codePoint: number): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "\uFFFD";
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => codePointText(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => codePointText(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/** Parse XML into a lightweight element tree. Mismatched closing tags are tolerated. */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let match: RegExpExecArray | null;
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while ((match = TOKEN_PATTERN.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, tagName, rawAttributes, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.children.push(cdata);
+    } else if (text !== undefined) {
+      current.children.push(decodeXmlEntities(text));
+    } else if (tagName !== undefined) {
+      const name = tagName.toLowerCase();
+      if (closing) {
+        const openIndex = stack.map((element) => element.name).lastIndexOf(name);
+        if (openIndex > 0) stack.length = openIndex;
+      } else {
+        const element: XmlElement = { name, attributes: parseAttributes(rawAttributes ?? ""), children: [] };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+  }
+
+  return root;
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(":");
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+function childElements(element: XmlElement): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => typeof child !== "string");
+}
+
+/** Find direct children by qualified name ("dc:date") or by local name when unprefixed ("title") */
+function findChildren(element: XmlElement, name: string): XmlElement[] {
+  const qualified = name.includes(":");
+  return childElements(element).filter((child) => (qualified ? child.name === name : localName(child.name) === name));
+}
+
+function findChild(element: XmlElement, name: string): XmlElement | undefined {
+  return findChildren(element, name)[0];
+}
+
+function findDescendant(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of childElements(element)) {
+    if (localName(child.name) === name) return child;
+    const nested = findDescendant(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) return "";
+  if (typeof node === "string") return node;
+  return node.children.map(textContent).join("");
+}
+
+function childText(element: XmlElement, ...names: string[]): string {
+  for (const name of names) {
+    const value = textContent(findChild(element, name)).trim();
+    if (value) return value;
+  }
+  return "";
+}
+
+/** Normalize RFC 822 / ISO 8601 feed dates to ISO 8601; unparseable values become null */
+export function normalizeFeedDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function findLink(element: XmlElement, rel: string): string | null {
+  for (const link of findChildren(element, "link")) {
+    const linkRel = link.attributes.rel ?? "alternate";
+    if (linkRel === rel && link.attributes.href) return link.attributes.href.trim();
+  }
+  return null;
+}
+
+/** An RSS item's link: unprefixed `<link>` text wins over namespaced links such as `<atom:link rel="self"/>` */
+function findRssLink(item: XmlElement): string | null {
+  const links = findChildren(item, "link");
+  const linkText = (link: XmlElement) => textContent(link).trim();
+  const plain = links.filter((link) => !link.name.includes(":")).map(linkText).find(Boolean);
+  return plain || links.map(linkText).find(Boolean) || findLink(item, "alternate");
+}
+
+function parseRssItem(item: XmlElement): FeedItem {
+  const guid = childText(item, "guid") || item.attributes["rdf:about"] || null;
+  return {
+    guid,
+    title: childText(item, "title"),
+    link: findRssLink(item),
+    description: childText(item, "content:encoded", "description", "dc:description"),
+    publishedAt: normalizeFeedDate(childText(item, "pubdate", "dc:date", "published", "updated")),
+  };
+}
+
+function parseAtomEntry(entry: XmlElement): FeedItem {
+  return {
+    guid: childText(entry, "id") || null,
+    title: childText(entry, "title"),
+    link: findLink(entry, "alternate"),
+    description: childText(entry, "content", "summary"),
+    publishedAt: normalizeFeedDate(childText(entry, "published", "updated")),
+  };
+}
+
+export function parseFeed(xml: string): ParsedFeed {
+  const document = parseXml(xml);
+  const root = childElements(document)[0];
+
+  if (!root) {
+    return { format: "unknown", title: "", items: [], nextPageUrl: null };
+  }
+
+  const rootName = localName(root.name);
+
+  if (rootName === "feed") {
+    return {
+      format: "atom",
+      title: childText(root, "title"),
+      items: findChildren(root, "entry").map(parseAtomEntry),
+      nextPageUrl: findLink(root, "next"),
+    };
+  }
+
+  if (rootName === "rdf") {
+    const channel = findChild(root, "channel");
+    return {
+      format: "rss1",
+      title: channel ? childText(channel, "title") : "",
+      items: findChildren(root, "item").map(parseRssItem),
+      nextPageUrl: null,
+    };
+  }
+
+  const channel = rootName === "rss" ? findChild(root, "channel") : findDescendant(root, "channel");
+  if (!channel) {
+    return { format: "unknown", title: "", items: [], nextPageUrl: null };
+  }
+
+  return {
+    format: "rss2",
+    title: childText(channel, "title"),
+    items: findChildren(channel, "item").map(parseRssItem),
+    nextPageUrl: findLink(channel, "next"),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Per-host politeness: caps concurrent requests to each host and spaces request starts
+ * by a minimum delay, independently of how sources are batched across hosts.
+ */
+
+export type HostLimiter = {
+  /** Run a request for `url` once its host has a free slot and the minimum delay has passed */
+  run: <T>(url: string, task: () => Promise<T>) => Promise<T>;
+};
+
+export type HostLimiterOptions = {
+  /** Maximum in-flight requests per host (default 2) */
+  maxConcurrentPerHost?: number;
+  /** Minimum time between request starts on the same host (default 1000ms) */
+  minDelayMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+export const DEFAULT_HOST_CONCURRENCY = 2;
+export const DEFAULT_HOST_MIN_DELAY_MS = 1_000;
+
+type HostState = {
+  active: number;
+  waiting: Array<() => void>;
+  nextStartAt: number;
+};
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+export function createHostLimiter(options: HostLimiterOptions = {}): HostLimiter {
+  const maxConcurrent = Math.max(1, options.maxConcurrentPerHost ?? DEFAULT_HOST_CONCURRENCY);
+  const minDelayMs = Math.max(0, options.minDelayMs ?? DEFAULT_HOST_MIN_DELAY_MS);
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const hosts = new Map<string, HostState>();
+
+  const acquire = async (state: HostState) => {
+    if (state.active >= maxConcurrent) {
+      // The releasing request hands its slot over directly, so `active` is unchanged
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    } else {
+      state.active++;
+    }
+
+    // Reserve the next start slot before sleeping so queued requests stay spaced out
+    const startAt = Math.max(now(), state.nextStartAt);
+    state.nextStartAt = startAt + minDelayMs;
+    const wait = startAt - now();
+    if (wait > 0) await sleep(wait);
+  };
+
+  const release = (host: string, state: HostState) => {
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    state.active--;
+    if (state.active === 0 && state.nextStartAt <= now()) hosts.delete(host);
+  };
+
+  return {
+    async run(url, task) {
+      const host = hostOf(url);
+      let state = hosts.get(host);
+      if (!state) {
+        state = { active: 0, waiting: [], nextStartAt: 0 };
+        hosts.set(host, state);
+      }
+
+      await acquire(state);
+      try {
+        return await task();
+      } finally {
+        release(host, state);
+      }
+    },
+  };
+}
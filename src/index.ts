@@ -1,6 +1,8 @@
 import { openDatabase, initializeSchema, migrateSchema, backfillLawsFromEvents } from "./db";
 import { createApp } from "./app";
-import { seedSampleData } from "./seed";
+import { seedSampleData, seedSourceRegistry } from "./seed";
+import { llmConfigError, llmConfigFromEnv } from "./llm-provider";
+import { startCrawlScheduler } from "./scheduler";
 
 const PORT = Number(process.env.PORT ?? 3001);
 const DATABASE_PATH = process.env.DATABASE_PATH;
@@ -10,9 +12,26 @@ const db = openDatabase(databasePath);
 initializeSchema(db);
 migrateSchema(db);
 seedSampleData(db);
+seedSourceRegistry(db);
 backfillLawsFromEvents(db);
 
 const app = createApp(db);
+
+if (process.env.CRAWL_SCHEDULER_ENABLED === "true") {
+  const llm = llmConfigFromEnv();
+  const configError = llmConfigError(llm);
+  if (configError) {
+    console.warn(`[scheduler] CRAWL_SCHEDULER_ENABLED is set but the LLM is not configured (${configError}); scheduler not started`);
+  } else {
+    startCrawlScheduler(db, llm.apiKey ?? "", {
+      tickIntervalMs: Number(process.env.CRAWL_SCHEDULER_TICK_MS || 60_000),
+      onProgress: (_stage, message) => {
+        console.log(`[scheduler] ${message}`);
+      },
+    });
+  }
+}
+
 app.listen(PORT, () => {
   console.log(`Global Under-16 Regulation API running on http://localhost:${PORT}`);
 });
@@ -0,0 +1,106 @@
+/**
+ * Language detection for crawled text, without a model: the writing system settles most
+ * non-Latin languages, and common function words tell the Latin-script languages apart.
+ * Codes are ISO 639-1; `und` (ISO 639-2 "undetermined") when the text is too short or mixed.
+ */
+
+export const UNDETERMINED_LANGUAGE = "und";
+
+/** English names for the detectable languages, for prompts and display */
+export const languageNames: Record<string, string> = {
+  en: "English",
+  fr: "French",
+  de: "German",
+  es: "Spanish",
+  pt: "Portuguese",
+  it: "Italian",
+  nl: "Dutch",
+  id: "Indonesian",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+  ru: "Russian",
+  ar: "Arabic",
+  hi: "Hindi",
+  th: "Thai",
+  el: "Greek",
+  he: "Hebrew",
+};
+
+/** Text examined per item; the start of a page is enough to tell its language */
+const SAMPLE_LENGTH = 5000;
+/** Letters needed before a verdict is given */
+const MIN_LETTERS = 20;
+/** Function-word hits needed to name a Latin-script language */
+const MIN_STOPWORD_HITS = 3;
+
+const scripts: Array<{ language: string; pattern: RegExp }> = [
+  { language: "ko", pattern: /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/g },
+  { language: "ja", pattern: /[\u3040-\u30ff]/g },
+  { language: "zh", pattern: /[\u3400-\u4dbf\u4e00-\u9fff]/g },
+  { language: "ru", pattern: /[\u0400-\u04ff]/g },
+  { language: "ar", pattern: /[\u0600-\u06ff]/g },
+  { language: "hi", pattern: /[\u0900-\u097f]/g },
+  { language: "th", pattern: /[\u0e00-\u0e7f]/g },
+  { language: "el", pattern: /[\u0370-\u03ff]/g },
+  { language: "he", pattern: /[\u0590-\u05ff]/g },
+  { language: "latin", pattern: /[a-z\u00c0-\u024f]/gi },
+];
+
+const stopWords: Record<string, Set<string>> = {
+  en: new Set(["the", "and", "of", "to", "is", "that", "for", "with", "are", "this", "be", "on", "by", "from", "which", "have", "will"]),
+  fr: new Set(["le", "la", "les", "des", "est", "et", "une", "du", "dans", "pour", "qui", "sur", "par", "pas", "sont", "au", "aux"]),
+  de: new Set(["der", "die", "das", "und", "ist", "nicht", "mit", "ein", "eine", "den", "dem", "für", "auf", "von", "zu", "sich", "wird"]),
+  es: new Set(["el", "los", "las", "del", "y", "que", "es", "en", "por", "para", "con", "una", "se", "al", "lo", "como", "su"]),
+  pt: new Set(["o", "os", "as", "do", "da", "dos", "das", "que", "é", "em", "para", "com", "um", "uma", "não", "ao", "pela", "pelo"]),
+  it: new Set(["il", "gli", "della", "delle", "che", "è", "di", "e", "per", "con", "un", "una", "non", "sono", "nel", "alla", "dei"]),
+  nl: new Set(["de", "het", "een", "en", "van", "is", "dat", "niet", "op", "voor", "met", "zijn", "te", "die", "wordt", "bij"]),
+  id: new Set(["yang", "dan", "di", "ini", "itu", "untuk", "dengan", "dari", "tidak", "akan", "dalam", "pada", "adalah", "atau", "oleh"]),
+};
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function detectLatinLanguage(sample: string): string {
+  const words = sample.toLowerCase().match(/[a-z\u00c0-\u024f]+/g) ?? [];
+  let best = UNDETERMINED_LANGUAGE;
+  let bestHits = 0;
+  for (const [language, vocabulary] of Object.entries(stopWords)) {
+    const hits = words.filter((word) => vocabulary.has(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+  return bestHits >= MIN_STOPWORD_HITS ? best : UNDETERMINED_LANGUAGE;
+}
+
+/** ISO 639-1 code of the text's main language, or `und` */
+export function detectLanguage(text: string): string {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const counts = new Map(scripts.map(({ language, pattern }) => [language, countMatches(sample, pattern)]));
+  const letters = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  if (letters < MIN_LETTERS) return UNDETERMINED_LANGUAGE;
+
+  // Japanese mixes kana with Chinese characters, so the two compete as one script
+  const kana = counts.get("ja") ?? 0;
+  const han = counts.get("zh") ?? 0;
+  counts.delete("ja");
+  counts.set("zh", kana + han);
+  const [dominant] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (dominant === "latin") return detectLatinLanguage(sample);
+  // Any real share of kana settles it
+  if (dominant === "zh") return kana >= 0.1 * (kana + han) ? "ja" : "zh";
+  return dominant;
+}
+
+/** Whether text in this language needs an English translation for reviewers */
+export function needsTranslation(language: string | null | undefined): boolean {
+  return Boolean(language) && language !== "en" && language !== UNDETERMINED_LANGUAGE;
+}
+
+/** English name of a language code, falling back to the code itself */
+export function languageName(language: string): string {
+  return languageNames[language] ?? language;
+}
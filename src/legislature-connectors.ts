@@ -0,0 +1,499 @@
+/**
+ * Structured legislature API connectors: Congress.gov (US federal bills), Open States (US
+ * state bills) and the UK Parliament Bills API. Each connector maps the bill's recorded
+ * actions onto our lifecycle stages, so a bill's stage and stage history come from the
+ * legislature's own records rather than from text inference.
+ */
+
+import { type Stage } from "./db";
+
+export const legislatureConnectors = ["congress_gov", "openstates", "uk_parliament"] as const;
+
+export type LegislatureConnector = (typeof legislatureConnectors)[number];
+
+export type BillAction = {
+  /** Action date, YYYY-MM-DD */
+  date: string | null;
+  text: string;
+  /** Stage the action moves the bill to; null for actions that do not change the stage */
+  stage: Stage | null;
+};
+
+export type BillStageChange = {
+  stage: Stage;
+  date: string | null;
+  /** The recorded action that moved the bill into this stage */
+  action: string;
+};
+
+export type LegislativeBill = {
+  connector: LegislatureConnector;
+  /** The API's own identifier, unique per connector */
+  externalId: string;
+  /** Bill number as cited ("S. 1748", "HB 18"); the short title for UK bills */
+  identifier: string;
+  title: string;
+  jurisdictionCountry: string;
+  jurisdictionState: string | null;
+  session: string | null;
+  /** Public page for the bill */
+  url: string;
+  stage: Stage;
+  /** Latest status as worded by the legislature */
+  statusText: string | null;
+  introducedDate: string | null;
+  latestActionDate: string | null;
+  stageHistory: BillStageChange[];
+  actions: BillAction[];
+  /** API URLs the bill was read from, without the API key; set by `fetchLegislativeBills` */
+  responseUrls?: string[];
+};
+
+/** Fetch a URL and return its parsed JSON body */
+export type JsonFetcher = (url: string) => Promise<unknown>;
+
+export type FetchBillsOptions = {
+  apiKey?: string;
+  /** Maximum bills taken from a list/search response (default 20) */
+  limit?: number;
+};
+
+const DEFAULT_BILL_LIMIT = 20;
+const CONGRESS_ACTION_LIMIT = 250;
+
+const CONNECTOR_HOSTS: Record<string, LegislatureConnector> = {
+  "api.congress.gov": "congress_gov",
+  "v3.openstates.org": "openstates",
+  "bills-api.parliament.uk": "uk_parliament",
+};
+
+const API_KEY_VARIABLES: Record<LegislatureConnector, string | null> = {
+  congress_gov: "CONGRESS_GOV_API_KEY",
+  openstates: "OPENSTATES_API_KEY",
+  uk_parliament: null,
+};
+
+/** The connector serving a legislature API URL, or null when the host is not supported */
+export function legislatureConnectorForUrl(url: string): LegislatureConnector | null {
+  try {
+    return CONNECTOR_HOSTS[new URL(url).host.toLowerCase()] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Environment variable holding the API key a connector needs, or null when it needs none */
+export function legislatureApiKeyVariable(connector: LegislatureConnector): string | null {
+  return API_KEY_VARIABLES[connector];
+}
+
+/** Lifecycle order of the non-terminal stages; a bill never moves backwards along it */
+const STAGE_PROGRESSION: Stage[] = ["proposed", "introduced", "committee_review", "passed", "enacted", "effective"];
+const TERMINAL_STAGES = new Set<Stage>(["withdrawn", "rejected"]);
+
+/**
+ * Reduce a bill's chronological actions to its stage transitions. Progress only counts
+ * forward (a second chamber's committee referral does not undo a passage), while
+ * withdrawal or rejection always applies — and a later action can revive the bill,
+ * e.g. a veto followed by an override.
+ */
+export function buildStageHistory(actions: BillAction[]): BillStageChange[] {
+  const history: BillStageChange[] = [];
+  let current: Stage | null = null;
+
+  for (const action of actions) {
+    if (!action.stage) continue;
+    const next: Stage =
+      current === null || TERMINAL_STAGES.has(action.stage) || TERMINAL_STAGES.has(current)
+        ? action.stage
+        : STAGE_PROGRESSION.indexOf(action.stage) > STAGE_PROGRESSION.indexOf(current)
+          ? action.stage
+          : current;
+    if (next !== current) {
+      history.push({ stage: next, date: action.date, action: action.text });
+      current = next;
+    }
+  }
+
+  return history;
+}
+
+/** Stage implied by an action's wording; shared by connectors whose actions are free text */
+export function stageFromActionText(text: string): Stage | null {
+  if (/\b(?:became (?:public |private )?law|signed by (?:the )?(?:president|governor)|chaptered|royal assent)\b/i.test(text)) {
+    return "enacted";
+  }
+  if (/\bveto(?:ed)?\b/i.test(text)) return /\boverrid/i.test(text) ? "passed" : "rejected";
+  if (/\b(?:failed (?:of )?passage|defeated|indefinitely postponed|died in committee)\b/i.test(text)) return "rejected";
+  if (/\bwithdrawn\b/i.test(text) && !/\bco-?sponsor/i.test(text)) return "withdrawn";
+  // Amendments are "agreed to" and "adopted" without the bill itself passing
+  if (!/\b(?:amendments?|amdt)\b[^.;]*\b(?:agreed to|adopted)\b/i.test(text)
+    && /\b(?:passed|agreed to|adopted|third reading|presented to (?:the )?(?:president|governor)|sent to (?:the )?governor)\b/i.test(text)) {
+    return "passed";
+  }
+  if (/\b(?:referred to|committee|subcommittee|hearings? held|markup|reported (?:by|out|favorably|with)|second reading)\b/i.test(text)) {
+    return "committee_review";
+  }
+  if (/\b(?:introduced|filed|prefiled|first reading|read first time)\b/i.test(text)) return "introduced";
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** YYYY-MM-DD from an ISO date or timestamp */
+function toDate(value: unknown): string | null {
+  const text = asString(value);
+  return text && /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+}
+
+/** Sort actions oldest first, undated ones last; same-day actions keep their recorded order */
+function sortActions(actions: BillAction[]): BillAction[] {
+  return actions
+    .map((action, index) => ({ action, index }))
+    .sort((a, b) => (a.action.date ?? "9999").localeCompare(b.action.date ?? "9999") || a.index - b.index)
+    .map(({ action }) => action);
+}
+
+function withQuery(url: string, params: Record<string, string | undefined>): string {
+  const parsed = new URL(url);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) parsed.searchParams.set(key, value);
+  }
+  return parsed.toString();
+}
+
+function billFromActions(
+  fields: Omit<LegislativeBill, "stage" | "stageHistory" | "actions">,
+  unsortedActions: BillAction[],
+): LegislativeBill {
+  const actions = sortActions(unsortedActions);
+  const stageHistory = buildStageHistory(actions);
+  return {
+    ...fields,
+    stage: stageHistory[stageHistory.length - 1]?.stage ?? "proposed",
+    stageHistory,
+    actions,
+  };
+}
+
+// --- Congress.gov ---
+
+const CONGRESS_BILL_TYPES: Record<string, { citation: string; path: string }> = {
+  s: { citation: "S.", path: "senate-bill" },
+  hr: { citation: "H.R.", path: "house-bill" },
+  sres: { citation: "S.Res.", path: "senate-resolution" },
+  hres: { citation: "H.Res.", path: "house-resolution" },
+  sjres: { citation: "S.J.Res.", path: "senate-joint-resolution" },
+  hjres: { citation: "H.J.Res.", path: "house-joint-resolution" },
+  sconres: { citation: "S.Con.Res.", path: "senate-concurrent-resolution" },
+  hconres: { citation: "H.Con.Res.", path: "house-concurrent-resolution" },
+};
+
+function ordinal(value: number): string {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][value % 10] ?? "th";
+  return `${value}${suffix}`;
+}
+
+function congressActionStage(action: Record<string, unknown>): Stage | null {
+  const text = asString(action.text) ?? "";
+  const type = asString(action.type);
+  if (type === "BecameLaw" || type === "President" && /\bsigned\b/i.test(text)) return "enacted";
+  if (type === "Veto") return stageFromActionText(text) ?? "rejected";
+  const stage = stageFromActionText(text);
+  if (stage) return stage;
+  if (type === "Committee") return "committee_review";
+  if (type === "IntroReferral") return "introduced";
+  return null;
+}
+
+/** Map a Congress.gov bill (`/v3/bill/{congress}/{type}/{number}`) and its `/actions` response */
+export function parseCongressBill(billPayload: unknown, actionsPayload: unknown): LegislativeBill {
+  const bill = asRecord(asRecord(billPayload).bill);
+  const congress = Number(bill.congress);
+  const type = (asString(bill.type) ?? "").toLowerCase();
+  const number = asString(bill.number);
+  const billType = CONGRESS_BILL_TYPES[type];
+  if (!Number.isInteger(congress) || !number || !billType) {
+    throw new Error("Unexpected Congress.gov bill payload");
+  }
+
+  // Congress.gov lists actions newest first; reverse so same-day actions keep their order once sorted by date
+  const actions = asArray(asRecord(actionsPayload).actions).map((entry) => {
+    const action = asRecord(entry);
+    return { date: toDate(action.actionDate), text: asString(action.text) ?? "", stage: congressActionStage(action) };
+  }).reverse();
+  const latestAction = asRecord(bill.latestAction);
+
+  return billFromActions(
+    {
+      connector: "congress_gov",
+      externalId: `${congress}-${type}-${number}`,
+      identifier: `${billType.citation} ${number}`,
+      title: asString(bill.title) ?? `${billType.citation} ${number}`,
+      jurisdictionCountry: "United States",
+      jurisdictionState: null,
+      session: `${ordinal(congress)} Congress`,
+      url: `https://www.congress.gov/bill/${ordinal(congress)}-congress/${billType.path}/${number}`,
+      statusText: asString(latestAction.text),
+      introducedDate: toDate(bill.introducedDate),
+      latestActionDate: toDate(latestAction.actionDate),
+    },
+    actions,
+  );
+}
+
+async function fetchCongressBills(url: string, fetchJson: JsonFetcher, options: FetchBillsOptions): Promise<LegislativeBill[]> {
+  // URLs are built without the key, which is only added for the request, so `responseUrls` never carry it
+  const withKey = (keyless: string) => withQuery(keyless, { api_key: options.apiKey });
+  const listUrl = withQuery(url, { format: "json" });
+  const payload = asRecord(await fetchJson(withKey(listUrl)));
+  // A list endpoint (`/v3/bill/{congress}`) links each bill's detail URL; a bill URL is fetched as is
+  const billUrls = Array.isArray(payload.bills)
+    ? payload.bills.slice(0, options.limit ?? DEFAULT_BILL_LIMIT).map((entry) => asString(asRecord(entry).url)).filter((value): value is string => value !== null)
+    : [url];
+
+  const bills: LegislativeBill[] = [];
+  for (const billUrl of billUrls) {
+    const detailUrl = billUrl === url ? listUrl : withQuery(billUrl, { format: "json" });
+    const billPayload = billUrl === url ? payload : await fetchJson(withKey(detailUrl));
+    const actionsUrl = new URL(billUrl);
+    actionsUrl.pathname = `${actionsUrl.pathname.replace(/\/$/, "")}/actions`;
+    actionsUrl.search = "";
+    const actionsQueryUrl = withQuery(actionsUrl.toString(), { format: "json", limit: String(CONGRESS_ACTION_LIMIT) });
+    const actionsPayload = await fetchJson(withKey(actionsQueryUrl));
+    bills.push({ ...parseCongressBill(billPayload, actionsPayload), responseUrls: [detailUrl, actionsQueryUrl] });
+  }
+  return bills;
+}
+
+// --- Open States ---
+
+const OPENSTATES_CLASSIFICATION_STAGES: Record<string, Stage> = {
+  filing: "introduced",
+  introduction: "introduced",
+  "reading-1": "introduced",
+  "referral-committee": "committee_review",
+  "reading-2": "committee_review",
+  "committee-passage": "committee_review",
+  "committee-passage-favorable": "committee_review",
+  "committee-passage-unfavorable": "committee_review",
+  passage: "passed",
+  "executive-receipt": "passed",
+  "veto-override-passage": "passed",
+  "executive-signature": "enacted",
+  "became-law": "enacted",
+  withdrawal: "withdrawn",
+  failure: "rejected",
+  "committee-failure": "rejected",
+  "executive-veto": "rejected",
+  "veto-override-failure": "rejected",
+};
+
+/** Lifecycle order used when one action carries several classifications */
+const STAGE_ORDER: Stage[] = [...STAGE_PROGRESSION, "withdrawn", "rejected"];
+
+/**
+ * Stages an Open States action moves the bill through. One action can carry several
+ * classifications ("Read 1st time & referred"), which apply in lifecycle order.
+ */
+function openStatesActionStages(action: Record<string, unknown>): Stage[] {
+  const classifications = asArray(action.classification).map(String);
+  if (classifications.length === 0) {
+    const stage = stageFromActionText(asString(action.description) ?? "");
+    return stage ? [stage] : [];
+  }
+  const stages = new Set(classifications.map((classification) => OPENSTATES_CLASSIFICATION_STAGES[classification]));
+  return STAGE_ORDER.filter((stage) => stages.has(stage));
+}
+
+/** Map one Open States v3 bill (requested with `include=actions`) */
+export function parseOpenStatesBill(payload: unknown): LegislativeBill {
+  const bill = asRecord(payload);
+  const id = asString(bill.id);
+  const identifier = asString(bill.identifier);
+  if (!id || !identifier) throw new Error("Unexpected Open States bill payload");
+
+  const jurisdiction = asRecord(bill.jurisdiction);
+  const actions = asArray(bill.actions)
+    .map((entry) => asRecord(entry))
+    .sort((a, b) => Number(a.order ?? 0) - Number(b.order ?? 0))
+    .flatMap((action): BillAction[] => {
+      const date = toDate(action.date);
+      const text = asString(action.description) ?? "";
+      const stages = openStatesActionStages(action);
+      return stages.length > 0 ? stages.map((stage) => ({ date, text, stage })) : [{ date, text, stage: null }];
+    });
+
+  return billFromActions(
+    {
+      connector: "openstates",
+      externalId: id,
+      identifier,
+      title: asString(bill.title) ?? identifier,
+      jurisdictionCountry: "United States",
+      jurisdictionState: jurisdiction.classification === "state" ? asString(jurisdiction.name) : null,
+      session: asString(bill.session),
+      url: asString(bill.openstates_url) ?? `https://openstates.org/${encodeURIComponent(id)}`,
+      statusText: asString(bill.latest_action_description),
+      introducedDate: toDate(bill.first_action_date),
+      latestActionDate: toDate(bill.latest_action_date),
+    },
+    actions,
+  );
+}
+
+/** Map an Open States `/bills` search response */
+export function parseOpenStatesBills(payload: unknown): LegislativeBill[] {
+  return asArray(asRecord(payload).results).map(parseOpenStatesBill);
+}
+
+async function fetchOpenStatesBills(url: string, fetchJson: JsonFetcher, options: FetchBillsOptions): Promise<LegislativeBill[]> {
+  const parsed = new URL(url);
+  if (!parsed.searchParams.getAll("include").includes("actions")) parsed.searchParams.append("include", "actions");
+  const searchUrl = parsed.toString();
+  const payload = await fetchJson(withQuery(searchUrl, { apikey: options.apiKey }));
+  return parseOpenStatesBills(payload)
+    .slice(0, options.limit ?? DEFAULT_BILL_LIMIT)
+    .map((bill) => ({ ...bill, responseUrls: [searchUrl] }));
+}
+
+// --- UK Parliament ---
+
+function ukStageStage(description: string, house: string | null, originatingHouse: string | null): Stage | null {
+  if (/royal assent/i.test(description)) return "enacted";
+  // A first reading in the second House follows passage in the first; it does not restart the bill
+  if (/\b1st reading\b|first reading/i.test(description)) return !originatingHouse || house === originatingHouse ? "introduced" : null;
+  if (/\b3rd reading\b|third reading/i.test(description)) return "passed";
+  if (/\b2nd reading\b|second reading|committee|report stage/i.test(description)) return "committee_review";
+  return null;
+}
+
+/** Map a UK Parliament bill (from `/api/v1/Bills`) and its `/Bills/{id}/Stages` response */
+export function parseUkParliamentBill(payload: unknown, stagesPayload: unknown): LegislativeBill {
+  const bill = asRecord(payload);
+  const billId = asString(bill.billId);
+  const shortTitle = asString(bill.shortTitle);
+  if (!billId || !shortTitle) throw new Error("Unexpected UK Parliament bill payload");
+
+  const originatingHouse = asString(bill.originatingHouse);
+  const lastUpdate = toDate(bill.lastUpdate);
+  const stages = asArray(asRecord(stagesPayload).items)
+    .map((entry) => asRecord(entry))
+    .sort((a, b) => Number(a.sortOrder ?? 0) - Number(b.sortOrder ?? 0));
+
+  const actions: BillAction[] = stages.map((stage) => {
+    const description = asString(stage.description) ?? "";
+    // Royal Assent is recorded against the "Unassigned" house
+    const house = stage.house === "Unassigned" ? null : asString(stage.house);
+    const sittingDates = asArray(stage.stageSittings)
+      .map((sitting) => toDate(asRecord(sitting).date))
+      .filter((date): date is string => date !== null)
+      .sort();
+    // Stages without a sitting are only scheduled
+    return {
+      date: sittingDates[0] ?? null,
+      text: house ? `${description} (${house})` : description,
+      stage: sittingDates.length > 0 ? ukStageStage(description, house, originatingHouse) : null,
+    };
+  });
+
+  // Outcomes recorded on the bill rather than as stages
+  const withdrawnDate = toDate(bill.billWithdrawn);
+  if (withdrawnDate) actions.push({ date: withdrawnDate, text: "Bill withdrawn", stage: "withdrawn" });
+  if (bill.isDefeated === true) actions.push({ date: lastUpdate, text: "Bill defeated", stage: "rejected" });
+  if (bill.isAct === true && !actions.some((action) => action.stage === "enacted")) {
+    actions.push({ date: lastUpdate, text: "Royal Assent", stage: "enacted" });
+  }
+
+  const currentStage = asRecord(bill.currentStage);
+  const currentDescription = asString(currentStage.description);
+  const currentHouse = currentStage.house === "Unassigned" ? null : asString(currentStage.house);
+  const datedActions = actions.filter((action) => action.date !== null);
+
+  return billFromActions(
+    {
+      connector: "uk_parliament",
+      externalId: billId,
+      identifier: shortTitle,
+      title: shortTitle,
+      jurisdictionCountry: "United Kingdom",
+      jurisdictionState: null,
+      session: asString(bill.introducedSessionId),
+      url: `https://bills.parliament.uk/bills/${billId}`,
+      statusText: currentDescription ? (currentHouse ? `${currentDescription} (${currentHouse})` : currentDescription) : null,
+      introducedDate: datedActions[0]?.date ?? null,
+      latestActionDate: lastUpdate ?? datedActions[datedActions.length - 1]?.date ?? null,
+    },
+    actions,
+  );
+}
+
+async function fetchUkParliamentBills(url: string, fetchJson: JsonFetcher, options: FetchBillsOptions): Promise<LegislativeBill[]> {
+  const payload = asRecord(await fetchJson(url));
+  const origin = new URL(url).origin;
+  const bills: LegislativeBill[] = [];
+
+  for (const entry of asArray(payload.items).slice(0, options.limit ?? DEFAULT_BILL_LIMIT)) {
+    const billId = asString(asRecord(entry).billId);
+    if (!billId) continue;
+    const stagesUrl = `${origin}/api/v1/Bills/${billId}/Stages`;
+    const stages = await fetchJson(stagesUrl);
+    bills.push({ ...parseUkParliamentBill(entry, stages), responseUrls: [url, stagesUrl] });
+  }
+  return bills;
+}
+
+/** Fetch and map the bills behind a legislature API source URL */
+export async function fetchLegislativeBills(
+  url: string,
+  fetchJson: JsonFetcher,
+  options: FetchBillsOptions = {},
+): Promise<LegislativeBill[]> {
+  switch (legislatureConnectorForUrl(url)) {
+    case "congress_gov":
+      return fetchCongressBills(url, fetchJson, options);
+    case "openstates":
+      return fetchOpenStatesBills(url, fetchJson, options);
+    case "uk_parliament":
+      return fetchUkParliamentBills(url, fetchJson, options);
+    default:
+      throw new Error(`Unsupported legislature API URL: ${url}`);
+  }
+}
+
+const MAX_LISTED_ACTIONS = 15;
+
+/** Plain-text rendering of a bill for the analyzer */
+export function formatBillText(bill: LegislativeBill): string {
+  const jurisdiction = [bill.jurisdictionState, bill.jurisdictionCountry].filter(Boolean).join(", ");
+  // An action that moved the bill through several stages appears once per stage
+  const recentActions = bill.actions
+    .filter((action, index, all) => index === 0 || action.text !== all[index - 1].text || action.date !== all[index - 1].date)
+    .slice(-MAX_LISTED_ACTIONS);
+  return [
+    `Bill: ${bill.identifier} (${jurisdiction}${bill.session ? `, session ${bill.session}` : ""})`,
+    bill.title !== bill.identifier ? `Title: ${bill.title}` : "",
+    `Stage: ${bill.stage} (from legislature records)`,
+    bill.statusText ? `Latest status: ${bill.statusText}` : "",
+    bill.introducedDate ? `Introduced: ${bill.introducedDate}` : "",
+    "",
+    "Stage history:",
+    ...bill.stageHistory.map((change) => `- ${change.date ?? "undated"} ${change.stage}: ${change.action}`),
+    "",
+    "Recent actions:",
+    ...recentActions.map((action) => `- ${action.date ?? "undated"} ${action.text}`),
+  ]
+    .filter((line, index, lines) => line !== "" || (index > 0 && lines[index - 1] !== ""))
+    .join("\n");
+}
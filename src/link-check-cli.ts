@@ -0,0 +1,59 @@
+/**
+ * CLI entry point: `npm run check-links`
+ * Checks every registry source URL for redirects, soft-404s and broken links,
+ * moves permanently redirected sources and stores the report.
+ */
+
+import { openDatabase, initializeSchema, migrateSchema } from "./db";
+import { runLinkCheck } from "./link-checker";
+import { seedSourceRegistry } from "./seed";
+
+async function main() {
+  const databasePath = process.env.DATABASE_PATH ?? undefined;
+  const db = openDatabase(databasePath);
+  initializeSchema(db);
+  migrateSchema(db);
+  seedSourceRegistry(db);
+
+  console.log("Checking source URLs...\n");
+
+  const report = await runLinkCheck(db, {
+    updateSources: process.argv.includes("--dry-run") ? false : undefined,
+    onProgress: (completed, total, result) => {
+      if (result.status !== "ok") {
+        console.log(`[${String(completed).padStart(3)}/${total}] ${result.status.toUpperCase().padEnd(10)} ${result.url}`);
+      }
+    },
+  });
+
+  console.log("\n=== Link Check Report ===");
+  console.log(`  Run ID:          ${report.id}`);
+  console.log(`  Sources checked: ${report.sourcesChecked}`);
+  console.log(`  OK:              ${report.counts.ok}`);
+  console.log(`  Redirected:      ${report.counts.redirected}`);
+  console.log(`  Soft 404:        ${report.counts.soft_404}`);
+  console.log(`  Broken:          ${report.counts.broken}`);
+  console.log(`  Errors:          ${report.counts.error}`);
+  console.log(`  URLs updated:    ${report.sourcesUpdated}`);
+
+  const problems = report.items.filter((item) => item.status !== "ok");
+  if (problems.length > 0) {
+    console.log(`\n  Needs attention (${problems.length}):`);
+    for (const item of problems) {
+      const detail = item.urlUpdated
+        ? `moved to ${item.finalUrl}`
+        : item.suggestedUrl
+          ? `suggested ${item.suggestedUrl}`
+          : (item.error ?? item.title ?? "");
+      console.log(`    - [${item.status}] ${item.sourceName}: ${detail}`);
+    }
+  }
+
+  db.close();
+  console.log("\nDone.");
+}
+
+main().catch((err) => {
+  console.error("Link check failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,255 @@
+/**
+ * Link-rot detection for the source registry.
+ * Checks each source URL, follows redirects hop by hop, flags soft-404s (error pages served
+ * with 200) and suggests the canonical URL. Sources behind permanent redirects are moved to
+ * their new URL, and every run is stored as a report in `link_check_runs`/`link_check_results`.
+ */
+
+import DatabaseConstructor from "better-sqlite3";
+import { buildUserAgent, DEFAULT_USER_AGENT } from "./crawler";
+import {
+  completeLinkCheckRun,
+  failLinkCheckRun,
+  getLinkCheckReport,
+  listSources,
+  recordLinkCheckResult,
+  startLinkCheckRun,
+  updateSource,
+  type LinkCheckReport,
+} from "./db";
+import { createHostLimiter, type HostLimiter } from "./host-limiter";
+import { type RegistrySource } from "./sources";
+
+export type LinkCheckStatus = "ok" | "redirected" | "soft_404" | "broken" | "error";
+
+export type RedirectHop = { url: string; statusCode: number };
+
+export type LinkCheckResult = {
+  url: string;
+  status: LinkCheckStatus;
+  /** Status of the final response in the redirect chain */
+  statusCode: number | null;
+  finalUrl: string;
+  redirects: RedirectHop[];
+  /** True when every hop was a 301/308, i.e. the source has moved for good */
+  permanentRedirect: boolean;
+  canonicalUrl: string | null;
+  /** Where the source should point instead, when that differs from its current URL */
+  suggestedUrl: string | null;
+  title: string | null;
+  error: string | null;
+  latencyMs: number;
+};
+
+export type LinkCheckOptions = {
+  userAgent?: string;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  hostLimiter?: HostLimiter;
+};
+
+const LINK_CHECK_TIMEOUT_MS = 20_000;
+const MAX_REDIRECTS = 10;
+const PERMANENT_REDIRECT_CODES = new Set([301, 308]);
+
+/** Titles/headings that mark an error page, whatever the HTTP status says */
+const SOFT_404_PATTERNS = [
+  /^\s*(?:error\s*)?404\b/i,
+  /\b(?:error|http) 404\b/i,
+  /\bpage not found\b/i,
+  /^\s*not found\b/i,
+  /\bpage (?:cannot|can't|could not|couldn't) be found\b/i,
+  /\b(?:page|content|document) (?:is )?no longer (?:available|exists)\b/i,
+  /\bpage (?:you (?:requested|are looking for) )?(?:does not|doesn't) exist\b/i,
+  /\bseite nicht gefunden\b/i,
+  /\bpage introuvable\b/i,
+  /\bp[aá]gina no encontrada\b/i,
+];
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+function extractTagText(html: string, tag: "title" | "h1"): string | null {
+  const match = html.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+  if (!match) return null;
+  const text = decodeEntities(match[1].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+  return text ? text.slice(0, 200) : null;
+}
+
+function extractCanonicalUrl(html: string, pageUrl: string): string | null {
+  for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+    if (!/\brel\s*=\s*["']?[^"'>]*\bcanonical\b/i.test(tag)) continue;
+    const href = tag.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!href) continue;
+    try {
+      return new URL(decodeEntities(href), pageUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function isSoft404(title: string | null, heading: string | null): boolean {
+  return [title, heading].some((text) => text !== null && SOFT_404_PATTERNS.some((pattern) => pattern.test(text)));
+}
+
+function sameUrl(a: string, b: string): boolean {
+  try {
+    return new URL(a).toString() === new URL(b).toString();
+  } catch {
+    return a === b;
+  }
+}
+
+/** Check one URL, following up to `maxRedirects` redirects manually so each hop is recorded */
+export async function checkSourceUrl(url: string, options: LinkCheckOptions = {}): Promise<LinkCheckResult> {
+  const startedAt = Date.now();
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS;
+  const redirects: RedirectHop[] = [];
+  const result = (fields: Partial<LinkCheckResult> & Pick<LinkCheckResult, "status">): LinkCheckResult => ({
+    url,
+    statusCode: null,
+    finalUrl: url,
+    redirects,
+    permanentRedirect: redirects.length > 0 && redirects.every((hop) => PERMANENT_REDIRECT_CODES.has(hop.statusCode)),
+    canonicalUrl: null,
+    suggestedUrl: null,
+    title: null,
+    error: null,
+    latencyMs: Date.now() - startedAt,
+    ...fields,
+  });
+
+  let currentUrl = url;
+  try {
+    for (;;) {
+      const requestUrl = currentUrl;
+      const request = async () => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? LINK_CHECK_TIMEOUT_MS);
+        try {
+          const response = await fetch(requestUrl, {
+            signal: controller.signal,
+            redirect: "manual",
+            headers: {
+              "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
+              Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.7",
+            },
+          });
+          const contentType = response.headers?.get("content-type") ?? "";
+          const isHtml = !contentType || /html|xml/i.test(contentType);
+          // Only HTML bodies are needed (title, canonical link); skip downloading documents
+          const html = response.status < 300 && isHtml ? await response.text() : "";
+          return { status: response.status, location: response.headers?.get("location") ?? null, html };
+        } finally {
+          clearTimeout(timer);
+        }
+      };
+      const response = options.hostLimiter ? await options.hostLimiter.run(requestUrl, request) : await request();
+
+      if (response.status >= 300 && response.status < 400 && response.status !== 304) {
+        if (!response.location) {
+          return result({ status: "broken", statusCode: response.status, finalUrl: currentUrl, error: "Redirect without Location header" });
+        }
+        redirects.push({ url: currentUrl, statusCode: response.status });
+        currentUrl = new URL(response.location, currentUrl).toString();
+        if (redirects.length > maxRedirects || redirects.some((hop) => hop.url === currentUrl)) {
+          return result({ status: "error", finalUrl: currentUrl, error: `Redirect loop or more than ${maxRedirects} redirects` });
+        }
+        continue;
+      }
+
+      if (response.status >= 400) {
+        return result({ status: "broken", statusCode: response.status, finalUrl: currentUrl, error: `HTTP ${response.status}` });
+      }
+
+      const title = extractTagText(response.html, "title");
+      if (isSoft404(title, extractTagText(response.html, "h1"))) {
+        return result({ status: "soft_404", statusCode: response.status, finalUrl: currentUrl, title });
+      }
+
+      const canonicalUrl = extractCanonicalUrl(response.html, currentUrl);
+      const suggestion = canonicalUrl ?? currentUrl;
+      return result({
+        status: redirects.length > 0 ? "redirected" : "ok",
+        statusCode: response.status,
+        finalUrl: currentUrl,
+        canonicalUrl,
+        suggestedUrl: sameUrl(suggestion, url) ? null : suggestion,
+        title,
+      });
+    }
+  } catch (error) {
+    return result({ status: "error", finalUrl: currentUrl, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+export type LinkCheckRunOptions = LinkCheckOptions & {
+  /** Sources to check; defaults to every web page source in the registry (not X or legislature APIs), enabled or not */
+  sources?: Array<RegistrySource & { id?: number }>;
+  concurrency?: number;
+  /** Move sources behind permanent redirects to their final URL (default true) */
+  updateSources?: boolean;
+  hostMinDelayMs?: number;
+  onProgress?: (completed: number, total: number, result: LinkCheckResult) => void;
+};
+
+/**
+ * Check every registry URL and store the outcome as a link-check report.
+ * Only permanent redirects update the source: temporary ones (login walls, geo redirects)
+ * are reported with a suggested URL but left for a human to review.
+ */
+export async function runLinkCheck(
+  db: DatabaseConstructor.Database,
+  options: LinkCheckRunOptions = {},
+): Promise<LinkCheckReport> {
+  const sources = options.sources
+    ?? listSources(db).filter((source) => source.type !== "twitter_search" && source.type !== "legislature_api");
+  const concurrency = Math.max(1, options.concurrency ?? 5);
+  const hostLimiter = options.hostLimiter ?? createHostLimiter({ minDelayMs: options.hostMinDelayMs });
+  const userAgent = options.userAgent ?? process.env.CRAWLER_USER_AGENT ?? buildUserAgent(process.env.CRAWLER_CONTACT);
+  const runId = startLinkCheckRun(db);
+  let sourcesUpdated = 0;
+  let completed = 0;
+
+  try {
+    for (let i = 0; i < sources.length; i += concurrency) {
+      const batch = sources.slice(i, i + concurrency);
+      const results = await Promise.all(batch.map((source) => checkSourceUrl(source.url, { ...options, userAgent, hostLimiter })));
+
+      batch.forEach((source, index) => {
+        const result = results[index];
+        const sourceId =
+          source.id ?? (db.prepare("SELECT id FROM sources WHERE name = ?").get(source.name) as { id: number } | undefined)?.id ?? null;
+
+        let urlUpdated = false;
+        const movedTo = result.status === "redirected" && result.permanentRedirect ? result.finalUrl : null;
+        if (movedTo && sourceId !== null && options.updateSources !== false) {
+          const taken = db.prepare("SELECT 1 FROM sources WHERE url = ? AND id != ?").get(movedTo, sourceId);
+          if (!taken) {
+            updateSource(db, sourceId, { url: movedTo });
+            urlUpdated = true;
+            sourcesUpdated++;
+          }
+        }
+
+        recordLinkCheckResult(db, runId, { sourceId, sourceName: source.name, result, urlUpdated });
+        options.onProgress?.(++completed, sources.length, result);
+      });
+    }
+  } catch (error) {
+    failLinkCheckRun(db, runId, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  completeLinkCheckRun(db, runId, { sourcesChecked: sources.length, sourcesUpdated });
+  return getLinkCheckReport(db, runId)!;
+}
@@ -0,0 +1,153 @@
+/**
+ * LLM providers for the analyzer. A provider turns a prompt into the model's text reply;
+ * which API, endpoint, model, timeout and token limit it uses come from configuration:
+ *
+ * - LLM_PROVIDER: `anthropic` (any Anthropic-compatible messages API, the default),
+ *   `openai` (any OpenAI-compatible chat completions API) or `mock` (the local stand-in
+ *   server from `npm run mock-llm`, which needs no API key)
+ * - LLM_BASE_URL: API base URL (default MiniMax's Anthropic-compatible endpoint, OpenAI,
+ *   or http://127.0.0.1:8787 for `mock`)
+ * - LLM_MODEL, LLM_TIMEOUT_MS (default 60000), LLM_MAX_TOKENS (default 2048)
+ * - LLM_API_KEY, falling back to MINIMAX_API_KEY
+ */
+
+export const llmProviderKinds = ["anthropic", "openai", "mock"] as const;
+export type LlmProviderKind = (typeof llmProviderKinds)[number];
+
+export type LlmConfig = {
+  provider: LlmProviderKind;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+  timeoutMs: number;
+  maxTokens: number;
+};
+
+export type LlmProvider = {
+  /** Provider kind and endpoint, e.g. `anthropic:https://api.minimax.io/anthropic` */
+  name: string;
+  model: string;
+  /** Send a single user prompt and return the text of the reply */
+  complete: (prompt: string) => Promise<string>;
+};
+
+export const DEFAULT_MOCK_LLM_PORT = 8787;
+
+const defaults: Record<LlmProviderKind, { baseUrl: string; model: string }> = {
+  anthropic: { baseUrl: "https://api.minimax.io/anthropic", model: "MiniMax-M2.5" },
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" },
+  mock: { baseUrl: `http://127.0.0.1:${DEFAULT_MOCK_LLM_PORT}`, model: "mock" },
+};
+
+function positiveNumber(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** Provider configuration from the environment */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = (llmProviderKinds as readonly string[]).includes(env.LLM_PROVIDER ?? "")
+    ? (env.LLM_PROVIDER as LlmProviderKind)
+    : "anthropic";
+  return {
+    provider,
+    baseUrl: (env.LLM_BASE_URL || defaults[provider].baseUrl).replace(/\/+$/, ""),
+    apiKey: env.LLM_API_KEY || env.MINIMAX_API_KEY || null,
+    model: env.LLM_MODEL || defaults[provider].model,
+    timeoutMs: positiveNumber(env.LLM_TIMEOUT_MS, 60_000),
+    maxTokens: positiveNumber(env.LLM_MAX_TOKENS, 2048),
+  };
+}
+
+/** Why the configuration cannot be used, or null when it can */
+export function llmConfigError(config: LlmConfig, env: NodeJS.ProcessEnv = process.env): string | null {
+  if (env.LLM_PROVIDER && !(llmProviderKinds as readonly string[]).includes(env.LLM_PROVIDER)) {
+    return `LLM_PROVIDER must be one of: ${llmProviderKinds.join(", ")}`;
+  }
+  if (!config.apiKey && config.provider !== "mock") {
+    return "LLM_API_KEY (or MINIMAX_API_KEY) not configured. Set it as an environment variable.";
+  }
+  return null;
+}
+
+async function postJson(
+  config: LlmConfig,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => "");
+      throw new Error(`${config.provider} API error ${response.status}: ${errorBody.slice(0, 200)}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Any Anthropic-compatible messages API (`POST {baseUrl}/v1/messages`) */
+export function createAnthropicProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: `${config.provider}:${config.baseUrl}`,
+    model: config.model,
+    complete: async (prompt) => {
+      const apiKey = config.apiKey ?? "";
+      const data = (await postJson(
+        config,
+        `${config.baseUrl}/v1/messages`,
+        // Some compatible APIs (MiniMax) authenticate with a bearer token instead of x-api-key
+        { Authorization: `Bearer ${apiKey}`, "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+        { model: config.model, max_tokens: config.maxTokens, messages: [{ role: "user", content: prompt }] },
+      )) as { content?: Array<{ type: string; text: string }> };
+      return data.content?.find((block) => block.type === "text")?.text ?? "";
+    },
+  };
+}
+
+/** Any OpenAI-compatible chat completions API (`POST {baseUrl}/chat/completions`) */
+export function createOpenAiProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: `${config.provider}:${config.baseUrl}`,
+    model: config.model,
+    complete: async (prompt) => {
+      const data = (await postJson(
+        config,
+        `${config.baseUrl}/chat/completions`,
+        config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        { model: config.model, max_tokens: config.maxTokens, messages: [{ role: "user", content: prompt }] },
+      )) as { choices?: Array<{ message?: { content?: string | null } }> };
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAiProvider(config);
+    case "mock":
+    case "anthropic":
+    default:
+      // The mock server speaks the Anthropic messages API
+      return createAnthropicProvider(config);
+  }
+}
+
+/** A provider as given, or the configured provider when given an API key */
+export function resolveLlmProvider(llm: LlmProvider | string): LlmProvider {
+  if (typeof llm !== "string") return llm;
+  const config = llmConfigFromEnv();
+  return createLlmProvider({ ...config, apiKey: llm || config.apiKey });
+}
@@ -0,0 +1,164 @@
+/**
+ * Local stand-in for the LLM APIs: `npm run mock-llm` (or `startMockLlmServer` in tests).
+ * Answers both the Anthropic messages API (`POST /v1/messages`) and the OpenAI chat
+ * completions API (`POST /chat/completions`, `/v1/chat/completions`), so the pipeline can
+ * run end to end without a model. Run the pipeline with LLM_PROVIDER=mock, or point
+ * LLM_BASE_URL at the server with either provider.
+ */
+
+import http from "node:http";
+import { type AddressInfo } from "node:net";
+import { DEFAULT_MOCK_LLM_PORT } from "./llm-provider";
+import { obligationsFromText } from "./obligations";
+
+/** Turns the prompt into the reply text */
+export type MockLlmResponder = (prompt: string) => string;
+
+export type MockLlmServer = {
+  /** Base URL to use as LLM_BASE_URL */
+  url: string;
+  /** Prompts received, oldest first */
+  prompts: string[];
+  close: () => Promise<void>;
+};
+
+/**
+ * Default reply: a keyword verdict in the analyzer's response format. Items whose crawled
+ * text mentions both minors and regulation are relevant with middling scores. Translation
+ * requests get the text back, marked as a mock translation; sections of long documents yield
+ * their "must" sentences as provisions and "under N" phrases as age thresholds.
+ */
+export const keywordResponder: MockLlmResponder = (prompt) => {
+  if (prompt.startsWith("Translate the following")) {
+    return `[mock translation] ${(prompt.split("--- TEXT ---").pop() ?? "").trim()}`;
+  }
+  if (prompt.startsWith("You are reading one section")) {
+    const section = prompt.split(/--- SECTION [^\n]* ---\n/).pop() ?? "";
+    const sentences = section.match(/[^.\n]*\bmust\b[^.\n]*\./gi) ?? [];
+    const ages = section.match(/\bunder\s*1[368]\b/gi) ?? [];
+    return JSON.stringify({
+      provisions: sentences.slice(0, 3).map((sentence) => ({ text: sentence.trim(), quote: sentence.trim() })),
+      dates: [],
+      ageThresholds: [...new Set(ages)].map((age) => ({ age, text: `Applies to users ${age}`, quote: age })),
+    });
+  }
+  const crawled = prompt.split("--- CRAWLED TEXT ---").pop() ?? prompt;
+  const lower = crawled.toLowerCase();
+  const relevant =
+    /(child|children|teen|minor|under\s*1[368]|youth|coppa)/.test(lower) &&
+    /(regulation|law|bill|legislation|act\b|guidance|code|compliance|age verification|parental consent)/.test(lower);
+  if (!relevant) return JSON.stringify({ relevant: false });
+  const ageQuote = crawled.match(/[^.\n]*\bunder\s*1[368]\b[^.\n]*/i)?.[0]?.trim();
+
+  return JSON.stringify({
+    relevant: true,
+    title: crawled.match(/^Title: (.*)$/m)?.[1]?.trim() || "Untitled",
+    jurisdiction: "Unknown",
+    jurisdictionState: null,
+    stage: "proposed",
+    ageBracket: "both",
+    affectedProducts: [],
+    summary: crawled.replace(/\s+/g, " ").trim().slice(0, 300),
+    businessImpact: "",
+    requiredSolutions: [],
+    competitorResponses: [],
+    impactScore: 3,
+    likelihoodScore: 3,
+    confidenceScore: 2,
+    chiliScore: 3,
+    effectiveDate: null,
+    publishedDate: null,
+    citations: ageQuote ? [{ claim: "age_threshold", quote: ageQuote }] : [],
+    ageThresholds: [...new Set(lower.match(/\bunder\s*1[3-8]\b/g) ?? [])].map((phrase) => ({
+      minAge: null,
+      maxAge: Number(phrase.replace(/\D/g, "")) - 1,
+      rule: "other",
+      text: `Applies to users ${phrase}`,
+    })),
+    obligations: obligationsFromText(crawled.match(/[^.\n]*\b(must|shall)\b[^.\n]*/gi) ?? []).map((obligation) => ({
+      ...obligation,
+      text: obligation.text.trim(),
+    })),
+  });
+};
+
+function promptFrom(body: unknown): string {
+  const messages = (body as { messages?: Array<{ content?: unknown }> } | null)?.messages ?? [];
+  return messages
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : Array.isArray(message.content)
+          ? message.content.map((block) => String((block as { text?: unknown }).text ?? "")).join("")
+          : "",
+    )
+    .join("\n");
+}
+
+export function startMockLlmServer(
+  options: { port?: number; respond?: MockLlmResponder } = {},
+): Promise<MockLlmServer> {
+  const respond = options.respond ?? keywordResponder;
+  const prompts: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const send = (status: number, payload: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(payload));
+      };
+
+      let body: unknown;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        send(400, { error: "invalid JSON body" });
+        return;
+      }
+
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+      if (req.method !== "POST" || !/^\/(v1\/messages|(v1\/)?chat\/completions)$/.test(path)) {
+        send(404, { error: "not found" });
+        return;
+      }
+
+      const prompt = promptFrom(body);
+      prompts.push(prompt);
+      const text = respond(prompt);
+      const model = String((body as { model?: unknown }).model ?? "mock");
+      if (path.endsWith("/messages")) {
+        send(200, { type: "message", role: "assistant", model, content: [{ type: "text", text }], stop_reason: "end_turn" });
+      } else {
+        send(200, {
+          object: "chat.completion",
+          model,
+          choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+        });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        prompts,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_LLM_PORT ?? DEFAULT_MOCK_LLM_PORT);
+  startMockLlmServer({ port })
+    .then((server) => console.log(`Mock LLM server listening on ${server.url}`))
+    .catch((err) => {
+      console.error("Mock LLM server failed:", err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,104 @@
+/**
+ * Controlled taxonomy of compliance obligations. The analyzer maps what a regulation requires
+ * onto these types, each with the provision that imposes it, so the same duty is named the
+ * same way across laws, runs and jurisdictions; `requiredSolutions` stays free text.
+ */
+
+export const obligationTypes = [
+  "age_assurance",
+  "parental_consent",
+  "default_privacy_settings",
+  "algorithmic_feed_restrictions",
+  "ad_profiling_ban",
+  "time_limits",
+  "risk_assessment",
+  "transparency_reporting",
+  "minimum_age",
+  "harmful_content_duties",
+] as const;
+
+export type ObligationType = (typeof obligationTypes)[number];
+
+export const obligationDefinitions: Record<ObligationType, { label: string; description: string }> = {
+  age_assurance: {
+    label: "Age assurance",
+    description: "Verify or estimate users' ages",
+  },
+  parental_consent: {
+    label: "Parental consent",
+    description: "Obtain a parent's consent before minors use a service or have their data processed",
+  },
+  default_privacy_settings: {
+    label: "Default privacy settings",
+    description: "Minors' accounts default to private, high-privacy or safe settings",
+  },
+  algorithmic_feed_restrictions: {
+    label: "Algorithmic feed restrictions",
+    description: "Limit personalised or recommender-driven feeds for minors, or offer a non-profiled feed",
+  },
+  ad_profiling_ban: {
+    label: "Ad profiling ban",
+    description: "No targeted advertising to minors based on profiling of their data",
+  },
+  time_limits: {
+    label: "Time limits",
+    description: "Curfews, usage caps, screen-time tools or restrictions on addictive design",
+  },
+  risk_assessment: {
+    label: "Risk assessment",
+    description: "Assess and mitigate risks the service poses to children",
+  },
+  transparency_reporting: {
+    label: "Transparency reporting",
+    description: "Publish reports or give regulators information about child safety measures",
+  },
+  minimum_age: {
+    label: "Minimum age",
+    description: "Bar users below an age from holding accounts",
+  },
+  harmful_content_duties: {
+    label: "Harmful content duties",
+    description: "Prevent, remove or filter content harmful to children",
+  },
+};
+
+/** An obligation an event's regulation imposes */
+export type Obligation = {
+  type: ObligationType;
+  /** Section, article or clause imposing it, e.g. "s. 12" or "Article 28(2)" */
+  provision: string | null;
+  /** What the obligation requires, in the analysis' words */
+  text: string;
+};
+
+// Checked in order: the first match names the obligation
+const obligationKeywords: Array<[ObligationType, RegExp]> = [
+  ["parental_consent", /parent(al)?\s+(consent|approval|permission)|verifiable consent/i],
+  ["ad_profiling_ban", /(target(ed|ing)?|personali[sz]ed|behaviou?ral)\s+(ad|advertis)|ad(vertising)?\s+profiling|profiling.*advertis/i],
+  ["algorithmic_feed_restrictions", /algorithm|recommend(er|ation)|feed|personali[sz]ed content/i],
+  ["age_assurance", /age[-\s]*(assurance|verification|verify|estimation|check)|verify.*\bage\b/i],
+  ["minimum_age", /minimum age|account ban|ban .*accounts|under[-\s]*1[0-8]s?\s+(ban|may not|cannot)|prohibit.*accounts/i],
+  ["default_privacy_settings", /default|private (account|profile)|privacy settings|high[-\s]privacy/i],
+  ["time_limits", /time limit|screen[-\s]*time|curfew|usage (cap|limit)|addictive|notifications? at night/i],
+  ["risk_assessment", /risk assessment|assess(ing)? (the )?risks?|impact assessment|dpia/i],
+  ["transparency_reporting", /transparen|report(ing)? (to|obligation)|publish .*report|audit/i],
+  ["harmful_content_duties", /harmful content|content moderation|remove .*content|filter|illegal content/i],
+];
+
+/** The obligation type a free-text requirement describes, if any ("Age-assurance controls" is age_assurance) */
+export function classifyObligation(text: string): ObligationType | null {
+  return obligationKeywords.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+/** Obligations named by free-text requirements, one per type, without provision references */
+export function obligationsFromText(requirements: string[]): Obligation[] {
+  const seen = new Set<ObligationType>();
+  const obligations: Obligation[] = [];
+  for (const text of requirements) {
+    const type = classifyObligation(text);
+    if (!type || seen.has(type)) continue;
+    seen.add(type);
+    obligations.push({ type, provision: null, text });
+  }
+  return obligations;
+}
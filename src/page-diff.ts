@@ -0,0 +1,68 @@
+/**
+ * Paragraph-level diffing of page snapshots between crawls.
+ * Paragraphs are compared whole (after whitespace normalization) using an LCS alignment,
+ * so reordered or edited paragraphs surface as a removal plus an addition.
+ */
+
+export type ParagraphChange = {
+  index: number;
+  text: string;
+};
+
+export type ParagraphDiff = {
+  added: ParagraphChange[];
+  removed: ParagraphChange[];
+};
+
+const MAX_DIFF_PARAGRAPHS = 2_000;
+
+function normalizeParagraph(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Diff two paragraph lists. Indexes refer to positions in `previous` (removed) and `next` (added). */
+export function diffParagraphs(previous: string[], next: string[]): ParagraphDiff {
+  const a = previous.slice(0, MAX_DIFF_PARAGRAPHS).map(normalizeParagraph);
+  const b = next.slice(0, MAX_DIFF_PARAGRAPHS).map(normalizeParagraph);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const added: ParagraphChange[] = [];
+  const removed: ParagraphChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push({ index: i, text: previous[i] });
+      i++;
+    } else {
+      added.push({ index: j, text: next[j] });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) removed.push({ index: i, text: previous[i] });
+  for (; j < b.length; j++) added.push({ index: j, text: next[j] });
+
+  return { added, removed };
+}
+
+/** Render a diff as the text sent to the analyzer in place of the full page */
+export function formatParagraphDiff(diff: ParagraphDiff, previousFetchedAt: string): string {
+  const lines = [`Changes detected since previous crawl (${previousFetchedAt}):`];
+  if (diff.added.length > 0) {
+    lines.push("", "Added paragraphs:", ...diff.added.map((change) => `+ ${change.text}`));
+  }
+  if (diff.removed.length > 0) {
+    lines.push("", "Removed paragraphs:", ...diff.removed.map((change) => `- ${change.text}`));
+  }
+  return lines.join("\n");
+}
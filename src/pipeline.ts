@@ -5,12 +5,44 @@
 
 import crypto from "node:crypto";
 import DatabaseConstructor from "better-sqlite3";
-import { sourceRegistry, twitterSearchSources, type RegistrySource } from "./sources";
-import { crawlAllSources } from "./crawler";
-import { analyzeItems } from "./analyzer";
+import { type RegistrySource } from "./sources";
 import {
+  buildUserAgent,
+  commitCrawlCheckpoints,
+  crawlAllSources,
+  type ArchivableResponse,
+  type CrawledItem,
+  type CrawlOptions,
+  type SourceCrawlResult,
+} from "./crawler";
+import { createHostLimiter } from "./host-limiter";
+import { createChromeRenderer, type PageRenderer } from "./renderer";
+import { openRawArchive, redactUrl, type RawArchive } from "./raw-archive";
+import { createRobotsChecker } from "./robots";
+import { analyzeItems, type AnalysisResult } from "./analyzer";
+import { groundCitations, groundedConfidence } from "./citations";
+import { normalizeDate } from "./dates";
+import { createTriage, triageItems, triageThresholdFromEnv } from "./triage";
+import { needsTranslation } from "./language";
+import { resolveLlmProvider, type LlmProvider } from "./llm-provider";
+import { translateToEnglish } from "./translation";
+import {
+  createAnalysisCache,
+  createFetchCache,
+  createPageSnapshotStore,
+  createSeenFeedItemStore,
+  DEFAULT_QUARANTINE_THRESHOLD,
   ensureSource,
+  flagSourcesForRendering,
+  getActiveSources,
+  getFeedbackExamples,
+  getQuarantinedSourceNames,
+  recordSourceCrawlResult,
+  recordAnalysisFailure,
+  recordCrawlArtifact,
+  recordCrawlRunItems,
   upsertEvent,
+  upsertLegislativeBill,
   startCrawlRun,
   completeCrawlRun,
   failCrawlRun,
@@ -21,8 +53,33 @@ import {
 export type PipelineResult = {
   runId: number;
   itemsCrawled: number;
+  /** Sources whose own URL came back unchanged (304 or the same content hash) */
+  sourcesUnchanged: number;
+  /** Names of sources not crawled because robots.txt disallows their URL */
+  sourcesBlockedByRobots: string[];
+  /** Sources whose crawl failed this run */
+  sourcesFailed: number;
+  /** Sources quarantined by this run after reaching the failure threshold */
+  sourcesQuarantined: string[];
+  /** Sources whose pages came back thin and will be rendered headlessly from the next run */
+  sourcesFlaggedForRendering: string[];
+  /** Bills fetched from legislature API sources and stored with their stage history */
+  legislativeBillsSynced: number;
+  /** Triage score items needed to go on to full extraction */
+  triageThreshold: number;
+  /** Items the triage stage passed on to full extraction */
+  itemsPassedTriage: number;
+  /** Items the triage stage judged irrelevant; they were not sent to the LLM */
+  itemsRejectedByTriage: number;
+  /** Items sent to full extraction (the ones that passed triage) */
   itemsAnalyzed: number;
   itemsRelevant: number;
+  /** Items whose analysis was lost (see `analysis_failures`) */
+  analysisFailures: number;
+  /** Items whose analysis was reused from `analysis_cache` */
+  analysisCacheHits: number;
+  /** Items sent to the LLM because no cached analysis matched */
+  analysisCacheMisses: number;
   itemsNew: number;
   itemsUpdated: number;
   itemsDuplicate: number;
@@ -31,9 +88,47 @@ export type PipelineResult = {
 };
 
 export type PipelineOptions = {
+  /** Sources to crawl; defaults to the enabled sources in the `sources` table */
   sources?: RegistrySource[];
   crawlConcurrency?: number;
   analyzeConcurrency?: number;
+  /** Send conditional requests and skip unchanged pages (default true) */
+  conditionalFetch?: boolean;
+  /** Snapshot page text and analyze only changed paragraphs (default true) */
+  trackPageChanges?: boolean;
+  /**
+   * Minimum triage score (0–1) for an item to get full extraction (default TRIAGE_THRESHOLD
+   * or 0.3; 0 sends every item)
+   */
+  triageThreshold?: number;
+  /** Reuse analyses of identical input made under the same prompt version and model (default true) */
+  cacheAnalyses?: boolean;
+  /** Store an English translation with the excerpt of relevant items in other languages (default true) */
+  translateExcerpts?: boolean;
+  /** Skip feed items whose GUID was emitted by an earlier crawl (default true) */
+  skipSeenFeedItems?: boolean;
+  /** Fetch robots.txt per host and skip disallowed URLs (default true) */
+  respectRobotsTxt?: boolean;
+  /** Maximum concurrent requests per host (default CRAWL_HOST_CONCURRENCY or 2) */
+  hostConcurrency?: number;
+  /** Minimum delay between requests to the same host (default CRAWL_HOST_MIN_DELAY_MS or 1000) */
+  hostMinDelayMs?: number;
+  /** User-Agent for crawl requests (default CRAWLER_USER_AGENT, or the bot UA with CRAWLER_CONTACT) */
+  userAgent?: string;
+  /** Consecutive failed crawls before a source is quarantined (default CRAWL_QUARANTINE_THRESHOLD or 5) */
+  quarantineThreshold?: number;
+  /**
+   * Headless renderer for sources with `render: true` (default: local Chrome/Chromium found via
+   * CHROME_PATH or the usual install paths; null crawls those sources statically)
+   */
+  renderer?: PageRenderer | null;
+  /**
+   * Archive for raw response bodies (default: RAW_ARCHIVE_DIR, or `raw-archive` next to the
+   * database file; null disables archiving)
+   */
+  archive?: RawArchive | null;
+  /** LLM provider for analysis (default: the provider configured in the environment, with `apiKey`) */
+  llm?: LlmProvider;
   onProgress?: (stage: string, message: string) => void;
 };
 
@@ -45,6 +140,38 @@ function hashText(value: string): string {
   return crypto.createHash("sha1").update(normalizeForHash(value)).digest("hex");
 }
 
+/** Store a fetched body in the archive and record where it came from; archiving never fails a crawl */
+function archiveResponse(
+  db: DatabaseConstructor.Database,
+  archive: RawArchive,
+  runId: number,
+  response: ArchivableResponse,
+): number | null {
+  try {
+    const stored = archive.store(response.body);
+    return recordCrawlArtifact(db, {
+      runId,
+      url: redactUrl(response.url),
+      statusCode: response.statusCode,
+      headers: response.headers,
+      rendered: response.rendered,
+      sha256: stored.sha256,
+      size: stored.size,
+      compressedSize: stored.compressedSize,
+      fetchedAt: response.fetchedAt,
+    });
+  } catch (error) {
+    console.warn(`[pipeline] Could not archive ${redactUrl(response.url)}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) ? value : undefined;
+}
+
 function buildRegulationKey(country: string, state: string | null, title: string): string {
   return [normalizeForHash(country || "unknown"), normalizeForHash(state || ""), normalizeForHash(title || "untitled")].join("|");
 }
@@ -63,6 +190,181 @@ function buildDeduplicationKey(
   return `${regulationKey}::${itemIdentity}`;
 }
 
+/** Persist per-source crawl outcomes, quarantining sources that keep failing */
+function recordSourceResults(
+  db: DatabaseConstructor.Database,
+  runId: number,
+  results: SourceCrawlResult[],
+  threshold = envNumber("CRAWL_QUARANTINE_THRESHOLD") ?? DEFAULT_QUARANTINE_THRESHOLD,
+): { failed: number; quarantined: string[] } {
+  const quarantined: string[] = [];
+  db.transaction(() => {
+    for (const result of results) {
+      const recorded = recordSourceCrawlResult(
+        db,
+        runId,
+        {
+          source: {
+            name: result.source.name,
+            url: result.source.url,
+            authorityType: result.source.authorityType,
+            jurisdiction: result.source.jurisdiction,
+            reliabilityTier: result.source.reliabilityTier,
+          },
+          status: result.status,
+          statusCode: result.statusCode,
+          latencyMs: result.latencyMs,
+          bytes: result.bytes,
+          itemCount: result.itemCount,
+          error: result.error,
+        },
+        threshold,
+      );
+      if (recorded.quarantined) quarantined.push(result.source.name);
+    }
+  })();
+  return { failed: results.filter((result) => result.status === "failed").length, quarantined };
+}
+
+/** Original text stored with an event */
+const EVENT_EXCERPT_LENGTH = 5000;
+
+function eventExcerpt(item: CrawledItem): string {
+  return item.text.slice(0, EVENT_EXCERPT_LENGTH);
+}
+
+/** English translations of the excerpts of relevant items in other languages; failures are left out */
+async function translateExcerpts(
+  analyzed: Array<{ item: CrawledItem; analysis: AnalysisResult }>,
+  llm: LlmProvider,
+  concurrency: number,
+): Promise<Map<CrawledItem, string>> {
+  const translations = new Map<CrawledItem, string>();
+  const items = analyzed.map(({ item }) => item).filter((item) => needsTranslation(item.language));
+  for (let i = 0; i < items.length; i += concurrency) {
+    const batch = items.slice(i, i + concurrency);
+    await Promise.all(
+      batch.map(async (item) => {
+        try {
+          translations.set(item, await translateToEnglish(eventExcerpt(item), item.language!, llm));
+        } catch (error) {
+          console.warn(`[pipeline] Could not translate "${item.title}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }),
+    );
+  }
+  return translations;
+}
+
+export type PersistResult = {
+  itemsNew: number;
+  itemsUpdated: number;
+  itemsDuplicate: number;
+  errors: string[];
+  /** Items that could not be written */
+  failed: CrawledItem[];
+};
+
+/**
+ * Write analyzed items as events, skipping items that duplicate one already written in this
+ * batch. `translations` holds English versions of non-English items' excerpts.
+ */
+export function persistAnalyzedItems(
+  db: DatabaseConstructor.Database,
+  analyzed: Array<{ item: CrawledItem; analysis: AnalysisResult }>,
+  translations: Map<CrawledItem, string> = new Map(),
+): PersistResult {
+  const errors: string[] = [];
+  const failed: CrawledItem[] = [];
+  let itemsNew = 0;
+  let itemsUpdated = 0;
+  let itemsDuplicate = 0;
+  const seenDeduplicationKeys = new Set<string>();
+
+  db.transaction(() => {
+    for (const { item, analysis } of analyzed) {
+      try {
+        // Ensure the source exists
+        const sourceId = ensureSource(db, item.source);
+        // Quotes that are not in the crawled text lower the confidence in the analysis
+        const citations = groundCitations(analysis.citations, item.text, EVENT_EXCERPT_LENGTH);
+        const feedPublished = normalizeDate(item.publishedAt);
+
+        const input: UpsertEventInput = {
+          title: analysis.title,
+          // A bill's jurisdiction and stage come from the legislature's own records
+          jurisdictionCountry: item.bill?.jurisdictionCountry ?? analysis.jurisdiction,
+          jurisdictionState: item.bill ? item.bill.jurisdictionState : analysis.jurisdictionState,
+          stage: item.bill?.stage ?? analysis.stage,
+          isUnder16Applicable: true,
+          ageBracket: analysis.ageBracket,
+          impactScore: analysis.impactScore,
+          likelihoodScore: analysis.likelihoodScore,
+          confidenceScore: groundedConfidence(analysis.confidenceScore, citations),
+          chiliScore: analysis.chiliScore,
+          summary: analysis.summary,
+          businessImpact: analysis.businessImpact,
+          requiredSolutions: analysis.requiredSolutions,
+          affectedProducts: analysis.affectedProducts,
+          competitorResponses: analysis.competitorResponses,
+          rawText: eventExcerpt(item),
+          language: item.language ?? null,
+          translatedText: translations.get(item) ?? null,
+          sourceUrlLink: item.url,
+          effectiveDate: analysis.effectiveDate,
+          effectiveDatePrecision: analysis.effectiveDatePrecision ?? null,
+          publishedDate: analysis.publishedDate ?? feedPublished?.date ?? null,
+          publishedDatePrecision: analysis.publishedDate ? analysis.publishedDatePrecision ?? null : feedPublished?.precision ?? null,
+          sourceId,
+          artifactIds: item.artifactIds,
+          claims: analysis.claims,
+          citations,
+          ageThresholds: analysis.ageThresholds,
+          obligations: analysis.obligations,
+        };
+
+        const deduplicationKey = buildDeduplicationKey(
+          input.jurisdictionCountry,
+          input.jurisdictionState,
+          input.title,
+          input.sourceUrlLink,
+          input.rawText ?? "",
+        );
+
+        if (seenDeduplicationKeys.has(deduplicationKey)) {
+          itemsDuplicate++;
+          continue;
+        }
+        seenDeduplicationKeys.add(deduplicationKey);
+
+        const result = upsertEvent(db, input);
+        if (result === "new") itemsNew++;
+        else if (result === "updated") itemsUpdated++;
+        else itemsDuplicate++;
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        errors.push(`Failed to persist "${analysis.title}": ${msg}`);
+        failed.push(item);
+      }
+    }
+  })();
+
+  return { itemsNew, itemsUpdated, itemsDuplicate, errors, failed };
+}
+
+/** Store the bills crawled from legislature API sources; their laws take the bills' stages on backfill */
+export function syncLegislativeBills(db: DatabaseConstructor.Database, items: CrawledItem[]): number {
+  let synced = 0;
+  db.transaction(() => {
+    for (const item of items) {
+      if (!item.bill) continue;
+      upsertLegislativeBill(db, ensureSource(db, item.source), item.bill);
+      synced++;
+    }
+  })();
+  return synced;
+}
+
 /**
  * Run the full crawl + analyze + persist pipeline.
  */
@@ -72,11 +374,58 @@ export async function runPipeline(
   options: PipelineOptions = {},
 ): Promise<PipelineResult> {
   const startTime = Date.now();
-  const sources = options.sources ?? [...sourceRegistry, ...twitterSearchSources];
+  const quarantinedNames = new Set(getQuarantinedSourceNames(db));
+  const requestedSources = options.sources ?? getActiveSources(db);
+  const sources = requestedSources.filter((source) => !quarantinedNames.has(source.name));
   const errors: string[] = [];
 
   const runId = startCrawlRun(db);
+  let sourcesUnchanged = 0;
+  const unchangedUrls = new Set<string>();
+  const sourcesBlockedByRobots: string[] = [];
+  const sourceResults: SourceCrawlResult[] = [];
+  let sourcesFailed = 0;
+  let sourcesQuarantined: string[] = [];
+  let sourcesFlaggedForRendering: string[] = [];
+  let legislativeBillsSynced = 0;
+  const triageThreshold = options.triageThreshold ?? triageThresholdFromEnv();
+  let itemsPassedTriage = 0;
+  let itemsRejectedByTriage = 0;
+  let analysisFailures = 0;
+  let analysisCacheHits = 0;
+  let analysisCacheMisses = 0;
+  const failedAnalyses: CrawledItem[] = [];
+  const analysisCache = options.cacheAnalyses === false ? undefined : createAnalysisCache(db);
+  const thinPageSources: string[] = [];
+  const userAgent = options.userAgent ?? process.env.CRAWLER_USER_AGENT ?? buildUserAgent(process.env.CRAWLER_CONTACT);
+  const fetchCache = options.conditionalFetch === false ? undefined : createFetchCache(db);
+  const archive = options.archive === undefined ? openRawArchive(db) : options.archive;
+  const crawlOptions: CrawlOptions = {
+    fetchCache: fetchCache && {
+      ...fetchCache,
+      markUnchanged: (url: string, checkedAt: string) => {
+        unchangedUrls.add(url);
+        fetchCache.markUnchanged(url, checkedAt);
+      },
+    },
+    pageSnapshots: options.trackPageChanges === false ? undefined : createPageSnapshotStore(db),
+    seenFeedItems: options.skipSeenFeedItems === false ? undefined : createSeenFeedItemStore(db),
+    robots: options.respectRobotsTxt === false ? undefined : createRobotsChecker({ userAgent }),
+    hostLimiter: createHostLimiter({
+      maxConcurrentPerHost: options.hostConcurrency ?? envNumber("CRAWL_HOST_CONCURRENCY"),
+      minDelayMs: options.hostMinDelayMs ?? envNumber("CRAWL_HOST_MIN_DELAY_MS"),
+    }),
+    userAgent,
+    renderer: (options.renderer === undefined ? createChromeRenderer({ userAgent }) : options.renderer) ?? undefined,
+    onRobotsBlocked: (source) => sourcesBlockedByRobots.push(source.name),
+    onSourceResult: (result) => sourceResults.push(result),
+    onThinPage: (source) => thinPageSources.push(source.name),
+    archiveResponse: archive ? (response) => archiveResponse(db, archive, runId, response) : undefined,
+  };
   options.onProgress?.("start", `Crawl run #${runId} started with ${sources.length} sources`);
+  if (sources.length < requestedSources.length) {
+    options.onProgress?.("start", `Skipping ${requestedSources.length - sources.length} quarantined sources`);
+  }
 
   try {
     // 1. Crawl all sources
@@ -87,107 +436,132 @@ export async function runPipeline(
       (completed, total, name) => {
         options.onProgress?.("crawl", `[${completed}/${total}] Crawled: ${name}`);
       },
+      crawlOptions,
     );
+    // Unchanged feed pages, documents and followed links are not counted as sources
+    sourcesUnchanged = sources.filter((source) => unchangedUrls.has(source.url)).length;
 
-    options.onProgress?.("crawl_done", `Crawled ${crawledItems.length} items from ${sources.length} sources`);
+    const health = recordSourceResults(db, runId, sourceResults, options.quarantineThreshold);
+    sourcesFailed = health.failed;
+    sourcesQuarantined = health.quarantined;
+    for (const name of sourcesQuarantined) {
+      options.onProgress?.("health", `Quarantined "${name}" after repeated crawl failures`);
+    }
+
+    sourcesFlaggedForRendering = flagSourcesForRendering(db, thinPageSources);
+    for (const name of sourcesFlaggedForRendering) {
+      options.onProgress?.("health", `"${name}" returned a thin page; it will be rendered headlessly from the next run`);
+    }
+
+    recordCrawlRunItems(db, runId, crawledItems);
+    legislativeBillsSynced = syncLegislativeBills(db, crawledItems);
+    if (legislativeBillsSynced > 0) {
+      options.onProgress?.("crawl", `Synced ${legislativeBillsSynced} bills from legislature APIs`);
+    }
+
+    options.onProgress?.(
+      "crawl_done",
+      `Crawled ${crawledItems.length} items from ${sources.length} sources (${sourcesUnchanged} unchanged, ${sourcesBlockedByRobots.length} blocked by robots.txt)`,
+    );
 
     if (crawledItems.length === 0) {
-      completeCrawlRun(db, runId, { itemsFound: 0, itemsNew: 0, itemsUpdated: 0 });
+      completeCrawlRun(db, runId, { itemsFound: 0, itemsNew: 0, itemsUpdated: 0, robotsBlockedSources: sourcesBlockedByRobots });
       return {
         runId,
         itemsCrawled: 0,
+        sourcesUnchanged,
+        sourcesBlockedByRobots,
+        sourcesFailed,
+        sourcesQuarantined,
+        sourcesFlaggedForRendering,
+        legislativeBillsSynced,
+        triageThreshold,
+        itemsPassedTriage: 0,
+        itemsRejectedByTriage: 0,
         itemsAnalyzed: 0,
         itemsRelevant: 0,
+        analysisFailures: 0,
+        analysisCacheHits: 0,
+        analysisCacheMisses: 0,
         itemsNew: 0,
         itemsUpdated: 0,
         itemsDuplicate: 0,
-        errors: ["No items crawled from any source"],
+        errors: sourcesUnchanged > 0 || sourcesBlockedByRobots.length > 0 ? [] : ["No items crawled from any source"],
         durationMs: Date.now() - startTime,
       };
     }
 
-    // 2. Analyze with LLM
-    options.onProgress?.("analyze", `Analyzing ${crawledItems.length} items with MiniMax M2.5...`);
+    // 2. Triage: a cheap local relevance check decides which items get full extraction
+    const triage = createTriage(getFeedbackExamples(db), triageThreshold);
+    const { passed, rejected } = triageItems(crawledItems, triage);
+    itemsPassedTriage = passed.length;
+    itemsRejectedByTriage = rejected.length;
+    options.onProgress?.(
+      "triage",
+      `${passed.length} of ${crawledItems.length} items passed triage at threshold ${triageThreshold}` +
+        (triage.trainedOn > 0 ? ` (model trained on ${triage.trainedOn} rated events)` : ""),
+    );
+
+    // 3. Analyze with LLM
+    const llm = options.llm ?? resolveLlmProvider(apiKey);
+    options.onProgress?.("analyze", `Analyzing ${passed.length} items with ${llm.model}...`);
     const analyzed = await analyzeItems(
-      crawledItems,
-      apiKey,
+      passed,
+      llm,
       options.analyzeConcurrency ?? Math.max(10, Number(process.env.ANALYSIS_CONCURRENCY || 12)),
       (completed, total, title) => {
         options.onProgress?.("analyze", `[${completed}/${total}] Analyzed: ${title.slice(0, 60)}`);
       },
+      {
+        cache: analysisCache && {
+          ...analysisCache,
+          get: (key) => {
+            const cached = analysisCache.get(key);
+            if (cached) analysisCacheHits++;
+            else analysisCacheMisses++;
+            return cached;
+          },
+        },
+        onFailure: (failure) => {
+          analysisFailures++;
+          failedAnalyses.push(failure.item);
+          recordAnalysisFailure(db, runId, failure);
+        },
+      },
     );
 
-    options.onProgress?.("analyze_done", `${analyzed.length} relevant items found out of ${crawledItems.length}`);
+    options.onProgress?.("analyze_done", `${analyzed.length} relevant items found out of ${passed.length}`);
+    if (analysisCacheHits > 0) {
+      options.onProgress?.("analyze_done", `${analysisCacheHits} analyses reused from the cache`);
+    }
+    if (analysisFailures > 0) {
+      options.onProgress?.("analyze_done", `${analysisFailures} items could not be analyzed; see analysis_failures for run #${runId}`);
+    }
+
+    // 4. Translate the excerpts stored with relevant items in other languages
+    const translations =
+      options.translateExcerpts === false
+        ? new Map<CrawledItem, string>()
+        : await translateExcerpts(analyzed, llm, options.analyzeConcurrency ?? Math.max(10, Number(process.env.ANALYSIS_CONCURRENCY || 12)));
+    if (translations.size > 0) {
+      options.onProgress?.("translate", `Translated ${translations.size} excerpts into English`);
+    }
 
-    // 3. Persist to database
+    // 5. Persist to database
     options.onProgress?.("persist", `Persisting ${analyzed.length} items...`);
 
-    let itemsNew = 0;
-    let itemsUpdated = 0;
-    let itemsDuplicate = 0;
-    const seenDeduplicationKeys = new Set<string>();
+    const persisted = persistAnalyzedItems(db, analyzed, translations);
+    const { itemsNew, itemsUpdated, itemsDuplicate } = persisted;
+    errors.push(...persisted.errors);
 
-    const persistTransaction = db.transaction(() => {
-      for (const { item, analysis } of analyzed) {
-        try {
-          // Ensure the source exists
-          const sourceId = ensureSource(db, {
-            name: item.source.name,
-            url: item.source.url,
-            authorityType: item.source.authorityType,
-            jurisdiction: item.source.jurisdiction,
-            reliabilityTier: item.source.reliabilityTier,
-          });
-
-          const input: UpsertEventInput = {
-            title: analysis.title,
-            jurisdictionCountry: analysis.jurisdiction,
-            jurisdictionState: analysis.jurisdictionState,
-            stage: analysis.stage,
-            isUnder16Applicable: true,
-            ageBracket: analysis.ageBracket,
-            impactScore: analysis.impactScore,
-            likelihoodScore: analysis.likelihoodScore,
-            confidenceScore: analysis.confidenceScore,
-            chiliScore: analysis.chiliScore,
-            summary: analysis.summary,
-            businessImpact: analysis.businessImpact,
-            requiredSolutions: analysis.requiredSolutions,
-            affectedProducts: analysis.affectedProducts,
-            competitorResponses: analysis.competitorResponses,
-            rawText: item.text.slice(0, 5000),
-            sourceUrlLink: item.url,
-            effectiveDate: analysis.effectiveDate,
-            publishedDate: analysis.publishedDate,
-            sourceId,
-          };
-
-          const deduplicationKey = buildDeduplicationKey(
-            input.jurisdictionCountry,
-            input.jurisdictionState,
-            input.title,
-            input.sourceUrlLink,
-            input.rawText ?? "",
-          );
-
-          if (seenDeduplicationKeys.has(deduplicationKey)) {
-            itemsDuplicate++;
-            continue;
-          }
-          seenDeduplicationKeys.add(deduplicationKey);
-
-          const result = upsertEvent(db, input);
-          if (result === "new") itemsNew++;
-          else if (result === "updated") itemsUpdated++;
-          else itemsDuplicate++;
-        } catch (error) {
-          const msg = error instanceof Error ? error.message : String(error);
-          errors.push(`Failed to persist "${analysis.title}": ${msg}`);
-        }
-      }
-    });
-
-    persistTransaction();
+    // Only now are items marked as crawled; triage rejections are settled, but items lost to
+    // a failed analysis or write come back on the next run
+    const unprocessed = new Set([...failedAnalyses, ...persisted.failed]);
+    commitCrawlCheckpoints(
+      crawledItems.filter((item) => !unprocessed.has(item)),
+      crawlOptions,
+      [...unprocessed],
+    );
 
     const lawBackfill = backfillLawsFromEvents(db);
     options.onProgress?.(
@@ -199,6 +573,9 @@ export async function runPipeline(
       itemsFound: crawledItems.length,
       itemsNew,
       itemsUpdated,
+      robotsBlockedSources: sourcesBlockedByRobots,
+      analysisCacheHits,
+      analysisCacheMisses,
     });
 
     options.onProgress?.("done", `Pipeline complete: ${itemsNew} new, ${itemsUpdated} updated, ${itemsDuplicate} duplicate`);
@@ -206,8 +583,20 @@ export async function runPipeline(
     return {
       runId,
       itemsCrawled: crawledItems.length,
-      itemsAnalyzed: analyzed.length + (crawledItems.length - analyzed.length),
+      sourcesUnchanged,
+      sourcesBlockedByRobots,
+      sourcesFailed,
+      sourcesQuarantined,
+      sourcesFlaggedForRendering,
+      legislativeBillsSynced,
+      triageThreshold,
+      itemsPassedTriage,
+      itemsRejectedByTriage,
+      itemsAnalyzed: passed.length,
       itemsRelevant: analyzed.length,
+      analysisFailures,
+      analysisCacheHits,
+      analysisCacheMisses,
       itemsNew,
       itemsUpdated,
       itemsDuplicate,
@@ -220,8 +609,20 @@ export async function runPipeline(
     return {
       runId,
       itemsCrawled: 0,
+      sourcesUnchanged,
+      sourcesBlockedByRobots,
+      sourcesFailed,
+      sourcesQuarantined,
+      sourcesFlaggedForRendering,
+      legislativeBillsSynced,
+      triageThreshold,
+      itemsPassedTriage,
+      itemsRejectedByTriage,
       itemsAnalyzed: 0,
       itemsRelevant: 0,
+      analysisFailures,
+      analysisCacheHits,
+      analysisCacheMisses,
       itemsNew: 0,
       itemsUpdated: 0,
       itemsDuplicate: 0,
@@ -0,0 +1,98 @@
+/**
+ * Raw crawl archive: fetched response bodies stored gzip-compressed on disk under their
+ * SHA-256, so identical bodies are kept once and every stored body can be verified against
+ * its own name. The `crawl_artifacts` table records which URL, run and headers a body
+ * came from.
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import zlib from "node:zlib";
+import DatabaseConstructor from "better-sqlite3";
+
+export type StoredBody = {
+  sha256: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+};
+
+export type RawArchive = {
+  directory: string;
+  /** Store a body, returning its address; storing an already archived body writes nothing */
+  store: (body: Buffer) => StoredBody;
+  /** Read a body back, or null when it is not in the archive; throws when the stored bytes no longer match */
+  read: (sha256: string) => Buffer | null;
+};
+
+/** Query parameters holding credentials, dropped from URLs before they are recorded */
+const CREDENTIAL_PARAMS = /^(?:api_?key|key|token|access_token|auth)$/i;
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function bodyPath(directory: string, hash: string): string {
+  return path.join(directory, hash.slice(0, 2), `${hash}.gz`);
+}
+
+export function createRawArchive(directory: string): RawArchive {
+  return {
+    directory,
+    store: (body) => {
+      const hash = sha256(body);
+      const file = bodyPath(directory, hash);
+      if (fs.existsSync(file)) {
+        return { sha256: hash, size: body.length, compressedSize: fs.statSync(file).size };
+      }
+
+      const compressed = zlib.gzipSync(body);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      // Write then rename, so a crash never leaves a truncated body under a valid address
+      const partial = `${file}.${process.pid}.partial`;
+      fs.writeFileSync(partial, compressed);
+      fs.renameSync(partial, file);
+      return { sha256: hash, size: body.length, compressedSize: compressed.length };
+    },
+    read: (hash) => {
+      if (!/^[0-9a-f]{64}$/.test(hash)) return null;
+      const file = bodyPath(directory, hash);
+      if (!fs.existsSync(file)) return null;
+
+      const body = zlib.gunzipSync(fs.readFileSync(file));
+      if (sha256(body) !== hash) {
+        throw new Error(`Archived body ${hash} does not match its hash`);
+      }
+      return body;
+    },
+  };
+}
+
+/**
+ * Archive directory for a database: RAW_ARCHIVE_DIR, or `raw-archive` next to the database
+ * file. In-memory databases have no archive unless RAW_ARCHIVE_DIR is set.
+ */
+export function rawArchiveDirectoryFor(db: DatabaseConstructor.Database): string | null {
+  if (process.env.RAW_ARCHIVE_DIR) return process.env.RAW_ARCHIVE_DIR;
+  return db.memory ? null : path.join(path.dirname(db.name), "raw-archive");
+}
+
+/** The archive for a database, or null when it has none */
+export function openRawArchive(db: DatabaseConstructor.Database): RawArchive | null {
+  const directory = rawArchiveDirectoryFor(db);
+  return directory ? createRawArchive(directory) : null;
+}
+
+/** Drop credential query parameters (API keys, tokens) from a URL before it is stored */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (CREDENTIAL_PARAMS.test(name)) parsed.searchParams.delete(name);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
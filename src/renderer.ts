@@ -0,0 +1,81 @@
+/**
+ * Headless rendering for JavaScript-heavy sources.
+ * Runs a locally installed Chrome/Chromium with `--dump-dom`, which executes the page's
+ * scripts and prints the resulting DOM, so client-rendered content reaches extraction.
+ */
+
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+
+export type PageRenderer = {
+  /** Load the URL in a headless browser and return the rendered HTML */
+  render: (url: string) => Promise<string>;
+};
+
+export type ChromeRendererOptions = {
+  /** Browser binary; defaults to CHROME_PATH or the first well-known install location found */
+  executablePath?: string;
+  userAgent?: string;
+  /** Hard limit for the browser process (default 45s) */
+  timeoutMs?: number;
+  /** Virtual time the page gets to run scripts and settle before the DOM is dumped (default 10s) */
+  virtualTimeBudgetMs?: number;
+};
+
+const RENDER_TIMEOUT_MS = 45_000;
+const VIRTUAL_TIME_BUDGET_MS = 10_000;
+const MAX_RENDERED_BYTES = 20 * 1024 * 1024;
+
+const CHROME_CANDIDATES = [
+  "/usr/bin/chromium",
+  "/usr/bin/chromium-browser",
+  "/usr/bin/google-chrome",
+  "/usr/bin/google-chrome-stable",
+  "/snap/bin/chromium",
+  "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  "/Applications/Chromium.app/Contents/MacOS/Chromium",
+];
+
+/** Locate a headless-capable browser, or null when none is installed */
+export function findChromeExecutable(env: NodeJS.ProcessEnv = process.env): string | null {
+  const candidates = env.CHROME_PATH ? [env.CHROME_PATH] : CHROME_CANDIDATES;
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+}
+
+/** Create a Chrome-backed renderer; returns null when no browser is available */
+export function createChromeRenderer(options: ChromeRendererOptions = {}): PageRenderer | null {
+  const executablePath = options.executablePath ?? findChromeExecutable();
+  if (!executablePath) return null;
+
+  const baseArgs = [
+    "--headless=new",
+    "--disable-gpu",
+    "--disable-extensions",
+    "--hide-scrollbars",
+    "--mute-audio",
+    "--no-first-run",
+    `--virtual-time-budget=${options.virtualTimeBudgetMs ?? VIRTUAL_TIME_BUDGET_MS}`,
+  ];
+  // Chrome refuses to start its sandbox as root (e.g. inside containers)
+  if (process.getuid?.() === 0) baseArgs.push("--no-sandbox");
+  if (options.userAgent) baseArgs.push(`--user-agent=${options.userAgent}`);
+
+  return {
+    render(url: string) {
+      return new Promise((resolve, reject) => {
+        execFile(
+          executablePath,
+          [...baseArgs, "--dump-dom", url],
+          { timeout: options.timeoutMs ?? RENDER_TIMEOUT_MS, maxBuffer: MAX_RENDERED_BYTES },
+          (error, stdout) => {
+            if (error) {
+              reject(new Error(`Headless render failed for ${url}: ${error.message}`));
+              return;
+            }
+            resolve(stdout);
+          },
+        );
+      });
+    },
+  };
+}
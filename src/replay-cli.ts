@@ -0,0 +1,104 @@
+/**
+ * CLI entry point: `npm run replay -- [runId] [--scratch <path>]`
+ * Re-analyzes the items recorded for a crawl run (default: the latest) into a scratch
+ * database and prints how relevance, stages and scores differ from production.
+ */
+
+import { getLatestRecordedCrawlRunId, initializeSchema, migrateSchema, openDatabase } from "./db";
+import { llmConfigError, llmConfigFromEnv } from "./llm-provider";
+import { replayCrawlRun, type ReplayItemRef } from "./replay";
+
+const MAX_LISTED = 20;
+
+function optionValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function printItems(heading: string, items: Array<ReplayItemRef & { detail?: string }>) {
+  if (items.length === 0) return;
+  console.log(`\n  ${heading} (${items.length}):`);
+  for (const item of items.slice(0, MAX_LISTED)) {
+    console.log(`    - ${item.title.slice(0, 80)}${item.detail ? ` — ${item.detail}` : ""}`);
+    console.log(`      ${item.url}`);
+  }
+  if (items.length > MAX_LISTED) console.log(`    … ${items.length - MAX_LISTED} more`);
+}
+
+async function main() {
+  const llm = llmConfigFromEnv();
+  const configError = llmConfigError(llm);
+  if (configError) {
+    console.error(`Error: ${configError}`);
+    process.exit(1);
+  }
+  const apiKey = llm.apiKey ?? "";
+
+  const databasePath = process.env.DATABASE_PATH ?? undefined;
+  const db = openDatabase(databasePath);
+  initializeSchema(db);
+  migrateSchema(db);
+
+  const runArgument = process.argv.slice(2).find((arg, index, args) => /^\d+$/.test(arg) && args[index - 1] !== "--scratch");
+  const runId = runArgument ? Number(runArgument) : getLatestRecordedCrawlRunId(db);
+  if (runId === null) {
+    console.error("Error: no crawl run has recorded items to replay.");
+    process.exit(1);
+  }
+
+  const scratchPath = optionValue("--scratch") ?? ":memory:";
+  const scratch = openDatabase(scratchPath);
+
+  const report = await replayCrawlRun(db, scratch, runId, apiKey, {
+    onProgress: (stage, message) => {
+      const prefix = stage.toUpperCase().padEnd(12);
+      console.log(`[${prefix}] ${message}`);
+    },
+  });
+
+  console.log("\n=== Replay Report ===");
+  console.log(`  Run ID:             ${report.runId}`);
+  console.log(`  Scratch database:   ${scratchPath}`);
+  console.log(`  Items replayed:     ${report.itemsReplayed}`);
+  console.log(`  Triaged out:        ${report.itemsRejectedByTriage}`);
+  console.log(`  Relevant:           ${report.itemsRelevant}`);
+  console.log(`  Not analyzed:       ${report.analysisFailures}`);
+  console.log(`  Newly relevant:     ${report.newlyRelevant.length}`);
+  console.log(`  No longer relevant: ${report.noLongerRelevant.length}`);
+  console.log(`  Stage changes:      ${report.stageChanges.length}`);
+  console.log(`  Score changes:      ${report.scoreChanges.length}`);
+  console.log(`  Unchanged:          ${report.unchanged}`);
+  console.log(`  Duration:           ${(report.durationMs / 1000).toFixed(1)}s`);
+
+  printItems("Newly relevant", report.newlyRelevant);
+  printItems("No longer relevant", report.noLongerRelevant);
+  printItems(
+    "Stage changes",
+    report.stageChanges.map((change) => ({ ...change, detail: `${change.production} → ${change.replay}` })),
+  );
+  printItems(
+    "Score changes",
+    report.scoreChanges.map((change) => ({
+      ...change,
+      detail: Object.entries(change.changes)
+        .map(([field, scores]) => `${field} ${scores.production} → ${scores.replay}`)
+        .join(", "),
+    })),
+  );
+
+  if (report.errors.length > 0) {
+    console.log(`\n  Errors (${report.errors.length}):`);
+    for (const err of report.errors.slice(0, 10)) {
+      console.log(`    - ${err}`);
+    }
+  }
+
+  scratch.close();
+  db.close();
+  console.log("\nDone.");
+}
+
+main().catch((err) => {
+  console.error("Replay failed:", err);
+  process.exit(1);
+});
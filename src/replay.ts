@@ -0,0 +1,206 @@
+/**
+ * Replay mode: feed the items an earlier crawl run recorded back through analysis and
+ * persistence into a scratch database, without crawling, and diff the outcome against
+ * the events production currently holds for the same URLs.
+ */
+
+import DatabaseConstructor from "better-sqlite3";
+import { analyzeItems } from "./analyzer";
+import { type CrawledItem } from "./crawler";
+import {
+  backfillLawsFromEvents,
+  getCrawlRunItems,
+  getFeedbackExamples,
+  initializeSchema,
+  migrateSchema,
+  recordAnalysisFailure,
+} from "./db";
+import { type LlmProvider } from "./llm-provider";
+import { persistAnalyzedItems, syncLegislativeBills } from "./pipeline";
+import { createTriage, triageItems, triageThresholdFromEnv } from "./triage";
+
+export const replayScoreFields = ["impactScore", "likelihoodScore", "confidenceScore", "chiliScore"] as const;
+export type ReplayScoreField = (typeof replayScoreFields)[number];
+
+export type ReplayItemRef = {
+  url: string;
+  title: string;
+  sourceName: string;
+};
+
+export type ReplayStageChange = ReplayItemRef & {
+  productionEventId: string;
+  production: string;
+  replay: string;
+};
+
+export type ReplayScoreChange = ReplayItemRef & {
+  productionEventId: string;
+  changes: Partial<Record<ReplayScoreField, { production: number; replay: number }>>;
+};
+
+export type ReplayReport = {
+  runId: number;
+  itemsReplayed: number;
+  /** Items the triage stage kept from full extraction */
+  itemsRejectedByTriage: number;
+  itemsRelevant: number;
+  /** Items whose analysis was lost; recorded in the scratch database's `analysis_failures` */
+  analysisFailures: number;
+  itemsNew: number;
+  itemsDuplicate: number;
+  /** Relevant on replay, but production has no event for the URL */
+  newlyRelevant: ReplayItemRef[];
+  /** Production has an event for the URL, but the item is not relevant on replay */
+  noLongerRelevant: Array<ReplayItemRef & { productionEventId: string }>;
+  stageChanges: ReplayStageChange[];
+  scoreChanges: ReplayScoreChange[];
+  /** Items with the same relevance, stage and scores in both databases */
+  unchanged: number;
+  errors: string[];
+  durationMs: number;
+};
+
+export type ReplayOptions = {
+  /** LLM provider for analysis (default: the provider configured in the environment, with `apiKey`) */
+  llm?: LlmProvider;
+  analyzeConcurrency?: number;
+  /** Minimum triage score for full extraction (default TRIAGE_THRESHOLD or 0.3) */
+  triageThreshold?: number;
+  onProgress?: (stage: string, message: string) => void;
+};
+
+type EventSnapshot = {
+  id: string;
+  stage: string;
+} & Record<ReplayScoreField, number>;
+
+/** The most recently updated event for a URL */
+function latestEventForUrl(db: DatabaseConstructor.Database, url: string): EventSnapshot | null {
+  const row = db
+    .prepare(
+      `SELECT id, stage, impact_score, likelihood_score, confidence_score, chili_score
+       FROM regulation_events
+       WHERE source_url_link = ?
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+    )
+    .get(url) as
+    | { id: string; stage: string; impact_score: number; likelihood_score: number; confidence_score: number; chili_score: number }
+    | undefined;
+  if (!row) return null;
+  return {
+    id: row.id,
+    stage: row.stage,
+    impactScore: row.impact_score,
+    likelihoodScore: row.likelihood_score,
+    confidenceScore: row.confidence_score,
+    chiliScore: row.chili_score,
+  };
+}
+
+/**
+ * Replay a crawl run into `scratch`. Production (`db`) is only read. The analyzer is called
+ * as usual, so prompt and scoring changes show up in the report; crawling is not repeated.
+ */
+export async function replayCrawlRun(
+  db: DatabaseConstructor.Database,
+  scratch: DatabaseConstructor.Database,
+  runId: number,
+  apiKey: string,
+  options: ReplayOptions = {},
+): Promise<ReplayReport> {
+  const startTime = Date.now();
+  // Archived snapshots live with production, so the scratch events are not linked to them
+  const items: CrawledItem[] = getCrawlRunItems(db, runId).map(({ artifactIds: _artifactIds, ...item }) => item);
+  if (items.length === 0) {
+    throw new Error(`Crawl run ${runId} has no recorded items to replay`);
+  }
+
+  initializeSchema(scratch);
+  migrateSchema(scratch);
+
+  options.onProgress?.("replay", `Replaying ${items.length} items from crawl run #${runId}`);
+  syncLegislativeBills(scratch, items);
+  // Triage learns from production's feedback, as it would in a real run
+  const { passed, rejected } = triageItems(
+    items,
+    createTriage(getFeedbackExamples(db), options.triageThreshold ?? triageThresholdFromEnv()),
+  );
+  const failedUrls = new Set<string>();
+  const analyzed = await analyzeItems(
+    passed,
+    options.llm ?? apiKey,
+    options.analyzeConcurrency ?? Math.max(10, Number(process.env.ANALYSIS_CONCURRENCY || 12)),
+    (completed, total, title) => {
+      options.onProgress?.("analyze", `[${completed}/${total}] Analyzed: ${title.slice(0, 60)}`);
+    },
+    {
+      onFailure: (failure) => {
+        failedUrls.add(failure.item.url);
+        recordAnalysisFailure(scratch, null, failure);
+      },
+    },
+  );
+  const persisted = persistAnalyzedItems(scratch, analyzed);
+  backfillLawsFromEvents(scratch);
+
+  const relevantUrls = new Set(analyzed.map(({ item }) => item.url));
+  const report: ReplayReport = {
+    runId,
+    itemsReplayed: items.length,
+    itemsRejectedByTriage: rejected.length,
+    itemsRelevant: analyzed.length,
+    analysisFailures: failedUrls.size,
+    itemsNew: persisted.itemsNew,
+    itemsDuplicate: persisted.itemsDuplicate,
+    newlyRelevant: [],
+    noLongerRelevant: [],
+    stageChanges: [],
+    scoreChanges: [],
+    unchanged: 0,
+    errors: persisted.errors,
+    durationMs: 0,
+  };
+
+  const comparedUrls = new Set<string>();
+  for (const item of items) {
+    // Several items can share a URL (e.g. a re-published feed entry); compare each URL once
+    if (comparedUrls.has(item.url)) continue;
+    comparedUrls.add(item.url);
+    // Lost analyses say nothing about relevance; they are counted in `analysisFailures`
+    if (failedUrls.has(item.url)) continue;
+
+    const ref: ReplayItemRef = { url: item.url, title: item.title, sourceName: item.source.name };
+    const production = latestEventForUrl(db, item.url);
+    const replayed = relevantUrls.has(item.url) ? latestEventForUrl(scratch, item.url) : null;
+
+    if (!production && !replayed) {
+      report.unchanged++;
+    } else if (!production) {
+      report.newlyRelevant.push(ref);
+    } else if (!replayed) {
+      report.noLongerRelevant.push({ ...ref, productionEventId: production.id });
+    } else {
+      const changes: ReplayScoreChange["changes"] = {};
+      for (const field of replayScoreFields) {
+        if (production[field] !== replayed[field]) changes[field] = { production: production[field], replay: replayed[field] };
+      }
+      const stageChanged = production.stage !== replayed.stage;
+      if (stageChanged) {
+        report.stageChanges.push({ ...ref, productionEventId: production.id, production: production.stage, replay: replayed.stage });
+      }
+      if (Object.keys(changes).length > 0) {
+        report.scoreChanges.push({ ...ref, productionEventId: production.id, changes });
+      }
+      if (!stageChanged && Object.keys(changes).length === 0) report.unchanged++;
+    }
+  }
+
+  report.durationMs = Date.now() - startTime;
+  options.onProgress?.(
+    "replay_done",
+    `${report.newlyRelevant.length} newly relevant, ${report.noLongerRelevant.length} no longer relevant, ${report.stageChanges.length} stage changes, ${report.scoreChanges.length} score changes`,
+  );
+  return report;
+}
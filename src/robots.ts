@@ -0,0 +1,212 @@
+/**
+ * robots.txt support (RFC 9309): parsing, per-host caching and allow/disallow checks.
+ * Matching follows the RFC: the most specific (longest) matching rule wins, Allow wins ties,
+ * and `*` / `$` wildcards are honoured. The group for our product token is used when present,
+ * otherwise the `*` group.
+ */
+
+export type RobotsRule = {
+  allow: boolean;
+  path: string;
+};
+
+export type RobotsGroup = {
+  userAgents: string[];
+  rules: RobotsRule[];
+};
+
+export type RobotsTxt = {
+  groups: RobotsGroup[];
+};
+
+/** Outcome of checking a URL against its host's robots.txt */
+export type RobotsCheck = {
+  allowed: boolean;
+  /** Why robots.txt could not be fetched (server error or network failure); null when it was read */
+  unreachable: string | null;
+};
+
+export type RobotsChecker = {
+  /** Whether the crawler's user agent may fetch this URL; fetches and caches robots.txt per host */
+  isAllowed: (url: string) => Promise<boolean>;
+  /** Like `isAllowed`, but also says whether a disallow comes from an unreachable robots.txt */
+  check: (url: string) => Promise<RobotsCheck>;
+};
+
+export type RobotsCheckerOptions = {
+  userAgent: string;
+  /** How long a host's robots.txt is reused before being fetched again (default 24h) */
+  cacheTtlMs?: number;
+  timeoutMs?: number;
+  now?: () => number;
+};
+
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const UNREACHABLE_RETRY_MS = 15 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10_000;
+const MAX_ROBOTS_BYTES = 500_000;
+
+/** Parse robots.txt. Rules before any user-agent line and unknown directives are ignored. */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    // An empty Disallow means "allow everything" and contributes no rule
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", path: value });
+    }
+  }
+
+  return { groups };
+}
+
+/** The product token robots.txt groups are matched against, e.g. "Under16RegBot" from "Under16RegBot/0.1 (+...)" */
+export function userAgentToken(userAgent: string): string {
+  return (userAgent.split(/[\/\s]/)[0] || userAgent).toLowerCase();
+}
+
+function selectGroups(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const token = userAgentToken(userAgent);
+  const specific = robots.groups.filter((group) => group.userAgents.includes(token));
+  if (specific.length > 0) return specific;
+  return robots.groups.filter((group) => group.userAgents.includes("*"));
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+function normalizePath(path: string): string {
+  // Compare percent-encoded forms so "/caf%C3%A9" and "/café" match the same rule
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+}
+
+/** Check a path (with query string) against the rules that apply to the user agent */
+export function isPathAllowed(robots: RobotsTxt, userAgent: string, path: string): boolean {
+  if (path === "/robots.txt") return true;
+  const target = normalizePath(path || "/");
+  let best: RobotsRule | null = null;
+
+  for (const group of selectGroups(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(normalizePath(rule.path)).test(target)) continue;
+      const longer = !best || rule.path.length > best.path.length;
+      const tieAllows = best !== null && rule.path.length === best.path.length && rule.allow && !best.allow;
+      if (longer || tieAllows) best = rule;
+    }
+  }
+
+  return best?.allow ?? true;
+}
+
+type FetchedRobotsTxt = { robots: RobotsTxt; unreachable: string | null };
+
+type CachedRobotsTxt = { robots: Promise<FetchedRobotsTxt>; expiresAt: number };
+
+const ALLOW_ALL: RobotsTxt = { groups: [] };
+const DISALLOW_ALL: RobotsTxt = { groups: [{ userAgents: ["*"], rules: [{ allow: false, path: "/" }] }] };
+
+/**
+ * Fetch robots.txt for an origin. Per RFC 9309, a 4xx means no restrictions, while a
+ * server error or network failure means the site is treated as fully disallowed.
+ */
+async function fetchRobotsTxt(
+  origin: string,
+  userAgent: string,
+  timeoutMs: number,
+): Promise<FetchedRobotsTxt> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      signal: controller.signal,
+      redirect: "follow",
+      headers: { "User-Agent": userAgent, Accept: "text/plain,*/*;q=0.5" },
+    });
+    if (response.ok) return { robots: parseRobotsTxt(await response.text()), unreachable: null };
+    if (response.status >= 400 && response.status < 500) return { robots: ALLOW_ALL, unreachable: null };
+    return { robots: DISALLOW_ALL, unreachable: `HTTP ${response.status}` };
+  } catch (error) {
+    return { robots: DISALLOW_ALL, unreachable: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Create a robots.txt checker that caches each host's rules for the configured TTL.
+ * An unreachable robots.txt is retried after 15 minutes rather than blocking the host all day.
+ */
+export function createRobotsChecker(options: RobotsCheckerOptions): RobotsChecker {
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const timeoutMs = options.timeoutMs ?? ROBOTS_TIMEOUT_MS;
+  const now = options.now ?? Date.now;
+  const cache = new Map<string, CachedRobotsTxt>();
+
+  const load = (origin: string): CachedRobotsTxt => {
+    const fetchedAt = now();
+    const entry = { expiresAt: fetchedAt + cacheTtlMs } as CachedRobotsTxt;
+    // Cache the promise so concurrent crawls of the same host share one request
+    entry.robots = fetchRobotsTxt(origin, options.userAgent, timeoutMs).then((result) => {
+      if (result.unreachable) entry.expiresAt = fetchedAt + UNREACHABLE_RETRY_MS;
+      return result;
+    });
+    return entry;
+  };
+
+  const check = async (url: string): Promise<RobotsCheck> => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: true, unreachable: null };
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return { allowed: true, unreachable: null };
+
+    let entry = cache.get(parsed.origin);
+    if (!entry || now() >= entry.expiresAt) {
+      entry = load(parsed.origin);
+      cache.set(parsed.origin, entry);
+    }
+
+    const { robots, unreachable } = await entry.robots;
+    return { allowed: isPathAllowed(robots, options.userAgent, `${parsed.pathname}${parsed.search}`), unreachable };
+  };
+
+  return {
+    check,
+    isAllowed: async (url) => (await check(url)).allowed,
+  };
+}
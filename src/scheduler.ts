@@ -0,0 +1,285 @@
+/**
+ * In-process crawl scheduler.
+ * Each registry source runs on its own cron cadence; due sources are batched into a single
+ * pipeline run per tick. Schedules, next-run times and skipped runs persist in SQLite.
+ */
+
+import DatabaseConstructor from "better-sqlite3";
+import { type RegistrySource } from "./sources";
+import { runPipeline, type PipelineResult } from "./pipeline";
+import {
+  getActiveSources,
+  getCrawlSchedules,
+  getLatestCrawlRun,
+  recordScheduledRun,
+  recordSkippedRun,
+  upsertCrawlSchedule,
+} from "./db";
+
+const DEFAULT_TICK_INTERVAL_MS = 60_000;
+const MAX_LOOKAHEAD_MINUTES = 366 * 24 * 60;
+
+/** Default cadences: official government pages hourly, feeds every 6 hours, X searches daily */
+export const defaultCadences = {
+  officialPage: "0 * * * *",
+  feed: "0 */6 * * *",
+  twitter: "0 0 * * *",
+  other: "0 */12 * * *",
+} as const;
+
+type CronField = {
+  values: Set<number>;
+  wildcard: boolean;
+};
+
+export type CronSchedule = {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+};
+
+const fieldRanges: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 6],
+];
+
+function parseCronField(raw: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of raw.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== "*") {
+      const [startRaw, endRaw] = rangePart.split("-");
+      start = Number(startRaw);
+      end = endRaw === undefined ? (stepPart === undefined ? start : max) : Number(endRaw);
+      // Treat 7 as Sunday, as most cron implementations do
+      if (max === 6 && end === 7) end = 6;
+      if (max === 6 && start === 7) start = 0;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${part}" (expected ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: raw === "*" };
+}
+
+/** Parse a 5-field cron expression (minute hour day-of-month month day-of-week) */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) =>
+    parseCronField(field, fieldRanges[index][0], fieldRanges[index][1]),
+  );
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.dayOfMonth.values.has(date.getUTCDate());
+  const dowMatch = schedule.dayOfWeek.values.has(date.getUTCDay());
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (!schedule.dayOfMonth.wildcard && !schedule.dayOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/** Compute the first run time strictly after `from` (UTC) */
+export function nextCronRun(expression: string, from: Date): Date {
+  const schedule = parseCronExpression(expression);
+  const candidate = new Date(from.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_MINUTES; i++) {
+    if (!schedule.month.values.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hour.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minute.values.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error(`Cron expression never fires: "${expression}"`);
+}
+
+/** Resolve the cron cadence for a source: explicit `schedule`, else a default by type and tier */
+export function resolveSourceSchedule(source: RegistrySource): string {
+  if (source.schedule?.trim()) return source.schedule.trim();
+  if (source.type === "twitter_search") return defaultCadences.twitter;
+  if (source.type === "rss_feed") return defaultCadences.feed;
+  if (source.type === "government_page" && source.reliabilityTier >= 5) return defaultCadences.officialPage;
+  return defaultCadences.other;
+}
+
+/**
+ * Persist a schedule row for every source; existing rows keep their next-run time. A source
+ * whose schedule cannot be computed is logged and left out rather than failing the others.
+ */
+export function syncCrawlSchedules(
+  db: DatabaseConstructor.Database,
+  sources: RegistrySource[],
+  now = new Date(),
+): void {
+  const tx = db.transaction(() => {
+    for (const source of sources) {
+      try {
+        const cronExpression = resolveSourceSchedule(source);
+        upsertCrawlSchedule(db, {
+          sourceName: source.name,
+          cronExpression,
+          nextRunAt: nextCronRun(cronExpression, now).toISOString(),
+        });
+      } catch (error) {
+        console.warn(`[scheduler] Not scheduling "${source.name}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
+  tx();
+}
+
+export type SchedulerTickResult = {
+  dueSources: string[];
+  skipped: boolean;
+  skipReason: string | null;
+  result: PipelineResult | null;
+};
+
+export type SchedulerOptions = {
+  /** Fixed source list; by default the enabled sources are re-read from the database every tick */
+  sources?: RegistrySource[];
+  tickIntervalMs?: number;
+  now?: () => Date;
+  run?: (sources: RegistrySource[]) => Promise<PipelineResult>;
+  onProgress?: (stage: string, message: string) => void;
+};
+
+export type CrawlScheduler = {
+  tick: () => Promise<SchedulerTickResult>;
+  stop: () => void;
+};
+
+/**
+ * Start the in-process scheduler. Call `stop()` on shutdown.
+ * A tick that finds a crawl already running records a skipped run for each due source.
+ */
+export function startCrawlScheduler(
+  db: DatabaseConstructor.Database,
+  apiKey: string,
+  options: SchedulerOptions = {},
+): CrawlScheduler {
+  const loadSources = () => options.sources ?? getActiveSources(db);
+  const now = options.now ?? (() => new Date());
+  const run = options.run
+    ?? ((dueSources: RegistrySource[]) => runPipeline(db, apiKey, { sources: dueSources, onProgress: options.onProgress }));
+  let ticking = false;
+
+  syncCrawlSchedules(db, loadSources(), now());
+
+  const tick = async (): Promise<SchedulerTickResult> => {
+    const tickTime = now();
+    const tickIso = tickTime.toISOString();
+    // Pick up sources added or edited through the API since the last tick
+    const sources = loadSources();
+    syncCrawlSchedules(db, sources, tickTime);
+    const sourcesByName = new Map(sources.map((source) => [source.name, source]));
+    const due = getCrawlSchedules(db).filter(
+      (schedule) => sourcesByName.has(schedule.sourceName) && Date.parse(schedule.nextRunAt) <= tickTime.getTime(),
+    );
+
+    if (due.length === 0) {
+      return { dueSources: [], skipped: false, skipReason: null, result: null };
+    }
+
+    const dueSources = due.map((schedule) => schedule.sourceName);
+    const latestRun = getLatestCrawlRun(db);
+    const skipReason = ticking || latestRun?.status === "running" ? "crawl already running" : null;
+
+    if (skipReason) {
+      for (const schedule of due) {
+        recordSkippedRun(db, schedule.sourceName, {
+          reason: skipReason,
+          skippedAt: tickIso,
+          nextRunAt: nextCronRun(schedule.cronExpression, tickTime).toISOString(),
+        });
+      }
+      options.onProgress?.("schedule", `Skipped ${due.length} due sources: ${skipReason}`);
+      return { dueSources, skipped: true, skipReason, result: null };
+    }
+
+    ticking = true;
+    options.onProgress?.("schedule", `Running scheduled crawl for ${due.length} sources`);
+    try {
+      const result = await run(due.map((schedule) => sourcesByName.get(schedule.sourceName)!));
+      const status = result.errors.length > 0 && result.itemsCrawled === 0 ? "failed" : "completed";
+      for (const schedule of due) {
+        recordScheduledRun(db, schedule.sourceName, {
+          runId: result.runId,
+          status,
+          ranAt: tickIso,
+          nextRunAt: nextCronRun(schedule.cronExpression, tickTime).toISOString(),
+        });
+      }
+      return { dueSources, skipped: false, skipReason: null, result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const schedule of due) {
+        recordScheduledRun(db, schedule.sourceName, {
+          runId: null,
+          status: "failed",
+          ranAt: tickIso,
+          nextRunAt: nextCronRun(schedule.cronExpression, tickTime).toISOString(),
+        });
+      }
+      options.onProgress?.("schedule", `Scheduled crawl failed: ${message}`);
+      return { dueSources, skipped: false, skipReason: null, result: null };
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const timer = setInterval(() => {
+    tick().catch((error) => {
+      console.error("[scheduler] Tick failed:", error);
+    });
+  }, options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS);
+  timer.unref?.();
+
+  return {
+    tick,
+    stop: () => clearInterval(timer),
+  };
+}
@@ -1,4 +1,6 @@
 import DatabaseConstructor from "better-sqlite3";
+import { createSource, updateSource } from "./db";
+import { sourceRegistry, twitterSearchSources, type RegistrySource } from "./sources";
 import { validateScoringBounds } from "./validation";
 
 type SeedSource = {
@@ -362,3 +364,37 @@ export function seedSampleData(db: DatabaseConstructor.Database): void {
 
   txn();
 }
+
+/**
+ * Seed the `sources` table from the built-in registry on first start. Once any source carries
+ * registry fields the table is authoritative and seeds are not re-applied, so sources edited
+ * or deleted through the API stay that way. Rows left by older crawls are filled in, matched
+ * by name first and then URL. Returns the number of sources seeded.
+ */
+export function seedSourceRegistry(
+  db: DatabaseConstructor.Database,
+  seeds: RegistrySource[] = [...sourceRegistry, ...twitterSearchSources],
+): number {
+  const seeded = db.prepare("SELECT COUNT(*) AS count FROM sources WHERE type IS NOT NULL").get() as { count: number };
+  if (seeded.count > 0) {
+    return 0;
+  }
+
+  const findExisting = db.prepare(
+    "SELECT id FROM sources WHERE name = ? UNION ALL SELECT id FROM sources WHERE url = ? LIMIT 1",
+  );
+
+  const txn = db.transaction(() => {
+    for (const source of seeds) {
+      const existing = findExisting.get(source.name, source.url) as { id: number } | undefined;
+      if (existing) {
+        updateSource(db, existing.id, source);
+      } else {
+        createSource(db, source);
+      }
+    }
+  });
+
+  txn();
+  return seeds.length;
+}
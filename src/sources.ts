@@ -2,9 +2,23 @@
  * Expanded Source Registry: ~75 sources covering 35+ jurisdictions.
  * US Federal/States, EU + DPAs, UK, Australia, Canada, APAC, LATAM, Middle East, Africa.
  * Includes government pages, RSS feeds, legal analyses, and think tanks.
+ *
+ * The live registry is the `sources` table; these arrays only seed it on first start
+ * (see `seedSourceRegistry`). Add or edit sources through `/api/sources`.
  */
 
-export type SourceType = "government_page" | "rss_feed" | "news_search" | "legal_database" | "twitter_search";
+export const sourceTypes = [
+  "government_page",
+  "rss_feed",
+  "news_search",
+  "legal_database",
+  "twitter_search",
+  "legislature_api",
+] as const;
+
+export type SourceType = (typeof sourceTypes)[number];
+
+export const authorityTypes = ["national", "state", "local", "supranational"] as const;
 
 export type ReliabilityTier = 1 | 2 | 3 | 4 | 5;
 
@@ -12,7 +26,7 @@ export type RegistrySource = {
   name: string;
   url: string;
   type: SourceType;
-  authorityType: "national" | "state" | "local" | "supranational";
+  authorityType: (typeof authorityTypes)[number];
   jurisdiction: string;
   jurisdictionCountry: string;
   jurisdictionState?: string;
@@ -20,15 +34,40 @@ export type RegistrySource = {
   searchKeywords?: string[];
   description: string;
   twitterQuery?: string;
+  /** Cron expression (5 fields, UTC) overriding the default crawl cadence for this source */
+  schedule?: string;
+  /** Maximum new items taken from an RSS/Atom feed per crawl (across paginated pages) */
+  maxFeedItems?: number;
+  /** Maximum linked PDF/DOCX documents fetched from this page per crawl (0 disables) */
+  maxDocumentLinks?: number;
+  /** Follow-links mode for index pages: how many link hops to follow from the page (0 = off) */
+  linkFollowDepth?: number;
+  /** Regular expression a linked URL must match to be followed; defaults to same-host links */
+  linkIncludePattern?: string;
+  /** Maximum linked pages visited per crawl in follow-links mode */
+  maxFollowedLinks?: number;
+  /**
+   * Execute the page's scripts in a headless browser before extraction. Set automatically
+   * when a crawl finds a thin page; false opts the source out of that detection.
+   */
+  render?: boolean;
 };
 
-const TWITTER_RECENT_SEARCH_URL = "https://api.twitter.com/2/tweets/search/recent";
+/**
+ * X search sources link to the public search page for their query, so each one has its own
+ * viewable URL (the crawler itself calls the recent-search API with `twitterQuery`).
+ */
+function twitterSearchSource(source: Omit<RegistrySource, "url" | "type"> & { twitterQuery: string }): RegistrySource {
+  return {
+    ...source,
+    url: `https://x.com/search?q=${encodeURIComponent(source.twitterQuery)}&f=live`,
+    type: "twitter_search",
+  };
+}
 
 export const twitterSearchSources: RegistrySource[] = [
-  {
+  twitterSearchSource({
     name: "X Search — Under 16 / COPPA",
-    url: TWITTER_RECENT_SEARCH_URL,
-    type: "twitter_search",
     authorityType: "supranational",
     jurisdiction: "Global",
     jurisdictionCountry: "Global",
@@ -37,11 +76,9 @@ export const twitterSearchSources: RegistrySource[] = [
     description: "X recent search for under-16 and COPPA regulatory updates",
     twitterQuery:
       '"under 16" OR "under 16s" OR COPPA OR "age verification" (regulation OR law OR bill) -is:retweet',
-  },
-  {
+  }),
+  twitterSearchSource({
     name: "X Search — Meta Child Safety",
-    url: TWITTER_RECENT_SEARCH_URL,
-    type: "twitter_search",
     authorityType: "supranational",
     jurisdiction: "Global",
     jurisdictionCountry: "Global",
@@ -50,11 +87,9 @@ export const twitterSearchSources: RegistrySource[] = [
     description: "X recent search for Meta/Facebook/Instagram/WhatsApp child safety and privacy updates",
     twitterQuery:
       '(Meta OR Facebook OR Instagram) ("child safety" OR "children\'s privacy" OR "minor") -is:retweet',
-  },
-  {
+  }),
+  twitterSearchSource({
     name: "X Search — DSA / OSA / KOSA",
-    url: TWITTER_RECENT_SEARCH_URL,
-    type: "twitter_search",
     authorityType: "supranational",
     jurisdiction: "Global",
     jurisdictionCountry: "Global",
@@ -63,11 +98,9 @@ export const twitterSearchSources: RegistrySource[] = [
     description: "X recent search for DSA/OSA/KOSA updates related to minors",
     twitterQuery:
       '("Digital Services Act" OR DSA OR "Online Safety Act" OR "KOSA") (children OR minors) -is:retweet',
-  },
-  {
+  }),
+  twitterSearchSource({
     name: "X Search — TikTok/Snap/YouTube Compliance",
-    url: TWITTER_RECENT_SEARCH_URL,
-    type: "twitter_search",
     authorityType: "supranational",
     jurisdiction: "Global",
     jurisdictionCountry: "Global",
@@ -76,7 +109,7 @@ export const twitterSearchSources: RegistrySource[] = [
     description: "X recent search for platform age verification and child-protection compliance",
     twitterQuery:
       '(TikTok OR Snapchat OR YouTube) ("age verification" OR "parental consent") compliance -is:retweet',
-  },
+  }),
 ];
 
 export const sourceRegistry: RegistrySource[] = [
@@ -104,6 +137,9 @@ export const sourceRegistry: RegistrySource[] = [
     reliabilityTier: 5,
     searchKeywords: ["COPPA", "FTC enforcement", "children privacy"],
     description: "FTC rolling feed of COPPA press releases, enforcement actions, and statements",
+    linkFollowDepth: 1,
+    linkIncludePattern: "^https://www\\.ftc\\.gov/news-events/news/press-releases/",
+    maxFollowedLinks: 10,
   },
   {
     name: "FTC Children's Privacy Business Guidance",
@@ -859,6 +895,45 @@ export const sourceRegistry: RegistrySource[] = [
     description: "Expert roundtable on 2026 state legislative outlook (Jan 2026)",
   },
 
+  // ══════════════════════════════════════════════════════════
+  // LEGISLATURE APIs — bill status straight from the legislature
+  // ══════════════════════════════════════════════════════════
+  {
+    name: "Congress.gov — S. 1748 Kids Online Safety Act",
+    url: "https://api.congress.gov/v3/bill/119/s/1748",
+    type: "legislature_api",
+    authorityType: "national",
+    jurisdiction: "United States",
+    jurisdictionCountry: "United States",
+    reliabilityTier: 5,
+    searchKeywords: ["KOSA", "Kids Online Safety Act"],
+    description: "Congress.gov bill record and actions for the Kids Online Safety Act (needs CONGRESS_GOV_API_KEY)",
+  },
+  {
+    name: "Open States — Social Media and Minors Bills",
+    url: "https://v3.openstates.org/bills?q=%22social%20media%22%20minors&sort=updated_desc&per_page=20",
+    type: "legislature_api",
+    authorityType: "state",
+    jurisdiction: "United States (states)",
+    jurisdictionCountry: "United States",
+    reliabilityTier: 5,
+    searchKeywords: ["social media", "minors", "age verification"],
+    description: "State bills on social media and minors with their action history (needs OPENSTATES_API_KEY)",
+    maxFeedItems: 20,
+  },
+  {
+    name: "UK Parliament — Children's Online Safety Bills",
+    url: "https://bills-api.parliament.uk/api/v1/Bills?SearchTerm=children&SortOrder=DateUpdatedDescending",
+    type: "legislature_api",
+    authorityType: "national",
+    jurisdiction: "United Kingdom",
+    jurisdictionCountry: "United Kingdom",
+    reliabilityTier: 5,
+    searchKeywords: ["children", "online safety", "bill stages"],
+    description: "UK Parliament bills about children with their stages in both Houses",
+    maxFeedItems: 10,
+  },
+
   // ══════════════════════════════════════════════════════════
   // RSS FEEDS — Google News (5 items per feed)
   // ══════════════════════════════════════════════════════════
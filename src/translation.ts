@@ -0,0 +1,25 @@
+/**
+ * English translation of the original-language excerpts stored with events, so reviewers can
+ * check a summary against the source wording. The original excerpt is always kept as well.
+ */
+
+import { languageName } from "./language";
+import { resolveLlmProvider, type LlmProvider } from "./llm-provider";
+
+function buildTranslationPrompt(text: string, language: string): string {
+  return `Translate the following ${languageName(language)} text into English.
+
+Keep the structure (headings, list items, paragraphs), numbers, dates, article and section references. After the English name of a law, bill or authority, give its original name in parentheses the first time it appears. Do not summarize, explain or comment.
+
+Respond with ONLY the translation.
+
+--- TEXT ---
+${text}`;
+}
+
+/** English translation of `text`; throws when the request fails or the reply is empty */
+export async function translateToEnglish(text: string, language: string, llm: LlmProvider | string): Promise<string> {
+  const reply = (await resolveLlmProvider(llm).complete(buildTranslationPrompt(text, language))).trim();
+  if (!reply) throw new Error("empty translation");
+  return reply;
+}
@@ -0,0 +1,157 @@
+/**
+ * First-stage relevance triage: a cheap local classifier that decides, with a confidence
+ * score, whether a crawled item is worth the full extraction prompt. Keyword signals give a
+ * prior; once reviewers have rated enough events in `feedback`, a naive Bayes model trained
+ * on the good/bad ratings is blended in.
+ */
+
+import { type CrawledItem } from "./crawler";
+import { type FeedbackExample } from "./db";
+import { needsTranslation } from "./language";
+
+/** Items scoring below this skip full extraction (override with TRIAGE_THRESHOLD) */
+export const DEFAULT_TRIAGE_THRESHOLD = 0.3;
+/** Ratings of each kind needed before the feedback model takes part */
+export const MIN_FEEDBACK_PER_RATING = 3;
+
+/** The analyzer only reads this much of an item */
+const TEXT_LIMIT = 8000;
+
+const childSignal = /(child|children|teen|minor|under\s*1[368]|youth|coppa|\bkids?\b|age verification|age assurance|parental)/;
+const regulatorySignal =
+  /(regulation|regulator|\blaw\b|\bbill\b|legislation|\bact\b|guidance|guideline|code of practice|compliance|consultation|\bdsa\b|kosa|online safety|enforcement|commission|parliament|senate|congress|ofcom|\bftc\b)/;
+// "Under 16" in sports coverage is an age group, not a regulation
+const sportsNoise =
+  /\b(football|soccer|cricket|rugby|hockey|basketball|netball|tournament|league|squad|fixtures?|championship|semi-final|cup final|goals?|scored)\b/;
+
+const stopWords = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "has", "have", "had", "was", "were", "will",
+  "with", "this", "that", "from", "they", "their", "them", "its", "our", "your", "which", "who", "what", "when",
+  "into", "than", "then", "there", "these", "those", "been", "being", "also", "more", "such", "may", "must", "should",
+]);
+
+export type TriageDecision = {
+  /** Whether the item goes on to full extraction */
+  relevant: boolean;
+  /** Estimated probability that the item is relevant, 0–1 */
+  score: number;
+  /** Distance of the score from the threshold, scaled to 0–1 */
+  confidence: number;
+};
+
+export type Triage = {
+  threshold: number;
+  /** Rated events the feedback model was trained on; 0 while there are too few ratings */
+  trainedOn: number;
+  decide: (item: CrawledItem) => TriageDecision;
+};
+
+type RatingCounts = {
+  documents: number;
+  tokens: Map<string, number>;
+  totalTokens: number;
+};
+
+function tokenize(text: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const token of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    if (token.length >= 3 && !stopWords.has(token)) tokens.add(token);
+  }
+  return tokens;
+}
+
+/** Keyword prior: minors and regulation together are a strong signal, either alone a weak one */
+function keywordScore(text: string): number {
+  const lower = text.toLowerCase();
+  const child = childSignal.test(lower);
+  const regulatory = regulatorySignal.test(lower);
+  if (child && regulatory) return 0.9;
+  if (child) return sportsNoise.test(lower) ? 0.1 : 0.5;
+  if (regulatory) return 0.35;
+  return 0.05;
+}
+
+function countTokens(examples: FeedbackExample[], rating: FeedbackExample["rating"]): RatingCounts {
+  const counts: RatingCounts = { documents: 0, tokens: new Map(), totalTokens: 0 };
+  for (const example of examples) {
+    if (example.rating !== rating) continue;
+    counts.documents++;
+    // Each word counts once per document, so long pages do not drown out short ones
+    for (const token of tokenize(example.text.slice(0, TEXT_LIMIT))) {
+      counts.tokens.set(token, (counts.tokens.get(token) ?? 0) + 1);
+      counts.totalTokens++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Naive Bayes probability that text resembles the well-rated events. Class priors are left
+ * even: reviewers rate what they notice, so the good/bad ratio says little about new items.
+ */
+function feedbackScore(good: RatingCounts, bad: RatingCounts, vocabularySize: number, text: string): number {
+  let logOdds = 0;
+  for (const token of tokenize(text)) {
+    const goodCount = good.tokens.get(token) ?? 0;
+    const badCount = bad.tokens.get(token) ?? 0;
+    if (goodCount === 0 && badCount === 0) continue;
+    logOdds +=
+      Math.log((goodCount + 1) / (good.totalTokens + vocabularySize)) - Math.log((badCount + 1) / (bad.totalTokens + vocabularySize));
+  }
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+function confidenceFor(score: number, threshold: number, relevant: boolean): number {
+  const range = relevant ? 1 - threshold : threshold;
+  if (range <= 0) return 1;
+  return Math.min(1, Math.abs(score - threshold) / range);
+}
+
+/** TRIAGE_THRESHOLD when it is a number from 0 to 1, otherwise the default */
+export function triageThresholdFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env.TRIAGE_THRESHOLD;
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 && value <= 1 ? value : DEFAULT_TRIAGE_THRESHOLD;
+}
+
+/**
+ * Build a triage classifier from rated events (see `getFeedbackExamples`). A threshold of 0
+ * lets every item through.
+ */
+export function createTriage(examples: FeedbackExample[], threshold = DEFAULT_TRIAGE_THRESHOLD): Triage {
+  const good = countTokens(examples, "good");
+  const bad = countTokens(examples, "bad");
+  const trained = good.documents >= MIN_FEEDBACK_PER_RATING && bad.documents >= MIN_FEEDBACK_PER_RATING;
+  const vocabularySize = new Set([...good.tokens.keys(), ...bad.tokens.keys()]).size;
+
+  return {
+    threshold,
+    trainedOn: trained ? good.documents + bad.documents : 0,
+    decide: (item) => {
+      // Bills come from legislature searches that are already scoped to minors
+      if (item.bill) return { relevant: true, score: 1, confidence: 1 };
+
+      const text = `${item.title}\n${item.text.slice(0, TEXT_LIMIT)}`;
+      // The keyword signals are English; items in other languages start undecided
+      const prior = needsTranslation(item.language) ? 0.5 : keywordScore(text);
+      const score = trained ? (prior + feedbackScore(good, bad, vocabularySize, text)) / 2 : prior;
+      const relevant = score >= threshold;
+      return { relevant, score, confidence: confidenceFor(score, threshold, relevant) };
+    },
+  };
+}
+
+/** Split items into those passed on to full extraction and those triaged out */
+export function triageItems(
+  items: CrawledItem[],
+  triage: Triage,
+): { passed: CrawledItem[]; rejected: Array<{ item: CrawledItem; decision: TriageDecision }> } {
+  const passed: CrawledItem[] = [];
+  const rejected: Array<{ item: CrawledItem; decision: TriageDecision }> = [];
+  for (const item of items) {
+    const decision = triage.decide(item);
+    if (decision.relevant) passed.push(item);
+    else rejected.push({ item, decision });
+  }
+  return { passed, rejected };
+}
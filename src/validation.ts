@@ -1,3 +1,8 @@
+import { type SourcePatch } from "./db";
+import { legislatureConnectorForUrl } from "./legislature-connectors";
+import { nextCronRun, parseCronExpression } from "./scheduler";
+import { authorityTypes, sourceTypes } from "./sources";
+
 export type Scoring = {
   impactScore: number;
   likelihoodScore: number;
@@ -47,3 +52,177 @@ export function validateScoringBounds(scoring: unknown): ValidationResult {
   };
 }
 
+
+const requiredSourceFields = [
+  "name",
+  "url",
+  "type",
+  "authorityType",
+  "jurisdiction",
+  "jurisdictionCountry",
+  "reliabilityTier",
+  "description",
+] as const;
+
+const sourceCountFields = ["maxFeedItems", "maxDocumentLinks", "linkFollowDepth", "maxFollowedLinks"] as const;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const protocol = new URL(value).protocol;
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a source body for `POST /api/sources` (full) or `PATCH /api/sources/:id` (partial).
+ * In a partial update, null clears an optional field. Unknown fields are rejected.
+ */
+export function validateSourceInput(
+  input: unknown,
+  options: { partial?: boolean } = {},
+): ValidationResult & { value: SourcePatch } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { valid: false, errors: ["body must be an object"], value: {} };
+  }
+
+  const candidate = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+  const knownFields = new Set<string>([
+    ...requiredSourceFields,
+    ...sourceCountFields,
+    "jurisdictionState",
+    "searchKeywords",
+    "twitterQuery",
+    "schedule",
+    "linkIncludePattern",
+    "render",
+    "enabled",
+  ]);
+
+  for (const field of Object.keys(candidate)) {
+    if (!knownFields.has(field)) errors.push(`unknown field: ${field}`);
+  }
+
+  for (const field of requiredSourceFields) {
+    if (candidate[field] === undefined) {
+      if (!options.partial) errors.push(`${field} is required`);
+      continue;
+    }
+    const raw = candidate[field];
+
+    if (field === "reliabilityTier") {
+      if (!Number.isInteger(raw) || (raw as number) < 1 || (raw as number) > 5) {
+        errors.push("reliabilityTier must be an integer between 1 and 5");
+      } else {
+        value[field] = raw;
+      }
+    } else if (!isNonEmptyString(raw)) {
+      errors.push(`${field} must be a non-empty string`);
+    } else if (field === "url" && !isHttpUrl(raw.trim())) {
+      errors.push("url must be an http(s) URL");
+    } else if (field === "type" && !(sourceTypes as readonly string[]).includes(raw)) {
+      errors.push(`type must be one of ${sourceTypes.join(", ")}`);
+    } else if (field === "authorityType" && !(authorityTypes as readonly string[]).includes(raw)) {
+      errors.push(`authorityType must be one of ${authorityTypes.join(", ")}`);
+    } else {
+      value[field] = raw.trim();
+    }
+  }
+
+  for (const field of ["jurisdictionState", "twitterQuery", "schedule", "linkIncludePattern"] as const) {
+    const raw = candidate[field];
+    if (raw === undefined) continue;
+    if (raw === null) {
+      value[field] = null;
+    } else if (!isNonEmptyString(raw)) {
+      errors.push(`${field} must be a non-empty string or null`);
+    } else if (field === "schedule" && !isValidCron(raw)) {
+      errors.push("schedule must be a 5-field cron expression");
+    } else if (field === "schedule" && !cronFires(raw)) {
+      errors.push("schedule must fire at least once a year");
+    } else if (field === "linkIncludePattern" && !isValidRegExp(raw)) {
+      errors.push("linkIncludePattern must be a valid regular expression");
+    } else {
+      value[field] = raw.trim();
+    }
+  }
+
+  for (const field of sourceCountFields) {
+    const raw = candidate[field];
+    if (raw === undefined) continue;
+    if (raw !== null && (!Number.isInteger(raw) || (raw as number) < 0)) {
+      errors.push(`${field} must be a non-negative integer or null`);
+    } else {
+      value[field] = raw;
+    }
+  }
+
+  if (candidate.searchKeywords !== undefined) {
+    const raw = candidate.searchKeywords;
+    if (raw !== null && (!Array.isArray(raw) || !raw.every(isNonEmptyString))) {
+      errors.push("searchKeywords must be an array of non-empty strings or null");
+    } else {
+      value.searchKeywords = raw === null ? null : raw.map((keyword: string) => keyword.trim());
+    }
+  }
+
+  if (candidate.render !== undefined) {
+    if (candidate.render !== null && typeof candidate.render !== "boolean") {
+      errors.push("render must be a boolean or null");
+    } else {
+      value.render = candidate.render;
+    }
+  }
+
+  if (candidate.enabled !== undefined) {
+    if (typeof candidate.enabled !== "boolean") {
+      errors.push("enabled must be a boolean");
+    } else {
+      value.enabled = candidate.enabled;
+    }
+  }
+
+  if (!options.partial && value.type === "twitter_search" && !value.twitterQuery) {
+    errors.push("twitterQuery is required for twitter_search sources");
+  }
+  if (!options.partial && value.type === "legislature_api" && typeof value.url === "string" && !legislatureConnectorForUrl(value.url)) {
+    errors.push("url must be a Congress.gov, Open States or UK Parliament bills API URL for legislature_api sources");
+  }
+
+  return { valid: errors.length === 0, errors, value: value as SourcePatch };
+}
+
+function isValidCron(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A valid expression can still name a date that never comes, e.g. 30 February */
+function cronFires(expression: string): boolean {
+  try {
+    nextCronRun(expression, new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
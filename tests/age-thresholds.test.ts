@@ -0,0 +1,153 @@
+import request from "supertest";
+import { analyzeItem, type AgeThreshold } from "../src/analyzer";
+import { createApp } from "../src/app";
+import { type CrawledItem } from "../src/crawler";
+import { backfillLawsFromEvents, ensureSource, initializeSchema, openDatabase, upsertEvent } from "../src/db";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const source: RegistrySource = {
+  name: "Regulation tracker",
+  url: "https://tracker.example.org",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Global",
+  jurisdictionCountry: "Global",
+  reliabilityTier: 4,
+  description: "Test source",
+};
+
+describe("age threshold extraction", () => {
+  it("keeps whole ages in range and drops thresholds without a usable age", async () => {
+    const item: CrawledItem = {
+      source,
+      url: "https://tracker.example.org/france",
+      title: "France social media law",
+      text: "Social networks must refuse accounts to children under 15 without parental consent.",
+      fetchedAt: new Date().toISOString(),
+    };
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              relevant: true,
+              title: "France social media majority law",
+              jurisdiction: "France",
+              stage: "enacted",
+              ageBracket: "13-15",
+              summary: "Under-15s need parental consent for social media.",
+              impactScore: 4,
+              likelihoodScore: 5,
+              confidenceScore: 4,
+              chiliScore: 4,
+              ageThresholds: [
+                { minAge: null, maxAge: 14, rule: "parental_consent", text: "Parental consent for accounts under 15" },
+                { minAge: 18, maxAge: 13, rule: "other", text: "Reversed" },
+                { minAge: null, maxAge: 40, rule: "ban", text: "Out of range" },
+              ],
+            }),
+          },
+        ],
+      }),
+    }) as unknown as typeof fetch;
+
+    const result = await analyzeItem(item, "test-key");
+    expect(result!.ageThresholds).toEqual([
+      { minAge: null, maxAge: 14, rule: "parental_consent", text: "Parental consent for accounts under 15" },
+    ]);
+  });
+});
+
+describe("filtering by age", () => {
+  function seed() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const sourceId = ensureSource(db, source);
+    const addEvent = (country: string, title: string, ageBracket: "13-15" | "16-18" | "both", ageThresholds?: AgeThreshold[]) =>
+      upsertEvent(db, {
+        title,
+        jurisdictionCountry: country,
+        jurisdictionState: null,
+        stage: "enacted",
+        isUnder16Applicable: true,
+        ageBracket,
+        impactScore: 4,
+        likelihoodScore: 4,
+        confidenceScore: 4,
+        chiliScore: 4,
+        summary: title,
+        businessImpact: null,
+        requiredSolutions: null,
+        affectedProducts: null,
+        competitorResponses: null,
+        rawText: title,
+        sourceUrlLink: `https://tracker.example.org/${country.toLowerCase()}`,
+        effectiveDate: null,
+        publishedDate: "2026-01-10",
+        sourceId,
+        ageThresholds,
+      });
+
+    addEvent("Spain", "Spain minors digital protection law", "13-15", [
+      { minAge: null, maxAge: 13, rule: "parental_consent", text: "Parental consent for data processing under 14" },
+    ]);
+    addEvent("France", "France social media majority law", "13-15", [
+      { minAge: null, maxAge: 14, rule: "parental_consent", text: "Parental consent for accounts under 15" },
+    ]);
+    addEvent("Australia", "Australia social media minimum age", "13-15", [
+      { minAge: null, maxAge: 15, rule: "ban", text: "No social media accounts under 16" },
+    ]);
+    // Analyzed before exact ages were extracted: only its bracket says who it affects
+    addEvent("Germany", "Germany youth protection amendments", "16-18");
+    backfillLawsFromEvents(db);
+    return db;
+  }
+
+  it("GET /api/events?age= returns the events whose thresholds or bracket cover the age", async () => {
+    const db = seed();
+    const app = createApp(db);
+
+    const countries = async (age: number) =>
+      ((await request(app).get(`/api/events?age=${age}`).expect(200)).body.items as Array<{ jurisdiction: { country: string } }>)
+        .map((event) => event.jurisdiction.country)
+        .sort();
+    expect(await countries(13)).toEqual(["Australia", "France", "Spain"]);
+    expect(await countries(15)).toEqual(["Australia"]);
+    expect(await countries(17)).toEqual(["Germany"]);
+    expect(await countries(19)).toEqual([]);
+
+    const invalid = await request(app).get("/api/events?age=abc").expect(400);
+    expect(invalid.body).toEqual({ error: "age must be an integer between 0 and 21" });
+    db.close();
+  });
+
+  it("GET /api/laws?age= returns the laws affecting that age", async () => {
+    const db = seed();
+    const app = createApp(db);
+
+    const response = await request(app).get("/api/laws?age=14").expect(200);
+    expect((response.body.items as Array<{ jurisdiction: { country: string } }>).map((law) => law.jurisdiction.country).sort()).toEqual([
+      "Australia",
+      "France",
+    ]);
+    await request(app).get("/api/laws?age=-1").expect(400);
+    db.close();
+  });
+
+  it("returns the exact thresholds in the event detail", async () => {
+    const db = seed();
+    const { id } = db.prepare("SELECT id FROM regulation_events WHERE jurisdiction_country = 'Australia'").get() as { id: string };
+
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+    expect(detail.body.ageThresholds).toEqual([{ minAge: null, maxAge: 15, rule: "ban", text: "No social media accounts under 16" }]);
+    db.close();
+  });
+});
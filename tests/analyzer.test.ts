@@ -1,5 +1,11 @@
-import { analyzeItem, analyzeItems, type AnalysisResult } from "../src/analyzer";
+import request from "supertest";
+import { ANALYSIS_PROMPT_VERSION, analyzeItem, analyzeItems, type AnalysisFailure, type AnalysisResult } from "../src/analyzer";
+import { createApp } from "../src/app";
 import { type CrawledItem } from "../src/crawler";
+import { createAnalysisCache, getLatestCrawlRun, initializeSchema, openDatabase } from "../src/db";
+import { createLlmProvider, llmConfigFromEnv } from "../src/llm-provider";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
 import { type RegistrySource } from "../src/sources";
 
 const originalFetch = global.fetch;
@@ -227,3 +233,341 @@ describe("analyzeItems", () => {
     expect(progress).toHaveLength(2);
   });
 });
+
+describe("response validation", () => {
+  const validResponse = {
+    relevant: true,
+    title: "Repaired Finding",
+    jurisdiction: "United States",
+    stage: "proposed",
+    ageBracket: "both",
+    summary: "A repaired summary.",
+    impactScore: 3,
+    likelihoodScore: 3,
+    confidenceScore: 3,
+    chiliScore: 3,
+  };
+
+  /** Reply with each text in turn, repeating the last one */
+  function mockReplies(...texts: string[]) {
+    const fetchMock = jest.fn(async (_url: string, _init: { body: string }) => {
+      const index = Math.min(fetchMock.mock.calls.length - 1, texts.length - 1);
+      return { ok: true, json: async () => ({ content: [{ type: "text", text: texts[index] }] }) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  function promptOf(call: unknown[]): string {
+    return JSON.parse((call[1] as { body: string }).body).messages[0].content;
+  }
+
+  it("sends validation errors back to the model and uses the repaired reply", async () => {
+    const fetchMock = mockReplies(
+      JSON.stringify({ ...validResponse, summary: undefined, ageBracket: "teens" }),
+      JSON.stringify(validResponse),
+    );
+    const failures: AnalysisFailure[] = [];
+
+    const result = await analyzeItem(testItem, "test-api-key", { onFailure: (failure) => failures.push(failure) });
+    expect(result).toMatchObject({ relevant: true, title: "Repaired Finding" });
+    expect(failures).toEqual([]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const repairPrompt = promptOf(fetchMock.mock.calls[1]);
+    expect(repairPrompt).toContain("--- VALIDATION ERRORS ---");
+    expect(repairPrompt).toContain("- response must have required property 'summary'");
+    expect(repairPrompt).toContain("- ageBracket must be one of: 13-15, 16-18, both");
+    expect(repairPrompt).toContain('"ageBracket":"teens"');
+  });
+
+  it("gives up after the repair attempts and reports the raw reply", async () => {
+    const fetchMock = mockReplies("I cannot determine this.");
+    const failures: AnalysisFailure[] = [];
+
+    expect(await analyzeItem(testItem, "test-api-key", { onFailure: (failure) => failures.push(failure) })).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(failures).toEqual([
+      {
+        item: testItem,
+        kind: "invalid_response",
+        errors: ["response is not a JSON object"],
+        rawResponse: "I cannot determine this.",
+        attempts: 3,
+        model: "MiniMax-M2.5",
+      },
+    ]);
+  });
+
+  it("honours ANALYSIS_REPAIR_ATTEMPTS", async () => {
+    const original = process.env.ANALYSIS_REPAIR_ATTEMPTS;
+    process.env.ANALYSIS_REPAIR_ATTEMPTS = "0";
+    try {
+      const fetchMock = mockReplies(JSON.stringify({ relevant: "yes" }));
+      expect(await analyzeItem(testItem, "test-api-key")).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      if (original === undefined) delete process.env.ANALYSIS_REPAIR_ATTEMPTS;
+      else process.env.ANALYSIS_REPAIR_ATTEMPTS = original;
+    }
+  });
+
+  it("reports failed requests", async () => {
+    global.fetch = jest.fn().mockRejectedValue(new Error("Network error")) as unknown as typeof fetch;
+    const failures: AnalysisFailure[] = [];
+
+    await analyzeItems([testItem], "test-key", 1, undefined, { onFailure: (failure) => failures.push(failure) });
+    expect(failures).toMatchObject([{ kind: "request_failed", errors: ["Network error"], rawResponse: null, attempts: 1 }]);
+  });
+
+  it("records lost analyses for the crawl run", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [testSource]);
+    global.fetch = jest.fn(async (input: string) => {
+      if (String(input).startsWith("https://api.minimax.io/")) {
+        return { ok: true, json: async () => ({ content: [{ type: "text", text: '{"relevant": true, "title": ""}' }] }) };
+      }
+      return { ok: true, status: 200, text: async () => `<html><head><title>Test</title></head><body><main><p>${testItem.text}</p></main></body></html>` };
+    }) as unknown as typeof fetch;
+
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    expect(result).toMatchObject({ itemsCrawled: 1, itemsRelevant: 0, analysisFailures: 1 });
+
+    const app = createApp(db);
+    const response = await request(app).get(`/api/crawl/runs/${result.runId}/analysis-failures`).expect(200);
+    expect(response.body.total).toBe(1);
+    expect(response.body.items[0]).toMatchObject({
+      runId: result.runId,
+      sourceName: testSource.name,
+      url: testSource.url,
+      kind: "invalid_response",
+      rawResponse: '{"relevant": true, "title": ""}',
+      attempts: 3,
+    });
+    expect(response.body.items[0].errors).toContain("title must NOT have fewer than 1 characters");
+
+    const status = await request(app).get("/api/crawl/status").expect(200);
+    expect(status.body.analysisFailures).toBe(1);
+    await request(app).get("/api/crawl/runs/999/analysis-failures").expect(404, { error: "crawl run not found" });
+
+    db.close();
+  });
+
+  it("crawls an item whose analysis was lost again on the next run", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [testSource]);
+    global.fetch = jest.fn(async (input: string) => {
+      if (String(input).startsWith("https://api.minimax.io/")) {
+        return { ok: true, json: async () => ({ content: [{ type: "text", text: '{"relevant": true, "title": ""}' }] }) };
+      }
+      return { ok: true, status: 200, text: async () => `<html><head><title>Test</title></head><body><main><p>${testItem.text}</p></main></body></html>` };
+    }) as unknown as typeof fetch;
+    const options = { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null };
+
+    expect(await runPipeline(db, "test-key", options)).toMatchObject({ itemsCrawled: 1, analysisFailures: 1 });
+    expect(await runPipeline(db, "test-key", options)).toMatchObject({ itemsCrawled: 1, sourcesUnchanged: 0, analysisFailures: 1 });
+    db.close();
+  });
+});
+
+describe("analysis cache", () => {
+  const relevantResponse = {
+    relevant: true,
+    title: "Cached Finding",
+    jurisdiction: "United States",
+    stage: "proposed",
+    ageBracket: "both",
+    summary: "Cached summary.",
+    impactScore: 4,
+    likelihoodScore: 3,
+    confidenceScore: 4,
+    chiliScore: 4,
+  };
+
+  function setup() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    mockMiniMaxResponse(relevantResponse);
+    return { db, cache: createAnalysisCache(db), fetchMock: global.fetch as unknown as jest.Mock };
+  }
+
+  it("returns a stored analysis for the same input without calling the LLM", async () => {
+    const { db, cache, fetchMock } = setup();
+
+    const first = await analyzeItem(testItem, "test-api-key", { cache });
+    // Re-wrapped text is the same input
+    const second = await analyzeItem({ ...testItem, text: testItem.text.replace(/ /g, "\n  ") }, "test-api-key", { cache });
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(db.prepare("SELECT prompt_version, model, hit_count FROM analysis_cache").all()).toEqual([
+      { prompt_version: ANALYSIS_PROMPT_VERSION, model: "MiniMax-M2.5", hit_count: 1 },
+    ]);
+
+    await analyzeItem({ ...testItem, text: "Different text about children's online safety." }, "test-api-key", { cache });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    db.close();
+  });
+
+  it("ignores analyses made under another prompt version or model", async () => {
+    const { db, cache, fetchMock } = setup();
+    await analyzeItem(testItem, "test-api-key", { cache });
+
+    db.prepare("UPDATE analysis_cache SET prompt_version = ?").run(ANALYSIS_PROMPT_VERSION - 1);
+    await analyzeItem(testItem, "test-api-key", { cache });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const otherModel = createLlmProvider({ ...llmConfigFromEnv(), apiKey: "test-api-key", model: "other-model" });
+    await analyzeItem(testItem, otherModel, { cache });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    db.close();
+  });
+
+  it("does not cache failed analyses", async () => {
+    const { db, cache } = setup();
+    global.fetch = jest.fn().mockRejectedValue(new Error("Network error")) as unknown as typeof fetch;
+
+    expect(await analyzeItem(testItem, "test-api-key", { cache })).toBeNull();
+    expect(db.prepare("SELECT COUNT(*) AS count FROM analysis_cache").get()).toEqual({ count: 0 });
+    db.close();
+  });
+
+  it("counts hits and misses per crawl run", async () => {
+    const { db } = setup();
+    seedSourceRegistry(db, [testSource]);
+    global.fetch = jest.fn(async (input: string) => {
+      if (String(input).startsWith("https://api.minimax.io/")) {
+        return { ok: true, json: async () => ({ content: [{ type: "text", text: JSON.stringify(relevantResponse) }] }) };
+      }
+      return { ok: true, status: 200, text: async () => `<html><head><title>Test</title></head><body><main><p>${testItem.text}</p></main></body></html>` };
+    }) as unknown as typeof fetch;
+    const options = { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null, conditionalFetch: false, trackPageChanges: false };
+
+    const first = await runPipeline(db, "test-key", options);
+    expect(first).toMatchObject({ analysisCacheHits: 0, analysisCacheMisses: 1 });
+    const second = await runPipeline(db, "test-key", options);
+    expect(second).toMatchObject({ analysisCacheHits: 1, analysisCacheMisses: 0, itemsRelevant: 1 });
+
+    const llmCalls = (global.fetch as unknown as jest.Mock).mock.calls.filter(([input]) => String(input).startsWith("https://api.minimax.io/"));
+    expect(llmCalls).toHaveLength(1);
+    expect(getLatestCrawlRun(db)).toMatchObject({ id: second.runId, analysisCacheHits: 1, analysisCacheMisses: 0 });
+
+    const status = await request(createApp(db)).get("/api/crawl/status").expect(200);
+    expect(status.body).toMatchObject({ analysisCacheHits: 1, analysisCacheMisses: 0 });
+    db.close();
+  });
+});
+
+describe("long documents", () => {
+  const sections = Array.from({ length: 3 }, (_, i) =>
+    [
+      `## Part ${i + 1}`,
+      `Providers must complete duty ${i + 1} for users under 16.`,
+      "Background material on the consultation process. ".repeat(80).trim(),
+    ].join("\n\n"),
+  );
+  const longItem: CrawledItem = { ...testItem, title: "Online safety codes of practice", text: sections.join("\n\n") };
+
+  function mockChunkedReplies() {
+    const fetchMock = jest.fn(async (_input: string, init: RequestInit) => {
+      const prompt = JSON.parse(String(init.body)).messages[0].content as string;
+      const duty = prompt.match(/Providers must complete duty \d for users under 16\./)?.[0];
+      const text = prompt.startsWith("You are reading one section")
+        ? JSON.stringify({
+            provisions: duty ? [{ text: duty, quote: duty.replace(/ for /, "\n for ") }] : [],
+            dates: [],
+            ageThresholds: duty ? [{ age: "under 16", text: "Duties apply to users under 16", quote: "under 16" }] : [],
+          })
+        : JSON.stringify({
+            relevant: true,
+            title: "Online safety codes",
+            jurisdiction: "United Kingdom",
+            stage: "proposed",
+            ageBracket: "13-15",
+            summary: "Three duties for providers.",
+            impactScore: 4,
+            likelihoodScore: 4,
+            confidenceScore: 4,
+            chiliScore: 4,
+          });
+      return { ok: true, json: async () => ({ content: [{ type: "text", text }] }) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  function promptOf(call: unknown[]): string {
+    return JSON.parse(String((call[1] as RequestInit).body)).messages[0].content as string;
+  }
+
+  it("extracts claims chunk by chunk and merges them into one analysis", async () => {
+    const originalChunkSize = process.env.ANALYSIS_CHUNK_SIZE;
+    process.env.ANALYSIS_CHUNK_SIZE = "5000";
+    const fetchMock = mockChunkedReplies();
+
+    try {
+      const result = await analyzeItem(longItem, "test-api-key");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(promptOf(fetchMock.mock.calls[0])).toContain("--- SECTION 1 OF 3: Part 1 ---");
+
+      const reducePrompt = promptOf(fetchMock.mock.calls[3]);
+      expect(reducePrompt).toContain("read in 3 sections");
+      expect(reducePrompt).toContain("- [section 3] Provision: Providers must complete duty 3 for users under 16.");
+      expect(reducePrompt).toContain("- [section 2] Age threshold (under 16): Duties apply to users under 16");
+
+      expect(result).toMatchObject({ relevant: true, title: "Online safety codes", ageBracket: "13-15" });
+      const claims = result!.claims!;
+      expect(claims.map((claim) => [claim.kind, claim.chunkIndex])).toEqual([
+        ["provision", 0],
+        ["age_threshold", 0],
+        ["provision", 1],
+        ["age_threshold", 1],
+        ["provision", 2],
+        ["age_threshold", 2],
+      ]);
+      for (const claim of claims) {
+        expect(claim.start).not.toBeNull();
+        expect(longItem.text.slice(claim.start!, claim.end!).replace(/\s+/g, " ")).toBe(claim.quote.replace(/\s+/g, " "));
+      }
+      expect(claims[2].start).toBe(longItem.text.indexOf("Providers must complete duty 2"));
+    } finally {
+      if (originalChunkSize === undefined) delete process.env.ANALYSIS_CHUNK_SIZE;
+      else process.env.ANALYSIS_CHUNK_SIZE = originalChunkSize;
+    }
+  });
+
+  it("analyzes short items in a single request without claims", async () => {
+    const fetchMock = mockChunkedReplies();
+    const result = await analyzeItem(testItem, "test-api-key");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result?.claims).toBeUndefined();
+  });
+
+  it("stores claims with the event and returns them in event detail", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [testSource]);
+    const llmReplies = mockChunkedReplies();
+    global.fetch = jest.fn(async (input: string, init: RequestInit) => {
+      if (String(input).startsWith("https://api.minimax.io/")) return llmReplies(input, init);
+      const body = sections.map((section) => section.replace(/^## (.*)$/m, "<h2>$1</h2>").replace(/\n\n(?!<)/g, "<p>")).join("");
+      return { ok: true, status: 200, text: async () => `<html><head><title>Codes</title></head><body><main>${body}</main></body></html>` };
+    }) as unknown as typeof fetch;
+
+    await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    const { id } = db.prepare("SELECT id FROM regulation_events").get() as { id: string };
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+    expect(detail.body.claims.length).toBeGreaterThan(0);
+    expect(detail.body.claims[0]).toEqual({
+      kind: "provision",
+      text: "Providers must complete duty 1 for users under 16.",
+      value: null,
+      quote: "Providers must complete duty 1\n for users under 16.",
+      chunkIndex: 0,
+      start: expect.any(Number),
+      end: expect.any(Number),
+    });
+    db.close();
+  });
+});
@@ -0,0 +1,58 @@
+import { chunkText, locateQuote } from "../src/chunking";
+
+function section(heading: string, sentence: string, repeat: number): string {
+  return `${heading}\n\n${Array.from({ length: repeat }, () => sentence).join(" ")}\n\n`;
+}
+
+describe("chunkText", () => {
+  it("breaks at section headings and packs short sections together", () => {
+    const text = [
+      section("# Online Safety Bill", "Preamble text about services.", 5),
+      section("Part 1 Duties of care", "Providers must assess risks to children.", 20),
+      section("Part 2 Age assurance", "Providers must use highly effective age assurance.", 15),
+      section("Schedule 1 Commencement", "Sections come into force on 1 January 2027.", 3),
+    ].join("");
+
+    const chunks = chunkText(text, 1200);
+    expect(chunks.map((chunk) => chunk.heading)).toEqual(["Online Safety Bill", "Part 2 Age assurance"]);
+    expect(chunks[1].text.startsWith("Part 2 Age assurance")).toBe(true);
+    expect(chunks[1].text).toContain("Schedule 1 Commencement");
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(text.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(1200);
+    }
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe(text);
+  });
+
+  it("splits an oversized section at paragraph and sentence breaks", () => {
+    const paragraph = "Operators must not profile children for advertising. ".repeat(10).trim();
+    const text = `Article 5\n\n${Array.from({ length: 8 }, () => paragraph).join("\n\n")}`;
+
+    const chunks = chunkText(text, 1500);
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.every((chunk) => chunk.heading === "Article 5")).toBe(true);
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.text.endsWith("\n\n")).toBe(true);
+    }
+    expect(chunks.map((chunk) => chunk.text).join("")).toBe(text);
+  });
+
+  it("recognises headings in other languages", () => {
+    const text = `Art. 1º Esta Lei dispõe sobre a proteção de crianças.\n\n${"Texto. ".repeat(150)}\n\nArt. 2º Os fornecedores devem verificar a idade.\n\n${"Texto. ".repeat(150)}`;
+    expect(chunkText(text, 1200).map((chunk) => chunk.heading)).toEqual([
+      "Art. 1º Esta Lei dispõe sobre a proteção de crianças.",
+      "Art. 2º Os fornecedores devem verificar a idade.",
+    ]);
+  });
+});
+
+describe("locateQuote", () => {
+  it("finds quotes exactly or with different whitespace", () => {
+    const text = "Section 3.\nProviders must verify\nthe age of users under 16.";
+    expect(locateQuote(text, "Providers must verify")).toEqual({ start: 11, end: 32 });
+    const rewrapped = locateQuote(text, "verify the age of users");
+    expect(rewrapped && text.slice(rewrapped.start, rewrapped.end)).toBe("verify\nthe age of users");
+    expect(locateQuote(text, "users under 18")).toBeNull();
+    expect(locateQuote(text, "  ")).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { groundCitations, groundedConfidence } from "../src/citations";
+import { initializeSchema, openDatabase } from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const pageText =
+  "The Online Safety (Minors) Act requires platforms to verify the age of users under 16.\nIt comes into force on 1 March 2027. Breaches carry fines of up to 10% of global turnover.";
+
+describe("groundCitations", () => {
+  it("verifies quotes verbatim, re-wrapped or in another letter case", () => {
+    const grounded = groundCitations(
+      [
+        { claim: "age_threshold", quote: "verify the age of users under 16" },
+        { claim: "effective_date", quote: "users under 16. It comes into force" },
+        { claim: "penalty", quote: "breaches carry fines of up to 10%" },
+        { claim: "stage", quote: "The Act was signed into law" },
+      ],
+      pageText,
+    );
+    expect(grounded.map((citation) => citation.verified)).toEqual([true, true, true, false]);
+    expect(pageText.slice(grounded[0].start!, grounded[0].end!)).toBe("verify the age of users under 16");
+    expect(pageText.slice(grounded[1].start!, grounded[1].end!)).toBe("users under 16.\nIt comes into force");
+    expect(grounded[3]).toMatchObject({ start: null, end: null });
+  });
+
+  it("keeps offsets into the original text when a quote differs in case after a length-changing letter", () => {
+    const text = "İstanbul rules: Providers Must Verify the age of users.";
+    const [citation] = groundCitations([{ claim: "age_threshold", quote: "providers must verify" }], text);
+    expect(citation.verified).toBe(true);
+    expect(text.slice(citation.start!, citation.end!)).toBe("Providers Must Verify");
+  });
+
+  it("verifies quotes past the stored excerpt without giving them offsets", () => {
+    const [early, late] = groundCitations(
+      [
+        { claim: "age_threshold", quote: "verify the age of users under 16" },
+        { claim: "penalty", quote: "fines of up to 10% of global turnover" },
+      ],
+      pageText,
+      100,
+    );
+    expect(early).toMatchObject({ verified: true, start: expect.any(Number) });
+    expect(late).toMatchObject({ verified: true, start: null, end: null });
+  });
+
+  it("lowers confidence by one when some quotes fail and by two when all do", () => {
+    const verified = { claim: "stage" as const, quote: "a", verified: true, start: 0, end: 1 };
+    const unverified = { claim: "penalty" as const, quote: "b", verified: false, start: null, end: null };
+    expect(groundedConfidence(4, [])).toBe(4);
+    expect(groundedConfidence(4, [verified])).toBe(4);
+    expect(groundedConfidence(4, [verified, unverified])).toBe(3);
+    expect(groundedConfidence(4, [unverified, unverified])).toBe(2);
+    expect(groundedConfidence(2, [unverified])).toBe(1);
+  });
+});
+
+describe("citation-grounded pipeline", () => {
+  const source: RegistrySource = {
+    name: "Minors regulator",
+    url: "https://regulator.example.gov/minors",
+    type: "government_page",
+    authorityType: "national",
+    jurisdiction: "Exampleland",
+    jurisdictionCountry: "Exampleland",
+    reliabilityTier: 5,
+    description: "Regulator news",
+  };
+
+  function mockFetch(citations: Array<{ claim: string; quote: string }>) {
+    global.fetch = jest.fn(async (input: string) => {
+      if (String(input).startsWith("https://api.minimax.io/")) {
+        const text = JSON.stringify({
+          relevant: true,
+          title: "Online Safety (Minors) Act",
+          jurisdiction: "Exampleland",
+          stage: "enacted",
+          ageBracket: "both",
+          summary: "Platforms must verify the age of users under 16.",
+          impactScore: 4,
+          likelihoodScore: 5,
+          confidenceScore: 4,
+          chiliScore: 4,
+          effectiveDate: "2027-03-01",
+          citations,
+        });
+        return { ok: true, json: async () => ({ content: [{ type: "text", text }] }) };
+      }
+      return {
+        ok: true,
+        status: 200,
+        text: async () => `<html><head><title>Minors Act</title></head><body><main><p>${pageText}</p></main></body></html>`,
+      };
+    }) as unknown as typeof fetch;
+  }
+
+  async function runWith(citations: Array<{ claim: string; quote: string }>) {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [source]);
+    mockFetch(citations);
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    expect(result).toMatchObject({ itemsNew: 1, errors: [] });
+    return db;
+  }
+
+  it("keeps the confidence of verified quotes and returns their offsets in the event detail", async () => {
+    const db = await runWith([
+      { claim: "age_threshold", quote: "verify the age of users under 16" },
+      { claim: "effective_date", quote: "It comes into force on 1 March 2027." },
+    ]);
+    const { id } = db.prepare("SELECT id FROM regulation_events").get() as { id: string };
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+
+    expect(detail.body.scores.confidence).toBe(4);
+    expect(detail.body.citations).toEqual([
+      { claim: "age_threshold", quote: "verify the age of users under 16", verified: true, start: expect.any(Number), end: expect.any(Number) },
+      { claim: "effective_date", quote: "It comes into force on 1 March 2027.", verified: true, start: expect.any(Number), end: expect.any(Number) },
+    ]);
+    for (const citation of detail.body.citations) {
+      expect(detail.body.originalText.slice(citation.start, citation.end)).toBe(citation.quote);
+    }
+    db.close();
+  });
+
+  it("lowers the confidence score when quotes are not in the crawled text", async () => {
+    const db = await runWith([
+      { claim: "age_threshold", quote: "verify the age of users under 16" },
+      { claim: "penalty", quote: "fines of up to 4% of annual revenue" },
+    ]);
+    expect(db.prepare("SELECT confidence_score FROM regulation_events").get()).toEqual({ confidence_score: 3 });
+    expect(db.prepare("SELECT claim, verified, start_offset FROM event_citations ORDER BY id").all()).toEqual([
+      { claim: "age_threshold", verified: 1, start_offset: expect.any(Number) },
+      { claim: "penalty", verified: 0, start_offset: null },
+    ]);
+    db.close();
+  });
+});
@@ -0,0 +1,106 @@
+import fs from "node:fs";
+import path from "node:path";
+import { extractMainContent } from "../src/content-extractor";
+import { crawlSource } from "../src/crawler";
+import { type RegistrySource } from "../src/sources";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "regulator-pages");
+
+type PageExpectation = {
+  file: string;
+  strategy: "landmark" | "scored" | "body";
+  /** Main-content passages (as markdown) that must survive extraction */
+  keep: string[];
+  /** Navigation, banner, sidebar and footer text that must not */
+  drop: string[];
+};
+
+const expectations = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, "expectations.json"), "utf8")) as PageExpectation[];
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("extraction quality on saved regulator pages", () => {
+  const results = expectations.map((page) => {
+    const html = fs.readFileSync(path.join(FIXTURE_DIR, page.file), "utf8");
+    const extracted = extractMainContent(html);
+    return {
+      page,
+      extracted,
+      missing: page.keep.filter((passage) => !extracted.markdown.includes(passage)),
+      noise: page.drop.filter((passage) => extracted.markdown.includes(passage)),
+    };
+  });
+
+  it.each(results.map((result) => [result.page.file, result] as const))("%s keeps the content and drops the chrome", (_file, result) => {
+    expect(result.extracted.strategy).toBe(result.page.strategy);
+    expect(result.missing).toEqual([]);
+    expect(result.noise).toEqual([]);
+  });
+
+  it("reaches full recall with no boilerplate across the fixture set", () => {
+    const kept = results.reduce((total, result) => total + result.page.keep.length - result.missing.length, 0);
+    const expected = results.reduce((total, result) => total + result.page.keep.length, 0);
+    const noise = results.reduce((total, result) => total + result.noise.length, 0);
+
+    expect(results.length).toBeGreaterThanOrEqual(6);
+    expect(kept / expected).toBe(1);
+    expect(noise).toBe(0);
+  });
+});
+
+describe("extractMainContent", () => {
+  it("tolerates unclosed paragraphs and list items", () => {
+    const { markdown } = extractMainContent(
+      "<body><main><h2>Duties</h2><p>Platforms must verify the age of every account holder in the state.<p>Second paragraph" +
+        " about parental consent for minors.<ul><li>First duty<li>Second duty</ul></main></body>",
+    );
+    expect(markdown).toBe(
+      "## Duties\n\nPlatforms must verify the age of every account holder in the state.\n\n" +
+        "Second paragraph about parental consent for minors.\n\n- First duty\n- Second duty",
+    );
+  });
+
+  it("drops hidden elements and keeps line breaks inside a paragraph", () => {
+    const { markdown } = extractMainContent(
+      `<body><article><h1>Notice of proposed rulemaking</h1><div hidden>Subscribe to our newsletter</div>
+       <p>Comments are due by 1 March 2026.<br>Submit comments through the public docket for the children's privacy rule.</p>
+       <p style="display:none">Modal text</p></article></body>`,
+    );
+    expect(markdown).toBe(
+      "# Notice of proposed rulemaking\n\nComments are due by 1 March 2026.\nSubmit comments through the public docket for the children's privacy rule.",
+    );
+  });
+
+  it("falls back to the cleaned body when no block has enough text", () => {
+    const result = extractMainContent(`<body><nav><a href="/">Home</a></nav><div id="app"><p>Loading&hellip;</p></div></body>`);
+    expect(result).toEqual({ markdown: "Loading…", strategy: "body" });
+  });
+});
+
+describe("main content in crawlPage", () => {
+  const source: RegistrySource = {
+    name: "Ofcom Protecting Children",
+    url: "https://www.ofcom.org.uk/online-safety/protecting-children",
+    type: "government_page",
+    authorityType: "national",
+    jurisdiction: "United Kingdom",
+    jurisdictionCountry: "United Kingdom",
+    reliabilityTier: 5,
+    description: "Ofcom children's online safety codes",
+    maxDocumentLinks: 0,
+  };
+
+  it("sends the extracted markdown instead of whole-page text", async () => {
+    const html = fs.readFileSync(path.join(FIXTURE_DIR, "ofcom-guidance.html"), "utf8");
+    global.fetch = jest.fn(async () => ({ ok: true, status: 200, text: () => Promise.resolve(html) })) as unknown as typeof fetch;
+
+    const [item] = await crawlSource(source);
+    expect(item.text.startsWith("# Protecting children from harms online")).toBe(true);
+    expect(item.text).toContain("## What the Codes require");
+    expect(item.text).not.toContain("Accept additional cookies");
+  });
+});
@@ -1,4 +1,6 @@
-import { crawlSource, crawlAllSources, type CrawledItem } from "../src/crawler";
+import { commitCrawlCheckpoints, crawlSource, crawlAllSources, type CrawledItem } from "../src/crawler";
+import { createFetchCache, getFetchCacheEntry, initializeSchema, openDatabase } from "../src/db";
+import { runPipeline } from "../src/pipeline";
 import { type RegistrySource } from "../src/sources";
 
 // Mock fetch globally
@@ -176,3 +178,186 @@ describe("crawlAllSources", () => {
     expect(items.length).toBeGreaterThanOrEqual(1);
   });
 });
+
+describe("conditional fetching", () => {
+  function buildCache() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    return { db, cache: createFetchCache(db) };
+  }
+
+  function htmlResponse(body: string, headers: Record<string, string> = {}, status = 200) {
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: new Headers(headers),
+      text: () => Promise.resolve(body),
+    };
+  }
+
+  it("stores validators and sends them on the next request", async () => {
+    const { db, cache } = buildCache();
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(htmlResponse("<html><body>First version</body></html>", {
+        etag: '"abc"',
+        "last-modified": "Tue, 10 Mar 2026 10:00:00 GMT",
+      }))
+      .mockResolvedValueOnce(htmlResponse("", {}, 304));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const first = await crawlSource(testSource, { fetchCache: cache });
+    expect(first).toHaveLength(1);
+    // Validators are kept only once the item has been processed
+    expect(getFetchCacheEntry(db, testSource.url)).toBeNull();
+    commitCrawlCheckpoints(first, { fetchCache: cache });
+    expect(getFetchCacheEntry(db, testSource.url)?.etag).toBe('"abc"');
+
+    const second = await crawlSource(testSource, { fetchCache: cache });
+    expect(second).toHaveLength(0);
+    const sentHeaders = fetchMock.mock.calls[1][1].headers as Record<string, string>;
+    expect(sentHeaders["If-None-Match"]).toBe('"abc"');
+    expect(sentHeaders["If-Modified-Since"]).toBe("Tue, 10 Mar 2026 10:00:00 GMT");
+
+    db.close();
+  });
+
+  it("skips a 200 response whose content hash is unchanged", async () => {
+    const { db, cache } = buildCache();
+    global.fetch = jest.fn().mockResolvedValue(
+      htmlResponse("<html><body>Same content</body></html>"),
+    ) as unknown as typeof fetch;
+
+    const first = await crawlSource(testSource, { fetchCache: cache });
+    expect(first).toHaveLength(1);
+    commitCrawlCheckpoints(first, { fetchCache: cache });
+    expect(await crawlSource(testSource, { fetchCache: cache })).toHaveLength(0);
+
+    global.fetch = jest.fn().mockResolvedValue(
+      htmlResponse("<html><body>Changed content</body></html>"),
+    ) as unknown as typeof fetch;
+    expect(await crawlSource(testSource, { fetchCache: cache })).toHaveLength(1);
+
+    db.close();
+  });
+
+  it("holds back a response's validators while one of its items is unprocessed", async () => {
+    const { db, cache } = buildCache();
+    global.fetch = jest.fn().mockResolvedValue(
+      htmlResponse("<html><body>Same content</body></html>", { etag: '"v1"' }),
+    ) as unknown as typeof fetch;
+
+    const [item] = await crawlSource(testSource, { fetchCache: cache });
+    const sibling: CrawledItem = { ...item, url: `${testSource.url}#second` };
+    commitCrawlCheckpoints([item], { fetchCache: cache }, [sibling]);
+    expect(getFetchCacheEntry(db, testSource.url)).toBeNull();
+    expect(await crawlSource(testSource, { fetchCache: cache })).toHaveLength(1);
+
+    db.close();
+  });
+});
+
+describe("follow-links mode", () => {
+  const indexSource: RegistrySource = {
+    ...testSource,
+    name: "FTC Kids' Privacy (COPPA) News",
+    url: "https://www.ftc.gov/news",
+    linkFollowDepth: 1,
+    linkIncludePattern: "^https://www\\.ftc\\.gov/press-releases/",
+    maxFollowedLinks: 2,
+  };
+
+  function mockSite(pages: Record<string, string>) {
+    const fetchMock = jest.fn(async (url: string | URL | globalThis.Request) => {
+      const body = pages[String(url)];
+      return body === undefined
+        ? { ok: false, status: 404, statusText: "Not Found", text: () => Promise.resolve("") }
+        : { ok: true, status: 200, text: () => Promise.resolve(body) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  const indexHtml = `<html><head><title>Kids Privacy News</title></head><body>
+    <nav><a href="/press-releases/nav-link">Nav</a></nav>
+    <ul>
+      <li><a href="/press-releases/epic-coppa-settlement">Epic settles COPPA charges</a></li>
+      <li><a href="/press-releases/epic-coppa-settlement#details">Details</a></li>
+      <li><a href="https://www.ftc.gov/press-releases/toy-maker-penalty">Toy maker pays penalty</a></li>
+      <li><a href="/press-releases/third-release">Third</a></li>
+      <li><a href="/about">About the FTC</a></li>
+    </ul>
+  </body></html>`;
+
+  it("emits one item per linked page matching the include pattern, up to the limit", async () => {
+    const fetchMock = mockSite({
+      "https://www.ftc.gov/news": indexHtml,
+      "https://www.ftc.gov/press-releases/epic-coppa-settlement":
+        "<html><head><title>Epic Games to pay $275 million</title></head><body><p>COPPA penalty for Fortnite.</p></body></html>",
+      "https://www.ftc.gov/press-releases/toy-maker-penalty":
+        "<html><head><title>Toy maker penalty</title></head><body><p>Connected toy collected children's data.</p></body></html>",
+    });
+
+    const items = await crawlSource(indexSource);
+    expect(items.map((item) => item.url)).toEqual([
+      "https://www.ftc.gov/news",
+      "https://www.ftc.gov/press-releases/epic-coppa-settlement",
+      "https://www.ftc.gov/press-releases/toy-maker-penalty",
+    ]);
+    expect(items[1].title).toBe("Epic Games to pay $275 million");
+    expect(items[1].text).toContain("COPPA penalty for Fortnite.");
+    expect(items[1].parentUrl).toBe("https://www.ftc.gov/news");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("follows links found on followed pages when depth allows", async () => {
+    mockSite({
+      "https://example.com/consultations": `<html><body><a href="/consultations/2026">2026</a></body></html>`,
+      "https://example.com/consultations/2026": `<html><body><a href="/consultations/2026/minimum-age">Minimum age</a></body></html>`,
+      "https://example.com/consultations/2026/minimum-age": "<html><body><p>Consultation on social media minimum age.</p></body></html>",
+    });
+    const source = { ...testSource, url: "https://example.com/consultations", linkFollowDepth: 2 };
+
+    const items = await crawlSource(source);
+    expect(items.map((item) => item.url)).toEqual([
+      "https://example.com/consultations",
+      "https://example.com/consultations/2026",
+      "https://example.com/consultations/2026/minimum-age",
+    ]);
+    expect(items[2].parentUrl).toBe("https://example.com/consultations/2026");
+
+    const shallow = await crawlSource({ ...source, linkFollowDepth: 1 });
+    expect(shallow).toHaveLength(2);
+  });
+
+  it("counts an index page whose linked pages are also unchanged as one unchanged source", async () => {
+    const pages: Record<string, string> = {
+      "https://example.com/consultations": `<html><body><a href="/consultations/2026">2026</a></body></html>`,
+      "https://example.com/consultations/2026": "<html><body><p>Consultation on social media minimum age.</p></body></html>",
+    };
+    global.fetch = jest.fn(async (url: string) => {
+      if (String(url).startsWith("https://api.minimax.io/")) {
+        return { ok: true, json: async () => ({ content: [{ type: "text", text: '{"relevant": false}' }] }) };
+      }
+      return { ok: true, status: 200, text: () => Promise.resolve(pages[String(url)]) };
+    }) as unknown as typeof fetch;
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const options = {
+      sources: [{ ...testSource, url: "https://example.com/consultations", linkFollowDepth: 1 }],
+      respectRobotsTxt: false,
+      hostMinDelayMs: 0,
+      renderer: null,
+    };
+
+    expect(await runPipeline(db, "test-key", options)).toMatchObject({ itemsCrawled: 2, sourcesUnchanged: 0 });
+    expect(await runPipeline(db, "test-key", options)).toMatchObject({ itemsCrawled: 0, sourcesUnchanged: 1 });
+    db.close();
+  });
+
+  it("keeps the index item when linked pages fail", async () => {
+    mockSite({ "https://www.ftc.gov/news": indexHtml });
+    const items = await crawlSource(indexSource);
+    expect(items).toHaveLength(1);
+    expect(items[0].url).toBe("https://www.ftc.gov/news");
+  });
+});
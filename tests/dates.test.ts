@@ -0,0 +1,174 @@
+import request from "supertest";
+import { analyzeItem } from "../src/analyzer";
+import { createApp } from "../src/app";
+import { type CrawledItem } from "../src/crawler";
+import { extractDates, normalizeDate, reconcileDate } from "../src/dates";
+import { ensureSource, initializeSchema, migrateSchema, openDatabase, upsertEvent, type UpsertEventInput } from "../src/db";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const source: RegistrySource = {
+  name: "Minors regulator",
+  url: "https://regulator.example.gov/minors",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  reliabilityTier: 5,
+  description: "Regulator news",
+};
+
+const pageText =
+  "Published 12 January 2026. The Online Safety Act 2023 amendments come into force on 1 March 2027. Last updated: 2026-02-03. Consultation closes March 2026.";
+
+describe("normalizeDate", () => {
+  it("normalizes full and partial dates with their precision", () => {
+    expect(normalizeDate("2026-06-01")).toEqual({ date: "2026-06-01", precision: "day" });
+    expect(normalizeDate("2026-06-01T09:30:00.000Z")).toEqual({ date: "2026-06-01", precision: "day" });
+    expect(normalizeDate("March 1, 2027")).toEqual({ date: "2027-03-01", precision: "day" });
+    expect(normalizeDate("1er mars 2027")).toEqual({ date: "2027-03-01", precision: "day" });
+    expect(normalizeDate("June 2026")).toEqual({ date: "2026-06-01", precision: "month" });
+    expect(normalizeDate("2026-07")).toEqual({ date: "2026-07-01", precision: "month" });
+    expect(normalizeDate("Q3 2026")).toEqual({ date: "2026-07-01", precision: "quarter" });
+    expect(normalizeDate("2027")).toEqual({ date: "2027-01-01", precision: "year" });
+  });
+
+  it("rejects values that are not calendar dates", () => {
+    for (const value of ["2026-13-01", "2026-02-30", "upon royal assent", "TBD", "", null, 20260601]) {
+      expect(normalizeDate(value)).toBeNull();
+    }
+  });
+});
+
+describe("extractDates", () => {
+  it("finds dates with their context and reads their kind from the words before them", () => {
+    const dates = extractDates(pageText);
+    expect(dates.map(({ text, date, precision, kind }) => ({ text, date, precision, kind }))).toEqual([
+      { text: "12 January 2026", date: "2026-01-12", precision: "day", kind: "published" },
+      { text: "1 March 2027", date: "2027-03-01", precision: "day", kind: "effective" },
+      { text: "2026-02-03", date: "2026-02-03", precision: "day", kind: "published" },
+      { text: "March 2026", date: "2026-03-01", precision: "month", kind: "other" },
+    ]);
+    expect(dates[1].context).toContain("come into force on 1 March 2027");
+    expect(pageText.slice(dates[1].start, dates[1].end)).toBe("1 March 2027");
+  });
+});
+
+describe("reconcileDate", () => {
+  const candidates = extractDates(pageText);
+
+  it("keeps a valid answer, sharpened by an agreeing date in the text", () => {
+    expect(reconcileDate("2027", candidates, "effective")).toEqual({ date: "2027-03-01", precision: "day", source: "text" });
+    expect(reconcileDate("2028-01-01", candidates, "effective")).toEqual({ date: "2028-01-01", precision: "day", source: "analysis" });
+  });
+
+  it("falls back to the text when the answer is not a date", () => {
+    expect(reconcileDate("upon royal assent", candidates, "effective")).toEqual({ date: "2027-03-01", precision: "day", source: "text" });
+    expect(reconcileDate(null, candidates, "published")).toEqual({ date: "2026-01-12", precision: "day", source: "text" });
+    expect(reconcileDate("TBD", [], "effective")).toBeNull();
+  });
+});
+
+describe("dates of analyzed events", () => {
+  const item: CrawledItem = {
+    source,
+    url: source.url,
+    title: "Online safety amendments",
+    text: `Children's online safety regulation. ${pageText}`,
+    fetchedAt: new Date().toISOString(),
+  };
+
+  it("never passes the model's invalid dates on", async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              relevant: true,
+              title: "Online Safety Act amendments",
+              jurisdiction: "United Kingdom",
+              stage: "enacted",
+              ageBracket: "both",
+              summary: "Amendments to the Online Safety Act.",
+              impactScore: 3,
+              likelihoodScore: 5,
+              confidenceScore: 4,
+              chiliScore: 4,
+              effectiveDate: "upon royal assent",
+              publishedDate: "2026-13-01",
+            }),
+          },
+        ],
+      }),
+    }) as unknown as typeof fetch;
+
+    const result = await analyzeItem(item, "test-key");
+    expect(result).toMatchObject({
+      effectiveDate: "2027-03-01",
+      effectiveDatePrecision: "day",
+      publishedDate: "2026-01-12",
+      publishedDatePrecision: "day",
+    });
+  });
+
+  function eventInput(sourceId: number, effectiveDate: string | null): UpsertEventInput {
+    return {
+      title: "Online Safety Act amendments",
+      jurisdictionCountry: "United Kingdom",
+      jurisdictionState: null,
+      stage: "enacted",
+      isUnder16Applicable: true,
+      ageBracket: "both",
+      impactScore: 3,
+      likelihoodScore: 5,
+      confidenceScore: 4,
+      chiliScore: 4,
+      summary: "Amendments to the Online Safety Act.",
+      businessImpact: null,
+      requiredSolutions: null,
+      affectedProducts: null,
+      competitorResponses: null,
+      rawText: pageText,
+      sourceUrlLink: source.url,
+      effectiveDate,
+      publishedDate: "not a date",
+      sourceId,
+    };
+  }
+
+  it("stores partial dates with their precision and returns them from the API", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    upsertEvent(db, eventInput(ensureSource(db, source), "Q3 2026"));
+
+    expect(db.prepare("SELECT effective_date, effective_date_precision, published_date FROM regulation_events").get()).toEqual({
+      effective_date: "2026-07-01",
+      effective_date_precision: "quarter",
+      published_date: null,
+    });
+    const { id } = db.prepare("SELECT id FROM regulation_events").get() as { id: string };
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+    expect(detail.body).toMatchObject({ effectiveDate: "2026-07-01", effectiveDatePrecision: "quarter", publishedDate: null });
+    db.close();
+  });
+
+  it("normalizes dates stored before they were checked", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    upsertEvent(db, eventInput(ensureSource(db, source), null));
+    db.prepare("UPDATE regulation_events SET effective_date = 'Q3 2026', published_date = '2026-13-01'").run();
+
+    migrateSchema(db);
+    expect(
+      db.prepare("SELECT effective_date, effective_date_precision, published_date, published_date_precision FROM regulation_events").get(),
+    ).toEqual({ effective_date: "2026-07-01", effective_date_precision: "quarter", published_date: null, published_date_precision: null });
+    db.close();
+  });
+});
@@ -0,0 +1,262 @@
+import zlib from "node:zlib";
+import PDFDocument from "pdfkit";
+import { crawlSource, type SourceCrawlResult } from "../src/crawler";
+import { detectDocumentType, extractDocumentText } from "../src/document-extractor";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const billSource: RegistrySource = {
+  name: "State Legislature Bill Text",
+  url: "https://legislature.example.gov/bills/hb-18",
+  type: "legal_database",
+  authorityType: "state",
+  jurisdiction: "Texas",
+  jurisdictionCountry: "United States",
+  reliabilityTier: 5,
+  description: "Bill text for HB 18",
+};
+
+function buildPdf(): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const doc = new PDFDocument({ info: { Title: "HB 18 Enrolled" } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.fontSize(18).text("SECURING CHILDREN ONLINE");
+    doc.fontSize(11).text("SECTION 1. This Act may be cited as the SCOPE Act.");
+    doc.text("A digital service provider shall verify the age of a known minor (under 18).");
+    doc.addPage();
+    doc.fontSize(18).text("Enforcement");
+    doc.fontSize(11).text("The attorney general may bring an action for violations of this chapter.");
+    doc.end();
+  });
+}
+
+/** Build a minimal ZIP archive with deflated entries (CRCs are not checked by the reader) */
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name, "utf8");
+    const data = zlib.deflateRawSync(Buffer.from(content, "utf8"));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function buildDocx(): Buffer {
+  const paragraph = (text: string, style?: string, extra = "") =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ""}<w:r>${extra}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+${paragraph("Online Safety Amendment", "Title")}
+${paragraph("Part 1 Minimum age", "Heading1")}
+${paragraph("Platforms must take reasonable steps to prevent users under 16 &amp; their accounts.")}
+<w:p><w:r><w:br w:type="page"/></w:r></w:p>
+${paragraph("Part 2 Penalties", "Heading2")}
+${paragraph("Civil penalties of up to 30,000 penalty units apply.")}
+</w:body></w:document>`;
+  return buildZip({
+    "[Content_Types].xml": "<Types/>",
+    "word/document.xml": documentXml,
+    "docProps/core.xml": "<cp:coreProperties><dc:title>Online Safety Amendment (Social Media Minimum Age) Bill</dc:title></cp:coreProperties>",
+  });
+}
+
+function mockResponses(responses: Record<string, { contentType: string; body: string | Buffer }>) {
+  const fetchMock = jest.fn(async (url: string | URL | globalThis.Request) => {
+    const response = responses[String(url)];
+    if (!response) return { ok: false, status: 404, statusText: "Not Found", text: () => Promise.resolve("") };
+    const bytes = Buffer.isBuffer(response.body) ? response.body : Buffer.from(response.body);
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers({ "content-type": response.contentType }),
+      text: () => Promise.resolve(bytes.toString("utf8")),
+      arrayBuffer: () => Promise.resolve(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length)),
+    };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe("detectDocumentType", () => {
+  it("uses the content type, falling back to the URL for generic binary responses", () => {
+    expect(detectDocumentType("application/pdf; charset=binary", "https://example.com/doc")).toBe("pdf");
+    expect(
+      detectDocumentType("application/vnd.openxmlformats-officedocument.wordprocessingml.document", "https://example.com/x"),
+    ).toBe("docx");
+    expect(detectDocumentType("application/octet-stream", "https://example.com/bill.PDF?v=2")).toBe("pdf");
+    expect(detectDocumentType(null, "https://example.com/bill.docx")).toBe("docx");
+    expect(detectDocumentType("text/html", "https://example.com/bill.pdf")).toBeNull();
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("extracts PDF text with headings and page numbers", async () => {
+    const extracted = extractDocumentText("pdf", await buildPdf());
+    expect(extracted.title).toBe("HB 18 Enrolled");
+    expect(extracted.pageCount).toBe(2);
+    expect(extracted.headings).toEqual(["SECURING CHILDREN ONLINE", "SECTION 1. This Act may be cited as the SCOPE Act.", "Enforcement"]);
+    expect(extracted.text).toContain("[Page 1]\n## SECURING CHILDREN ONLINE");
+    expect(extracted.text).toContain("verify the age of a known minor (under 18).");
+    expect(extracted.text).toContain("[Page 2]\n## Enforcement\nThe attorney general may bring an action");
+  });
+
+  it("extracts DOCX paragraphs with heading levels and page breaks", () => {
+    const extracted = extractDocumentText("docx", buildDocx());
+    expect(extracted.title).toBe("Online Safety Amendment (Social Media Minimum Age) Bill");
+    expect(extracted.pageCount).toBe(2);
+    expect(extracted.headings).toEqual(["Online Safety Amendment", "Part 1 Minimum age", "Part 2 Penalties"]);
+    expect(extracted.text).toBe(
+      [
+        "[Page 1]",
+        "# Online Safety Amendment",
+        "# Part 1 Minimum age",
+        "Platforms must take reasonable steps to prevent users under 16 & their accounts.",
+        "",
+        "[Page 2]",
+        "## Part 2 Penalties",
+        "Civil penalties of up to 30,000 penalty units apply.",
+      ].join("\n"),
+    );
+  });
+
+  it("refuses ZIP entries that inflate past their declared size", () => {
+    const docx = buildZip({ "word/document.xml": `<w:document>${"A".repeat(100_000)}</w:document>` });
+    const centralDirectory = docx.readUInt32LE(docx.length - 22 + 16);
+    docx.writeUInt32LE(1_000, centralDirectory + 24);
+    expect(() => extractDocumentText("docx", docx)).toThrow("ZIP entry word/document.xml inflates past its declared size");
+
+    docx.writeUInt32LE(0xffffffff, centralDirectory + 24);
+    expect(() => extractDocumentText("docx", docx)).toThrow("ZIP entry word/document.xml is too large");
+  });
+
+  it("skips PDF streams that inflate past the size cap", () => {
+    const bomb = zlib.deflateSync(Buffer.from("BT (Bomb) Tj ET\n".repeat(3_500_000)));
+    const text = Buffer.from("BT (Still readable) Tj ET");
+    const pdf = Buffer.concat([
+      Buffer.from("%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n"),
+      Buffer.from("2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n"),
+      Buffer.from("3 0 obj << /Type /Page /Parent 2 0 R /Contents [4 0 R 5 0 R] >> endobj\n"),
+      Buffer.from(`4 0 obj << /Length ${bomb.length} /Filter /FlateDecode >>\nstream\n`),
+      bomb,
+      Buffer.from(`\nendstream\nendobj\n5 0 obj << /Length ${text.length} >>\nstream\n`),
+      text,
+      Buffer.from("\nendstream\nendobj\ntrailer << /Root 1 0 R >>\n%%EOF\n"),
+    ]);
+    expect(extractDocumentText("pdf", pdf).text).toBe("[Page 1]\nStill readable");
+  });
+
+  it("rejects bytes that are not a document", () => {
+    expect(() => extractDocumentText("pdf", Buffer.from("<html></html>"))).toThrow("Not a PDF document");
+    expect(() => extractDocumentText("docx", Buffer.from("plain text"))).toThrow("Not a ZIP archive");
+  });
+});
+
+describe("document crawling", () => {
+  it("crawls a source URL that serves a PDF directly", async () => {
+    mockResponses({ [billSource.url]: { contentType: "application/pdf", body: await buildPdf() } });
+    const items = await crawlSource(billSource);
+    expect(items).toHaveLength(1);
+    expect(items[0].documentType).toBe("pdf");
+    expect(items[0].parentUrl).toBeUndefined();
+    expect(items[0].title).toBe("HB 18 Enrolled");
+    expect(items[0].text).toContain("[Page 2]");
+  });
+
+  it("emits linked documents as items that point back at the page", async () => {
+    const html = `<html><head><title>HB 18</title></head><body>
+      <p>Bill history and text versions for HB 18.</p>
+      <a href="/texts/HB18_enrolled.pdf">Enrolled version (PDF)</a>
+      <a href="https://legislature.example.gov/texts/HB18_fiscal.docx">Fiscal note</a>
+      <a href="/texts/HB18_enrolled.pdf">Duplicate link</a>
+      <a href="/texts/broken.pdf">Broken</a>
+    </body></html>`;
+    const fetchMock = mockResponses({
+      [billSource.url]: { contentType: "text/html", body: html },
+      "https://legislature.example.gov/texts/HB18_enrolled.pdf": { contentType: "application/pdf", body: await buildPdf() },
+      "https://legislature.example.gov/texts/HB18_fiscal.docx": {
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        body: buildDocx(),
+      },
+    });
+
+    const items = await crawlSource(billSource);
+    expect(items.map((item) => item.url)).toEqual([
+      billSource.url,
+      "https://legislature.example.gov/texts/HB18_enrolled.pdf",
+      "https://legislature.example.gov/texts/HB18_fiscal.docx",
+    ]);
+    expect(items[1].parentUrl).toBe(billSource.url);
+    expect(items[2].documentType).toBe("docx");
+    expect(items[2].text).toContain("## Part 2 Penalties");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("refuses document bodies past the size cap, declared or streamed", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    const responses = [
+      { ok: true, status: 200, headers: new Headers({ "content-type": "application/pdf", "content-length": "60000000" }), body: null },
+      new Response(
+        new ReadableStream({
+          pull(controller) {
+            controller.enqueue(chunk);
+          },
+        }),
+        { headers: { "content-type": "application/pdf" } },
+      ),
+    ];
+    global.fetch = jest.fn(async () => responses.shift()) as unknown as typeof fetch;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const results: SourceCrawlResult[] = [];
+    expect(await crawlSource(billSource, { onSourceResult: (result) => results.push(result) })).toEqual([]);
+    expect(await crawlSource(billSource, { onSourceResult: (result) => results.push(result) })).toEqual([]);
+    expect(results.map((result) => result.error)).toEqual([
+      "Document is too large (60000000 bytes)",
+      "Document is too large (over 52428800 bytes)",
+    ]);
+    warn.mockRestore();
+  });
+
+  it("respects maxDocumentLinks", async () => {
+    const html = `<html><body><p>Text</p><a href="/a.pdf">A</a></body></html>`;
+    const fetchMock = mockResponses({ [billSource.url]: { contentType: "text/html", body: html } });
+    const items = await crawlSource({ ...billSource, maxDocumentLinks: 0 });
+    expect(items).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,196 @@
+import { commitCrawlCheckpoints, crawlSource } from "../src/crawler";
+import { createSeenFeedItemStore, initializeSchema, openDatabase } from "../src/db";
+import { normalizeFeedDate, parseFeed } from "../src/feed-parser";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const feedSource: RegistrySource = {
+  name: "Google News — Test",
+  url: "https://news.example.com/rss",
+  type: "rss_feed",
+  authorityType: "national",
+  jurisdiction: "United States",
+  jurisdictionCountry: "United States",
+  reliabilityTier: 3,
+  description: "Test feed",
+};
+
+const rss2 = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>Kids Online Safety</title>
+    <atom:link rel="self" href="https://news.example.com/rss" />
+    <item>
+      <title><![CDATA[Senate passes <KOSA> & COPPA 2.0]]></title>
+      <link>https://news.example.com/kosa</link>
+      <guid isPermaLink="false">kosa-123</guid>
+      <pubDate>Tue, 10 Mar 2026 14:30:00 GMT</pubDate>
+      <description>&lt;p&gt;The bill &lt;b&gt;advances&lt;/b&gt; to the House.&lt;/p&gt;</description>
+    </item>
+    <item>
+      <title>Ofcom publishes children's codes</title>
+      <link>https://news.example.com/ofcom</link>
+      <description><![CDATA[<p>Codes ]]]]><![CDATA[> take effect in July.</p>]]></description>
+      <content:encoded><![CDATA[<p>Full article: codes take effect in July 2025.</p>]]></content:encoded>
+    </item>
+  </channel>
+</rss>`;
+
+const rss1 = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://state.example.gov/feed"><title>State Bills</title></channel>
+  <item rdf:about="https://state.example.gov/bills/hb-1">
+    <title>HB 1 Social Media Minors</title>
+    <link>https://state.example.gov/bills/hb-1</link>
+    <description>Requires parental consent for minors.</description>
+    <dc:date>2026-02-01T09:00:00Z</dc:date>
+  </item>
+</rdf:RDF>`;
+
+function atomPage(ids: string[], next?: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>EU Press Corner</title>
+  ${next ? `<link rel="next" href="${next}"/>` : ""}
+  ${ids
+    .map(
+      (id) => `<entry>
+    <id>urn:eu:${id}</id>
+    <title type="html">DSA guidelines ${id}</title>
+    <link rel="self" href="https://eu.example.com/api/${id}"/>
+    <link rel="alternate" type="text/html" href="/press/${id}"/>
+    <updated>2026-01-0${id.length}T00:00:00Z</updated>
+    <published>2026-01-01T08:00:00+01:00</published>
+    <summary>Summary ${id}</summary>
+  </entry>`,
+    )
+    .join("\n")}
+</feed>`;
+}
+
+describe("parseFeed", () => {
+  it("parses RSS 2.0 items with CDATA, guid, pubDate and content:encoded", () => {
+    const feed = parseFeed(rss2);
+    expect(feed.format).toBe("rss2");
+    expect(feed.title).toBe("Kids Online Safety");
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0]).toEqual({
+      guid: "kosa-123",
+      title: "Senate passes <KOSA> & COPPA 2.0",
+      link: "https://news.example.com/kosa",
+      description: "<p>The bill <b>advances</b> to the House.</p>",
+      publishedAt: "2026-03-10T14:30:00.000Z",
+    });
+    expect(feed.items[1].guid).toBeNull();
+    expect(feed.items[1].description).toContain("Full article");
+    expect(feed.nextPageUrl).toBeNull();
+  });
+
+  it("prefers an RSS item's own link over a preceding atom:link", () => {
+    const feed = parseFeed(`<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel><item>
+      <title>KOSA markup</title>
+      <atom:link rel="self" href="https://news.example.com/api/kosa"/>
+      <link>https://news.example.com/kosa</link>
+    </item><item>
+      <title>No RSS link</title>
+      <atom:link rel="alternate" href="https://news.example.com/alternate"/>
+    </item></channel></rss>`);
+    expect(feed.items.map((item) => item.link)).toEqual(["https://news.example.com/kosa", "https://news.example.com/alternate"]);
+  });
+
+  it("parses RSS 1.0 / RDF feeds", () => {
+    const feed = parseFeed(rss1);
+    expect(feed.format).toBe("rss1");
+    expect(feed.title).toBe("State Bills");
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0].guid).toBe("https://state.example.gov/bills/hb-1");
+    expect(feed.items[0].publishedAt).toBe("2026-02-01T09:00:00.000Z");
+  });
+
+  it("parses Atom entries using the alternate link and next page", () => {
+    const feed = parseFeed(atomPage(["a1", "a2"], "https://eu.example.com/feed?page=2"));
+    expect(feed.format).toBe("atom");
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0].link).toBe("/press/a1");
+    expect(feed.items[0].guid).toBe("urn:eu:a1");
+    expect(feed.items[0].publishedAt).toBe("2026-01-01T07:00:00.000Z");
+    expect(feed.nextPageUrl).toBe("https://eu.example.com/feed?page=2");
+  });
+
+  it("replaces numeric entities outside Unicode instead of failing", () => {
+    const feed = parseFeed(`<rss version="2.0"><channel><title>Caf&#xE9; &#x110000; &#99999999;</title></channel></rss>`);
+    expect(feed.title).toBe("Café \uFFFD \uFFFD");
+  });
+
+  it("returns no items for non-feed content", () => {
+    expect(parseFeed("<html><body>Not a feed</body></html>").items).toHaveLength(0);
+    expect(parseFeed("").format).toBe("unknown");
+  });
+
+  it("normalizes feed dates", () => {
+    expect(normalizeFeedDate("Mon, 02 Feb 2026 10:00:00 +0000")).toBe("2026-02-02T10:00:00.000Z");
+    expect(normalizeFeedDate("not a date")).toBeNull();
+  });
+});
+
+describe("feed crawling", () => {
+  function mockPages(pages: Record<string, string>) {
+    const fetchMock = jest.fn(async (url: string | URL | globalThis.Request) => {
+      const key = String(url);
+      return { ok: true, status: 200, text: () => Promise.resolve(pages[key] ?? "") };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  it("keeps guid and publishedAt on crawled items", async () => {
+    mockPages({ [feedSource.url]: rss2 });
+    const items = await crawlSource(feedSource);
+    expect(items).toHaveLength(2);
+    expect(items[0].guid).toBe("kosa-123");
+    expect(items[0].publishedAt).toBe("2026-03-10T14:30:00.000Z");
+    expect(items[0].text).toContain("The bill advances to the House.");
+    expect(items[1].guid).toBe("https://news.example.com/ofcom");
+  });
+
+  it("follows next links up to the per-source item limit", async () => {
+    const atomSource = { ...feedSource, url: "https://eu.example.com/feed", maxFeedItems: 3 };
+    const fetchMock = mockPages({
+      "https://eu.example.com/feed": atomPage(["a1", "a2"], "https://eu.example.com/feed?page=2"),
+      "https://eu.example.com/feed?page=2": atomPage(["b1", "b2"], "https://eu.example.com/feed?page=3"),
+    });
+
+    const items = await crawlSource(atomSource);
+    expect(items.map((item) => item.guid)).toEqual(["urn:eu:a1", "urn:eu:a2", "urn:eu:b1"]);
+    expect(items[0].url).toBe("https://eu.example.com/press/a1");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips items already seen by guid and stops paging", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const seenFeedItems = createSeenFeedItemStore(db);
+    const atomSource = { ...feedSource, url: "https://eu.example.com/feed" };
+
+    mockPages({ "https://eu.example.com/feed": atomPage(["a1", "a2"]) });
+    const first = await crawlSource(atomSource, { seenFeedItems });
+    expect(first).toHaveLength(2);
+    // a2 was not processed, so it is emitted again
+    commitCrawlCheckpoints([first[0]], { seenFeedItems });
+
+    const fetchMock = mockPages({
+      "https://eu.example.com/feed": atomPage(["a3", "a1", "a2"], "https://eu.example.com/feed?page=2"),
+      "https://eu.example.com/feed?page=2": atomPage(["old"]),
+    });
+    const items = await crawlSource(atomSource, { seenFeedItems });
+    expect(items.map((item) => item.guid)).toEqual(["urn:eu:a3", "urn:eu:a2"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    db.close();
+  });
+});
@@ -0,0 +1,185 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { ensureSource, initializeSchema, migrateSchema, openDatabase, upsertEvent } from "../src/db";
+import { detectLanguage, needsTranslation, UNDETERMINED_LANGUAGE } from "../src/language";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+const portugueseText =
+  "A nova lei exige que as plataformas digitais verifiquem a idade dos usuários e obtenham o consentimento dos pais para crianças e adolescentes. O texto segue para o Senado.";
+const englishText = "The new law requires online platforms to verify the age of users and to obtain parental consent for children.";
+
+describe("detectLanguage", () => {
+  it("tells languages apart by script and function words", () => {
+    expect(detectLanguage(englishText)).toBe("en");
+    expect(detectLanguage(portugueseText)).toBe("pt");
+    expect(detectLanguage("La nouvelle loi impose aux plateformes de vérifier l'âge des utilisateurs et de recueillir le consentement des parents pour les enfants.")).toBe("fr");
+    expect(detectLanguage("Das neue Gesetz verpflichtet Plattformen, das Alter der Nutzer zu prüfen und die Zustimmung der Eltern für Kinder einzuholen.")).toBe("de");
+    expect(detectLanguage("Undang-undang ini mewajibkan platform untuk memverifikasi usia pengguna dan meminta persetujuan orang tua untuk anak yang berusia di bawah 18 tahun.")).toBe("id");
+    expect(detectLanguage("青少年のインターネット利用に関する新しい法律は、事業者に年齢確認と保護者の同意を求めています。")).toBe("ja");
+    expect(detectLanguage("개정안은 플랫폼 사업자가 이용자의 연령을 확인하고 아동의 개인정보를 보호하도록 의무화한다.")).toBe("ko");
+    expect(detectLanguage("新规要求网络平台核实用户年龄，并为未成年人提供专门的保护模式和家长监护功能。")).toBe("zh");
+  });
+
+  it("goes by the main language of mixed text and gives up on short text", () => {
+    expect(detectLanguage(`${englishText} The Japanese title is 青少年インターネット環境整備法.`)).toBe("en");
+    expect(detectLanguage("Age checks")).toBe(UNDETERMINED_LANGUAGE);
+    expect(needsTranslation("pt")).toBe(true);
+    expect(needsTranslation("en")).toBe(false);
+    expect(needsTranslation(UNDETERMINED_LANGUAGE)).toBe(false);
+    expect(needsTranslation(undefined)).toBe(false);
+  });
+});
+
+describe("multilingual pipeline", () => {
+  const brazilSource: RegistrySource = {
+    name: "Câmara dos Deputados",
+    url: "https://camara.example.br/noticias",
+    type: "government_page",
+    authorityType: "national",
+    jurisdiction: "Brazil",
+    jurisdictionCountry: "Brazil",
+    reliabilityTier: 5,
+    description: "Brazilian Chamber of Deputies news",
+  };
+  const ukSource: RegistrySource = {
+    ...brazilSource,
+    name: "UK regulator",
+    url: "https://regulator.example.gov.uk/children",
+    jurisdiction: "United Kingdom",
+    jurisdictionCountry: "United Kingdom",
+    description: "UK regulator",
+  };
+
+  function mockFetch() {
+    const pages: Record<string, [string, string]> = {
+      [brazilSource.url]: ["Proteção de crianças online", portugueseText],
+      [ukSource.url]: ["Age checks", englishText],
+    };
+    global.fetch = jest.fn(async (input: string, init?: RequestInit) => {
+      const url = String(input);
+      if (url.startsWith("https://api.minimax.io/")) {
+        const prompt = JSON.parse(String(init?.body)).messages[0].content as string;
+        const brazilian = prompt.includes(brazilSource.url) || prompt.includes("Portuguese text");
+        const text = prompt.startsWith("Translate the following")
+          ? "The new law requires digital platforms to verify the age of users (translated)."
+          : JSON.stringify({
+              relevant: true,
+              title: brazilian ? "Brazil child online protection bill" : "UK age checks",
+              jurisdiction: brazilian ? "Brazil" : "United Kingdom",
+              stage: "proposed",
+              ageBracket: "both",
+              summary: "Platforms must verify ages and obtain parental consent.",
+              impactScore: 4,
+              likelihoodScore: 3,
+              confidenceScore: 3,
+              chiliScore: 4,
+            });
+        return { ok: true, json: async () => ({ content: [{ type: "text", text }] }) };
+      }
+      const [title, text] = pages[url];
+      return { ok: true, status: 200, text: async () => `<html><head><title>${title}</title></head><body><main><p>${text}</p></main></body></html>` };
+    }) as unknown as typeof fetch;
+  }
+
+  function promptsSent(): string[] {
+    return (global.fetch as unknown as jest.Mock).mock.calls
+      .filter(([input]) => String(input).startsWith("https://api.minimax.io/"))
+      .map(([, init]) => JSON.parse(String(init.body)).messages[0].content as string);
+  }
+
+  it("records the language and stores an English translation next to the original excerpt", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [brazilSource, ukSource]);
+    mockFetch();
+
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    expect(result).toMatchObject({ itemsRelevant: 2, itemsNew: 2, errors: [] });
+
+    const prompts = promptsSent();
+    expect(prompts.filter((prompt) => prompt.startsWith("Translate the following"))).toEqual([
+      expect.stringContaining(`Portuguese text into English`),
+    ]);
+    expect(prompts.find((prompt) => prompt.includes(brazilSource.url))).toContain("Language: Portuguese");
+
+    const rows = db.prepare("SELECT title, language, raw_text, translated_text FROM regulation_events ORDER BY title").all();
+    expect(rows).toEqual([
+      {
+        title: "Brazil child online protection bill",
+        language: "pt",
+        raw_text: expect.stringContaining(portugueseText),
+        translated_text: "The new law requires digital platforms to verify the age of users (translated).",
+      },
+      { title: "UK age checks", language: "en", raw_text: expect.stringContaining(englishText), translated_text: null },
+    ]);
+
+    const { id } = db.prepare("SELECT id FROM regulation_events WHERE language = 'pt'").get() as { id: string };
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+    expect(detail.body).toMatchObject({
+      language: "pt",
+      originalText: expect.stringContaining(portugueseText),
+      translatedText: "The new law requires digital platforms to verify the age of users (translated).",
+    });
+    db.close();
+  });
+
+  it("keeps the event when translation fails", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [brazilSource]);
+    mockFetch();
+    const fetchMock = global.fetch as unknown as jest.Mock;
+    const answer = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (input: string, init?: RequestInit) => {
+      if (String(init?.body ?? "").includes("Translate the following")) return { ok: false, status: 500, text: async () => "overloaded" };
+      return answer(input, init);
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    expect(result).toMatchObject({ itemsNew: 1, errors: [] });
+    expect(db.prepare("SELECT language, translated_text FROM regulation_events").get()).toEqual({ language: "pt", translated_text: null });
+    db.close();
+  });
+
+  it("detects the language of events stored before it was recorded", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    upsertEvent(db, {
+      title: "Proteção de crianças online",
+      jurisdictionCountry: "Brazil",
+      jurisdictionState: null,
+      stage: "proposed",
+      isUnder16Applicable: true,
+      ageBracket: "both",
+      impactScore: 3,
+      likelihoodScore: 3,
+      confidenceScore: 3,
+      chiliScore: 3,
+      summary: "Platforms must verify ages.",
+      businessImpact: null,
+      requiredSolutions: null,
+      affectedProducts: null,
+      competitorResponses: null,
+      rawText: portugueseText,
+      sourceUrlLink: brazilSource.url,
+      effectiveDate: null,
+      publishedDate: null,
+      sourceId: ensureSource(db, brazilSource),
+    });
+    expect(db.prepare("SELECT language FROM regulation_events").get()).toEqual({ language: null });
+
+    migrateSchema(db);
+    expect(db.prepare("SELECT language FROM regulation_events").get()).toEqual({ language: "pt" });
+    db.close();
+  });
+});
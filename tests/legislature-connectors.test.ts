@@ -0,0 +1,373 @@
+import fs from "node:fs";
+import path from "node:path";
+import request from "supertest";
+import { createApp } from "../src/app";
+import { commitCrawlCheckpoints, crawlSource, type SourceCrawlResult } from "../src/crawler";
+import {
+  createSeenFeedItemStore,
+  createSource,
+  initializeSchema,
+  listSources,
+  migrateSchema,
+  openDatabase,
+  recordCrawlRunItems,
+  startCrawlRun,
+} from "../src/db";
+import {
+  buildStageHistory,
+  legislatureConnectorForUrl,
+  parseCongressBill,
+  parseOpenStatesBills,
+  parseUkParliamentBill,
+} from "../src/legislature-connectors";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "legislature");
+
+function fixture(name: string): unknown {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, name), "utf8"));
+}
+
+const ukStages = fixture("uk-bill-stages.json") as Record<string, unknown>;
+
+/** Recorded API responses keyed by URL without its query string */
+const recordedResponses: Record<string, unknown> = {
+  "https://api.congress.gov/v3/bill/118/s/1409": fixture("congress-bill.json"),
+  "https://api.congress.gov/v3/bill/118/s/1409/actions": fixture("congress-actions.json"),
+  "https://v3.openstates.org/bills": fixture("openstates-bills.json"),
+  "https://bills-api.parliament.uk/api/v1/Bills": fixture("uk-bills.json"),
+  "https://bills-api.parliament.uk/api/v1/Bills/3137/Stages": ukStages["3137"],
+  "https://bills-api.parliament.uk/api/v1/Bills/3791/Stages": ukStages["3791"],
+};
+
+const congressSource: RegistrySource = {
+  name: "Congress.gov — S. 1409",
+  url: "https://api.congress.gov/v3/bill/118/s/1409",
+  type: "legislature_api",
+  authorityType: "national",
+  jurisdiction: "United States",
+  jurisdictionCountry: "United States",
+  reliabilityTier: 5,
+  description: "Kids Online Safety Act bill record",
+};
+
+const openStatesSource: RegistrySource = {
+  ...congressSource,
+  name: "Open States — minors",
+  url: "https://v3.openstates.org/bills?q=minors",
+  authorityType: "state",
+  description: "State bills about minors",
+};
+
+const ukSource: RegistrySource = {
+  ...congressSource,
+  name: "UK Parliament — children",
+  url: "https://bills-api.parliament.uk/api/v1/Bills?SearchTerm=children",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  description: "UK bills about children",
+};
+
+/** Serve the recorded responses; analysis requests echo the item title back as a relevant finding */
+function mockLegislatureApis() {
+  const fetchMock = jest.fn(async (input: string | URL, init?: { body?: string }) => {
+    const url = new URL(String(input));
+    if (url.host === "api.minimax.io") {
+      const prompt = JSON.parse(init?.body ?? "{}").messages[0].content as string;
+      const title = prompt.match(/\nTitle: (.*)\n/)?.[1] ?? "Untitled";
+      const analysis = {
+        relevant: true,
+        title,
+        jurisdiction: "Global",
+        stage: "proposed",
+        ageBracket: "both",
+        summary: `Bill status for ${title}`,
+        impactScore: 4,
+        likelihoodScore: 4,
+        confidenceScore: 5,
+        chiliScore: 4,
+      };
+      return { ok: true, status: 200, json: async () => ({ content: [{ type: "text", text: JSON.stringify(analysis) }] }) };
+    }
+
+    const body = recordedResponses[`${url.origin}${url.pathname}`];
+    if (body === undefined) return { ok: false, status: 404, statusText: "Not Found", text: async () => "" };
+    return { ok: true, status: 200, text: async () => JSON.stringify(body) };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const originalFetch = global.fetch;
+const originalCongressKey = process.env.CONGRESS_GOV_API_KEY;
+const originalOpenStatesKey = process.env.OPENSTATES_API_KEY;
+
+beforeEach(() => {
+  process.env.CONGRESS_GOV_API_KEY = "congress-key";
+  process.env.OPENSTATES_API_KEY = "openstates-key";
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  if (originalCongressKey === undefined) delete process.env.CONGRESS_GOV_API_KEY;
+  else process.env.CONGRESS_GOV_API_KEY = originalCongressKey;
+  if (originalOpenStatesKey === undefined) delete process.env.OPENSTATES_API_KEY;
+  else process.env.OPENSTATES_API_KEY = originalOpenStatesKey;
+  jest.restoreAllMocks();
+});
+
+describe("legislature connectors", () => {
+  it("picks the connector from the API host", () => {
+    expect(legislatureConnectorForUrl(congressSource.url)).toBe("congress_gov");
+    expect(legislatureConnectorForUrl(openStatesSource.url)).toBe("openstates");
+    expect(legislatureConnectorForUrl(ukSource.url)).toBe("uk_parliament");
+    expect(legislatureConnectorForUrl("https://www.congress.gov/bill/118th-congress/senate-bill/1409")).toBeNull();
+  });
+
+  it("maps Congress.gov actions onto stages, ignoring amendments and later calendar actions", () => {
+    const bill = parseCongressBill(fixture("congress-bill.json"), fixture("congress-actions.json"));
+
+    expect(bill).toMatchObject({
+      identifier: "S. 1409",
+      session: "118th Congress",
+      url: "https://www.congress.gov/bill/118th-congress/senate-bill/1409",
+      stage: "passed",
+      statusText: "Received in the House.",
+      introducedDate: "2023-05-02",
+      latestActionDate: "2024-07-30",
+    });
+    expect(bill.stageHistory).toEqual([
+      { stage: "introduced", date: "2023-05-02", action: "Introduced in Senate" },
+      {
+        stage: "committee_review",
+        date: "2023-05-02",
+        action: "Read twice and referred to the Committee on Commerce, Science, and Transportation.",
+      },
+      {
+        stage: "passed",
+        date: "2024-07-30",
+        action: "Passed Senate with an amendment by Yea-Nay Vote. 91 - 3. Record Vote Number: 292.",
+      },
+    ]);
+  });
+
+  it("maps Open States classifications, including vetoes", () => {
+    const [scopeAct, vetoed] = parseOpenStatesBills(fixture("openstates-bills.json"));
+
+    expect(scopeAct).toMatchObject({ identifier: "HB 18", jurisdictionState: "Texas", session: "88", stage: "enacted" });
+    expect(scopeAct.stageHistory.map((change) => [change.stage, change.date])).toEqual([
+      ["introduced", "2022-11-14"],
+      ["committee_review", "2023-03-06"],
+      ["passed", "2023-04-19"],
+      ["enacted", "2023-06-13"],
+    ]);
+    expect(vetoed.stage).toBe("rejected");
+    expect(vetoed.stageHistory.map((change) => change.stage)).toEqual(["introduced", "committee_review", "passed", "rejected"]);
+  });
+
+  it("maps UK Parliament stages in both Houses and bill-level outcomes", () => {
+    const [act, withdrawn] = (fixture("uk-bills.json") as { items: unknown[] }).items;
+
+    const onlineSafety = parseUkParliamentBill(act, ukStages["3137"]);
+    expect(onlineSafety).toMatchObject({ url: "https://bills.parliament.uk/bills/3137", stage: "enacted", statusText: "Royal Assent" });
+    expect(onlineSafety.stageHistory).toEqual([
+      { stage: "introduced", date: "2022-03-17", action: "1st reading (Commons)" },
+      { stage: "committee_review", date: "2022-04-19", action: "2nd reading (Commons)" },
+      { stage: "passed", date: "2023-01-17", action: "3rd reading (Commons)" },
+      { stage: "enacted", date: "2023-10-26", action: "Royal Assent" },
+    ]);
+
+    const phones = parseUkParliamentBill(withdrawn, ukStages["3791"]);
+    expect(phones.stage).toBe("withdrawn");
+    expect(phones.stageHistory.map((change) => [change.stage, change.date])).toEqual([
+      ["introduced", "2024-10-16"],
+      ["withdrawn", "2025-03-07"],
+    ]);
+  });
+
+  it("lets a later action revive a rejected bill", () => {
+    const history = buildStageHistory([
+      { date: "2024-01-10", text: "Introduced", stage: "introduced" },
+      { date: "2024-03-01", text: "Passed", stage: "passed" },
+      { date: "2024-03-20", text: "Vetoed by Governor", stage: "rejected" },
+      { date: "2024-04-02", text: "Veto overridden", stage: "passed" },
+      { date: "2024-04-03", text: "Referred to Rules", stage: "committee_review" },
+    ]);
+    expect(history.map((change) => change.stage)).toEqual(["introduced", "passed", "rejected", "passed"]);
+  });
+});
+
+describe("legislature sources in crawlSource", () => {
+  it("emits one item per bill with the API key sent as a query parameter", async () => {
+    const fetchMock = mockLegislatureApis();
+
+    const [item] = await crawlSource(congressSource);
+    expect(item.url).toBe("https://www.congress.gov/bill/118th-congress/senate-bill/1409");
+    expect(item.title).toBe("S. 1409: Kids Online Safety Act");
+    expect(item.bill?.stage).toBe("passed");
+    expect(item.text).toContain("Stage: passed (from legislature records)");
+    expect(item.publishedAt).toBe("2024-07-30");
+
+    const requested = fetchMock.mock.calls.map(([url]) => new URL(String(url)));
+    expect(requested.map((url) => url.pathname)).toEqual(["/v3/bill/118/s/1409", "/v3/bill/118/s/1409/actions"]);
+    expect(requested.every((url) => url.searchParams.get("api_key") === "congress-key")).toBe(true);
+  });
+
+  it("keeps API keys out of the items recorded for a crawl run", async () => {
+    mockLegislatureApis();
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    let nextArtifactId = 0;
+    const archiveResponse = () => ++nextArtifactId;
+
+    const items = [
+      ...(await crawlSource(congressSource, { archiveResponse })),
+      ...(await crawlSource(openStatesSource, { archiveResponse })),
+    ];
+    expect(items.map((item) => item.artifactIds)).toEqual([[1, 2], [3], [3]]);
+
+    recordCrawlRunItems(db, startCrawlRun(db), items);
+    const stored = db.prepare("SELECT item FROM crawl_run_items").all() as Array<{ item: string }>;
+    expect(stored).toHaveLength(3);
+    for (const { item } of stored) {
+      expect(item).toContain("responseUrls");
+      expect(item).not.toContain("congress-key");
+      expect(item).not.toContain("openstates-key");
+    }
+    db.close();
+  });
+
+  it("requests Open States actions and skips bills whose latest action was already seen", async () => {
+    const fetchMock = mockLegislatureApis();
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const seenFeedItems = createSeenFeedItemStore(db);
+
+    const first = await crawlSource(openStatesSource, { seenFeedItems });
+    expect(first.map((item) => item.bill?.identifier)).toEqual(["HB 18", "S 289"]);
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.searchParams.getAll("include")).toEqual(["actions"]);
+    expect(url.searchParams.get("apikey")).toBe("openstates-key");
+
+    // Bills are marked seen only once their items are processed
+    expect(await crawlSource(openStatesSource, { seenFeedItems })).toHaveLength(2);
+    commitCrawlCheckpoints(first, { seenFeedItems });
+    expect(await crawlSource(openStatesSource, { seenFeedItems })).toEqual([]);
+    db.close();
+  });
+
+  it("skips sources whose API key is not set", async () => {
+    const fetchMock = mockLegislatureApis();
+    delete process.env.CONGRESS_GOV_API_KEY;
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const results: SourceCrawlResult[] = [];
+
+    expect(await crawlSource(congressSource, { onSourceResult: (result) => results.push(result) })).toEqual([]);
+    expect(results[0]).toMatchObject({ status: "skipped", error: "CONGRESS_GOV_API_KEY not set" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("bills as laws", () => {
+  async function crawlUkBills() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [ukSource]);
+    mockLegislatureApis();
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    return { db, result };
+  }
+
+  function billLawKey(db: ReturnType<typeof openDatabase>, externalId: string): string {
+    return (db.prepare("SELECT law_key FROM legislative_bills WHERE external_id = ?").get(externalId) as { law_key: string }).law_key;
+  }
+
+  it("stores each bill and gives its law the legislature's stage", async () => {
+    const { db, result } = await crawlUkBills();
+    expect(result.legislativeBillsSynced).toBe(2);
+
+    const events = db.prepare("SELECT title, stage, jurisdiction_country FROM regulation_events ORDER BY title").all();
+    expect(events).toEqual([
+      { title: "Children's Online Safety (Smartphones) Bill", stage: "withdrawn", jurisdiction_country: "United Kingdom" },
+      { title: "Online Safety Act 2023", stage: "enacted", jurisdiction_country: "United Kingdom" },
+    ]);
+
+    const app = createApp(db);
+    const lawKey = billLawKey(db, "3137");
+    const law = await request(app).get(`/api/laws/${encodeURIComponent(lawKey)}`).expect(200);
+    expect(law.body).toMatchObject({ stage: "enacted", status: "Royal Assent", stageSource: "legislature", updateCount: 1 });
+    expect(law.body.bills).toHaveLength(1);
+    expect(law.body.bills[0]).toMatchObject({ identifier: "Online Safety Act 2023", connector: "uk_parliament" });
+    expect(law.body.bills[0].stageHistory.map((change: { stage: string }) => change.stage)).toEqual([
+      "introduced",
+      "committee_review",
+      "passed",
+      "enacted",
+    ]);
+
+    // Rebuilding the law index keeps the authoritative stage
+    await request(app).post("/api/laws/rebuild").expect(200);
+    const rebuilt = await request(app).get(`/api/laws/${encodeURIComponent(billLawKey(db, "3791"))}`).expect(200);
+    expect(rebuilt.body).toMatchObject({ stage: "withdrawn", stageSource: "legislature" });
+
+    db.close();
+  });
+
+  it("keeps bills as laws before any event is written about them", async () => {
+    const { db } = await crawlUkBills();
+    db.exec("DELETE FROM regulation_events");
+
+    const app = createApp(db);
+    await request(app).post("/api/laws/rebuild").expect(200);
+    const law = await request(app).get(`/api/laws/${encodeURIComponent(billLawKey(db, "3137"))}`).expect(200);
+    expect(law.body).toMatchObject({ stage: "enacted", stageSource: "legislature", updateCount: 0, updates: [] });
+
+    db.close();
+  });
+});
+
+describe("legislature_api sources", () => {
+  it("must point at a supported legislature API", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const app = createApp(db);
+    const body = { ...congressSource, url: "https://www.congress.gov/bill/118th-congress/senate-bill/1409" };
+
+    const created = await request(app).post("/api/sources").send(body).expect(400);
+    expect(created.body.error).toContain("legislature_api");
+    await request(app).post("/api/sources").send(congressSource).expect(201);
+
+    const id = listSources(db)[0].id;
+    await request(app).patch(`/api/sources/${id}`).send({ url: body.url }).expect(400);
+
+    db.close();
+  });
+
+  it("migrates a sources table created before the source type existed", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const { sql } = db.prepare("SELECT sql FROM sqlite_master WHERE name = 'sources'").get() as { sql: string };
+    db.exec("DROP TABLE sources");
+    db.exec(sql.replace(",'legislature_api'", ""));
+    const dropped = createSource(db, { ...congressSource, name: "Dropped", type: "government_page", url: "https://www.congress.gov/old" });
+    const kept = createSource(db, { ...congressSource, type: "government_page", url: "https://www.congress.gov/" });
+    db.prepare("DELETE FROM sources WHERE id = ?").run(dropped);
+    db.prepare(
+      "INSERT INTO page_snapshots (source_id, url, content_hash, stripped_text, paragraph_count, fetched_at) VALUES (?, ?, 'h', '', 0, '2026-01-01')",
+    ).run(kept, "https://www.congress.gov/");
+    expect(() => createSource(db, { ...congressSource, name: "Congress.gov bill" })).toThrow(/CHECK constraint/);
+
+    migrateSchema(db);
+    createSource(db, { ...congressSource, name: "Congress.gov bill" });
+    expect(listSources(db).map((source) => source.type).sort()).toEqual(["government_page", "legislature_api"]);
+    // Ids survive the rebuild, so rows referencing a source still point at it
+    expect(db.prepare("SELECT s.name FROM page_snapshots p JOIN sources s ON s.id = p.source_id").all()).toEqual([
+      { name: congressSource.name },
+    ]);
+    expect(db.pragma("foreign_key_check")).toEqual([]);
+
+    db.close();
+  });
+});
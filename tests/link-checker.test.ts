@@ -0,0 +1,176 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { getLinkCheckReport, getSourceById, initializeSchema, listSources, openDatabase } from "../src/db";
+import { checkSourceUrl, isSoft404, runLinkCheck } from "../src/link-checker";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+type MockResponse = { status: number; location?: string; contentType?: string; body?: string };
+
+function mockUrls(responses: Record<string, MockResponse>) {
+  const fetchMock = jest.fn(async (url: string | URL | globalThis.Request) => {
+    const response = responses[String(url)] ?? { status: 404 };
+    const headers = new Headers();
+    if (response.location) headers.set("location", response.location);
+    headers.set("content-type", response.contentType ?? "text/html; charset=utf-8");
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      headers,
+      text: () => Promise.resolve(response.body ?? ""),
+    };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function source(name: string, url: string): RegistrySource {
+  return {
+    name,
+    url,
+    type: "government_page",
+    authorityType: "national",
+    jurisdiction: "Test Country",
+    jurisdictionCountry: "Test Country",
+    reliabilityTier: 5,
+    description: `${name} page`,
+  };
+}
+
+const page = (title: string, extra = "") => `<html><head><title>${title}</title>${extra}</head><body><h1>${title}</h1></body></html>`;
+
+describe("isSoft404", () => {
+  it("recognises error-page titles without flagging bill numbers", () => {
+    expect(isSoft404("Page Not Found | eSafety Commissioner", null)).toBe(true);
+    expect(isSoft404("404", null)).toBe(true);
+    expect(isSoft404(null, "Sorry, this page could not be found")).toBe(true);
+    expect(isSoft404("Seite nicht gefunden", null)).toBe(true);
+    expect(isSoft404("HB 404 - Social Media Protections for Minors", null)).toBe(false);
+    expect(isSoft404("Online Safety Act", "Online Safety Act")).toBe(false);
+  });
+});
+
+describe("checkSourceUrl", () => {
+  it("records each redirect hop and the final URL", async () => {
+    const fetchMock = mockUrls({
+      "http://agency.example.gov/kids": { status: 301, location: "https://agency.example.gov/kids" },
+      "https://agency.example.gov/kids": { status: 308, location: "/children/online-safety" },
+      "https://agency.example.gov/children/online-safety": { status: 200, body: page("Online safety") },
+    });
+
+    const result = await checkSourceUrl("http://agency.example.gov/kids");
+    expect(result).toMatchObject({
+      status: "redirected",
+      statusCode: 200,
+      finalUrl: "https://agency.example.gov/children/online-safety",
+      suggestedUrl: "https://agency.example.gov/children/online-safety",
+      permanentRedirect: true,
+      title: "Online safety",
+    });
+    expect(result.redirects).toEqual([
+      { url: "http://agency.example.gov/kids", statusCode: 301 },
+      { url: "https://agency.example.gov/kids", statusCode: 308 },
+    ]);
+    expect((fetchMock.mock.calls[0] as unknown[])[1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("flags soft-404s, broken links and redirect loops", async () => {
+    mockUrls({
+      "https://agency.example.gov/moved": { status: 200, body: page("Page not found") },
+      "https://agency.example.gov/a": { status: 302, location: "https://agency.example.gov/b" },
+      "https://agency.example.gov/b": { status: 302, location: "https://agency.example.gov/a" },
+    });
+
+    expect(await checkSourceUrl("https://agency.example.gov/moved")).toMatchObject({ status: "soft_404", statusCode: 200 });
+    expect(await checkSourceUrl("https://agency.example.gov/gone")).toMatchObject({ status: "broken", statusCode: 404 });
+    expect((await checkSourceUrl("https://agency.example.gov/a")).status).toBe("error");
+  });
+
+  it("suggests the canonical URL of a page that did not redirect", async () => {
+    mockUrls({
+      "https://agency.example.gov/policy?ref=nav": {
+        status: 200,
+        body: page("Policy", '<link href="/policy" rel="canonical">'),
+      },
+    });
+
+    const result = await checkSourceUrl("https://agency.example.gov/policy?ref=nav");
+    expect(result).toMatchObject({
+      status: "ok",
+      canonicalUrl: "https://agency.example.gov/policy",
+      suggestedUrl: "https://agency.example.gov/policy",
+    });
+  });
+});
+
+describe("runLinkCheck", () => {
+  function setup() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [
+      source("Moved Permanently", "https://old.example.gov/kids"),
+      source("Temporary Redirect", "https://login.example.gov/page"),
+      source("Soft 404", "https://agency.example.gov/removed"),
+      source("Healthy", "https://agency.example.gov/ok"),
+    ]);
+    mockUrls({
+      "https://old.example.gov/kids": { status: 301, location: "https://new.example.gov/kids" },
+      "https://new.example.gov/kids": { status: 200, body: page("Kids") },
+      "https://login.example.gov/page": { status: 302, location: "https://login.example.gov/sso" },
+      "https://login.example.gov/sso": { status: 200, body: page("Sign in") },
+      "https://agency.example.gov/removed": { status: 200, body: page("Page Not Found") },
+      "https://agency.example.gov/ok": { status: 200, body: page("Healthy") },
+    });
+    return db;
+  }
+
+  it("moves permanently redirected sources and stores the report", async () => {
+    const db = setup();
+    const report = await runLinkCheck(db, { hostMinDelayMs: 0 });
+
+    expect(report).toMatchObject({ status: "completed", sourcesChecked: 4, sourcesUpdated: 1 });
+    expect(report.counts).toEqual({ ok: 1, redirected: 2, soft_404: 1, broken: 0, error: 0 });
+    expect(report.items[0]).toMatchObject({ sourceName: "Soft 404", status: "soft_404" });
+
+    const moved = report.items.find((item) => item.sourceName === "Moved Permanently")!;
+    expect(moved.urlUpdated).toBe(true);
+    expect(getSourceById(db, moved.sourceId!)?.url).toBe("https://new.example.gov/kids");
+
+    const temporary = report.items.find((item) => item.sourceName === "Temporary Redirect")!;
+    expect(temporary).toMatchObject({ urlUpdated: false, suggestedUrl: "https://login.example.gov/sso" });
+    expect(listSources(db).find((item) => item.name === "Temporary Redirect")?.url).toBe("https://login.example.gov/page");
+
+    expect(getLinkCheckReport(db)?.id).toBe(report.id);
+    db.close();
+  });
+
+  it("leaves sources alone in a dry run", async () => {
+    const db = setup();
+    const report = await runLinkCheck(db, { hostMinDelayMs: 0, updateSources: false });
+    expect(report.sourcesUpdated).toBe(0);
+    expect(listSources(db).find((item) => item.name === "Moved Permanently")?.url).toBe("https://old.example.gov/kids");
+    db.close();
+  });
+
+  it("serves the stored report over the API", async () => {
+    const db = setup();
+    const app = createApp(db);
+    expect((await request(app).get("/api/sources/link-check")).status).toBe(404);
+
+    await runLinkCheck(db, { hostMinDelayMs: 0 });
+    const report = await request(app).get("/api/sources/link-check?status=soft_404");
+    expect(report.status).toBe(200);
+    expect(report.body.items.map((item: { sourceName: string }) => item.sourceName)).toEqual(["Soft 404"]);
+
+    const runs = await request(app).get("/api/sources/link-check/runs");
+    expect(runs.body.items).toHaveLength(1);
+    expect((await request(app).get("/api/sources/link-check?status=gone")).status).toBe(400);
+    db.close();
+  });
+});
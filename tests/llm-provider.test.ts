@@ -0,0 +1,191 @@
+import { analyzeItem } from "../src/analyzer";
+import { type CrawledItem } from "../src/crawler";
+import { initializeSchema, openDatabase } from "../src/db";
+import {
+  createAnthropicProvider,
+  createLlmProvider,
+  createOpenAiProvider,
+  llmConfigError,
+  llmConfigFromEnv,
+  type LlmConfig,
+} from "../src/llm-provider";
+import { startMockLlmServer, type MockLlmServer } from "../src/mock-llm-server";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const testSource: RegistrySource = {
+  name: "Example Gov — children online",
+  url: "https://example.gov/children-online",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  reliabilityTier: 5,
+  description: "Children's online safety guidance",
+};
+
+const testItem: CrawledItem = {
+  source: testSource,
+  url: testSource.url,
+  title: "Children's code",
+  text: "The regulation requires services likely to be accessed by children to apply high privacy settings.",
+  fetchedAt: new Date().toISOString(),
+};
+
+const baseConfig: LlmConfig = {
+  provider: "anthropic",
+  baseUrl: "https://llm.example.com",
+  apiKey: "secret",
+  model: "test-model",
+  timeoutMs: 5_000,
+  maxTokens: 512,
+};
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+describe("llm configuration", () => {
+  it("defaults to MiniMax's Anthropic-compatible endpoint", () => {
+    expect(llmConfigFromEnv({ MINIMAX_API_KEY: "minimax-key" })).toEqual({
+      provider: "anthropic",
+      baseUrl: "https://api.minimax.io/anthropic",
+      apiKey: "minimax-key",
+      model: "MiniMax-M2.5",
+      timeoutMs: 60_000,
+      maxTokens: 2048,
+    });
+  });
+
+  it("reads provider, endpoint, model, timeout and max tokens from the environment", () => {
+    const env = {
+      LLM_PROVIDER: "openai",
+      LLM_BASE_URL: "http://localhost:11434/v1/",
+      LLM_MODEL: "llama3",
+      LLM_TIMEOUT_MS: "120000",
+      LLM_MAX_TOKENS: "4096",
+      LLM_API_KEY: "local-key",
+      MINIMAX_API_KEY: "minimax-key",
+    };
+    expect(llmConfigFromEnv(env)).toEqual({
+      provider: "openai",
+      baseUrl: "http://localhost:11434/v1",
+      apiKey: "local-key",
+      model: "llama3",
+      timeoutMs: 120_000,
+      maxTokens: 4096,
+    });
+  });
+
+  it("requires an API key except for the mock server", () => {
+    expect(llmConfigError(llmConfigFromEnv({}), {})).toContain("MINIMAX_API_KEY");
+    const mockEnv = { LLM_PROVIDER: "mock" };
+    expect(llmConfigError(llmConfigFromEnv(mockEnv), mockEnv)).toBeNull();
+    expect(llmConfigFromEnv(mockEnv).baseUrl).toBe("http://127.0.0.1:8787");
+    const unknownEnv = { LLM_PROVIDER: "bard", LLM_API_KEY: "key" };
+    expect(llmConfigError(llmConfigFromEnv(unknownEnv), unknownEnv)).toBe("LLM_PROVIDER must be one of: anthropic, openai, mock");
+  });
+});
+
+describe("providers", () => {
+  it("sends Anthropic messages requests", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: "text", text: "hello" }] }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await createAnthropicProvider(baseConfig).complete("prompt")).toBe("hello");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://llm.example.com/v1/messages");
+    expect(init.headers).toMatchObject({ "x-api-key": "secret", "anthropic-version": "2023-06-01" });
+    expect(JSON.parse(init.body)).toEqual({ model: "test-model", max_tokens: 512, messages: [{ role: "user", content: "prompt" }] });
+  });
+
+  it("sends OpenAI chat completions requests", async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { role: "assistant", content: "hello" } }] }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await createOpenAiProvider({ ...baseConfig, provider: "openai" }).complete("prompt")).toBe("hello");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://llm.example.com/chat/completions");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer secret" });
+    expect(JSON.parse(init.body).messages).toEqual([{ role: "user", content: "prompt" }]);
+  });
+
+  it("reports API errors with the status code", async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      text: async () => "rate limited",
+    }) as unknown as typeof fetch;
+
+    await expect(createOpenAiProvider({ ...baseConfig, provider: "openai" }).complete("prompt")).rejects.toThrow(
+      "openai API error 429: rate limited",
+    );
+  });
+});
+
+describe("mock LLM server", () => {
+  let server: MockLlmServer;
+
+  beforeEach(async () => {
+    server = await startMockLlmServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("answers both APIs with the analyzer's response format", async () => {
+    for (const provider of ["anthropic", "openai"] as const) {
+      const llm = createLlmProvider({ ...baseConfig, provider, baseUrl: server.url });
+      const result = await analyzeItem(testItem, llm);
+      expect(result).toMatchObject({ relevant: true, title: "Children's code", stage: "proposed" });
+    }
+    expect(server.prompts).toHaveLength(2);
+    expect(server.prompts[0]).toContain("--- CRAWLED TEXT ---");
+  });
+
+  it("runs the whole pipeline against a local server", async () => {
+    const originalEnv = { ...process.env };
+    process.env.LLM_PROVIDER = "openai";
+    process.env.LLM_BASE_URL = server.url;
+    // Pages are served by the fetch mock; analysis requests go to the local server
+    global.fetch = jest.fn(async (input: string | URL, init?: RequestInit) => {
+      if (String(input).startsWith(server.url)) return originalFetch(input, init);
+      return {
+        ok: true,
+        status: 200,
+        text: async () => `<html><head><title>Children's code</title></head><body><main><p>${testItem.text}</p></main></body></html>`,
+      };
+    }) as unknown as typeof fetch;
+
+    try {
+      const db = openDatabase(":memory:");
+      initializeSchema(db);
+      seedSourceRegistry(db, [testSource]);
+      const result = await runPipeline(db, "", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+
+      expect(result).toMatchObject({ itemsCrawled: 1, itemsRelevant: 1, itemsNew: 1, errors: [] });
+      expect(server.prompts).toHaveLength(1);
+      expect(db.prepare("SELECT title FROM regulation_events").all()).toEqual([{ title: "Children's code" }]);
+      db.close();
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+
+  it("serves custom replies", async () => {
+    await server.close();
+    server = await startMockLlmServer({ respond: () => JSON.stringify({ relevant: false }) });
+    expect(await analyzeItem(testItem, createLlmProvider({ ...baseConfig, baseUrl: server.url }))).toEqual({ relevant: false });
+  });
+});
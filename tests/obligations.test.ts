@@ -0,0 +1,205 @@
+import request from "supertest";
+import { analyzeItem } from "../src/analyzer";
+import { createApp } from "../src/app";
+import { type CrawledItem } from "../src/crawler";
+import { backfillLawsFromEvents, ensureSource, initializeSchema, openDatabase, upsertEvent } from "../src/db";
+import { classifyObligation, obligationTypes, type Obligation } from "../src/obligations";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const source: RegistrySource = {
+  name: "Regulation tracker",
+  url: "https://tracker.example.org",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Global",
+  jurisdictionCountry: "Global",
+  reliabilityTier: 4,
+  description: "Test source",
+};
+
+const item: CrawledItem = {
+  source,
+  url: "https://tracker.example.org/australia",
+  title: "Social media minimum age",
+  text: "Platforms must take reasonable steps to prevent children under 16 from having accounts.",
+  fetchedAt: new Date().toISOString(),
+};
+
+function mockReply(fields: Record<string, unknown>) {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            relevant: true,
+            title: "Online Safety Amendment (Social Media Minimum Age) Act",
+            jurisdiction: "Australia",
+            stage: "enacted",
+            ageBracket: "13-15",
+            summary: "Under-16s may not hold social media accounts.",
+            impactScore: 5,
+            likelihoodScore: 5,
+            confidenceScore: 4,
+            chiliScore: 5,
+            ...fields,
+          }),
+        },
+      ],
+    }),
+  }) as unknown as typeof fetch;
+}
+
+describe("obligation taxonomy", () => {
+  it("classifies free-text requirements", () => {
+    expect(classifyObligation("Age-assurance controls")).toBe("age_assurance");
+    expect(classifyObligation("Obtain verifiable parental consent")).toBe("parental_consent");
+    expect(classifyObligation("Stop targeted advertising to under-18s")).toBe("ad_profiling_ban");
+    expect(classifyObligation("Offer a non-personalised recommender feed")).toBe("algorithmic_feed_restrictions");
+    expect(classifyObligation("Set teen accounts to private by default")).toBe("default_privacy_settings");
+    expect(classifyObligation("Policy review")).toBeNull();
+  });
+
+  it("takes the analyzer's obligations with their provisions", async () => {
+    mockReply({
+      requiredSolutions: ["Age-assurance controls"],
+      obligations: [
+        { type: "minimum_age", provision: "s. 63D", text: "Prevent under-16s from having accounts" },
+        { type: "age_assurance", provision: " ", text: "Take reasonable steps to check ages" },
+      ],
+    });
+    const result = await analyzeItem(item, "test-key");
+    expect(result!.obligations).toEqual([
+      { type: "minimum_age", provision: "s. 63D", text: "Prevent under-16s from having accounts" },
+      { type: "age_assurance", provision: null, text: "Take reasonable steps to check ages" },
+    ]);
+  });
+
+  it("maps free-text solutions onto the taxonomy when the reply has no obligations", async () => {
+    mockReply({ requiredSolutions: ["Policy review", "Age-assurance controls", "Age verification at sign-up"] });
+    const result = await analyzeItem(item, "test-key");
+    expect(result!.obligations).toEqual([{ type: "age_assurance", provision: null, text: "Age-assurance controls" }]);
+  });
+});
+
+describe("GET /api/obligations", () => {
+  function seed() {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const sourceId = ensureSource(db, source);
+    const addEvent = (country: string, title: string, obligations: Obligation[]) =>
+      upsertEvent(db, {
+        title,
+        jurisdictionCountry: country,
+        jurisdictionState: null,
+        stage: "enacted",
+        isUnder16Applicable: true,
+        ageBracket: "both",
+        impactScore: 4,
+        likelihoodScore: 4,
+        confidenceScore: 4,
+        chiliScore: 4,
+        summary: title,
+        businessImpact: null,
+        requiredSolutions: null,
+        affectedProducts: null,
+        competitorResponses: null,
+        rawText: title,
+        sourceUrlLink: `https://tracker.example.org/${country.toLowerCase()}`,
+        effectiveDate: null,
+        publishedDate: "2026-01-10",
+        sourceId,
+        obligations,
+      });
+
+    addEvent("Australia", "Australia social media minimum age", [
+      { type: "minimum_age", provision: "s. 63D", text: "No accounts for under-16s" },
+      { type: "age_assurance", provision: "s. 63DA", text: "Reasonable steps to check ages" },
+    ]);
+    addEvent("United Kingdom", "UK Online Safety Act children's duties", [
+      { type: "age_assurance", provision: "s. 12", text: "Highly effective age assurance" },
+      { type: "risk_assessment", provision: "s. 11", text: "Children's risk assessment" },
+    ]);
+    backfillLawsFromEvents(db);
+    return db;
+  }
+
+  it("lists the laws imposing each obligation and their jurisdictions", async () => {
+    const db = seed();
+    const response = await request(createApp(db)).get("/api/obligations").expect(200);
+
+    expect(response.body.items.map((entry: { type: string }) => entry.type)).toEqual([...obligationTypes]);
+    const ageAssurance = response.body.items.find((entry: { type: string }) => entry.type === "age_assurance");
+    expect(ageAssurance).toMatchObject({
+      label: "Age assurance",
+      lawCount: 2,
+      jurisdictions: ["Australia", "United Kingdom"],
+      laws: [
+        { jurisdiction: { country: "Australia" }, provisions: ["s. 63DA"] },
+        { jurisdiction: { country: "United Kingdom" }, provisions: ["s. 12"] },
+      ],
+    });
+    expect(response.body.items.find((entry: { type: string }) => entry.type === "time_limits")).toMatchObject({ lawCount: 0, laws: [] });
+    db.close();
+  });
+
+  it("filters by obligation type and jurisdiction", async () => {
+    const db = seed();
+    const app = createApp(db);
+
+    const filtered = await request(app).get("/api/obligations?type=age_assurance&jurisdiction=United%20Kingdom").expect(200);
+    expect(filtered.body.items).toHaveLength(1);
+    expect(filtered.body.items[0]).toMatchObject({ type: "age_assurance", lawCount: 1, jurisdictions: ["United Kingdom"] });
+
+    const invalid = await request(app).get("/api/obligations?type=screen_time").expect(400);
+    expect(invalid.body.error).toContain("type must be one of: age_assurance");
+
+    const { id } = db.prepare("SELECT id FROM regulation_events WHERE jurisdiction_country = 'Australia'").get() as { id: string };
+    const detail = await request(app).get(`/api/events/${id}`).expect(200);
+    expect(detail.body.obligations).toEqual([
+      { type: "age_assurance", provision: "s. 63DA", text: "Reasonable steps to check ages" },
+      { type: "minimum_age", provision: "s. 63D", text: "No accounts for under-16s" },
+    ]);
+    db.close();
+  });
+
+  it("replaces an event's obligations when a re-analysis leaves its scores unchanged", async () => {
+    const db = seed();
+    const input = {
+      title: "Australia social media minimum age",
+      jurisdictionCountry: "Australia",
+      jurisdictionState: null,
+      stage: "enacted",
+      isUnder16Applicable: true,
+      ageBracket: "both" as const,
+      impactScore: 4,
+      likelihoodScore: 4,
+      confidenceScore: 4,
+      chiliScore: 4,
+      summary: "Australia social media minimum age",
+      businessImpact: null,
+      requiredSolutions: null,
+      affectedProducts: null,
+      competitorResponses: null,
+      rawText: "Australia social media minimum age",
+      sourceUrlLink: "https://tracker.example.org/australia",
+      effectiveDate: null,
+      publishedDate: "2026-01-10",
+      sourceId: ensureSource(db, source),
+      obligations: [{ type: "time_limits" as const, provision: "s. 63E", text: "Curfew for under-16s" }],
+    };
+    expect(upsertEvent(db, input)).toBe("duplicate");
+
+    const { id } = db.prepare("SELECT id FROM regulation_events WHERE jurisdiction_country = 'Australia'").get() as { id: string };
+    const detail = await request(createApp(db)).get(`/api/events/${id}`).expect(200);
+    expect(detail.body.obligations).toEqual([{ type: "time_limits", provision: "s. 63E", text: "Curfew for under-16s" }]);
+    db.close();
+  });
+});
@@ -0,0 +1,129 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { commitCrawlCheckpoints, crawlSource } from "../src/crawler";
+import { createPageSnapshotStore, initializeSchema, openDatabase } from "../src/db";
+import { diffParagraphs, formatParagraphDiff } from "../src/page-diff";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const ftcSource: RegistrySource = {
+  name: "FTC COPPA Rule",
+  url: "https://www.ftc.gov/coppa",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United States",
+  jurisdictionCountry: "United States",
+  reliabilityTier: 5,
+  description: "FTC COPPA rule page",
+};
+
+function mockPage(paragraphs: string[]) {
+  const body = `<html><head><title>COPPA Rule</title></head><body>
+    <nav><a href="/">Home</a></nav>
+    ${paragraphs.map((p) => `<p>${p}</p>`).join("\n")}
+  </body></html>`;
+  global.fetch = jest.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(body) }) as unknown as typeof fetch;
+}
+
+describe("diffParagraphs", () => {
+  it("detects inserted and removed paragraphs", () => {
+    const diff = diffParagraphs(["A", "B", "C"], ["A", "New", "C", "D"]);
+    expect(diff.added).toEqual([
+      { index: 1, text: "New" },
+      { index: 3, text: "D" },
+    ]);
+    expect(diff.removed).toEqual([{ index: 1, text: "B" }]);
+  });
+
+  it("ignores whitespace-only differences", () => {
+    const diff = diffParagraphs(["The  rule   applies"], ["The rule applies"]);
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+  });
+
+  it("formats changes for the analyzer", () => {
+    const text = formatParagraphDiff({ added: [{ index: 0, text: "Added text" }], removed: [] }, "2026-03-01T00:00:00.000Z");
+    expect(text).toContain("2026-03-01T00:00:00.000Z");
+    expect(text).toContain("+ Added text");
+    expect(text).not.toContain("Removed paragraphs");
+  });
+});
+
+describe("page snapshots in crawlPage", () => {
+  it("sends the full page first, then only changed paragraphs", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const pageSnapshots = createPageSnapshotStore(db);
+
+    mockPage(["Operators must obtain verifiable parental consent.", "The rule was amended in 2025."]);
+    const first = await crawlSource(ftcSource, { pageSnapshots });
+    expect(first).toHaveLength(1);
+    expect(first[0].text).toContain("verifiable parental consent");
+    commitCrawlCheckpoints(first, { pageSnapshots });
+
+    mockPage([
+      "Operators must obtain verifiable parental consent.",
+      "The rule was amended in 2025.",
+      "Compliance is required by April 22, 2026.",
+    ]);
+    const second = await crawlSource(ftcSource, { pageSnapshots });
+    expect(second).toHaveLength(1);
+    expect(second[0].text).toContain("+ Compliance is required by April 22, 2026.");
+    expect(second[0].text).not.toContain("verifiable parental consent");
+    // Until the change is processed, later crawls keep diffing against the first snapshot
+    expect(await crawlSource(ftcSource, { pageSnapshots })).toEqual([expect.objectContaining({ text: second[0].text })]);
+    commitCrawlCheckpoints(second, { pageSnapshots });
+
+    const third = await crawlSource(ftcSource, { pageSnapshots });
+    expect(third).toHaveLength(0);
+
+    const snapshots = db.prepare("SELECT COUNT(*) AS c FROM page_snapshots").get() as { c: number };
+    expect(snapshots.c).toBe(2);
+
+    db.close();
+  });
+});
+
+describe("GET /api/sources/:id/changes", () => {
+  it("returns added and removed paragraphs per snapshot", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const pageSnapshots = createPageSnapshotStore(db);
+    const source = {
+      name: ftcSource.name,
+      url: ftcSource.url,
+      authorityType: ftcSource.authorityType,
+      jurisdiction: ftcSource.jurisdiction,
+      reliabilityTier: ftcSource.reliabilityTier,
+    };
+
+    pageSnapshots.record({ source, url: ftcSource.url, paragraphs: ["Intro", "Old guidance"], fetchedAt: "2026-03-01T00:00:00.000Z" });
+    const result = pageSnapshots.record({
+      source,
+      url: ftcSource.url,
+      paragraphs: ["Intro", "New guidance"],
+      fetchedAt: "2026-03-02T00:00:00.000Z",
+    });
+
+    const sourceId = (db.prepare("SELECT id FROM sources WHERE name = ?").get(ftcSource.name) as { id: number }).id;
+    const app = createApp(db);
+
+    const response = await request(app).get(`/api/sources/${sourceId}/changes`);
+    expect(response.status).toBe(200);
+    expect(response.body.snapshotCount).toBe(2);
+    expect(response.body.items).toHaveLength(1);
+    expect(response.body.items[0].snapshotId).toBe(result.snapshotId);
+    expect(response.body.items[0].added).toEqual([{ index: 1, text: "New guidance" }]);
+    expect(response.body.items[0].removed).toEqual([{ index: 1, text: "Old guidance" }]);
+
+    const missing = await request(app).get("/api/sources/9999/changes");
+    expect(missing.status).toBe(404);
+
+    db.close();
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import request from "supertest";
+import { createApp } from "../src/app";
+import { initializeSchema, openDatabase } from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { createRawArchive, openRawArchive, redactUrl } from "../src/raw-archive";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const pageSource: RegistrySource = {
+  name: "Example Gov — children online",
+  url: "https://example.gov/children-online",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  reliabilityTier: 5,
+  description: "Guidance on children's online safety",
+};
+
+const pageHtml = `<!doctype html>
+<html><head><title>Age checks for social media</title></head>
+<body><main>
+<h1>Age checks for social media</h1>
+<p>Platforms must verify that users are at least 16 years old before they can open an account.</p>
+<p>The regulator will publish guidance on acceptable age assurance methods before enforcement begins.</p>
+</main></body></html>`;
+
+function mockPage() {
+  const fetchMock = jest.fn(async (input: string | URL) => {
+    const url = new URL(String(input));
+    if (url.host === "api.minimax.io") {
+      const analysis = {
+        relevant: true,
+        title: "Age checks for social media",
+        jurisdiction: "United Kingdom",
+        stage: "proposed",
+        ageBracket: "both",
+        summary: "Platforms must verify users are 16 or older",
+        impactScore: 4,
+        likelihoodScore: 4,
+        confidenceScore: 4,
+        chiliScore: 4,
+      };
+      return { ok: true, status: 200, json: async () => ({ content: [{ type: "text", text: JSON.stringify(analysis) }] }) };
+    }
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers({ "content-type": "text/html; charset=utf-8", "set-cookie": "session=secret", etag: '"v1"' }),
+      text: async () => pageHtml,
+    };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+}
+
+const originalFetch = global.fetch;
+const originalArchiveDir = process.env.RAW_ARCHIVE_DIR;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "raw-archive-"));
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  if (originalArchiveDir === undefined) delete process.env.RAW_ARCHIVE_DIR;
+  else process.env.RAW_ARCHIVE_DIR = originalArchiveDir;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe("raw archive", () => {
+  it("stores bodies once under their SHA-256, compressed", () => {
+    const archive = createRawArchive(tmpDir);
+    const body = Buffer.from("<p>Children under 16</p>".repeat(200));
+
+    const first = archive.store(body);
+    const second = archive.store(body);
+    expect(second).toEqual(first);
+    expect(first.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.size).toBe(body.length);
+    expect(first.compressedSize).toBeLessThan(body.length);
+    expect(fs.readdirSync(path.join(tmpDir, first.sha256.slice(0, 2)))).toEqual([`${first.sha256}.gz`]);
+
+    expect(archive.read(first.sha256)).toEqual(body);
+    expect(archive.read("0".repeat(64))).toBeNull();
+    expect(archive.read("../../etc/passwd")).toBeNull();
+  });
+
+  it("refuses to return a body that no longer matches its hash", () => {
+    const archive = createRawArchive(tmpDir);
+    const stored = archive.store(Buffer.from("original"));
+    const file = path.join(tmpDir, stored.sha256.slice(0, 2), `${stored.sha256}.gz`);
+    fs.writeFileSync(file, zlib.gzipSync(Buffer.from("tampered")));
+
+    expect(() => archive.read(stored.sha256)).toThrow("does not match its hash");
+  });
+
+  it("drops credential parameters from recorded URLs", () => {
+    expect(redactUrl("https://api.congress.gov/v3/bill/118/s/1409?format=json&api_key=secret")).toBe(
+      "https://api.congress.gov/v3/bill/118/s/1409?format=json",
+    );
+    expect(redactUrl("https://v3.openstates.org/bills?q=minors&apikey=secret&include=actions")).toBe(
+      "https://v3.openstates.org/bills?q=minors&include=actions",
+    );
+    expect(redactUrl("not a url")).toBe("not a url");
+  });
+
+  it("has no archive for an in-memory database unless RAW_ARCHIVE_DIR is set", () => {
+    delete process.env.RAW_ARCHIVE_DIR;
+    const db = openDatabase(":memory:");
+    expect(openRawArchive(db)).toBeNull();
+    process.env.RAW_ARCHIVE_DIR = tmpDir;
+    expect(openRawArchive(db)?.directory).toBe(tmpDir);
+    db.close();
+  });
+});
+
+describe("event evidence", () => {
+  async function crawlPage(archiveDir: string | null) {
+    if (archiveDir) process.env.RAW_ARCHIVE_DIR = archiveDir;
+    else delete process.env.RAW_ARCHIVE_DIR;
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [pageSource]);
+    mockPage();
+    await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    const event = db.prepare("SELECT id FROM regulation_events").get() as { id: string };
+    return { db, eventId: event.id };
+  }
+
+  it("returns the exact archived snapshot behind an event", async () => {
+    const { db, eventId } = await crawlPage(tmpDir);
+    const runId = (db.prepare("SELECT id FROM crawl_runs").get() as { id: number }).id;
+
+    const response = await request(createApp(db)).get(`/api/events/${eventId}/evidence`).expect(200);
+    expect(response.body.snapshots).toHaveLength(1);
+    expect(response.body.snapshots[0]).toMatchObject({
+      runId,
+      url: pageSource.url,
+      statusCode: 200,
+      contentType: "text/html; charset=utf-8",
+      rendered: false,
+      size: Buffer.byteLength(pageHtml),
+      encoding: "utf8",
+      content: pageHtml,
+    });
+    expect(response.body.snapshots[0].headers).toEqual({ "content-type": "text/html; charset=utf-8", etag: '"v1"' });
+    expect(response.body.earlierSnapshots).toEqual([]);
+
+    db.close();
+  });
+
+  it("reports events without an archived snapshot", async () => {
+    const { db, eventId } = await crawlPage(null);
+    expect(db.prepare("SELECT COUNT(*) AS count FROM crawl_artifacts").get()).toEqual({ count: 0 });
+
+    const app = createApp(db);
+    await request(app).get(`/api/events/${eventId}/evidence`).expect(404, { error: "no archived snapshot for this event" });
+    await request(app).get("/api/events/missing/evidence").expect(404, { error: "event not found" });
+
+    db.close();
+  });
+});
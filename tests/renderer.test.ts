@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { crawlSource } from "../src/crawler";
+import { getActiveSources, initializeSchema, listSources, openDatabase, updateSource } from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { createChromeRenderer, findChromeExecutable, type PageRenderer } from "../src/renderer";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+const spaSource: RegistrySource = {
+  name: "Kominfo Regulations",
+  url: "https://regulator.example.id/regulasi",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Indonesia",
+  jurisdictionCountry: "Indonesia",
+  reliabilityTier: 5,
+  description: "Indonesian communications ministry regulations",
+};
+
+const shellHtml = `<html><head><title>Kominfo</title></head><body><div id="app"></div><script src="/app.js"></script></body></html>`;
+const renderedHtml = `<html><head><title>Kominfo</title></head><body><div id="app">
+  <h1>Regulasi</h1>
+  <p>Government Regulation 17/2025 on child protection requires platforms to verify the age of users under 18
+  and to obtain parental consent before children can create accounts on high-risk services.</p>
+  <p>Platforms must complete a self-assessment of child risk within two years of the regulation taking effect.</p>
+</div></body></html>`;
+
+function mockStatic(html = shellHtml) {
+  const fetchMock = jest.fn(async () => ({ ok: true, status: 200, text: () => Promise.resolve(html) }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+function fakeRenderer(html = renderedHtml): PageRenderer & { render: jest.Mock } {
+  return { render: jest.fn(async () => html) };
+}
+
+describe("findChromeExecutable", () => {
+  it("prefers CHROME_PATH and returns null when the browser is missing", () => {
+    expect(findChromeExecutable({ CHROME_PATH: process.execPath })).toBe(process.execPath);
+    expect(findChromeExecutable({ CHROME_PATH: "/nonexistent/chrome" })).toBeNull();
+  });
+});
+
+describe("createChromeRenderer", () => {
+  it("dumps the DOM of the page through the browser binary", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "renderer-"));
+    const executablePath = path.join(dir, "fake-chrome");
+    fs.writeFileSync(executablePath, '#!/bin/sh\nfor last; do :; done\necho "<html><body><p>rendered $last</p></body></html>"\n');
+    fs.chmodSync(executablePath, 0o755);
+
+    const renderer = createChromeRenderer({ executablePath, userAgent: "Under16RegBot/0.1" });
+    expect(await renderer!.render("https://regulator.example.id/regulasi")).toContain(
+      "rendered https://regulator.example.id/regulasi",
+    );
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is unavailable without a browser", () => {
+    const previous = process.env.CHROME_PATH;
+    process.env.CHROME_PATH = "/nonexistent/chrome";
+    try {
+      expect(createChromeRenderer()).toBeNull();
+    } finally {
+      if (previous === undefined) delete process.env.CHROME_PATH;
+      else process.env.CHROME_PATH = previous;
+    }
+  });
+});
+
+describe("rendering in crawlPage", () => {
+  it("extracts text from the rendered DOM for sources with render enabled", async () => {
+    mockStatic();
+    const renderer = fakeRenderer();
+
+    const items = await crawlSource({ ...spaSource, render: true }, { renderer });
+    expect(renderer.render).toHaveBeenCalledWith(spaSource.url);
+    expect(items[0].text).toContain("Government Regulation 17/2025");
+    expect(items[0].text).not.toContain("Description:");
+  });
+
+  it("falls back to the static HTML when rendering fails", async () => {
+    mockStatic();
+    const renderer = { render: jest.fn(async () => Promise.reject(new Error("browser crashed"))) };
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const items = await crawlSource({ ...spaSource, render: true }, { renderer });
+    expect(items).toHaveLength(1);
+    expect(items[0].text).toContain("Description: Indonesian communications ministry regulations");
+  });
+
+  it("reports thin pages unless the source opted out of rendering", async () => {
+    mockStatic();
+    const thin: string[] = [];
+    const onThinPage = (source: RegistrySource) => thin.push(source.name);
+
+    await crawlSource(spaSource, { onThinPage });
+    await crawlSource({ ...spaSource, name: "Opted out", render: false }, { onThinPage });
+    mockStatic(renderedHtml);
+    await crawlSource({ ...spaSource, name: "Static page" }, { onThinPage });
+
+    expect(thin).toEqual(["Kominfo Regulations"]);
+  });
+});
+
+describe("thin-page flagging in the pipeline", () => {
+  it("flags a thin source and renders it on the next run", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [spaSource]);
+    mockStatic();
+    const renderer = fakeRenderer();
+    const options = { respectRobotsTxt: false, hostMinDelayMs: 0, conditionalFetch: false, renderer };
+
+    const first = await runPipeline(db, "test-key", options);
+    expect(first.sourcesFlaggedForRendering).toEqual(["Kominfo Regulations"]);
+    expect(renderer.render).not.toHaveBeenCalled();
+    expect(getActiveSources(db)[0].render).toBe(true);
+    expect(listSources(db)[0].renderFlaggedAt).not.toBeNull();
+
+    const second = await runPipeline(db, "test-key", options);
+    expect(second.sourcesFlaggedForRendering).toEqual([]);
+    expect(renderer.render).toHaveBeenCalledTimes(1);
+
+    db.close();
+  });
+
+  it("does not flag sources that explicitly disable rendering", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [spaSource]);
+    updateSource(db, listSources(db)[0].id, { render: false });
+    mockStatic();
+
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+    expect(result.sourcesFlaggedForRendering).toEqual([]);
+    expect(getActiveSources(db)[0].render).toBe(false);
+
+    db.close();
+  });
+});
@@ -0,0 +1,155 @@
+import { getCrawlRunItems, getLatestRecordedCrawlRunId, initializeSchema, openDatabase } from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { replayCrawlRun } from "../src/replay";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const ageChecks: RegistrySource = {
+  name: "Example Gov — age checks",
+  url: "https://example.gov/age-checks",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  reliabilityTier: 5,
+  description: "Age assurance guidance",
+};
+
+const appStores: RegistrySource = {
+  ...ageChecks,
+  name: "Example Gov — app stores",
+  url: "https://example.gov/app-stores",
+  description: "App store guidance",
+};
+
+const advertising: RegistrySource = {
+  ...ageChecks,
+  name: "Example Gov — advertising",
+  url: "https://example.gov/advertising",
+  description: "Advertising guidance",
+};
+
+function page(title: string): string {
+  return `<html><head><title>${title}</title></head><body><main><h1>${title}</h1>
+<p>${title}: services likely to be accessed by children under 16 must meet new requirements from next year.</p>
+</main></body></html>`;
+}
+
+type Verdict = { relevant: boolean; stage?: string; impactScore?: number };
+
+/** Serve the source pages; the analyzer returns the verdict configured for each page title */
+function mockNetwork(verdicts: Record<string, Verdict>) {
+  const fetchMock = jest.fn(async (input: string | URL, init?: { body?: string }) => {
+    const url = new URL(String(input));
+    if (url.host === "api.minimax.io") {
+      const prompt = JSON.parse(init?.body ?? "{}").messages[0].content as string;
+      const title = prompt.match(/\nTitle: (.*)\n/)?.[1] ?? "Untitled";
+      const verdict = verdicts[title] ?? { relevant: false };
+      const analysis = {
+        relevant: verdict.relevant,
+        title,
+        jurisdiction: "United Kingdom",
+        stage: verdict.stage ?? "proposed",
+        ageBracket: "both",
+        summary: `Summary of ${title}`,
+        impactScore: verdict.impactScore ?? 3,
+        likelihoodScore: 3,
+        confidenceScore: 4,
+        chiliScore: 3,
+      };
+      return { ok: true, status: 200, json: async () => ({ content: [{ type: "text", text: JSON.stringify(analysis) }] }) };
+    }
+    const title = { "/age-checks": "Age checks", "/app-stores": "App stores", "/advertising": "Advertising" }[url.pathname];
+    if (!title) return { ok: false, status: 404, statusText: "Not Found", text: async () => "" };
+    return { ok: true, status: 200, text: async () => page(title) };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+async function crawlProduction() {
+  const db = openDatabase(":memory:");
+  initializeSchema(db);
+  seedSourceRegistry(db, [ageChecks, appStores, advertising]);
+  mockNetwork({
+    "Age checks": { relevant: true, stage: "proposed", impactScore: 3 },
+    "App stores": { relevant: true, stage: "proposed", impactScore: 3 },
+    Advertising: { relevant: false },
+  });
+  const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null });
+  return { db, runId: result.runId };
+}
+
+describe("replay", () => {
+  it("records the items each crawl run analyzed", async () => {
+    const { db, runId } = await crawlProduction();
+
+    expect(getLatestRecordedCrawlRunId(db)).toBe(runId);
+    const items = getCrawlRunItems(db, runId);
+    expect(items.map((item) => item.url).sort()).toEqual([advertising.url, ageChecks.url, appStores.url]);
+    expect(items.find((item) => item.url === ageChecks.url)).toMatchObject({ title: "Age checks", source: { name: ageChecks.name } });
+
+    db.close();
+  });
+
+  it("re-analyzes a run into a scratch database without crawling and diffs it against production", async () => {
+    const { db, runId } = await crawlProduction();
+    const productionEvents = db.prepare("SELECT id, stage, impact_score FROM regulation_events ORDER BY id").all();
+
+    const fetchMock = mockNetwork({
+      "Age checks": { relevant: true, stage: "enacted", impactScore: 5 },
+      "App stores": { relevant: false },
+      Advertising: { relevant: true },
+    });
+    const scratch = openDatabase(":memory:");
+    const report = await replayCrawlRun(db, scratch, runId, "test-key");
+
+    // Only the analyzer was called
+    expect(fetchMock.mock.calls.every(([input]) => new URL(String(input)).host === "api.minimax.io")).toBe(true);
+
+    expect(report).toMatchObject({ runId, itemsReplayed: 3, itemsRelevant: 2, itemsNew: 2, unchanged: 0, errors: [] });
+    expect(report.newlyRelevant).toEqual([{ url: advertising.url, title: "Advertising", sourceName: advertising.name }]);
+    expect(report.noLongerRelevant).toMatchObject([{ url: appStores.url, title: "App stores" }]);
+    expect(report.stageChanges).toMatchObject([{ url: ageChecks.url, production: "proposed", replay: "enacted" }]);
+    expect(report.scoreChanges).toMatchObject([
+      { url: ageChecks.url, changes: { impactScore: { production: 3, replay: 5 } } },
+    ]);
+
+    // Production is untouched; the replayed events live in the scratch database
+    expect(db.prepare("SELECT id, stage, impact_score FROM regulation_events ORDER BY id").all()).toEqual(productionEvents);
+    expect(scratch.prepare("SELECT source_url_link FROM regulation_events ORDER BY source_url_link").all()).toEqual([
+      { source_url_link: advertising.url },
+      { source_url_link: ageChecks.url },
+    ]);
+
+    scratch.close();
+    db.close();
+  });
+
+  it("reports an unchanged run as unchanged", async () => {
+    const { db, runId } = await crawlProduction();
+    const scratch = openDatabase(":memory:");
+
+    const report = await replayCrawlRun(db, scratch, runId, "test-key");
+    expect(report).toMatchObject({ unchanged: 3, newlyRelevant: [], noLongerRelevant: [], stageChanges: [], scoreChanges: [] });
+
+    scratch.close();
+    db.close();
+  });
+
+  it("refuses runs without recorded items", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    await expect(replayCrawlRun(db, openDatabase(":memory:"), 42, "test-key")).rejects.toThrow(
+      "Crawl run 42 has no recorded items to replay",
+    );
+    db.close();
+  });
+});
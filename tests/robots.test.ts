@@ -0,0 +1,225 @@
+import { buildUserAgent, crawlSource, type SourceCrawlResult } from "../src/crawler";
+import { getLatestCrawlRun, initializeSchema, openDatabase } from "../src/db";
+import { createHostLimiter } from "../src/host-limiter";
+import { runPipeline } from "../src/pipeline";
+import { createRobotsChecker, isPathAllowed, parseRobotsTxt, userAgentToken } from "../src/robots";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+  jest.restoreAllMocks();
+});
+
+const userAgent = buildUserAgent("mailto:crawler@example.org");
+
+const govSource: RegistrySource = {
+  name: "Gov Page",
+  url: "https://gov.example.com/policy/children",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Test Country",
+  jurisdictionCountry: "Test Country",
+  reliabilityTier: 5,
+  description: "Government policy page",
+};
+
+function mockSite(robotsTxt: string | number, pageHtml = "<html><head><title>Policy</title></head><body><p>Policy text</p></body></html>") {
+  const fetchMock = jest.fn(async (url: string | URL | globalThis.Request) => {
+    if (String(url).endsWith("/robots.txt")) {
+      if (typeof robotsTxt === "number") {
+        return { ok: false, status: robotsTxt, statusText: "", text: () => Promise.resolve("") };
+      }
+      return { ok: true, status: 200, text: () => Promise.resolve(robotsTxt) };
+    }
+    return { ok: true, status: 200, text: () => Promise.resolve(pageHtml) };
+  });
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe("robots.txt rules", () => {
+  const robots = parseRobotsTxt(`
+# Example
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.pdf$
+
+User-agent: Under16RegBot
+User-agent: OtherBot
+Disallow: /search
+Allow: /search/help
+
+User-agent: BadBot
+Disallow: /
+`);
+
+  it("groups consecutive user-agent lines", () => {
+    expect(robots.groups).toHaveLength(3);
+    expect(robots.groups[1].userAgents).toEqual(["under16regbot", "otherbot"]);
+  });
+
+  it("uses the group for our product token before the * group", () => {
+    expect(userAgentToken(userAgent)).toBe("under16regbot");
+    expect(isPathAllowed(robots, userAgent, "/private/data")).toBe(true);
+    expect(isPathAllowed(robots, userAgent, "/search?q=coppa")).toBe(false);
+    expect(isPathAllowed(robots, userAgent, "/search/help")).toBe(true);
+  });
+
+  it("applies the longest match and wildcards for other agents", () => {
+    expect(isPathAllowed(robots, "SomeBot/1.0", "/private/data")).toBe(false);
+    expect(isPathAllowed(robots, "SomeBot/1.0", "/private/press/release-1")).toBe(true);
+    expect(isPathAllowed(robots, "SomeBot/1.0", "/docs/bill.pdf")).toBe(false);
+    expect(isPathAllowed(robots, "SomeBot/1.0", "/docs/bill.pdf?download=1")).toBe(true);
+    expect(isPathAllowed(robots, "BadBot", "/anything")).toBe(false);
+  });
+
+  it("allows everything when there are no matching rules", () => {
+    expect(isPathAllowed(parseRobotsTxt(""), userAgent, "/")).toBe(true);
+    expect(isPathAllowed(parseRobotsTxt("User-agent: *\nDisallow:"), userAgent, "/x")).toBe(true);
+  });
+});
+
+describe("createRobotsChecker", () => {
+  it("fetches robots.txt once per host and caches it", async () => {
+    const fetchMock = mockSite("User-agent: *\nDisallow: /admin");
+    const checker = createRobotsChecker({ userAgent });
+
+    expect(await checker.isAllowed("https://gov.example.com/policy")).toBe(true);
+    expect(await checker.isAllowed("https://gov.example.com/admin/users")).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toBe("https://gov.example.com/robots.txt");
+  });
+
+  it("refetches after the cache TTL", async () => {
+    const fetchMock = mockSite("User-agent: *\nDisallow:");
+    let now = 0;
+    const checker = createRobotsChecker({ userAgent, cacheTtlMs: 1_000, now: () => now });
+
+    await checker.isAllowed("https://gov.example.com/a");
+    now = 500;
+    await checker.isAllowed("https://gov.example.com/b");
+    now = 1_500;
+    await checker.isAllowed("https://gov.example.com/c");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("treats a missing robots.txt as allow-all and a server error as disallow-all", async () => {
+    mockSite(404);
+    expect(await createRobotsChecker({ userAgent }).isAllowed("https://gov.example.com/x")).toBe(true);
+
+    mockSite(503);
+    expect(await createRobotsChecker({ userAgent }).isAllowed("https://gov.example.com/x")).toBe(false);
+    expect(await createRobotsChecker({ userAgent }).check("https://gov.example.com/x")).toEqual({ allowed: false, unreachable: "HTTP 503" });
+  });
+});
+
+describe("createHostLimiter", () => {
+  it("caps concurrent requests per host and spaces their starts", async () => {
+    let now = 0;
+    const sleeps: number[] = [];
+    const limiter = createHostLimiter({
+      maxConcurrentPerHost: 1,
+      minDelayMs: 1_000,
+      now: () => now,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        now += ms;
+      },
+    });
+
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await Promise.resolve();
+      active--;
+    };
+
+    await Promise.all([
+      limiter.run("https://a.example.com/1", task),
+      limiter.run("https://a.example.com/2", task),
+      limiter.run("https://a.example.com/3", task),
+      limiter.run("https://b.example.com/1", task),
+    ]);
+
+    expect(maxActive).toBeLessThanOrEqual(2);
+    expect(sleeps).toEqual([1_000, 1_000]);
+  });
+
+  it("allows several in-flight requests per host up to the cap", async () => {
+    const limiter = createHostLimiter({ maxConcurrentPerHost: 2, minDelayMs: 0 });
+    let active = 0;
+    let maxActive = 0;
+    const task = () =>
+      new Promise<void>((resolve) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        setTimeout(() => {
+          active--;
+          resolve();
+        }, 5);
+      });
+
+    await Promise.all([1, 2, 3, 4].map((n) => limiter.run(`https://a.example.com/${n}`, task)));
+    expect(maxActive).toBe(2);
+  });
+});
+
+describe("robots.txt in crawling", () => {
+  it("skips disallowed sources and reports them", async () => {
+    const fetchMock = mockSite("User-agent: *\nDisallow: /policy/");
+    const blocked: string[] = [];
+    const robots = createRobotsChecker({ userAgent });
+
+    const items = await crawlSource(govSource, { robots, userAgent, onRobotsBlocked: (source) => blocked.push(source.name) });
+    expect(items).toHaveLength(0);
+    expect(blocked).toEqual(["Gov Page"]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports an unreachable robots.txt as a failed crawl rather than a block", async () => {
+    mockSite(503);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const blocked: string[] = [];
+    const results: SourceCrawlResult[] = [];
+
+    const items = await crawlSource(govSource, {
+      robots: createRobotsChecker({ userAgent }),
+      onRobotsBlocked: (source) => blocked.push(source.name),
+      onSourceResult: (result) => results.push(result),
+    });
+    expect(items).toEqual([]);
+    expect(blocked).toEqual([]);
+    expect(results).toMatchObject([{ status: "failed", error: "robots.txt unreachable: HTTP 503" }]);
+  });
+
+  it("sends the configured User-Agent", async () => {
+    const fetchMock = mockSite("User-agent: *\nDisallow:");
+    const items = await crawlSource(govSource, { robots: createRobotsChecker({ userAgent }), userAgent });
+    expect(items).toHaveLength(1);
+    const headers = (fetchMock.mock.calls[1] as unknown[])[1] as { headers: Record<string, string> };
+    expect(headers.headers["User-Agent"]).toBe("Under16RegBot/0.1 (+mailto:crawler@example.org)");
+  });
+
+  it("records robots-blocked sources on the crawl run", async () => {
+    mockSite("User-agent: Under16RegBot\nDisallow: /");
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+
+    const result = await runPipeline(db, "test-key", {
+      sources: [govSource],
+      userAgent,
+      hostMinDelayMs: 0,
+    });
+
+    expect(result.sourcesBlockedByRobots).toEqual(["Gov Page"]);
+    expect(result.errors).toEqual([]);
+    expect(getLatestCrawlRun(db)?.robotsBlockedSources).toEqual(["Gov Page"]);
+
+    db.close();
+  });
+});
@@ -0,0 +1,206 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { getCrawlSchedules, initializeSchema, openDatabase, startCrawlRun } from "../src/db";
+import { type PipelineResult } from "../src/pipeline";
+import {
+  defaultCadences,
+  nextCronRun,
+  parseCronExpression,
+  resolveSourceSchedule,
+  startCrawlScheduler,
+  syncCrawlSchedules,
+} from "../src/scheduler";
+import { seedSampleData } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+
+const govSource: RegistrySource = {
+  name: "Gov Page",
+  url: "https://example.gov/page",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Test",
+  jurisdictionCountry: "Test",
+  reliabilityTier: 5,
+  description: "Official page",
+};
+
+const feedSource: RegistrySource = {
+  ...govSource,
+  name: "News Feed",
+  url: "https://news.example.com/rss",
+  type: "rss_feed",
+  reliabilityTier: 3,
+};
+
+function buildResult(overrides: Partial<PipelineResult> = {}): PipelineResult {
+  return {
+    runId: 1,
+    itemsCrawled: 1,
+    sourcesUnchanged: 0,
+    sourcesBlockedByRobots: [],
+    sourcesFailed: 0,
+    sourcesQuarantined: [],
+    sourcesFlaggedForRendering: [],
+    legislativeBillsSynced: 0,
+    triageThreshold: 0.3,
+    itemsPassedTriage: 1,
+    itemsRejectedByTriage: 0,
+    analysisFailures: 0,
+    analysisCacheHits: 0,
+    analysisCacheMisses: 0,
+    itemsAnalyzed: 1,
+    itemsRelevant: 1,
+    itemsNew: 1,
+    itemsUpdated: 0,
+    itemsDuplicate: 0,
+    errors: [],
+    durationMs: 1,
+    ...overrides,
+  };
+}
+
+describe("cron parsing", () => {
+  it("parses steps, ranges and lists", () => {
+    const schedule = parseCronExpression("*/15 1-3,6 * * 1-5");
+    expect([...schedule.minute.values]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hour.values]).toEqual([1, 2, 3, 6]);
+    expect(schedule.dayOfMonth.wildcard).toBe(true);
+    expect([...schedule.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("* * *")).toThrow("5 fields");
+    expect(() => parseCronExpression("61 * * * *")).toThrow();
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow();
+  });
+
+  it("computes the next hourly, six-hourly and daily runs", () => {
+    const from = new Date("2026-03-10T10:20:00.000Z");
+    expect(nextCronRun("0 * * * *", from).toISOString()).toBe("2026-03-10T11:00:00.000Z");
+    expect(nextCronRun("0 */6 * * *", from).toISOString()).toBe("2026-03-10T12:00:00.000Z");
+    expect(nextCronRun("0 0 * * *", from).toISOString()).toBe("2026-03-11T00:00:00.000Z");
+  });
+
+  it("rolls over month boundaries and honours day-of-week", () => {
+    expect(nextCronRun("30 9 1 * *", new Date("2026-01-31T12:00:00.000Z")).toISOString()).toBe("2026-02-01T09:30:00.000Z");
+    // 2026-03-10 is a Tuesday; next Monday is 2026-03-16
+    expect(nextCronRun("0 8 * * 1", new Date("2026-03-10T00:00:00.000Z")).toISOString()).toBe("2026-03-16T08:00:00.000Z");
+  });
+});
+
+describe("resolveSourceSchedule", () => {
+  it("uses cadence defaults by source type and tier", () => {
+    expect(resolveSourceSchedule(govSource)).toBe(defaultCadences.officialPage);
+    expect(resolveSourceSchedule(feedSource)).toBe(defaultCadences.feed);
+    expect(resolveSourceSchedule({ ...govSource, type: "twitter_search" })).toBe(defaultCadences.twitter);
+    expect(resolveSourceSchedule({ ...govSource, reliabilityTier: 3 })).toBe(defaultCadences.other);
+  });
+
+  it("prefers an explicit schedule", () => {
+    expect(resolveSourceSchedule({ ...govSource, schedule: "15 4 * * *" })).toBe("15 4 * * *");
+  });
+});
+
+describe("crawl scheduler", () => {
+  it("persists schedules and keeps next-run times across restarts", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+
+    syncCrawlSchedules(db, [govSource, feedSource], new Date("2026-03-10T10:20:00.000Z"));
+    syncCrawlSchedules(db, [govSource, feedSource], new Date("2026-03-10T10:40:00.000Z"));
+
+    const schedules = getCrawlSchedules(db);
+    expect(schedules).toHaveLength(2);
+    expect(schedules.find((s) => s.sourceName === "Gov Page")?.nextRunAt).toBe("2026-03-10T11:00:00.000Z");
+
+    syncCrawlSchedules(db, [{ ...govSource, schedule: "30 * * * *" }], new Date("2026-03-10T10:40:00.000Z"));
+    const updated = getCrawlSchedules(db).find((s) => s.sourceName === "Gov Page");
+    expect(updated?.cronExpression).toBe("30 * * * *");
+    expect(updated?.nextRunAt).toBe("2026-03-10T11:30:00.000Z");
+
+    db.close();
+  });
+
+  it("schedules the other sources when one schedule never fires", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    syncCrawlSchedules(db, [{ ...govSource, schedule: "0 0 30 2 *" }, feedSource], new Date("2026-03-10T10:20:00.000Z"));
+    expect(getCrawlSchedules(db).map((schedule) => schedule.sourceName)).toEqual([feedSource.name]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("never fires"));
+
+    warn.mockRestore();
+    db.close();
+  });
+
+  it("runs only due sources and advances their next run", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    let now = new Date("2026-03-10T10:20:00.000Z");
+    const run = jest.fn(async (_sources: RegistrySource[]) => buildResult({ runId: 7 }));
+
+    const scheduler = startCrawlScheduler(db, "test-key", {
+      sources: [govSource, feedSource],
+      now: () => now,
+      run,
+    });
+
+    now = new Date("2026-03-10T11:00:30.000Z");
+    const tick = await scheduler.tick();
+    scheduler.stop();
+
+    expect(tick.dueSources).toEqual(["Gov Page"]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0].map((s) => s.name)).toEqual(["Gov Page"]);
+
+    const gov = getCrawlSchedules(db).find((s) => s.sourceName === "Gov Page");
+    expect(gov?.lastRunId).toBe(7);
+    expect(gov?.lastStatus).toBe("completed");
+    expect(gov?.nextRunAt).toBe("2026-03-10T12:00:00.000Z");
+
+    db.close();
+  });
+
+  it("records skipped runs while another crawl is running", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    let now = new Date("2026-03-10T10:20:00.000Z");
+    const run = jest.fn(async () => buildResult());
+
+    const scheduler = startCrawlScheduler(db, "test-key", { sources: [govSource], now: () => now, run });
+    startCrawlRun(db);
+
+    now = new Date("2026-03-10T11:01:00.000Z");
+    const tick = await scheduler.tick();
+    scheduler.stop();
+
+    expect(tick.skipped).toBe(true);
+    expect(run).not.toHaveBeenCalled();
+    const gov = getCrawlSchedules(db)[0];
+    expect(gov.skippedRuns).toBe(1);
+    expect(gov.lastSkipReason).toBe("crawl already running");
+    expect(gov.nextRunAt).toBe("2026-03-10T12:00:00.000Z");
+
+    db.close();
+  });
+});
+
+describe("GET /api/crawl/schedule", () => {
+  it("returns persisted schedules", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSampleData(db);
+    syncCrawlSchedules(db, [govSource, feedSource], new Date("2026-03-10T10:20:00.000Z"));
+    const app = createApp(db);
+
+    const response = await request(app).get("/api/crawl/schedule");
+    expect(response.status).toBe(200);
+    expect(response.body.items).toHaveLength(2);
+    expect(response.body.nextRunAt).toBe("2026-03-10T11:00:00.000Z");
+    expect(response.body.totalSkippedRuns).toBe(0);
+    expect(response.body.items[0]).toHaveProperty("cronExpression");
+
+    db.close();
+  });
+});
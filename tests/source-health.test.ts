@@ -0,0 +1,160 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import { crawlSource, type SourceCrawlResult } from "../src/crawler";
+import {
+  getQuarantinedSourceNames,
+  getSourceFailureStreak,
+  getSourceHealth,
+  initializeSchema,
+  openDatabase,
+  recordSourceCrawlResult,
+} from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const govSource: RegistrySource = {
+  name: "Gov Page",
+  url: "https://gov.example.com/policy/children",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "Test Country",
+  jurisdictionCountry: "Test Country",
+  reliabilityTier: 5,
+  description: "Government policy page",
+};
+
+function failedResult(error = "HTTP 404 Not Found") {
+  return { source: govSource, status: "failed" as const, statusCode: 404, latencyMs: 120, bytes: 0, itemCount: 0, error };
+}
+
+function okResult() {
+  return { source: govSource, status: "ok" as const, statusCode: 200, latencyMs: 80, bytes: 2048, itemCount: 1, error: null };
+}
+
+function mockStatus(status: number, body = "<html><head><title>Policy</title></head><body><p>Policy text</p></body></html>") {
+  const fetchMock = jest.fn(async () => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 404 ? "Not Found" : "",
+    text: () => Promise.resolve(body),
+  }));
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+describe("recordSourceCrawlResult", () => {
+  it("counts consecutive failures and quarantines at the threshold", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+
+    recordSourceCrawlResult(db, null, failedResult(), 3);
+    const second = recordSourceCrawlResult(db, null, failedResult(), 3);
+    expect(second).toMatchObject({ failureStreak: 2, quarantined: false });
+
+    const third = recordSourceCrawlResult(db, null, failedResult("fetch failed"), 3);
+    expect(third).toMatchObject({ failureStreak: 3, quarantined: true });
+    expect(getQuarantinedSourceNames(db)).toEqual(["Gov Page"]);
+
+    const [health] = getSourceHealth(db);
+    expect(health.health).toBe("quarantined");
+    expect(health.quarantineReason).toBe("3 consecutive failed crawls; last error: fetch failed");
+    expect(health.lastStatusCode).toBe(404);
+
+    db.close();
+  });
+
+  it("resets the streak after a successful crawl and ignores blocked runs", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+
+    recordSourceCrawlResult(db, null, failedResult());
+    recordSourceCrawlResult(db, null, failedResult());
+    const { sourceId } = recordSourceCrawlResult(db, null, okResult());
+    expect(getSourceFailureStreak(db, sourceId)).toBe(0);
+
+    recordSourceCrawlResult(db, null, failedResult());
+    recordSourceCrawlResult(db, null, { ...okResult(), status: "blocked", statusCode: null, itemCount: 0 });
+    expect(getSourceFailureStreak(db, sourceId)).toBe(1);
+
+    const [health] = getSourceHealth(db);
+    expect(health).toMatchObject({ health: "failing", totalRuns: 5, failedRuns: 3, lastStatus: "blocked" });
+    expect(health.lastSuccessAt).not.toBeNull();
+
+    db.close();
+  });
+});
+
+describe("crawlSource result reporting", () => {
+  it("reports the HTTP status and error of a failed source", async () => {
+    mockStatus(404);
+    const results: SourceCrawlResult[] = [];
+
+    const items = await crawlSource(govSource, { onSourceResult: (result) => results.push(result) });
+    expect(items).toHaveLength(0);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ status: "failed", statusCode: 404, itemCount: 0 });
+    expect(results[0].error).toContain("404");
+  });
+
+  it("reports bytes and item count of a successful source", async () => {
+    mockStatus(200);
+    const results: SourceCrawlResult[] = [];
+
+    await crawlSource(govSource, { onSourceResult: (result) => results.push(result) });
+    expect(results[0]).toMatchObject({ status: "ok", statusCode: 200, itemCount: 1, error: null });
+    expect(results[0].bytes).toBeGreaterThan(0);
+  });
+});
+
+describe("quarantine in the pipeline", () => {
+  it("quarantines a failing source and skips it on the next run", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const fetchMock = mockStatus(500);
+    const options = { sources: [govSource], respectRobotsTxt: false, hostMinDelayMs: 0, quarantineThreshold: 2 };
+
+    const first = await runPipeline(db, "test-key", options);
+    expect(first.sourcesFailed).toBe(1);
+    expect(first.sourcesQuarantined).toEqual([]);
+
+    const second = await runPipeline(db, "test-key", options);
+    expect(second.sourcesQuarantined).toEqual(["Gov Page"]);
+
+    fetchMock.mockClear();
+    const third = await runPipeline(db, "test-key", options);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(third.itemsCrawled).toBe(0);
+
+    db.close();
+  });
+});
+
+describe("source health API", () => {
+  it("summarises source health and releases quarantined sources", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const { sourceId } = recordSourceCrawlResult(db, null, failedResult(), 1);
+    const app = createApp(db);
+
+    const health = await request(app).get("/api/sources/health?health=quarantined");
+    expect(health.status).toBe(200);
+    expect(health.body.summary.quarantined).toBe(1);
+    expect(health.body.items).toHaveLength(1);
+    expect(health.body.items[0]).toMatchObject({ sourceId, name: "Gov Page", failureStreak: 1 });
+
+    expect((await request(app).get("/api/sources/health?health=broken")).status).toBe(400);
+    expect((await request(app).delete("/api/sources/999/quarantine")).status).toBe(404);
+
+    const released = await request(app).delete(`/api/sources/${sourceId}/quarantine`);
+    expect(released.body).toEqual({ sourceId, quarantined: false });
+    expect(getQuarantinedSourceNames(db)).toEqual([]);
+
+    db.close();
+  });
+});
@@ -0,0 +1,239 @@
+import request from "supertest";
+import { createApp } from "../src/app";
+import {
+  createSeenFeedItemStore,
+  getActiveSources,
+  getCrawlSchedules,
+  getSourceById,
+  initializeSchema,
+  listSources,
+  openDatabase,
+  updateSource,
+  upsertEvent,
+} from "../src/db";
+import { syncCrawlSchedules } from "../src/scheduler";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { sourceRegistry, twitterSearchSources, type RegistrySource } from "../src/sources";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const newSource = {
+  name: "Ohio Legislature Bills",
+  url: "https://www.legislature.ohio.gov/legislation/search",
+  type: "legal_database",
+  authorityType: "state",
+  jurisdiction: "Ohio",
+  jurisdictionCountry: "United States",
+  jurisdictionState: "Ohio",
+  reliabilityTier: 5,
+  searchKeywords: ["social media", "minors"],
+  description: "Ohio General Assembly bill search",
+  schedule: "0 */6 * * *",
+};
+
+function createDb() {
+  const db = openDatabase(":memory:");
+  initializeSchema(db);
+  return db;
+}
+
+describe("seedSourceRegistry", () => {
+  it("seeds every registry and X search source once", () => {
+    const db = createDb();
+    const total = sourceRegistry.length + twitterSearchSources.length;
+
+    expect(seedSourceRegistry(db)).toBe(total);
+    expect(seedSourceRegistry(db)).toBe(0);
+    expect(listSources(db)).toHaveLength(total);
+
+    const coppa = listSources(db).find((source) => source.name === "FTC Kids' Privacy (COPPA) News");
+    expect(coppa).toMatchObject({ type: "government_page", enabled: true, linkFollowDepth: 1, maxFollowedLinks: 10 });
+    const twitter = listSources(db, { type: "twitter_search" });
+    expect(twitter).toHaveLength(twitterSearchSources.length);
+    expect(twitter.every((source) => source.twitterQuery)).toBe(true);
+
+    db.close();
+  });
+
+  it("fills in source rows written by older crawls instead of duplicating them", () => {
+    const db = createDb();
+    const seed = sourceRegistry[0];
+    db.prepare(
+      "INSERT INTO sources (name, url, authority_type, jurisdiction, reliability_tier, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+    ).run(seed.name, seed.url, seed.authorityType, seed.jurisdiction, seed.reliabilityTier, "2025-01-01T00:00:00.000Z");
+
+    seedSourceRegistry(db, [seed]);
+    const sources = listSources(db);
+    expect(sources).toHaveLength(1);
+    expect(sources[0]).toMatchObject({ name: seed.name, type: seed.type, description: seed.description });
+
+    db.close();
+  });
+
+  it("does not re-add sources deleted after seeding", () => {
+    const db = createDb();
+    seedSourceRegistry(db, sourceRegistry.slice(0, 2));
+    db.prepare("DELETE FROM sources WHERE name = ?").run(sourceRegistry[0].name);
+
+    seedSourceRegistry(db, sourceRegistry.slice(0, 2));
+    expect(listSources(db).map((source) => source.name)).toEqual([sourceRegistry[1].name]);
+
+    db.close();
+  });
+});
+
+describe("sources API", () => {
+  it("creates, reads, updates and deletes a source", async () => {
+    const db = createDb();
+    const app = createApp(db);
+
+    const created = await request(app).post("/api/sources").send(newSource);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ ...newSource, enabled: true });
+    const id = created.body.id as number;
+
+    expect((await request(app).get(`/api/sources/${id}`)).body.name).toBe(newSource.name);
+
+    const updated = await request(app)
+      .patch(`/api/sources/${id}`)
+      .send({ enabled: false, reliabilityTier: 4, schedule: null, maxDocumentLinks: 3 });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ enabled: false, reliabilityTier: 4, maxDocumentLinks: 3 });
+    expect(updated.body.schedule).toBeUndefined();
+    expect(updated.body.searchKeywords).toEqual(newSource.searchKeywords);
+
+    const disabled = await request(app).get("/api/sources?enabled=false");
+    expect(disabled.body.items.map((source: { id: number }) => source.id)).toEqual([id]);
+
+    expect((await request(app).delete(`/api/sources/${id}`)).status).toBe(204);
+    expect((await request(app).get(`/api/sources/${id}`)).status).toBe(404);
+
+    db.close();
+  });
+
+  it("keeps a renamed source's schedule and seen feed items", async () => {
+    const db = createDb();
+    const created = await request(createApp(db)).post("/api/sources").send(newSource);
+    const seenFeedItems = createSeenFeedItemStore(db);
+    syncCrawlSchedules(db, [newSource as RegistrySource], new Date("2026-03-10T10:20:00.000Z"));
+    seenFeedItems.add(newSource.name, "bill-1", "2026-03-10T10:20:00.000Z");
+
+    updateSource(db, created.body.id, { name: "Ohio General Assembly Bills" });
+    expect(getCrawlSchedules(db).map((schedule) => schedule.sourceName)).toEqual(["Ohio General Assembly Bills"]);
+    expect(seenFeedItems.has("Ohio General Assembly Bills", "bill-1")).toBe(true);
+    expect(seenFeedItems.has(newSource.name, "bill-1")).toBe(false);
+    db.close();
+  });
+
+  it("validates source bodies", async () => {
+    const db = createDb();
+    const app = createApp(db);
+
+    const invalid = await request(app)
+      .post("/api/sources")
+      .send({ ...newSource, url: "ftp://example.com", type: "blog", reliabilityTier: 9, extra: true });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toContain("unknown field: extra");
+    expect(invalid.body.error).toContain("url must be an http(s) URL");
+    expect(invalid.body.error).toContain("type must be one of");
+    expect(invalid.body.error).toContain("reliabilityTier must be an integer between 1 and 5");
+
+    const { description: _description, ...withoutDescription } = newSource;
+    expect((await request(app).post("/api/sources").send(withoutDescription)).body.error).toBe("description is required");
+
+    const twitter = await request(app)
+      .post("/api/sources")
+      .send({ ...newSource, type: "twitter_search" });
+    expect(twitter.body.error).toBe("twitterQuery is required for twitter_search sources");
+
+    const badCron = await request(app).post("/api/sources").send({ ...newSource, schedule: "every hour" });
+    expect(badCron.body.error).toBe("schedule must be a 5-field cron expression");
+    const neverFires = await request(app).post("/api/sources").send({ ...newSource, schedule: "0 0 30 2 *" });
+    expect(neverFires.body.error).toBe("schedule must fire at least once a year");
+
+    const created = await request(app).post("/api/sources").send(newSource);
+    expect((await request(app).post("/api/sources").send(newSource)).status).toBe(409);
+    expect((await request(app).patch(`/api/sources/${created.body.id}`).send({})).status).toBe(400);
+    expect((await request(app).patch("/api/sources/999").send({ enabled: false })).status).toBe(404);
+    expect((await request(app).get("/api/sources?type=blog")).status).toBe(400);
+
+    db.close();
+  });
+
+  it("refuses to delete a source with recorded events", async () => {
+    const db = createDb();
+    const app = createApp(db);
+    const created = await request(app).post("/api/sources").send(newSource);
+
+    upsertEvent(db, {
+      title: "Ohio Social Media Parental Notification Act",
+      jurisdictionCountry: "United States",
+      jurisdictionState: "Ohio",
+      stage: "enacted",
+      isUnder16Applicable: true,
+      ageBracket: "13-15",
+      impactScore: 4,
+      likelihoodScore: 4,
+      confidenceScore: 4,
+      chiliScore: 4,
+      summary: "Parental consent for users under 16",
+      businessImpact: "Consent flows",
+      requiredSolutions: [],
+      affectedProducts: [],
+      competitorResponses: [],
+      rawText: "Ohio requires parental consent",
+      sourceUrlLink: newSource.url,
+      effectiveDate: null,
+      publishedDate: "2024-01-15",
+      sourceId: created.body.id,
+    });
+
+    const response = await request(app).delete(`/api/sources/${created.body.id}`);
+    expect(response.status).toBe(409);
+    expect(getSourceById(db, created.body.id)).not.toBeNull();
+
+    db.close();
+  });
+});
+
+describe("pipeline source selection", () => {
+  it("crawls only the enabled sources from the database", async () => {
+    const db = createDb();
+    const enabledSource: RegistrySource = {
+      name: "Gov Page",
+      url: "https://gov.example.com/policy/children",
+      type: "government_page",
+      authorityType: "national",
+      jurisdiction: "Test Country",
+      jurisdictionCountry: "Test Country",
+      reliabilityTier: 5,
+      description: "Government policy page",
+    };
+    seedSourceRegistry(db, [enabledSource, { ...enabledSource, name: "Disabled Page", url: "https://gov.example.com/old" }]);
+    const app = createApp(db);
+    const disabled = listSources(db).find((source) => source.name === "Disabled Page")!;
+    await request(app).patch(`/api/sources/${disabled.id}`).send({ enabled: false });
+
+    expect(getActiveSources(db).map((source) => source.name)).toEqual(["Gov Page"]);
+
+    const fetchMock = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve("<html><head><title>Policy</title></head><body><p>Policy text</p></body></html>"),
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await runPipeline(db, "test-key", { respectRobotsTxt: false, hostMinDelayMs: 0 });
+    expect(result.itemsCrawled).toBe(1);
+    const fetchedUrls = fetchMock.mock.calls.map((call) => String((call as unknown[])[0]));
+    expect(fetchedUrls).toContain(enabledSource.url);
+    expect(fetchedUrls).not.toContain("https://gov.example.com/old");
+
+    db.close();
+  });
+});
@@ -1,4 +1,4 @@
-import { sourceRegistry, getSourcesByJurisdiction, getSourcesByMinReliability, getRegisteredJurisdictions } from "../src/sources";
+import { sourceRegistry, twitterSearchSources, getSourcesByJurisdiction, getSourcesByMinReliability, getRegisteredJurisdictions } from "../src/sources";
 
 describe("source registry", () => {
   it("contains at least 20 sources", () => {
@@ -51,6 +51,11 @@ describe("source registry", () => {
     expect(unique.size).toBe(names.length);
   });
 
+  it("has unique source URLs, including X searches", () => {
+    const urls = [...sourceRegistry, ...twitterSearchSources].map((s) => s.url);
+    expect(new Set(urls).size).toBe(urls.length);
+  });
+
   it("getSourcesByJurisdiction returns correct sources", () => {
     const ukSources = getSourcesByJurisdiction("United Kingdom");
     expect(ukSources.length).toBeGreaterThanOrEqual(1);
@@ -0,0 +1,181 @@
+import { type CrawledItem } from "../src/crawler";
+import { ensureSource, getFeedbackExamples, initializeSchema, openDatabase, upsertEvent, type FeedbackExample } from "../src/db";
+import { runPipeline } from "../src/pipeline";
+import { seedSourceRegistry } from "../src/seed";
+import { type RegistrySource } from "../src/sources";
+import { createTriage, DEFAULT_TRIAGE_THRESHOLD, triageItems, triageThresholdFromEnv } from "../src/triage";
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const regulatorSource: RegistrySource = {
+  name: "Regulator",
+  url: "https://regulator.example.gov/children",
+  type: "government_page",
+  authorityType: "national",
+  jurisdiction: "United Kingdom",
+  jurisdictionCountry: "United Kingdom",
+  reliabilityTier: 5,
+  description: "Children's online safety regulator",
+};
+
+const sportsSource: RegistrySource = {
+  ...regulatorSource,
+  name: "Local news",
+  url: "https://news.example.com/sport",
+  reliabilityTier: 2,
+  description: "Local news",
+};
+
+const regulationText = "New regulation requires platforms likely to be accessed by children to verify ages.";
+const sportsText = "The under 16 football squad scored three goals to win the league tournament.";
+
+function itemFor(source: RegistrySource, title: string, text: string): CrawledItem {
+  return { source, url: source.url, title, text, fetchedAt: new Date().toISOString() };
+}
+
+describe("triage classifier", () => {
+  it("scores items on minors and regulation keywords", () => {
+    const triage = createTriage([]);
+    expect(triage).toMatchObject({ threshold: DEFAULT_TRIAGE_THRESHOLD, trainedOn: 0 });
+
+    const regulation = triage.decide(itemFor(regulatorSource, "Age checks", regulationText));
+    expect(regulation).toMatchObject({ relevant: true, score: 0.9 });
+    expect(regulation.confidence).toBeGreaterThan(0.8);
+
+    const sports = triage.decide(itemFor(sportsSource, "Match report", sportsText));
+    expect(sports).toMatchObject({ relevant: false, score: 0.1 });
+
+    const unrelated = triage.decide(itemFor(sportsSource, "Weather", "Sunny spells with a chance of rain this afternoon."));
+    expect(unrelated.relevant).toBe(false);
+    expect(unrelated.confidence).toBeGreaterThan(0.8);
+  });
+
+  it("lets bills from legislature sources through", () => {
+    const bill = {
+      ...itemFor(regulatorSource, "HB 1", "Relating to weather services."),
+      bill: { externalId: "1", identifier: "HB 1", title: "HB 1", stage: "introduced", history: [] },
+    } as unknown as CrawledItem;
+    expect(createTriage([]).decide(bill)).toEqual({ relevant: true, score: 1, confidence: 1 });
+  });
+
+  it("learns from good and bad feedback once there are enough ratings", () => {
+    const examples: FeedbackExample[] = [
+      ...["App store age ratings", "Default privacy settings for teens", "Age assurance duties"].map((text) => ({
+        rating: "good" as const,
+        text: `${text} under the online safety code`,
+      })),
+      ...["School sports day results", "Youth orchestra concert", "Children's book festival"].map((text) => ({
+        rating: "bad" as const,
+        text: `${text} festival results announced`,
+      })),
+    ];
+    const item = itemFor(sportsSource, "Youth festival", "Children's festival results announced for the youth orchestra.");
+
+    expect(createTriage(examples.slice(1)).trainedOn).toBe(0);
+    const untrained = createTriage(examples.slice(1), 0.5).decide(item);
+    const trained = createTriage(examples, 0.5);
+    expect(trained.trainedOn).toBe(6);
+    expect(untrained.relevant).toBe(true);
+    expect(trained.decide(item).relevant).toBe(false);
+    expect(trained.decide(itemFor(regulatorSource, "Age assurance", "Teens need age assurance under the online safety code.")).relevant).toBe(true);
+  });
+
+  it("splits items by decision and reads the threshold from the environment", () => {
+    const items = [itemFor(regulatorSource, "Age checks", regulationText), itemFor(sportsSource, "Match report", sportsText)];
+    const { passed, rejected } = triageItems(items, createTriage([]));
+    expect(passed).toEqual([items[0]]);
+    expect(rejected).toEqual([{ item: items[1], decision: expect.objectContaining({ relevant: false }) }]);
+    expect(triageItems(items, createTriage([], 0)).passed).toHaveLength(2);
+
+    expect(triageThresholdFromEnv({ TRIAGE_THRESHOLD: "0.6" })).toBe(0.6);
+    expect(triageThresholdFromEnv({ TRIAGE_THRESHOLD: "2" })).toBe(DEFAULT_TRIAGE_THRESHOLD);
+    expect(triageThresholdFromEnv({})).toBe(DEFAULT_TRIAGE_THRESHOLD);
+  });
+});
+
+describe("feedback examples", () => {
+  it("uses each rated event once with its latest rating", () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    const sourceId = ensureSource(db, regulatorSource);
+    upsertEvent(db, {
+      title: "Age checks",
+      jurisdictionCountry: "United Kingdom",
+      jurisdictionState: null,
+      stage: "proposed",
+      isUnder16Applicable: true,
+      ageBracket: "both",
+      impactScore: 3,
+      likelihoodScore: 3,
+      confidenceScore: 3,
+      chiliScore: 3,
+      summary: "Platforms must check ages.",
+      businessImpact: null,
+      requiredSolutions: null,
+      affectedProducts: null,
+      competitorResponses: null,
+      rawText: regulationText,
+      sourceUrlLink: regulatorSource.url,
+      effectiveDate: null,
+      publishedDate: null,
+      sourceId,
+    });
+    const { id } = db.prepare("SELECT id FROM regulation_events").get() as { id: string };
+    const rate = db.prepare("INSERT INTO feedback (event_id, rating, created_at) VALUES (?, ?, ?)");
+    rate.run(id, "bad", "2026-01-01T00:00:00.000Z");
+    rate.run(id, "good", "2026-01-02T00:00:00.000Z");
+
+    expect(getFeedbackExamples(db)).toEqual([{ rating: "good", text: `Age checks\nPlatforms must check ages.\n${regulationText}` }]);
+    db.close();
+  });
+});
+
+describe("pipeline triage", () => {
+  function mockCrawl() {
+    const pages: Record<string, [string, string]> = {
+      [regulatorSource.url]: ["Age checks", regulationText],
+      [sportsSource.url]: ["Match report", sportsText],
+    };
+    global.fetch = jest.fn(async (input: string) => {
+      const url = String(input);
+      if (url.startsWith("https://api.minimax.io/")) {
+        return { ok: true, json: async () => ({ content: [{ type: "text", text: JSON.stringify({ relevant: false }) }] }) };
+      }
+      const [title, text] = pages[url];
+      return { ok: true, status: 200, text: async () => `<html><head><title>${title}</title></head><body><main><p>${text}</p></main></body></html>` };
+    }) as unknown as typeof fetch;
+  }
+
+  function llmCalls(): number {
+    return (global.fetch as unknown as jest.Mock).mock.calls.filter(([input]) => String(input).startsWith("https://api.minimax.io/")).length;
+  }
+
+  const options = { respectRobotsTxt: false, hostMinDelayMs: 0, renderer: null, conditionalFetch: false, trackPageChanges: false };
+
+  it("sends only items that pass triage to full extraction", async () => {
+    const db = openDatabase(":memory:");
+    initializeSchema(db);
+    seedSourceRegistry(db, [regulatorSource, sportsSource]);
+    mockCrawl();
+
+    const result = await runPipeline(db, "test-key", options);
+    expect(result).toMatchObject({
+      itemsCrawled: 2,
+      triageThreshold: DEFAULT_TRIAGE_THRESHOLD,
+      itemsPassedTriage: 1,
+      itemsRejectedByTriage: 1,
+      itemsAnalyzed: 1,
+    });
+    expect(llmCalls()).toBe(1);
+
+    mockCrawl();
+    const unfiltered = await runPipeline(db, "test-key", { ...options, triageThreshold: 0, cacheAnalyses: false });
+    expect(unfiltered).toMatchObject({ triageThreshold: 0, itemsPassedTriage: 2, itemsRejectedByTriage: 0, itemsAnalyzed: 2 });
+    expect(llmCalls()).toBe(2);
+    db.close();
+  });
+});
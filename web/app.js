@@ -8,6 +8,7 @@ const state = {
     jurisdictions: [],
     stages: [],
     ageBracket: "",
+    age: "",
     fromDate: "",
     toDate: "",
     minRisk: 1,
@@ -19,6 +20,19 @@ const state = {
   selectedSavedSearchId: "",
 };
 
+const obligationLabels = {
+  age_assurance: "Age assurance",
+  parental_consent: "Parental consent",
+  default_privacy_settings: "Default privacy settings",
+  algorithmic_feed_restrictions: "Algorithmic feed restrictions",
+  ad_profiling_ban: "Ad profiling ban",
+  time_limits: "Time limits",
+  risk_assessment: "Risk assessment",
+  transparency_reporting: "Transparency reporting",
+  minimum_age: "Minimum age",
+  harmful_content_duties: "Harmful content duties",
+};
+
 const stageLabelMap = {
   proposed: "Proposed",
   introduced: "Introduced",
@@ -51,6 +65,29 @@ function formatDate(value) {
   });
 }
 
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Escaped text with the verified citation quotes that fall inside it marked */
+function highlightCitations(text, citations) {
+  const ranges = (citations || [])
+    .filter((citation) => citation.verified && citation.end <= text.length)
+    .sort((a, b) => a.start - b.start);
+  let html = "";
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start < position) continue;
+    html += `${escapeHtml(text.slice(position, range.start))}<mark>${escapeHtml(text.slice(range.start, range.end))}</mark>`;
+    position = range.end;
+  }
+  return html + escapeHtml(text.slice(position));
+}
+
 function chili(score) {
   return "🌶️".repeat(score) + "○".repeat(Math.max(0, 5 - score));
 }
@@ -106,6 +143,7 @@ function currentFiltersToQuery(page = state.eventsPage) {
   if (state.filters.jurisdictions.length) params.set("jurisdictions", state.filters.jurisdictions.join(","));
   if (state.filters.stages.length) params.set("stages", state.filters.stages.join(","));
   if (state.filters.ageBracket) params.set("ageBracket", state.filters.ageBracket);
+  if (state.filters.age !== "") params.set("age", state.filters.age);
   if (state.filters.fromDate) params.set("fromDate", state.filters.fromDate);
   if (state.filters.toDate) params.set("toDate", state.filters.toDate);
   params.set("minRisk", String(state.filters.minRisk));
@@ -133,6 +171,7 @@ function loadFilterState() {
 function applyFiltersToUI() {
   document.getElementById("search-input").value = state.filters.q;
   document.getElementById("age-bracket-filter").value = state.filters.ageBracket;
+  document.getElementById("age-filter").value = state.filters.age;
   document.getElementById("from-date").value = state.filters.fromDate;
   document.getElementById("to-date").value = state.filters.toDate;
   document.getElementById("min-risk").value = String(state.filters.minRisk);
@@ -163,6 +202,7 @@ function updateFiltersFromUI() {
   state.filters.jurisdictions = getMultiSelectValues("jurisdiction-filter");
   state.filters.stages = getMultiSelectValues("stage-filter");
   state.filters.ageBracket = document.getElementById("age-bracket-filter").value;
+  state.filters.age = document.getElementById("age-filter").value.trim();
   state.filters.fromDate = document.getElementById("from-date").value;
   state.filters.toDate = document.getElementById("to-date").value;
   state.filters.minRisk = Number(document.getElementById("min-risk").value);
@@ -181,7 +221,7 @@ async function loadDashboard() {
     setLoading("brief-container", 3);
     setLoading("notification-list", 2);
 
-    const [summary, heatmap, pipeline, trends, worldMap, brief, notifications] = await Promise.all([
+    const [summary, heatmap, pipeline, trends, worldMap, brief, notifications, sourceHealth] = await Promise.all([
       fetchJson(`${API_BASE}/analytics/summary`),
       fetchJson(`${API_BASE}/analytics/heatmap`),
       fetchJson(`${API_BASE}/analytics/pipeline`),
@@ -189,6 +229,7 @@ async function loadDashboard() {
       fetchJson(`${API_BASE}/analytics/world-map`),
       fetchJson(`${API_BASE}/brief?limit=6`),
       fetchJson(`${API_BASE}/notifications?unreadOnly=true`),
+      fetchJson(`${API_BASE}/sources/health`),
     ]);
 
     renderSummary(summary);
@@ -198,6 +239,7 @@ async function loadDashboard() {
     renderWorldMap(worldMap.points || []);
     renderBrief(brief.items || []);
     renderNotifications(notifications.items || []);
+    renderSourceHealth(sourceHealth);
 
     document.getElementById("last-updated").textContent = formatDate(brief.generatedAt || new Date().toISOString());
     document.getElementById("last-crawled").textContent = brief.lastCrawledAt ? formatDate(brief.lastCrawledAt) : "Never";
@@ -411,6 +453,70 @@ function renderNotifications(items) {
   });
 }
 
+const healthColorMap = {
+  healthy: "#16a34a",
+  failing: "#d97706",
+  quarantined: "#dc2626",
+  unknown: "#64748b",
+};
+
+function renderSourceHealth(data) {
+  const container = document.getElementById("source-health-container");
+  const summary = data.summary || {};
+  document.getElementById("source-health-summary").textContent =
+    `${summary.healthy || 0} healthy · ${summary.failing || 0} failing · ${summary.quarantined || 0} quarantined`;
+  container.innerHTML = "";
+
+  const items = (data.items || []).filter((item) => item.health === "failing" || item.health === "quarantined");
+  if (!items.length) {
+    container.textContent = "All crawled sources are healthy.";
+    return;
+  }
+
+  const table = document.createElement("table");
+  table.className = "events-table";
+  table.innerHTML = `
+    <thead>
+      <tr>
+        <th>Source</th>
+        <th>Health</th>
+        <th>Failure Streak</th>
+        <th>Last Status</th>
+        <th>Last Error</th>
+        <th>Last Success</th>
+        <th>Actions</th>
+      </tr>
+    </thead>
+  `;
+
+  const tbody = document.createElement("tbody");
+  items.forEach((item) => {
+    const row = document.createElement("tr");
+    row.innerHTML = `
+      <td><a href="${item.url}" target="_blank" rel="noopener noreferrer">${item.name} ↗</a></td>
+      <td><span class="badge stage-badge" style="background:${healthColorMap[item.health]}" title="${item.quarantineReason || ""}">${item.health}</span></td>
+      <td>${item.failureStreak}</td>
+      <td>${item.lastStatusCode ?? "-"}</td>
+      <td>${item.lastError || "-"}</td>
+      <td>${item.lastSuccessAt ? formatDate(item.lastSuccessAt) : "Never"}</td>
+      <td>${item.health === "quarantined" ? `<button class="btn btn-secondary" data-source-id="${item.sourceId}">Release</button>` : ""}</td>
+    `;
+
+    const releaseButton = row.querySelector("[data-source-id]");
+    if (releaseButton) {
+      releaseButton.addEventListener("click", async () => {
+        await fetchJson(`${API_BASE}/sources/${item.sourceId}/quarantine`, { method: "DELETE" });
+        showToast(`${item.name} released from quarantine`);
+        loadDashboard();
+      });
+    }
+    tbody.appendChild(row);
+  });
+
+  table.appendChild(tbody);
+  container.appendChild(table);
+}
+
 function renderEventsTable(data) {
   const container = document.getElementById("events-container");
   container.innerHTML = "";
@@ -596,6 +702,20 @@ async function showLawDetail(lawKey) {
     `)
     .join("");
 
+  const billsHtml = (detail.bills || [])
+    .map((bill) => `
+      <p><a href="${bill.url}" target="_blank" rel="noopener">${bill.identifier}</a>${bill.session ? ` (${bill.session})` : ""}</p>
+      <div class="timeline">${bill.stageHistory
+        .map((change) => `
+          <div class="timeline-item">
+            <div><strong>${stageLabelMap[change.stage] || change.stage}</strong>: ${change.action}</div>
+            <div class="time">${formatDate(change.date)}</div>
+          </div>
+        `)
+        .join("")}</div>
+    `)
+    .join("");
+
   const updatesHtml = (detail.updates || [])
     .slice(0, 20)
     .map((update) => `
@@ -610,10 +730,13 @@ async function showLawDetail(lawKey) {
   content.innerHTML = `
     <p><strong>Law:</strong> ${detail.lawName}</p>
     <p><strong>Jurisdiction:</strong> ${detail.jurisdiction.flag || "🌐"} ${detail.jurisdiction.country}${detail.jurisdiction.state ? ` / ${detail.jurisdiction.state}` : ""}</p>
-    <p><strong>Status:</strong> ${stageLabelMap[detail.stage] || detail.stage} · <strong>Updates:</strong> ${detail.updateCount}</p>
+    <p><strong>Status:</strong> ${stageLabelMap[detail.stage] || detail.stage}${detail.stageSource === "legislature" ? " (legislature record)" : ""} · <strong>Updates:</strong> ${detail.updateCount}</p>
     <p><strong>Risk:</strong> ${chili(detail.scores.chili)} (max ${detail.risk.max}, recent ${detail.risk.recentWeighted})</p>
     <p><strong>Latest summary:</strong> ${detail.summary || "No summary"}</p>
-
+${billsHtml ? `
+    <h4>Bill Stage History</h4>
+    ${billsHtml}
+` : ""}
     <h4>Law Update Timeline</h4>
     <div class="timeline">${timelineHtml || "<div class='timeline-item'>No timeline entries</div>"}</div>
 
@@ -642,6 +765,70 @@ async function showEventDetail(eventId, editMode = false) {
     `)
     .join("");
 
+  // Non-English sources show the original excerpt next to its translation for checking the summary
+  const sourceTextHtml = detail.translatedText
+    ? `
+    <h4>Source Text</h4>
+    <div class="source-text">
+      <div><strong>Original (${escapeHtml(detail.language)})</strong><pre>${highlightCitations(detail.originalText || "", detail.citations)}</pre></div>
+      <div><strong>English translation</strong><pre>${escapeHtml(detail.translatedText)}</pre></div>
+    </div>
+  `
+    : "";
+
+  const claimLabels = { provision: "Provision", date: "Date", age_threshold: "Age threshold" };
+  const claimsHtml = (detail.claims || []).length
+    ? `
+    <h4>Extracted From the Document</h4>
+    <ul>${detail.claims.map((claim) => `
+      <li><strong>${claimLabels[claim.kind] || claim.kind}${claim.value ? ` (${escapeHtml(claim.value)})` : ""}:</strong> ${escapeHtml(claim.text)}
+        <div class="claim-quote">Section ${claim.chunkIndex + 1} · “${escapeHtml(claim.quote)}”</div></li>
+    `).join("")}</ul>
+  `
+    : "";
+
+  const ageRuleLabels = {
+    ban: "Ban",
+    parental_consent: "Parental consent",
+    age_verification: "Age verification",
+    restriction: "Restriction",
+    other: "Applies",
+  };
+  const ageRange = (threshold) =>
+    threshold.minAge === null
+      ? `Under ${threshold.maxAge + 1}`
+      : threshold.maxAge === null
+        ? `${threshold.minAge} and over`
+        : `${threshold.minAge}–${threshold.maxAge}`;
+  const ageThresholdsHtml = (detail.ageThresholds || []).length
+    ? `
+    <h4>Ages Affected</h4>
+    <ul>${detail.ageThresholds.map((threshold) => `
+      <li><strong>${ageRange(threshold)} · ${ageRuleLabels[threshold.rule] || threshold.rule}:</strong> ${escapeHtml(threshold.text)}</li>
+    `).join("")}</ul>
+  `
+    : "";
+
+  const obligationsHtml = (detail.obligations || []).length
+    ? `
+    <h4>Obligations</h4>
+    <ul>${detail.obligations.map((obligation) => `
+      <li><strong>${obligationLabels[obligation.type] || obligation.type}${obligation.provision ? ` (${escapeHtml(obligation.provision)})` : ""}:</strong> ${escapeHtml(obligation.text)}</li>
+    `).join("")}</ul>
+  `
+    : "";
+
+  const citationLabels = { effective_date: "Effective date", age_threshold: "Age threshold", penalty: "Penalty", stage: "Stage" };
+  const citationsHtml = (detail.citations || []).length
+    ? `
+    <h4>Supporting Quotes</h4>
+    <ul>${detail.citations.map((citation) => `
+      <li><strong>${citationLabels[citation.claim] || citation.claim}:</strong> “${escapeHtml(citation.quote)}”
+        <span class="claim-quote">${citation.verified ? "✓ found in source text" : "✗ not found in source text"}</span></li>
+    `).join("")}</ul>
+  `
+    : "";
+
   const relatedHtml = (detail.relatedEvents || [])
     .map((item) => `<li>${item.jurisdiction.flag || "🌐"} ${item.title} (${item.stage})</li>`)
     .join("") || "<li>No related events</li>";
@@ -651,7 +838,12 @@ async function showEventDetail(eventId, editMode = false) {
     <p><strong>Stage:</strong> ${stageLabelMap[detail.stage] || detail.stage} · <strong>Risk:</strong> ${chili(detail.scores.chili)}</p>
     <p><strong>Summary:</strong> ${detail.summary || "No summary"}</p>
     <p><strong>Business impact:</strong> ${detail.businessImpact || "Not provided"}</p>
-    <p><strong>Source:</strong> <a href="${detail.source.url}" target="_blank" rel="noopener">${detail.source.name} ↗</a></p>
+    <p><strong>Source:</strong> <a href="${detail.source.url}" target="_blank" rel="noopener">${detail.source.name} ↗</a>${detail.language ? ` · <strong>Language:</strong> ${escapeHtml(detail.language)}` : ""}</p>
+    ${obligationsHtml}
+    ${ageThresholdsHtml}
+    ${citationsHtml}
+    ${sourceTextHtml}
+    ${claimsHtml}
 
     <h4>Regulatory Timeline</h4>
     <div class="timeline">${timelineHtml}</div>
@@ -886,6 +1078,7 @@ function clearFilters() {
     jurisdictions: [],
     stages: [],
     ageBracket: "",
+    age: "",
     fromDate: "",
     toDate: "",
     minRisk: 1,